@@ -0,0 +1,17 @@
+const { withMiddleware } = require('../_middleware/handler');
+const bookSearchService = require('../../backend/src/services/bookSearchService');
+
+const handler = async (req, res) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return {
+    success: true,
+    data: {
+      providers: bookSearchService.providers.describe()
+    }
+  };
+};
+
+module.exports = withMiddleware(handler);
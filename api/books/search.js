@@ -11,14 +11,20 @@ const handler = async (req, res) => {
       q: query,
       type = 'general',
       limit = 10,
-      includeAudiobooks = 'false'
+      includeAudiobooks = 'false',
+      providers,
+      cursor,
+      ...filters
     } = req.query;
 
     const result = await searchBooks({
       query,
       type,
       limit,
-      includeAudiobooks
+      includeAudiobooks,
+      providers,
+      cursor,
+      filters
     });
 
     return result;
@@ -0,0 +1,15 @@
+const { withMiddleware } = require('../_middleware/handler');
+const responseCache = require('../../backend/src/lib/responseCache');
+
+const handler = async (req, res) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return {
+    success: true,
+    data: responseCache.getStats()
+  };
+};
+
+module.exports = withMiddleware(handler);
@@ -0,0 +1,20 @@
+const { withMiddleware } = require('../_middleware/handler');
+const seriesCatalog = require('../../backend/src/services/seriesCatalogService');
+
+const handler = async (req, res) => {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const series = seriesCatalog.list(req.query.q);
+
+  return {
+    success: true,
+    data: {
+      series,
+      total: series.length
+    }
+  };
+};
+
+module.exports = withMiddleware(handler);
@@ -0,0 +1,333 @@
+/**
+ * Local Notion stand-in for development and manual testing.
+ *
+ * Implements the slice of the Notion API the backend uses (search, data sources, pages, page
+ * content blocks, users and file uploads) in memory, so book pages, page content and cover
+ * uploads can be exercised without a workspace. Start it, then run the backend with NOTION_API_URL pointing at it:
+ *
+ *   npm run notion:stand-in
+ *   NOTION_API_URL=http://localhost:4010/v1 NOTION_INTEGRATION_TOKEN=stand-in npm run dev
+ *
+ * GET /__stand-in/state lists the pages and uploads received; GET /__stand-in/files/:id serves
+ * the bytes of an uploaded file.
+ */
+const express = require('express');
+const crypto = require('crypto');
+
+const port = parseInt(process.env.NOTION_STAND_IN_PORT, 10) || 4010;
+const now = () => new Date().toISOString();
+const text = (content) => [{ type: 'text', text: { content }, plain_text: content }];
+
+const BOOKS_DATA_SOURCE_ID = 'stand-in-books';
+const dataSources = {
+  [BOOKS_DATA_SOURCE_ID]: {
+    object: 'data_source',
+    id: BOOKS_DATA_SOURCE_ID,
+    title: text('Books (stand-in)'),
+    database_parent: { database_id: 'stand-in-books-db' },
+    properties: {
+      Title: { id: 'title', type: 'title', title: {} },
+      Authors: { id: 'auth', type: 'multi_select', multi_select: { options: [] } },
+      Description: { id: 'desc', type: 'rich_text', rich_text: {} },
+      ISBN: { id: 'isbn', type: 'rich_text', rich_text: {} },
+      Publisher: { id: 'pub', type: 'select', select: { options: [] } },
+      'Page Count': { id: 'page', type: 'number', number: {} },
+      Categories: { id: 'cat', type: 'multi_select', multi_select: { options: [] } },
+      'Release Date': { id: 'date', type: 'date', date: {} },
+      Cover: { id: 'cover', type: 'files', files: {} },
+      Status: {
+        id: 'status',
+        type: 'status',
+        status: {
+          options: [
+            { id: 'to-read', name: 'To Read', color: 'default' },
+            { id: 'reading', name: 'Reading', color: 'blue' },
+            { id: 'read', name: 'Read', color: 'green' }
+          ],
+          groups: [
+            { id: 'group-to-do', name: 'To-do', option_ids: ['to-read'] },
+            { id: 'group-in-progress', name: 'In progress', option_ids: ['reading'] },
+            { id: 'group-complete', name: 'Complete', option_ids: ['read'] }
+          ]
+        }
+      },
+      'Date Added': { id: 'added', type: 'date', date: {} },
+      Owned: { id: 'owned', type: 'checkbox', checkbox: {} }
+    }
+  }
+};
+const pages = new Map();
+const pageBlocks = new Map();
+const fileUploads = new Map();
+
+const app = express();
+app.use(express.json({ limit: '5mb' }));
+
+app.use('/v1', (req, res, next) => {
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    return res.status(401).json({ object: 'error', status: 401, code: 'unauthorized', message: 'API token is invalid.' });
+  }
+  console.log(`${req.method} ${req.originalUrl}`);
+  next();
+});
+
+const notFound = (res, message) =>
+  res.status(404).json({ object: 'error', status: 404, code: 'object_not_found', message });
+const invalid = (res, message) =>
+  res.status(400).json({ object: 'error', status: 400, code: 'validation_error', message });
+
+const bot = { object: 'user', id: 'stand-in-bot', type: 'bot', name: 'Notion Stand-in', bot: {} };
+const person = { object: 'user', id: 'stand-in-person', type: 'person', name: 'Stand-in Reader', person: { email: 'reader@example.com' } };
+
+app.get('/v1/users/me', (req, res) => res.json(bot));
+app.get('/v1/users', (req, res) => res.json({ object: 'list', results: [bot, person], has_more: false, next_cursor: null }));
+
+app.post('/v1/search', (req, res) => {
+  res.json({ object: 'list', results: Object.values(dataSources), has_more: false, next_cursor: null });
+});
+
+app.get('/v1/databases/:id', (req, res) => {
+  const dataSource = Object.values(dataSources).find(ds => ds.database_parent.database_id === req.params.id);
+  if (!dataSource) return notFound(res, `Could not find database with ID: ${req.params.id}.`);
+  res.json({ object: 'database', id: req.params.id, title: dataSource.title, data_sources: [{ id: dataSource.id, name: dataSource.title[0].plain_text }] });
+});
+
+app.get('/v1/data_sources/:id', (req, res) => {
+  const dataSource = dataSources[req.params.id];
+  if (!dataSource) return notFound(res, `Could not find data source with ID: ${req.params.id}.`);
+  res.json(dataSource);
+});
+
+// Comparable value of a page property or timestamp, for filters and sorts
+const readValue = (page, { property, timestamp }) => {
+  if (timestamp) return page[timestamp];
+  const value = page.properties[property] || {};
+  if (value.title || value.rich_text) return (value.title || value.rich_text).map(part => part.text?.content || '').join('');
+  if (value.select || value.status) return (value.select || value.status).name;
+  if (value.multi_select) return value.multi_select.map(option => option.name);
+  if (value.relation) return value.relation.map(relation => relation.id);
+  if (value.date) return value.date.start;
+  if ('number' in value) return value.number;
+  if ('checkbox' in value) return value.checkbox;
+  return null;
+};
+
+// The and/or trees and the conditions the backend sends; other conditions match everything
+const matchesFilter = (page, filter) => {
+  if (!filter) return true;
+  if (filter.and) return filter.and.every(condition => matchesFilter(page, condition));
+  if (filter.or) return filter.or.some(condition => matchesFilter(page, condition));
+
+  const value = readValue(page, filter);
+  const condition = filter.title || filter.rich_text || filter.select || filter.status || filter.multi_select
+    || filter.relation || filter.date || filter.created_time || {};
+  if (Array.isArray(value)) {
+    return condition.contains === undefined || value.includes(condition.contains);
+  }
+  const text = value == null ? '' : String(value);
+  if (condition.equals !== undefined) return text === condition.equals;
+  if (condition.contains !== undefined) return text.toLowerCase().includes(String(condition.contains).toLowerCase());
+  if (condition.on_or_after !== undefined) return Boolean(text) && text.slice(0, 10) >= condition.on_or_after.slice(0, 10);
+  if (condition.on_or_before !== undefined) return Boolean(text) && text.slice(0, 10) <= condition.on_or_before.slice(0, 10);
+  return true;
+};
+
+app.post('/v1/data_sources/:id/query', (req, res) => {
+  if (!dataSources[req.params.id]) return notFound(res, `Could not find data source with ID: ${req.params.id}.`);
+  const results = Array.from(pages.values())
+    .filter(page => page.parent.data_source_id === req.params.id && matchesFilter(page, req.body?.filter));
+
+  for (const sort of [...(req.body?.sorts || [])].reverse()) {
+    const direction = sort.direction === 'descending' ? -1 : 1;
+    results.sort((a, b) => {
+      const left = readValue(a, sort);
+      const right = readValue(b, sort);
+      if (left == null || right == null) return left == null ? (right == null ? 0 : 1) : -1;
+      const [l, r] = [left, right].map(value => Array.isArray(value) ? value.join() : value);
+      if (l === r) return 0;
+      return l > r ? direction : -direction;
+    });
+  }
+
+  // Cursors are offsets into the sorted results
+  const start = parseInt(req.body?.start_cursor, 10) || 0;
+  const end = start + (req.body?.page_size || 100);
+  res.json({
+    object: 'list',
+    results: results.slice(start, end),
+    has_more: end < results.length,
+    next_cursor: end < results.length ? String(end) : null
+  });
+});
+
+// File uploads referenced by a page must exist and have been sent
+const resolveFile = (file) => {
+  if (file?.type !== 'file_upload') return file;
+  const upload = fileUploads.get(file.file_upload?.id);
+  if (!upload || upload.status !== 'uploaded') {
+    throw new Error(`File upload ${file.file_upload?.id} is not in the uploaded state.`);
+  }
+  return {
+    type: 'file',
+    ...(file.name ? { name: file.name } : {}),
+    file: { url: `http://localhost:${port}/__stand-in/files/${upload.id}`, expiry_time: null }
+  };
+};
+
+// Values of a property nobody has set, by type
+const EMPTY_VALUES = {
+  title: [], rich_text: [], multi_select: [], relation: [], people: [], files: [], checkbox: false
+};
+
+// Page property values as Notion returns them: with the property's id and type, and rich text with plain_text
+const toStoredValue = (schemaProperty, value) => {
+  const { id, type } = schemaProperty;
+  let stored = value[type] === undefined ? (EMPTY_VALUES[type] ?? null) : value[type];
+  if (type === 'title' || type === 'rich_text') {
+    stored = stored.map(part => ({ type: 'text', ...part, plain_text: part.plain_text ?? part.text?.content ?? '' }));
+  }
+  if (type === 'files') stored = stored.map(resolveFile);
+  return { id, type, [type]: stored };
+};
+
+const applyPageData = (page, body) => {
+  const schema = dataSources[page.parent.data_source_id].properties;
+  for (const [name, value] of Object.entries(body.properties || {})) {
+    if (!schema[name]) throw new Error(`${name} is not a property that exists.`);
+    page.properties[name] = toStoredValue(schema[name], value);
+  }
+  // null removes the icon or cover
+  if (body.icon !== undefined) page.icon = body.icon && resolveFile(body.icon);
+  if (body.cover !== undefined) page.cover = body.cover && resolveFile(body.cover);
+  page.last_edited_time = now();
+};
+
+app.post('/v1/pages', (req, res) => {
+  const parentId = req.body?.parent?.data_source_id || req.body?.parent?.database_id;
+  const dataSource = dataSources[parentId] || Object.values(dataSources).find(ds => ds.database_parent.database_id === parentId);
+  if (!dataSource) return notFound(res, `Could not find data source with ID: ${parentId}.`);
+
+  const id = crypto.randomUUID();
+  const page = {
+    object: 'page',
+    id,
+    created_time: now(),
+    last_edited_time: now(),
+    parent: { type: 'data_source_id', data_source_id: dataSource.id },
+    // Pages list every property of their data source, empty until set
+    properties: Object.fromEntries(Object.entries(dataSource.properties)
+      .map(([name, property]) => [name, toStoredValue(property, {})])),
+    icon: null,
+    cover: null,
+    url: `http://localhost:${port}/__stand-in/pages/${id}`
+  };
+  try {
+    applyPageData(page, req.body);
+  } catch (error) {
+    return invalid(res, error.message);
+  }
+  if ((req.body.children || []).length > 100) return invalid(res, 'body.children.length should be ≤ 100.');
+  pages.set(id, page);
+  pageBlocks.set(id, req.body.children || []);
+  res.json(page);
+});
+
+app.get('/v1/pages/:id', (req, res) => {
+  const page = pages.get(req.params.id);
+  if (!page) return notFound(res, `Could not find page with ID: ${req.params.id}.`);
+  res.json(page);
+});
+
+app.patch('/v1/pages/:id', (req, res) => {
+  const page = pages.get(req.params.id);
+  if (!page) return notFound(res, `Could not find page with ID: ${req.params.id}.`);
+  try {
+    applyPageData(page, req.body);
+  } catch (error) {
+    return invalid(res, error.message);
+  }
+  if (typeof req.body.archived === 'boolean') page.archived = req.body.archived;
+  if (typeof req.body.in_trash === 'boolean') page.in_trash = req.body.in_trash;
+  res.json(page);
+});
+
+app.patch('/v1/blocks/:id/children', (req, res) => {
+  if (!pageBlocks.has(req.params.id)) return notFound(res, `Could not find block with ID: ${req.params.id}.`);
+  const children = req.body?.children || [];
+  if (children.length > 100) return invalid(res, 'body.children.length should be ≤ 100.');
+  pageBlocks.get(req.params.id).push(...children);
+  res.json({ object: 'list', results: children, has_more: false, next_cursor: null });
+});
+
+app.get('/v1/blocks/:id/children', (req, res) => {
+  if (!pageBlocks.has(req.params.id)) return notFound(res, `Could not find block with ID: ${req.params.id}.`);
+  res.json({ object: 'list', results: pageBlocks.get(req.params.id), has_more: false, next_cursor: null });
+});
+
+app.post('/v1/file_uploads', (req, res) => {
+  const { filename, content_type: contentType, mode = 'single_part' } = req.body || {};
+  if (mode !== 'single_part') return invalid(res, 'The stand-in only supports single_part uploads.');
+  const id = crypto.randomUUID();
+  const upload = {
+    object: 'file_upload',
+    id,
+    created_time: now(),
+    status: 'pending',
+    filename: filename || null,
+    content_type: contentType || null,
+    content_length: null,
+    upload_url: `http://localhost:${port}/v1/file_uploads/${id}/send`
+  };
+  fileUploads.set(id, upload);
+  res.json(upload);
+});
+
+// The file arrives as multipart/form-data with a single "file" part
+app.post('/v1/file_uploads/:id/send', express.raw({ type: 'multipart/form-data', limit: '25mb' }), (req, res) => {
+  const upload = fileUploads.get(req.params.id);
+  if (!upload) return notFound(res, `Could not find file upload with ID: ${req.params.id}.`);
+  if (upload.status !== 'pending') return invalid(res, `File upload is already ${upload.status}.`);
+
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(req.headers['content-type'] || '');
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const delimiter = Buffer.from(`--${boundary?.[1] || boundary?.[2]}`);
+  const partStart = body.indexOf(delimiter);
+  const headerEnd = body.indexOf('\r\n\r\n', partStart);
+  const partEnd = body.indexOf(Buffer.from(`\r\n${delimiter}`), headerEnd);
+  if (!boundary || partStart < 0 || headerEnd < 0 || partEnd < 0) {
+    return invalid(res, 'Expected a multipart/form-data body with a "file" part.');
+  }
+
+  const headers = body.subarray(partStart, headerEnd).toString();
+  upload.data = body.subarray(headerEnd + 4, partEnd);
+  upload.content_length = upload.data.length;
+  upload.content_type = /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] || upload.content_type;
+  upload.status = 'uploaded';
+
+  const { data, ...response } = upload;
+  res.json(response);
+});
+
+app.get('/v1/file_uploads/:id', (req, res) => {
+  const upload = fileUploads.get(req.params.id);
+  if (!upload) return notFound(res, `Could not find file upload with ID: ${req.params.id}.`);
+  const { data, ...response } = upload;
+  res.json(response);
+});
+
+app.get('/__stand-in/state', (req, res) => {
+  res.json({
+    pages: Array.from(pages.values()).map(page => ({ ...page, children: pageBlocks.get(page.id) })),
+    fileUploads: Array.from(fileUploads.values()).map(({ data, ...upload }) => upload)
+  });
+});
+
+app.get('/__stand-in/files/:id', (req, res) => {
+  const upload = fileUploads.get(req.params.id);
+  if (!upload?.data) return res.status(404).end();
+  res.type(upload.content_type || 'application/octet-stream').send(upload.data);
+});
+
+app.listen(port, () => {
+  console.log(`🧪 Notion stand-in listening on http://localhost:${port}/v1`);
+});
@@ -1,5 +1,6 @@
 const bookSearchService = require('../../services/bookSearchService');
 const { ValidationError } = require('../../lib/errors');
+const { parseSearchFilters } = require('../../utils/searchFilters');
 
 /**
  * Search for books using enhanced service
@@ -8,13 +9,19 @@ const { ValidationError } = require('../../lib/errors');
  * @param {string} params.type - Search type (isbn, title, author, general)
  * @param {number} params.limit - Max results (1-40)
  * @param {boolean|string} params.includeAudiobooks - Whether to include audiobooks
+ * @param {string} params.providers - Comma-separated metadata provider IDs in priority order
+ * @param {string} params.cursor - nextCursor from the previous page, for pagination
+ * @param {Object} params.filters - Raw filter parameters (yearFrom, yearTo, language, minPages, maxPages, format, hasAudiobook)
  * @returns {Promise<Object>} Search results
  */
 const searchBooks = async ({
   query,
   type = 'general',
   limit = 10,
-  includeAudiobooks = false
+  includeAudiobooks = false,
+  providers,
+  cursor,
+  filters: rawFilters = {}
 }) => {
   // Validation
   if (!query || query.trim() === '') {
@@ -39,13 +46,22 @@ const searchBooks = async ({
     audiobookOption = 'top';
   }
 
+  const filters = parseSearchFilters(rawFilters);
+
   console.log(`📚 Book search request: "${query}" (type: ${type}, limit: ${maxResults}${
     audiobookOption ? audiobookOption === 'top' ? ', with audiobook for top result' : ', with audiobooks' : ''
-  })`);
+  }${filters ? `, filters: ${JSON.stringify(filters)}` : ''})`);
 
   try {
     // Search books using enhanced service
-    const result = await bookSearchService.searchBooks(query, type, maxResults, audiobookOption);
+    const providerIds = providers
+      ? String(providers).split(',').map(id => id.trim()).filter(Boolean)
+      : undefined;
+    const result = await bookSearchService.searchBooks(query, type, maxResults, audiobookOption, {
+      providers: providerIds,
+      cursor,
+      filters
+    });
 
     // Log search results
     console.log(`✅ Found ${result.books.length} books for query: "${query}"`);
@@ -82,7 +98,11 @@ const searchBooks = async ({
         totalItems: result.totalItems,
         returnedItems: result.books.length,
         books: result.books,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        filters,
         source: result.source,
+        sources: result.sources,
         enhancedWithOriginalDates: booksWithOriginalDates.length,
         includeAudiobooks: audiobookOption
       }
@@ -1,5 +1,8 @@
 const axios = require('axios');
 
+// Notion API base URL; point NOTION_API_URL at a local Notion stand-in to develop without a workspace
+const NOTION_API_URL = (process.env.NOTION_API_URL || 'https://api.notion.com/v1').replace(/\/$/, '');
+
 // Shared axios configuration
 const createAxiosInstance = (baseURL, defaultHeaders = {}) => {
   return axios.create({
@@ -11,7 +14,7 @@ const createAxiosInstance = (baseURL, defaultHeaders = {}) => {
 
 // Notion API instance
 const createNotionAxios = (token) => {
-  return createAxiosInstance('https://api.notion.com/v1', {
+  return createAxiosInstance(NOTION_API_URL, {
     'Authorization': `Bearer ${token}`,
     'Notion-Version': '2025-09-03',
     'Content-Type': 'application/json'
@@ -40,6 +43,7 @@ const createOpenLibraryAxios = () => {
 };
 
 module.exports = {
+  NOTION_API_URL,
   createAxiosInstance,
   createNotionAxios,
   createGoogleBooksAxios,
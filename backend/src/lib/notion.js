@@ -1,5 +1,9 @@
 const { createNotionAxios } = require('./axios');
 const { ExternalAPIError, NotFoundError } = require('./errors');
+const { readPropertyValue } = require('../utils/notionProperties');
+
+// Linked pages read at once, to stay inside Notion's rate limit
+const RELATION_BATCH_SIZE = 10;
 
 /**
  * Make authenticated request to Notion API
@@ -62,7 +66,61 @@ const getNotionToken = (user) => {
   throw new ExternalAPIError('No Notion token available', 401);
 };
 
+/**
+ * Resolve the data source of a database: the given data source, else the database's first one.
+ * Databases without data sources, and IDs that are not databases, are used as data source IDs.
+ * @param {string} token - Notion integration token
+ * @param {string} databaseId - Database ID (or a data source ID)
+ * @param {string|null} dataSourceId - Data source ID, when already known
+ * @returns {Promise<string>} Data source ID
+ */
+const resolveDataSourceId = async (token, databaseId, dataSourceId = null) => {
+  if (dataSourceId) {
+    return dataSourceId;
+  }
+
+  try {
+    // Try to get database and find its first data source
+    const database = await notionRequest(token, 'GET', `/databases/${databaseId}`);
+    if (database.data_sources && database.data_sources.length > 0) {
+      console.log(`Found ${database.data_sources.length} data sources for database ${databaseId}`);
+      return database.data_sources[0].id;
+    }
+    // If no data sources, use database ID (for backward compatibility with old databases)
+    console.log(`No data sources found for database ${databaseId}, using database ID for backward compatibility`);
+    return databaseId;
+  } catch (error) {
+    // If database fetch fails, assume the ID is already a data source ID
+    console.log(`Failed to fetch database ${databaseId}, assuming it's already a data source ID:`, error.message);
+    return databaseId;
+  }
+};
+
+/**
+ * Titles of linked pages by ID; pages that cannot be read are left out
+ * @param {string} token - Notion integration token
+ * @param {string[]} pageIds - Linked page IDs
+ * @returns {Promise<Map<string, string>>} Page titles by ID
+ */
+const getRelationTitles = async (token, pageIds) => {
+  const titles = new Map();
+  for (let i = 0; i < pageIds.length; i += RELATION_BATCH_SIZE) {
+    await Promise.all(pageIds.slice(i, i + RELATION_BATCH_SIZE).map(async (pageId) => {
+      try {
+        const linkedPage = await notionRequest(token, 'GET', `/pages/${pageId}`);
+        const title = Object.values(linkedPage.properties || {}).find(property => property.type === 'title');
+        titles.set(pageId, readPropertyValue(title) || 'Untitled');
+      } catch (error) {
+        console.warn(`Could not read linked page ${pageId}:`, error.message);
+      }
+    }));
+  }
+  return titles;
+};
+
 module.exports = {
   notionRequest,
-  getNotionToken
+  getNotionToken,
+  resolveDataSourceId,
+  getRelationTitles
 };
\ No newline at end of file
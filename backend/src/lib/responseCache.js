@@ -0,0 +1,298 @@
+const fs = require('fs');
+const path = require('path');
+const { AsyncLocalStorage } = require('async_hooks');
+const axios = require('axios');
+
+// Default time-to-live per upstream source, in seconds (override with CACHE_TTL_<SOURCE>)
+const DEFAULT_TTLS = {
+  google_books: 6 * 60 * 60,
+  open_library: 24 * 60 * 60,
+  audible: 12 * 60 * 60,
+  audnexus: 7 * 24 * 60 * 60
+};
+
+// Query parameters that must never end up in a cache key (or on disk)
+const SECRET_PARAMS = ['key', 'api_key', 'apiKey', 'token'];
+
+const parsePositiveInt = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * TTL + LRU cache for upstream API responses.
+ *
+ * Entries live in a Map whose insertion order doubles as recency order: reads
+ * re-insert the entry, and the oldest keys are evicted once maxEntries is
+ * exceeded. When a persist path is configured the cache is loaded on startup
+ * and written back (debounced) after changes, so Docker/Electron installs keep
+ * their cache across restarts.
+ */
+class ResponseCache {
+  constructor(options = {}) {
+    this.enabled = options.enabled !== false;
+    this.maxEntries = options.maxEntries || 1000;
+    this.persistPath = options.persistPath || null;
+    this.persistDelayMs = options.persistDelayMs || 5000;
+    this.ttls = { ...DEFAULT_TTLS, ...(options.ttls || {}) };
+
+    this.entries = new Map();
+    this.stats = {};
+    this.persistTimer = null;
+    this.requestContext = new AsyncLocalStorage();
+
+    if (this.persistPath) {
+      this.loadFromDisk();
+    }
+  }
+
+  /**
+   * Build a cache key from a URL and its query params, skipping secrets and sorting for stability
+   */
+  buildKey(source, url, params = {}) {
+    const query = Object.keys(params)
+      .filter(name => !SECRET_PARAMS.includes(name) && params[name] !== undefined)
+      .sort()
+      .map(name => `${name}=${encodeURIComponent(params[name])}`)
+      .join('&');
+    return `${source}:${url}${query ? `?${query}` : ''}`;
+  }
+
+  getTtlMs(source) {
+    return (this.ttls[source] || DEFAULT_TTLS.open_library) * 1000;
+  }
+
+  getSourceStats(source) {
+    if (!this.stats[source]) {
+      this.stats[source] = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+    }
+    return this.stats[source];
+  }
+
+  /**
+   * Look up a fresh entry, refreshing its LRU position
+   * @returns {*} Cached value or undefined
+   */
+  read(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  write(key, source, value) {
+    if (!this.enabled) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      source,
+      value,
+      expiresAt: Date.now() + this.getTtlMs(source)
+    });
+    this.getSourceStats(source).writes++;
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      const oldest = this.entries.get(oldestKey);
+      this.entries.delete(oldestKey);
+      this.getSourceStats(oldest.source).evictions++;
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Cached replacement for axios.get. Only successful responses are stored;
+   * errors propagate exactly as they would from axios.
+   * @param {string} source - Upstream source name (google_books, open_library, audible, audnexus)
+   * @param {string} url - Request URL
+   * @param {Object} config - axios request config
+   * @returns {Promise<Object>} Response-like object with data, status and fromCache
+   */
+  async fetch(source, url, config = {}) {
+    const key = this.buildKey(source, url, config.params);
+    const stats = this.getSourceStats(source);
+
+    if (this.enabled) {
+      const cached = this.read(key);
+      if (cached !== undefined) {
+        stats.hits++;
+        this.recordLookup(true);
+        return { data: cached, status: 200, fromCache: true };
+      }
+    }
+
+    stats.misses++;
+    this.recordLookup(false);
+
+    const response = await axios.get(url, config);
+    this.write(key, source, response.data);
+    return { data: response.data, status: response.status, fromCache: false };
+  }
+
+  /**
+   * Remove entries for one source, or everything when no source is given
+   * @returns {number} Number of entries removed
+   */
+  purge(source) {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!source || entry.source === source) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.schedulePersist();
+    return removed;
+  }
+
+  /**
+   * Summary of cache size and hit rates per source
+   */
+  getStats() {
+    const now = Date.now();
+    const sources = {};
+
+    const ensure = source => {
+      if (!sources[source]) {
+        sources[source] = {
+          entries: 0,
+          ttlSeconds: this.ttls[source] || null,
+          ...this.getSourceStats(source)
+        };
+      }
+      return sources[source];
+    };
+
+    Object.keys(this.ttls).forEach(ensure);
+    Object.keys(this.stats).forEach(ensure);
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt > now) {
+        ensure(entry.source).entries++;
+      }
+    }
+
+    Object.values(sources).forEach(source => {
+      const lookups = source.hits + source.misses;
+      source.hitRate = lookups > 0 ? Math.round((source.hits / lookups) * 1000) / 1000 : 0;
+    });
+
+    return {
+      enabled: this.enabled,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      persistent: !!this.persistPath,
+      sources
+    };
+  }
+
+  /**
+   * Express middleware that reports cache usage for the request via response headers:
+   * X-Cache (HIT, MISS or PARTIAL), X-Cache-Hits and X-Cache-Misses
+   */
+  headersMiddleware() {
+    return (req, res, next) => {
+      const lookups = { hits: 0, misses: 0 };
+      const writeHead = res.writeHead;
+
+      res.writeHead = function (...args) {
+        if (lookups.hits + lookups.misses > 0 && !res.headersSent) {
+          const status = lookups.misses === 0 ? 'HIT' : lookups.hits === 0 ? 'MISS' : 'PARTIAL';
+          res.setHeader('X-Cache', status);
+          res.setHeader('X-Cache-Hits', String(lookups.hits));
+          res.setHeader('X-Cache-Misses', String(lookups.misses));
+        }
+        return writeHead.apply(this, args);
+      };
+
+      this.requestContext.run(lookups, next);
+    };
+  }
+
+  recordLookup(hit) {
+    const lookups = this.requestContext.getStore();
+    if (!lookups) return;
+    if (hit) {
+      lookups.hits++;
+    } else {
+      lookups.misses++;
+    }
+  }
+
+  loadFromDisk() {
+    try {
+      if (!fs.existsSync(this.persistPath)) return;
+
+      const stored = JSON.parse(fs.readFileSync(this.persistPath, 'utf8'));
+      const now = Date.now();
+      (stored.entries || [])
+        .filter(([, entry]) => entry && entry.expiresAt > now)
+        .slice(-this.maxEntries)
+        .forEach(([key, entry]) => this.entries.set(key, entry));
+
+      console.log(`💾 Loaded ${this.entries.size} cached responses from ${this.persistPath}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not load response cache from ${this.persistPath}:`, error.message);
+    }
+  }
+
+  schedulePersist() {
+    if (!this.persistPath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persistToDisk();
+    }, this.persistDelayMs);
+    // Don't keep the process alive just to flush the cache
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Write pending changes to disk immediately (used on shutdown)
+   */
+  flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.persistToDisk();
+  }
+
+  persistToDisk() {
+    if (!this.persistPath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.persistPath), { recursive: true });
+      const tempPath = `${this.persistPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ entries: Array.from(this.entries.entries()) }));
+      fs.renameSync(tempPath, this.persistPath);
+    } catch (error) {
+      console.warn(`⚠️ Could not persist response cache to ${this.persistPath}:`, error.message);
+    }
+  }
+}
+
+const ttlOverrides = {};
+Object.keys(DEFAULT_TTLS).forEach(source => {
+  const override = process.env[`CACHE_TTL_${source.toUpperCase()}`];
+  if (override !== undefined) {
+    ttlOverrides[source] = parsePositiveInt(override, DEFAULT_TTLS[source]);
+  }
+});
+
+const responseCache = new ResponseCache({
+  enabled: process.env.RESPONSE_CACHE_ENABLED !== 'false',
+  maxEntries: parsePositiveInt(process.env.RESPONSE_CACHE_MAX_ENTRIES, 1000),
+  persistPath: process.env.RESPONSE_CACHE_PATH || null,
+  ttls: ttlOverrides
+});
+
+module.exports = responseCache;
+module.exports.ResponseCache = ResponseCache;
@@ -1,6 +1,7 @@
 const express = require('express');
 const axios = require('axios');
 const authToken = require('../utils/authToken');
+const { NOTION_API_URL } = require('../lib/axios');
 const router = express.Router();
 
 // Simple authentication using personal integration token
@@ -16,7 +17,7 @@ router.post('/setup', async (req, res) => {
     }
 
     // Test the token by making a request to Notion API
-    const userResponse = await axios.get('https://api.notion.com/v1/users/me', {
+    const userResponse = await axios.get(`${NOTION_API_URL}/users/me`, {
       headers: {
         'Authorization': `Bearer ${integrationToken}`,
         'Notion-Version': '2025-09-03',
@@ -32,7 +33,7 @@ router.post('/setup', async (req, res) => {
     };
     
     try {
-      const usersResponse = await axios.get('https://api.notion.com/v1/users', {
+      const usersResponse = await axios.get(`${NOTION_API_URL}/users`, {
         headers: {
           'Authorization': `Bearer ${integrationToken}`,
           'Notion-Version': '2025-09-03',
@@ -114,7 +115,7 @@ router.get('/status', async (req, res) => {
     if (integrationToken) {
       try {
         // Test the token by making a request to Notion API
-        const userResponse = await axios.get('https://api.notion.com/v1/users/me', {
+        const userResponse = await axios.get(`${NOTION_API_URL}/users/me`, {
           headers: {
             'Authorization': `Bearer ${integrationToken}`,
             'Notion-Version': '2025-09-03',
@@ -130,7 +131,7 @@ router.get('/status', async (req, res) => {
         };
 
         try {
-          const usersResponse = await axios.get('https://api.notion.com/v1/users', {
+          const usersResponse = await axios.get(`${NOTION_API_URL}/users`, {
             headers: {
               'Authorization': `Bearer ${integrationToken}`,
               'Notion-Version': '2025-09-03',
@@ -6,11 +6,20 @@ const router = express.Router();
 const googleBooksService = require('../services/googleBooksService');
 const bookSearchService = require('../services/bookSearchService');
 const bookSuggestionService = require('../services/bookSuggestionService');
+const seriesCatalog = require('../services/seriesCatalogService');
 const AudiobookService = require('../services/audiobookService');
+const { parseSearchFilters } = require('../utils/searchFilters');
 
 // Middleware to check authentication (using JWT tokens)
 const requireAuth = authToken.requireAuth.bind(authToken);
 
+// Parse a comma-separated provider list (e.g. "google_books,open_library") from the query string
+const parseProviderList = (value) => {
+  if (!value) return undefined;
+  const providers = String(value).split(',').map(id => id.trim()).filter(Boolean);
+  return providers.length > 0 ? providers : undefined;
+};
+
 // Google Books API service
 const searchGoogleBooks = async (query, type = 'general') => {
   try {
@@ -173,6 +182,19 @@ router.get('/suggestions', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/books/providers
+ * List the registered metadata providers and their capabilities
+ */
+router.get('/providers', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      providers: bookSearchService.providers.describe()
+    }
+  });
+});
+
 /**
  * GET /api/books/editions/:workKey
  * Get different editions of a book from Open Library
@@ -182,11 +204,12 @@ router.get('/suggestions', async (req, res) => {
  * - limit: max results (1-50) - default: 20
  * - englishOnly: filter to English-only editions (true/false) - default: false
  * - originalTitle: original title of the book (optional)
+ * - providers: comma-separated provider IDs in priority order (optional)
  */
 router.get('/editions/:workKey', async (req, res) => {
   try {
     const { workKey } = req.params;
-    const { limit = 20, englishOnly = 'false', originalTitle = '' } = req.query;
+    const { limit = 20, englishOnly = 'false', originalTitle = '', providers } = req.query;
 
     // Validation
     if (!workKey) {
@@ -202,7 +225,7 @@ router.get('/editions/:workKey', async (req, res) => {
 
     console.log(`📚 Getting editions for work: ${workKey} (limit: ${parsedLimit}${filterEnglishOnly ? `, English-only, originalTitle: "${decodedOriginalTitle}"` : ''})`);
 
-    const result = await bookSearchService.getBookEditions(workKey, parsedLimit, filterEnglishOnly, decodedOriginalTitle);
+    const result = await bookSearchService.getBookEditions(workKey, parsedLimit, filterEnglishOnly, decodedOriginalTitle, parseProviderList(providers));
 
     if (!result.success) {
       return res.status(500).json({
@@ -241,10 +264,17 @@ router.get('/editions/:workKey', async (req, res) => {
  * - limit: max results (1-40) - default: 10
  * - includeAudiobooks: whether to enrich with audiobook data (true/false/'top') - default: false
  *                     'top' value will only load audiobook data for the top result
+ * - providers: comma-separated metadata provider IDs in priority order (optional, defaults to enabled providers)
+ * - cursor: nextCursor from the previous page, for pagination - default: first page
+ * - yearFrom, yearTo: publication year range (optional)
+ * - language: ISO 639-1 language code, e.g. en (optional)
+ * - minPages, maxPages: page count range (optional)
+ * - format: print or ebook (optional)
+ * - hasAudiobook: only return books with an audiobook edition (true/false) - default: false
  */
 router.get('/search', async (req, res) => {
   try {
-    const { q: query, type = 'general', limit = 10, includeAudiobooks = 'false' } = req.query;
+    const { q: query, type = 'general', limit = 10, includeAudiobooks = 'false', providers, cursor } = req.query;
 
     // Validation
     if (!query || query.trim() === '') {
@@ -276,12 +306,18 @@ router.get('/search', async (req, res) => {
       audiobookOption = 'top';
     }
 
+    const filters = parseSearchFilters(req.query);
+
     console.log(`📚 Book search request: "${query}" (type: ${type}, limit: ${maxResults}${
       audiobookOption ? audiobookOption === 'top' ? ', with audiobook for top result' : ', with audiobooks' : ''
-    })`);
+    }${filters ? `, filters: ${JSON.stringify(filters)}` : ''})`);
 
     // Search books using enhanced service with original publication dates and optional audiobook data
-    const result = await bookSearchService.searchBooks(query, type, maxResults, audiobookOption);
+    const result = await bookSearchService.searchBooks(query, type, maxResults, audiobookOption, {
+      providers: parseProviderList(providers),
+      cursor,
+      filters
+    });
 
     // Log search results
     console.log(`✅ Found ${result.books.length} books for query: "${query}"`);
@@ -318,7 +354,11 @@ router.get('/search', async (req, res) => {
         totalItems: result.totalItems,
         returnedItems: result.books.length,
         books: result.books,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        filters,
         source: result.source,
+        sources: result.sources,
         enhancedWithOriginalDates: booksWithOriginalDates.length,
         includeAudiobooks: audiobookOption
       }
@@ -364,10 +404,13 @@ router.get('/search', async (req, res) => {
 /**
  * GET /api/books/:id
  * Get detailed information about a specific book by Google Books ID with original publication date
+ * Query parameters:
+ * - provider: metadata provider that owns the ID (optional, defaults to google_books)
  */
 router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
+    const { provider } = req.query;
 
     if (!id) {
       return res.status(400).json({
@@ -379,7 +422,7 @@ router.get('/:id', async (req, res) => {
 
     console.log(`📖 Fetching enhanced book details for ID: ${id}`);
 
-    const result = await bookSearchService.getBookById(id);
+    const result = await bookSearchService.getBookById(id, provider || undefined);
 
     console.log(`✅ Retrieved enhanced book details: "${result.book.title}"`);
     
@@ -479,6 +522,45 @@ router.get('/audiobook/:asin', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/books/audiobook/enrich
+ * Look up audiobook data for a single book without rerunning a search
+ * Body: { book } - a book from search results (title and authors required)
+ */
+router.post('/audiobook/enrich', async (req, res) => {
+  try {
+    const { book } = req.body;
+
+    if (!book || !book.title) {
+      return res.status(400).json({
+        success: false,
+        error: 'Book title is required'
+      });
+    }
+
+    console.log(`🎧 API: Enriching "${book.title}" with audiobook data`);
+
+    const bookWithHints = await bookSearchService.enhanceWithGoogleAudiobookHints({ ...book });
+    const enriched = await bookSearchService.audiobookService.enrichWithAudiobookData(bookWithHints);
+    seriesCatalog.learnFromBook(enriched);
+
+    res.json({
+      success: true,
+      data: {
+        audiobookData: enriched.audiobookData
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Audiobook enrich API error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load audiobook data',
+      details: error.message
+    });
+  }
+});
+
 // Manual ASIN lookup endpoint
 router.post('/audiobook/manual-lookup', async (req, res) => {
   try {
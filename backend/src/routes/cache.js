@@ -0,0 +1,49 @@
+const express = require('express');
+const authToken = require('../utils/authToken');
+const responseCache = require('../lib/responseCache');
+const router = express.Router();
+
+// Middleware to check authentication (using JWT tokens)
+const requireAuth = authToken.requireAuth.bind(authToken);
+
+/**
+ * GET /api/cache/stats
+ * Size, TTLs and hit rates of the upstream response cache, per source
+ */
+router.get('/stats', (req, res) => {
+  res.json({
+    success: true,
+    data: responseCache.getStats()
+  });
+});
+
+/**
+ * DELETE /api/cache
+ * Purge cached upstream responses
+ * Query parameters:
+ * - source: only purge one source (google_books, open_library, audible, audnexus) - default: all
+ */
+router.delete('/', requireAuth, (req, res) => {
+  const { source } = req.query;
+
+  if (source && !responseCache.getStats().sources[source]) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown Cache Source',
+      message: `Cache source must be one of: ${Object.keys(responseCache.getStats().sources).join(', ')}`
+    });
+  }
+
+  const removed = responseCache.purge(source || undefined);
+  console.log(`🧹 Purged ${removed} cached responses${source ? ` for ${source}` : ''}`);
+
+  res.json({
+    success: true,
+    data: {
+      removed,
+      source: source || 'all'
+    }
+  });
+});
+
+module.exports = router;
@@ -1,17 +1,33 @@
 const express = require('express');
 const axios = require('axios');
 const authToken = require('../utils/authToken');
+const { NOTION_API_URL } = require('../lib/axios');
+const { resolveDataSourceId, getRelationTitles } = require('../lib/notion');
+const { parsePosition } = require('../services/seriesCatalogService');
+const authorInfoService = require('../services/authorInfoService');
+const coverImageService = require('../services/coverImageService');
+const { MAX_CHILDREN, toRichText, buildBookPageBlocks } = require('../utils/notionBlocks');
+const { renderPageTemplate, formatLocalDate } = require('../utils/pageTemplate');
+const { applyFieldTransforms } = require('../utils/fieldTransforms');
+const { readPropertyValue, toPropertyUpdate } = require('../utils/notionProperties');
+const { collectRelationIds, pageToBook, buildLibraryQuery, getLibraryFilterOptions } = require('../utils/notionLibrary');
+const { toIsbn13, normalizeTitle, scoreDuplicate } = require('../utils/duplicateMatching');
+const bookSearchService = require('../services/bookSearchService');
 const router = express.Router();
 
 // Middleware to check authentication (using JWT tokens)
 const requireAuth = authToken.requireAuth.bind(authToken);
 
+// Duplicate searches: editions of the book's work to look for, and conditions per Notion query
+const MAX_EDITION_ISBNS = 40;
+const MAX_SEARCH_CONDITIONS = 90;
+
 // Smart field mapping function
 const generateFieldMappings = (notionProperties) => {
   // Google Books API fields that we want to map
   const googleBooksFields = {
     title: { type: 'title', priority: 1, keywords: ['title', 'name', 'book'] },
-    authors: { type: 'multi_select', priority: 1, keywords: ['author', 'authors', 'writer', 'by'] },
+    authors: { type: 'multi_select', priority: 1, keywords: ['author', 'authors', 'writer', 'by'], extraTypes: ['relation'] },
     isbn13: { type: 'rich_text', priority: 1, keywords: ['isbn', 'isbn13', 'isbn-13', 'isbn_13'] },
     isbn10: { type: 'rich_text', priority: 2, keywords: ['isbn10', 'isbn-10'] },
     description: { type: 'rich_text', priority: 1, keywords: ['description', 'summary', 'synopsis', 'about'] },
@@ -23,6 +39,12 @@ const generateFieldMappings = (notionProperties) => {
     language: { type: 'select', priority: 2, keywords: ['language', 'lang'] },
     averageRating: { type: 'number', priority: 2, keywords: ['rating', 'score', 'stars'] },
     ratingsCount: { type: 'number', priority: 3, keywords: ['ratings', 'reviews', 'count'] },
+    status: { type: 'select', priority: 2, keywords: ['status', 'shelf', 'progress', 'state'], extraTypes: ['status'] },
+    dateRead: { type: 'date', priority: 3, keywords: ['date read', 'read on', 'finished', 'completed'] },
+    dateAdded: { type: 'date', priority: 3, keywords: ['date added', 'added', 'acquired'] },
+    // Series name can also point at a page in a related "Series" database
+    series: { type: 'select', priority: 2, keywords: ['series', 'saga', 'cycle'], extraTypes: ['relation'] },
+    seriesNumber: { type: 'number', priority: 2, keywords: ['series number', 'series #', 'series no', 'book number', 'position', 'volume'] },
     // Audiobook-specific fields
     audiobookPublisher: { type: 'select', priority: 2, keywords: ['audiobook', 'audio', 'publisher', 'audible'] },
     audiobookPublishedDate: { type: 'date', priority: 2, keywords: ['audiobook', 'audio', 'published', 'release', 'date'] },
@@ -89,7 +111,8 @@ const generateFieldMappings = (notionProperties) => {
       if (usedProperties.has(notionProp.name)) continue;
 
       // Check type compatibility
-      const typeCompatible = isTypeCompatible(fieldInfo.type, notionProp.type);
+      const typeCompatible = isTypeCompatible(fieldInfo.type, notionProp.type) ||
+        (fieldInfo.extraTypes || []).includes(notionProp.type);
       if (!typeCompatible) continue;
 
       // Calculate similarity score
@@ -155,7 +178,7 @@ const getNotionToken = (req) => {
 const notionRequest = async (token, method, endpoint, data = null) => {
   const config = {
     method,
-    url: `https://api.notion.com/v1${endpoint}`,
+    url: `${NOTION_API_URL}${endpoint}`,
     headers: {
       'Authorization': `Bearer ${token}`,
       'Notion-Version': '2025-09-03',
@@ -568,28 +591,103 @@ router.get('/database/:databaseId/properties', requireAuth, async (req, res) =>
   }
 });
 
-// Helper function to resolve data source ID from database ID
-const resolveDataSourceId = async (token, databaseId, dataSourceId = null) => {
-  if (dataSourceId) {
-    return dataSourceId;
+// List pages of a database by title, for picking related pages (e.g. default relation values)
+router.get('/database/:databaseId/pages', requireAuth, async (req, res) => {
+  try {
+    const { databaseId } = req.params;
+    const query = String(req.query.query || '').trim();
+    const token = await getNotionToken(req);
+
+    const dataSourceId = await resolveDataSourceId(token, databaseId);
+    const schema = await notionRequest(token, 'GET', `/data_sources/${dataSourceId}`);
+    const titleProperty = Object.entries(schema.properties || {})
+      .find(([, property]) => property.type === 'title')?.[0];
+    if (!titleProperty) {
+      return res.json({ pages: [] });
+    }
+
+    const response = await notionRequest(token, 'POST', `/data_sources/${dataSourceId}/query`, {
+      ...(query ? { filter: { property: titleProperty, title: { contains: query } } } : {}),
+      page_size: 20
+    });
+
+    const pages = (response.results || []).map(page => ({
+      id: page.id,
+      title: (page.properties?.[titleProperty]?.title || []).map(part => part.plain_text ?? part.text?.content ?? '').join('') || 'Untitled'
+    }));
+    res.json({ pages });
+  } catch (error) {
+    console.error('Error listing database pages:', error.message);
+
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: 'Database not found or access denied' });
+    }
+
+    res.status(500).json({ error: 'Failed to list database pages' });
   }
+});
 
+// Browse the books database as books, one page of results at a time
+router.post('/database/:databaseId/library', requireAuth, async (req, res) => {
   try {
-    // Try to get database and find its first data source
-    const database = await notionRequest(token, 'GET', `/databases/${databaseId}`);
-    if (database.data_sources && database.data_sources.length > 0) {
-      console.log(`Found ${database.data_sources.length} data sources for database ${databaseId}`);
-      return database.data_sources[0].id;
+    const { databaseId } = req.params;
+    const { fieldMappings = {}, cursor, pageSize = 24, search, filters = {}, sort = {} } = req.body || {};
+    const token = await getNotionToken(req);
+
+    const dataSourceId = await resolveDataSourceId(token, databaseId);
+    const schema = await notionRequest(token, 'GET', `/data_sources/${dataSourceId}`);
+    const filterOptions = getLibraryFilterOptions(schema, fieldMappings);
+
+    // A relation is filtered by the linked pages, so look up the author's page first
+    let authorPageIds = [];
+    const authorsRelation = schema.properties?.[fieldMappings.authors]?.relation;
+    if (filters.author && authorsRelation) {
+      const targetId = authorsRelation.data_source_id || authorsRelation.database_id;
+      const targetSchema = await notionRequest(token, 'GET', `/data_sources/${targetId}`);
+      const titleProperty = Object.entries(targetSchema.properties || {})
+        .find(([, property]) => property.type === 'title')?.[0];
+      if (titleProperty) {
+        const authorPages = await notionRequest(token, 'POST', `/data_sources/${targetId}/query`, {
+          filter: { property: titleProperty, title: { equals: filters.author } },
+          page_size: 10
+        });
+        authorPageIds = (authorPages.results || []).map(page => page.id);
+      }
+      if (authorPageIds.length === 0) {
+        return res.json({ books: [], nextCursor: null, hasMore: false, filterOptions });
+      }
     }
-    // If no data sources, use database ID (for backward compatibility with old databases)
-    console.log(`No data sources found for database ${databaseId}, using database ID for backward compatibility`);
-    return databaseId;
+
+    const response = await notionRequest(token, 'POST', `/data_sources/${dataSourceId}/query`, {
+      ...buildLibraryQuery(schema, fieldMappings, { search, filters, sort, authorPageIds }),
+      page_size: Math.min(Math.max(parseInt(pageSize, 10) || 24, 1), 100),
+      ...(cursor ? { start_cursor: cursor } : {})
+    });
+    const pages = response.results || [];
+
+    // Linked pages (e.g. authors in an Authors database) are shown by title
+    const relationTitles = await getRelationTitles(token, collectRelationIds(pages, schema, fieldMappings));
+
+    res.json({
+      books: pages.map(page => pageToBook(page, schema, fieldMappings, relationTitles)),
+      nextCursor: response.next_cursor || null,
+      hasMore: Boolean(response.has_more),
+      filterOptions
+    });
   } catch (error) {
-    // If database fetch fails, assume the ID is already a data source ID
-    console.log(`Failed to fetch database ${databaseId}, assuming it's already a data source ID:`, error.message);
-    return databaseId;
+    console.error('Error browsing library:', error.message);
+
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: 'Database not found or access denied' });
+    }
+
+    if (error.response?.status === 400) {
+      return res.status(400).json({ error: error.response.data?.message || 'Invalid library query' });
+    }
+
+    res.status(500).json({ error: 'Failed to load library' });
   }
-};
+});
 
 // Create a new page in a Notion database
 router.post('/pages', requireAuth, async (req, res) => {
@@ -665,21 +763,23 @@ router.post('/pages', requireAuth, async (req, res) => {
   }
 });
 
-// Update an existing Notion page
+// Update an existing Notion page; `icon` and `cover` are optional, with null removing them
 router.patch('/pages/:pageId', requireAuth, async (req, res) => {
   try {
     const { pageId } = req.params;
-    const { properties } = req.body;
+    const { properties, icon, cover } = req.body;
     
     if (!properties) {
       return res.status(400).json({ error: 'Properties are required' });
     }
 
     const token = await getNotionToken(req);
+
+    const pageUpdate = { properties };
+    if (icon !== undefined) pageUpdate.icon = icon;
+    if (cover !== undefined) pageUpdate.cover = cover;
     
-    const response = await notionRequest(token, 'PATCH', `/pages/${pageId}`, {
-      properties
-    });
+    const response = await notionRequest(token, 'PATCH', `/pages/${pageId}`, pageUpdate);
     
     res.json({
       id: response.id,
@@ -703,6 +803,35 @@ router.patch('/pages/:pageId', requireAuth, async (req, res) => {
   }
 });
 
+// Move a page to the trash, where it can still be restored from Notion
+router.delete('/pages/:pageId', requireAuth, async (req, res) => {
+  try {
+    const { pageId } = req.params;
+    const token = await getNotionToken(req);
+
+    const response = await notionRequest(token, 'PATCH', `/pages/${pageId}`, { in_trash: true });
+
+    res.json({
+      id: response.id,
+      url: response.url,
+      in_trash: true
+    });
+
+  } catch (error) {
+    console.error('Error archiving Notion page:', error);
+
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: 'Page not found or access denied' });
+    }
+
+    if (error.response?.status === 401) {
+      return res.status(401).json({ error: 'Notion access token invalid or expired' });
+    }
+
+    res.status(500).json({ error: 'Failed to archive Notion page' });
+  }
+});
+
 // Get a specific page
 router.get('/pages/:pageId', requireAuth, async (req, res) => {
   try {
@@ -710,13 +839,27 @@ router.get('/pages/:pageId', requireAuth, async (req, res) => {
     const token = await getNotionToken(req);
     
     const response = await notionRequest(token, 'GET', `/pages/${pageId}`);
+
+    // Plain value of every property, with linked pages by title, for comparing against a book
+    const properties = response.properties || {};
+    const relationIds = Object.values(properties)
+      .filter(property => property.type === 'relation')
+      .flatMap(property => (property.relation || []).map(relation => relation.id));
+    const relationTitles = await getRelationTitles(token, Array.from(new Set(relationIds)));
+    const values = Object.fromEntries(Object.entries(properties).map(([name, property]) => {
+      const value = readPropertyValue(property);
+      return [name, property.type === 'relation' ? value.map(id => relationTitles.get(id)).filter(Boolean) : value];
+    }));
     
     res.json({
       id: response.id,
       url: response.url,
       created_time: response.created_time,
       last_edited_time: response.last_edited_time,
-      properties: response.properties
+      icon: response.icon || null,
+      cover: response.cover || null,
+      properties: response.properties,
+      values
     });
 
   } catch (error) {
@@ -734,9 +877,117 @@ router.get('/pages/:pageId', requireAuth, async (req, res) => {
   }
 });
 
+// Find the page titled `name` in the data source a relation property points at, creating it if missing.
+// `describeNewPage(schema)` may add properties and an icon to a page that has to be created.
+const findOrCreateRelationPage = async (token, relation, name, describeNewPage = null) => {
+  if (!relation?.data_source_id && !relation?.database_id) return null;
+  const targetDataSourceId = relation.data_source_id || await resolveDataSourceId(token, relation.database_id);
+
+  const targetSchema = await notionRequest(token, 'GET', `/data_sources/${targetDataSourceId}`);
+  const titleProperty = Object.entries(targetSchema.properties || {})
+    .find(([, property]) => property.type === 'title')?.[0];
+  if (!titleProperty) return null;
+
+  const title = String(name).substring(0, 2000).trim();
+  const existing = await notionRequest(token, 'POST', `/data_sources/${targetDataSourceId}/query`, {
+    filter: {
+      property: titleProperty,
+      title: { equals: title }
+    },
+    page_size: 1
+  });
+  if (existing.results?.length > 0) {
+    return existing.results[0].id;
+  }
+
+  const extras = describeNewPage ? await describeNewPage(targetSchema) : {};
+  const created = await notionRequest(token, 'POST', '/pages', {
+    parent: {
+      type: 'data_source_id',
+      data_source_id: targetDataSourceId
+    },
+    properties: {
+      ...(extras.properties || {}),
+      [titleProperty]: {
+        title: [{ text: { content: title } }]
+      }
+    },
+    ...(extras.icon ? { icon: extras.icon } : {})
+  });
+  console.log(`🔗 Created related page "${title}" in data source ${targetDataSourceId}`);
+  return created.id;
+};
+
+// Pick the property of an Authors data source to write to: the one chosen in settings, else the first
+// property of an accepted type whose name looks right
+const findAuthorProperty = (schema, configuredName, types, namePattern) => {
+  const properties = Object.entries(schema.properties || {});
+  if (configuredName) {
+    const configured = properties.find(([name, property]) => name === configuredName && types.includes(property.type));
+    return configured ? { name: configured[0], type: configured[1].type } : null;
+  }
+  const guessed = properties.find(([name, property]) => types.includes(property.type) && namePattern.test(name));
+  return guessed ? { name: guessed[0], type: guessed[1].type } : null;
+};
+
+// Properties and icon for a new page in the linked Authors database (photo and bio)
+const describeAuthorPage = async (schema, name, bookData, authorsDatabase = {}) => {
+  const info = await authorInfoService.getAuthorInfo(name, bookData.audiobookData?.authorInfo);
+  const properties = {};
+  let icon = null;
+
+  if (info.photo) {
+    const photoProperty = findAuthorProperty(schema, authorsDatabase.photoProperty, ['files', 'url'], /photo|image|picture|portrait|avatar/i);
+    if (photoProperty?.type === 'files') {
+      properties[photoProperty.name] = {
+        files: [{ type: 'external', name: 'author_photo.jpg', external: { url: info.photo } }]
+      };
+    } else if (photoProperty?.type === 'url') {
+      properties[photoProperty.name] = { url: info.photo };
+    }
+    icon = { type: 'external', external: { url: info.photo } };
+  }
+
+  if (info.bio) {
+    const bioProperty = findAuthorProperty(schema, authorsDatabase.bioProperty, ['rich_text'], /bio|about|description|summary/i);
+    if (bioProperty) {
+      properties[bioProperty.name] = {
+        rich_text: [{ text: { content: info.bio.substring(0, 2000) } }]
+      };
+    }
+  }
+
+  console.log(`👤 New author page "${name}": photo ${info.photo ? 'yes' : 'no'}, bio ${info.bio ? 'yes' : 'no'} (${info.source || 'no source'})`);
+  return { properties, icon };
+};
+
+// Returns a function resolving the book cover as a Notion file object, uploaded to Notion when
+// coverImages.upload is set (falling back to the external link). The upload happens at most once,
+// and only if a files property, the page icon or the page cover asks for it.
+const createCoverFileResolver = (token, bookData, coverImages = {}) => {
+  let coverFile = null;
+  return () => {
+    if (!bookData.thumbnail) return Promise.resolve(null);
+    if (!coverFile) {
+      coverFile = (coverImages.upload
+        ? coverImageService.uploadCover(token, bookData.thumbnail, { format: coverImages.format, title: bookData.title })
+        : Promise.resolve(null)
+      ).then(uploaded => uploaded || { type: 'external', external: { url: bookData.thumbnail } });
+    }
+    return coverFile;
+  };
+};
+
+// Page icon and cover objects take the file without a name
+const toPageImage = ({ name, ...file }) => file;
+
 // Helper function to format book data for Notion properties
-const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId, token) => {
+// options.authorsDatabase: { databaseId, photoProperty, bioProperty } for author pages linked through a relation
+// options.getCoverFile: resolver from createCoverFileResolver, used for the cover in files properties
+// options.defaultValues: typed values from settings, by property name, for properties left empty
+const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId, token, customValues = {}, options = {}) => {
   const properties = {};
+  const { getCoverFile } = options;
 
   // Get data source schema to understand property types
   let dataSourceSchema = null;
@@ -763,8 +1014,62 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
     return property?.type || null;
   };
 
+  // Workspace members, listed once per page when a people property is mapped
+  let workspaceUsers = null;
+  const getWorkspaceUsers = async () => {
+    if (workspaceUsers) return workspaceUsers;
+    workspaceUsers = [];
+    let cursor;
+    do {
+      const query = cursor ? `?page_size=100&start_cursor=${cursor}` : '?page_size=100';
+      const response = await notionRequest(token, 'GET', `/users${query}`);
+      workspaceUsers.push(...(response.results || []));
+      cursor = response.has_more ? response.next_cursor : null;
+    } while (cursor);
+    return workspaceUsers;
+  };
+
+  // Link each value to the page titled after it in the related data source, creating missing pages
+  const formatRelationValue = async (value, relation, propertyName, describeNewPage = null) => {
+    const names = (Array.isArray(value) ? value : [value])
+      .map(name => String(name).trim())
+      .filter(Boolean)
+      .slice(0, 10);
+    const pages = [];
+    for (const name of names) {
+      try {
+        const pageId = await findOrCreateRelationPage(token, relation, name,
+          describeNewPage ? (schema) => describeNewPage(schema, name) : null);
+        if (pageId && !pages.some(page => page.id === pageId)) pages.push({ id: pageId });
+      } catch (error) {
+        console.warn(`Failed to link "${name}" for relation "${propertyName}":`, error.message);
+      }
+    }
+    return pages.length > 0 ? { relation: pages } : null;
+  };
+
+  // Status options can't be created through the API, so the value has to match an existing option.
+  // Reading statuses from imports fall back to the option first in the matching status group.
+  const matchStatusOption = (value, propertyName) => {
+    const status = dataSourceSchema?.properties?.[propertyName]?.status;
+    const options = status?.options || [];
+    const name = String(value).trim().toLowerCase();
+    const exact = options.find(option => option.name.toLowerCase() === name);
+    if (exact) return exact;
+
+    const groupPatterns = [
+      { pattern: /^(read|finished|completed?|done)$/, group: /complete|done/i },
+      { pattern: /currently|reading|in progress|started/, group: /progress/i },
+      { pattern: /to[ -]?read|want|wishlist|not started|planned/, group: /to[ -]?do|not started/i }
+    ];
+    const groupMatch = groupPatterns.find(({ pattern }) => pattern.test(name));
+    const group = groupMatch && (status?.groups || []).find(g => groupMatch.group.test(g.name));
+    const groupOption = group && options.find(option => (group.option_ids || []).includes(option.id));
+    return groupOption || null;
+  };
+
   // Helper function to format value based on property type
-  const formatPropertyValue = (value, propertyType, propertyName) => {
+  const formatPropertyValue = async (value, propertyType, propertyName, describeNewPage = null) => {
     if (!value) return null;
 
     switch (propertyType) {
@@ -781,14 +1086,9 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
 
       case 'rich_text':
         const textContent = Array.isArray(value) ? value.join(', ') : String(value);
+        // Long text is split over several items (2000 characters each, up to 100) instead of cut off
         return {
-          rich_text: [
-            {
-              text: {
-                content: textContent.substring(0, 2000) // Notion rich text limit
-              }
-            }
-          ]
+          rich_text: toRichText(textContent).slice(0, 100)
         };
 
       case 'multi_select':
@@ -930,6 +1230,12 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
         return null;
 
       case 'files':
+        if (getCoverFile && value === bookData.thumbnail) {
+          const coverFile = await getCoverFile();
+          if (coverFile?.type === 'file_upload') {
+            return { files: [coverFile] };
+          }
+        }
         if (typeof value === 'string' && (value.startsWith('http://') || value.startsWith('https://'))) {
           // Format as external file with image extension to help Notion recognize it as an image
           // Add timestamp to prevent caching issues and ensure each upload is treated as unique
@@ -955,6 +1261,59 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
           checkbox: Boolean(value)
         };
 
+      case 'email': {
+        const email = String(Array.isArray(value) ? value[0] : value).trim();
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? { email } : null;
+      }
+
+      case 'phone_number': {
+        const phoneNumber = String(Array.isArray(value) ? value[0] : value).trim();
+        return /\d/.test(phoneNumber) ? { phone_number: phoneNumber.substring(0, 100) } : null;
+      }
+
+      case 'status': {
+        const option = matchStatusOption(Array.isArray(value) ? value[0] : value, propertyName);
+        if (!option) {
+          console.warn(`No status option matches "${value}" for "${propertyName}". Skipping.`);
+          return null;
+        }
+        return { status: { name: option.name } };
+      }
+
+      case 'people': {
+        // People can only be workspace members, matched by name or email
+        const wanted = (Array.isArray(value) ? value : [value]).map(name => String(name).trim().toLowerCase());
+        try {
+          const users = await getWorkspaceUsers();
+          const people = users
+            .filter(user => user.type === 'person' && (
+              wanted.includes((user.name || '').toLowerCase()) ||
+              wanted.includes((user.person?.email || '').toLowerCase())
+            ))
+            .map(user => ({ object: 'user', id: user.id }));
+          return people.length > 0 ? { people } : null;
+        } catch (error) {
+          console.warn(`Failed to list workspace users for "${propertyName}":`, error.message);
+          return null;
+        }
+      }
+
+      case 'relation': {
+        const relation = dataSourceSchema?.properties?.[propertyName]?.relation;
+        return formatRelationValue(value, relation, propertyName, describeNewPage);
+      }
+
+      // Computed properties can't be written
+      case 'formula':
+      case 'rollup':
+      case 'created_time':
+      case 'created_by':
+      case 'last_edited_time':
+      case 'last_edited_by':
+      case 'unique_id':
+      case 'verification':
+        return null;
+
       default:
         // Fallback to rich_text for unknown types
         const fallbackContent = Array.isArray(value) ? value.join(', ') : String(value);
@@ -970,6 +1329,35 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
     }
   };
 
+  // Defaults are stored typed by the settings editor: booleans, numbers, "today" for dates and
+  // { id, title } pages for relations
+  const formatDefaultValue = async (value, propertyType, propertyName) => {
+    switch (propertyType) {
+      case 'checkbox':
+        return typeof value === 'boolean' ? { checkbox: value } : null;
+
+      case 'number': {
+        const number = typeof value === 'number' ? value : parseFloat(value);
+        return Number.isFinite(number) ? { number } : null;
+      }
+
+      case 'date':
+        return formatPropertyValue(value === 'today' ? formatLocalDate(new Date()) : value, 'date', propertyName);
+
+      case 'relation': {
+        // Pages picked in settings are linked by ID; names are looked up (or created) by title
+        const items = Array.isArray(value) ? value : [value];
+        const picked = items.filter(item => item?.id).map(item => ({ id: item.id }));
+        if (picked.length > 0) return { relation: picked.slice(0, 100) };
+        const names = items.filter(item => typeof item === 'string');
+        return names.length > 0 ? formatPropertyValue(names, 'relation', propertyName) : null;
+      }
+
+      default:
+        return formatPropertyValue(value, propertyType, propertyName);
+    }
+  };
+
   // Map book data to Notion properties using field mappings
   const bookFieldMap = {
     title: bookData.title,
@@ -986,9 +1374,19 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
     publisher: bookData.publisher,
     pageCount: bookData.pageCount,
     thumbnail: bookData.thumbnail,
-    rating: bookData.averageRating,
+    // Personal rating (e.g. from a library import) takes precedence over the average rating
+    rating: bookData.userRating || bookData.averageRating,
     language: bookData.language,
+    // Personal reading data supplied by library imports
+    status: bookData.readingStatus,
+    dateRead: bookData.dateRead,
+    dateAdded: bookData.dateAdded,
     ratingsCount: bookData.ratingsCount,
+    // Series detected for the print book, falling back to the audiobook's series
+    series: bookData.series || bookData.audiobookData?.series,
+    seriesNumber: bookData.series
+      ? parsePosition(bookData.seriesNumber)
+      : parsePosition(bookData.audiobookData?.seriesPosition),
     // Audiobook-specific fields
     audiobookPublisher: bookData.audiobookData?.publisher,
     audiobookPublishedDate: bookData.audiobookData?.publishedDate,
@@ -1077,9 +1475,11 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
   };
 
   const propertyMappings = new Map();
+  // Per-field transform pipelines travel with the mappings
+  const { transforms: fieldTransforms = {}, ...mappingEntries } = fieldMappings || {};
   
   // Collect all mappings
-  for (const [bookField, notionPropertyName] of Object.entries(fieldMappings)) {
+  for (const [bookField, notionPropertyName] of Object.entries(mappingEntries)) {
     // Improved filtering for "Don't map" values
     if (!notionPropertyName || 
         notionPropertyName === '' || 
@@ -1124,8 +1524,59 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
 
   // Second pass: apply the final mappings
   for (const [notionPropertyName, mapping] of propertyMappings) {
-    const formattedValue = formatPropertyValue(mapping.value, mapping.propertyType, notionPropertyName);
+    mapping.value = applyFieldTransforms(mapping.value, fieldTransforms?.[mapping.bookField]);
+
+    if (mapping.propertyType === 'relation' && mapping.bookField === 'authors') {
+      // One linked page per author, created with photo and bio when missing
+      const relation = dataSourceSchema.properties[notionPropertyName].relation;
+      const authorsDatabase = options.authorsDatabase || {};
+      const authorRelation = relation?.data_source_id || relation?.database_id
+        ? relation
+        : { database_id: authorsDatabase.databaseId };
+      const names = (Array.isArray(mapping.value) ? mapping.value : [mapping.value])
+        .filter(name => name && !/^unknown author$/i.test(name));
+      const formattedAuthors = await formatRelationValue(names, authorRelation, notionPropertyName,
+        (schema, name) => describeAuthorPage(schema, name, bookData, authorsDatabase));
+      if (formattedAuthors) {
+        properties[notionPropertyName] = formattedAuthors;
+      }
+      continue;
+    }
+
+    const formattedValue = await formatPropertyValue(mapping.value, mapping.propertyType, notionPropertyName);
+
+    if (formattedValue) {
+      properties[notionPropertyName] = formattedValue;
+    }
+  }
+
+  // Custom values (e.g. spreadsheet columns mapped straight to a property) fill properties left empty by the mappings
+  for (const [notionPropertyName, value] of Object.entries(customValues || {})) {
+    if (properties[notionPropertyName]) continue;
+
+    const propertyType = getPropertyType(notionPropertyName);
+    if (!propertyType) {
+      console.warn(`Custom value property "${notionPropertyName}" does not exist in data source. Skipping.`);
+      continue;
+    }
+
+    const formattedValue = await formatPropertyValue(value, propertyType, notionPropertyName);
+    if (formattedValue) {
+      properties[notionPropertyName] = formattedValue;
+    }
+  }
+
+  // Default values from settings fill whatever is still empty, including unmapped properties
+  for (const [notionPropertyName, value] of Object.entries(options.defaultValues || {})) {
+    if (properties[notionPropertyName] || value === null || value === undefined || value === '') continue;
+
+    const propertyType = getPropertyType(notionPropertyName);
+    if (!propertyType) {
+      console.warn(`Default value property "${notionPropertyName}" does not exist in data source. Skipping.`);
+      continue;
+    }
 
+    const formattedValue = await formatDefaultValue(value, propertyType, notionPropertyName);
     if (formattedValue) {
       properties[notionPropertyName] = formattedValue;
     }
@@ -1134,19 +1585,35 @@ const formatBookDataForNotion = async (bookData, fieldMappings = {}, databaseId,
   return properties;
 };
 
+// Render a page template against a book without creating a page, for previews
+router.post('/templates/preview', requireAuth, async (req, res) => {
+  const { template, bookData } = req.body;
+  if (typeof template !== 'string') {
+    return res.status(400).json({ error: 'Template is required' });
+  }
+
+  try {
+    res.json({ blocks: renderPageTemplate(template, bookData || {}) });
+  } catch (error) {
+    console.error('Error rendering page template:', error.message);
+    res.status(500).json({ error: 'Failed to render page template' });
+  }
+});
+
 // Create book page with formatted properties
 router.post('/pages/book', requireAuth, async (req, res) => {
   try {
-    const { databaseId, bookData, fieldMappings } = req.body;
+    const { databaseId, bookData, fieldMappings, customValues, defaultValues, authorsDatabase, coverImages, pageContent, pageTemplate } = req.body;
     
     if (!databaseId || !bookData) {
       return res.status(400).json({ error: 'Database ID and book data are required' });
     }
 
     const token = await getNotionToken(req);
+    const getCoverFile = createCoverFileResolver(token, bookData, coverImages);
     
     // Format book data with proper type checking
-    const properties = await formatBookDataForNotion(bookData, fieldMappings, databaseId, token);
+    const properties = await formatBookDataForNotion(bookData, fieldMappings, databaseId, token, customValues, { authorsDatabase, getCoverFile, defaultValues });
     
     // Resolve the correct data source ID
     const resolvedDataSourceId = await resolveDataSourceId(token, databaseId, req.body.dataSourceId);
@@ -1162,12 +1629,22 @@ router.post('/pages/book', requireAuth, async (req, res) => {
     // Add page icon if enabled and thumbnail is available
     if (fieldMappings?.pageIcon && bookData.thumbnail) {
       console.log('Using thumbnail as page icon:', bookData.thumbnail);
-      pageData.icon = {
-        type: 'external',
-        external: {
-          url: bookData.thumbnail
-        }
-      };
+      pageData.icon = toPageImage(await getCoverFile());
+    }
+
+    // Add page cover if enabled
+    if (coverImages?.usePageCover && bookData.thumbnail) {
+      pageData.cover = toPageImage(await getCoverFile());
+    }
+
+    // Page body: the user's template followed by the description, chapters, edition details and
+    // links sections. The first 100 blocks go with the page and the rest are appended afterwards.
+    const blocks = [
+      ...renderPageTemplate(pageTemplate, bookData),
+      ...(pageContent ? buildBookPageBlocks(bookData, pageContent) : [])
+    ];
+    if (blocks.length > 0) {
+      pageData.children = blocks.slice(0, MAX_CHILDREN);
     }
 
     console.log('Field mappings received:', JSON.stringify(fieldMappings, null, 2));
@@ -1201,6 +1678,17 @@ router.post('/pages/book', requireAuth, async (req, res) => {
         throw error;
       }
     }
+
+    for (let i = MAX_CHILDREN; i < blocks.length; i += MAX_CHILDREN) {
+      try {
+        await notionRequest(token, 'PATCH', `/blocks/${response.id}/children`, {
+          children: blocks.slice(i, i + MAX_CHILDREN)
+        });
+      } catch (error) {
+        console.warn(`Failed to append page content blocks ${i}-${i + MAX_CHILDREN} to ${response.id}:`, error.message);
+        break;
+      }
+    }
     
     res.json({
       id: response.id,
@@ -1233,29 +1721,51 @@ router.post('/pages/book', requireAuth, async (req, res) => {
 router.patch('/pages/:pageId/book', requireAuth, async (req, res) => {
   try {
     const { pageId } = req.params;
-    const { databaseId, bookData, fieldMappings } = req.body;
+    const { databaseId, bookData, fieldMappings, authorsDatabase, coverImages } = req.body;
     
     if (!pageId || !databaseId || !bookData) {
       return res.status(400).json({ error: 'Page ID, database ID and book data are required' });
     }
 
     const token = await getNotionToken(req);
+    const getCoverFile = createCoverFileResolver(token, bookData, coverImages);
     
     // Format book data with proper type checking (same as create)
-    const properties = await formatBookDataForNotion(bookData, fieldMappings, databaseId, token);
+    const properties = await formatBookDataForNotion(bookData, fieldMappings, databaseId, token, {}, { authorsDatabase, getCoverFile });
     
     console.log('Updating book page with data:', JSON.stringify({ pageId, properties }, null, 2));
 
-    const response = await notionRequest(token, 'PATCH', `/pages/${pageId}`, {
-      properties
+    const pageUpdate = { properties };
+    // Replace the icon and cover along with the data when they come from the book cover
+    if (fieldMappings?.pageIcon && bookData.thumbnail) {
+      pageUpdate.icon = toPageImage(await getCoverFile());
+    }
+    if (coverImages?.usePageCover && bookData.thumbnail) {
+      pageUpdate.cover = toPageImage(await getCoverFile());
+    }
+
+    // The values about to be overwritten, returned so the update can be undone
+    const currentPage = await notionRequest(token, 'GET', `/pages/${pageId}`);
+    const previous = { properties: {} };
+    Object.entries(properties).forEach(([name, value]) => {
+      const current = currentPage.properties?.[name];
+      // Values formatted above have their type as their only key
+      const restored = toPropertyUpdate(current, current?.type || Object.keys(value)[0]);
+      if (restored) previous.properties[name] = restored;
     });
+    // Images uploaded to Notion cannot be set again by URL, so those are left as replaced
+    if (pageUpdate.icon && currentPage.icon?.type !== 'file') previous.icon = currentPage.icon || null;
+    if (pageUpdate.cover && currentPage.cover?.type !== 'file') previous.cover = currentPage.cover || null;
+
+    const response = await notionRequest(token, 'PATCH', `/pages/${pageId}`, pageUpdate);
     
     res.json({
       id: response.id,
       url: response.url,
       last_edited_time: response.last_edited_time,
       properties: response.properties,
-      bookData
+      bookData,
+      previous
     });
 
   } catch (error) {
@@ -1281,28 +1791,47 @@ router.patch('/pages/:pageId/book', requireAuth, async (req, res) => {
   }
 });
 
-// Search for existing books in a database
-router.post('/database/:databaseId/search', requireAuth, async (req, res) => {
+// Text condition on a title, text or option property; other property types cannot be searched
+const buildContainsCondition = (name, property, value) => {
+  switch (property?.type) {
+    case 'title':
+    case 'rich_text':
+      return { property: name, [property.type]: { contains: value } };
+    case 'multi_select':
+      return { property: name, multi_select: { contains: value } };
+    case 'select':
+      return { property: name, select: { equals: value } };
+    default:
+      return null;
+  }
+};
+
+// ISBN-13s of the other editions of an Open Library work, used to flag pages for another edition
+const getWorkEditionIsbns = async (openLibraryKey) => {
+  if (!openLibraryKey || !String(openLibraryKey).startsWith('/works/')) return new Set();
   try {
-    console.log('Search request received:', {
-      databaseId: req.params.databaseId,
-      body: req.body,
-      isbn: req.body?.isbn,
-      title: req.body?.title,
-      fieldMappings: req.body?.fieldMappings ? 'Present' : 'Missing'
-    });
+    const result = await bookSearchService.getBookEditions(openLibraryKey, MAX_EDITION_ISBNS);
+    return new Set((result?.editions || [])
+      .flatMap(edition => [edition.isbn13, edition.isbn10])
+      .map(toIsbn13)
+      .filter(Boolean));
+  } catch (error) {
+    console.warn(`Could not load editions of ${openLibraryKey}:`, error.message);
+    return new Set();
+  }
+};
 
+// Search for existing books in a database, scored as possible duplicates of the book being added
+router.post('/database/:databaseId/search', requireAuth, async (req, res) => {
+  try {
     const { databaseId } = req.params;
-    const { isbn, title, fieldMappings } = req.body;
+    const { isbn, isbn13, isbn10, title, authors = [], openLibraryKey, fieldMappings } = req.body;
     
-    if (!isbn && !title) {
-      console.log('Validation failed: No ISBN or title provided');
+    if (!isbn && !isbn13 && !isbn10 && !title) {
       return res.status(400).json({ error: 'Either ISBN or title is required for search' });
     }
 
     const token = await getNotionToken(req);
-    
-    // Use field mappings directly (no need to parse since it's already an object)
     const mappings = fieldMappings || {};
 
     // Get data source properties to find available fields
@@ -1314,62 +1843,55 @@ router.post('/database/:databaseId/search', requireAuth, async (req, res) => {
       // Fallback to database for backward compatibility
       dataSource = await notionRequest(token, 'GET', `/databases/${databaseId}`);
     }
-    const availableProperties = Object.keys(dataSource.properties || {});
+    const schemaProperties = dataSource.properties || {};
     
     // Determine which properties to search
     const titleProperty = mappings.title || 'Title';
-    const isbnProperty = mappings.isbn || 'ISBN';
-    
-    // Build search filter only for properties that exist
-    const filter = {
-      or: []
+    const isbnProperties = [mappings.isbn, mappings.isbn13, mappings.isbn10, 'ISBN']
+      .filter((name, index, names) => name && schemaProperties[name] && names.indexOf(name) === index);
+    const authorsProperty = schemaProperties[mappings.authors] ? mappings.authors : null;
+
+    const book = {
+      title: title || '',
+      authors: Array.isArray(authors) ? authors : [authors],
+      isbns: Array.from(new Set([isbn, isbn13, isbn10].map(toIsbn13).filter(Boolean)))
     };
-
-    if (isbn && availableProperties.includes(isbnProperty)) {
-      const isbnProp = dataSource.properties[isbnProperty];
-      if (isbnProp.type === 'rich_text') {
-        filter.or.push({
-          property: isbnProperty,
-          rich_text: {
-            contains: isbn
-          }
-        });
-      } else if (isbnProp.type === 'title') {
-        filter.or.push({
-          property: isbnProperty,
-          title: {
-            contains: isbn
-          }
-        });
-      }
-    }
-
-    if (title && availableProperties.includes(titleProperty)) {
-      const titleProp = dataSource.properties[titleProperty];
-      if (titleProp.type === 'title') {
-        filter.or.push({
-          property: titleProperty,
-          title: {
-            contains: title
-          }
-        });
-      } else if (titleProp.type === 'rich_text') {
-        filter.or.push({
-          property: titleProperty,
-          rich_text: {
-            contains: title
-          }
-        });
-      }
-    }
+    const editionIsbns = await getWorkEditionIsbns(openLibraryKey);
+    book.isbns.forEach(value => editionIsbns.delete(value));
+
+    // Candidates are pages sharing an ISBN (in either form), a title word or an author; scoring decides
+    const isbnValues = Array.from(new Set([
+      isbn, isbn13, isbn10,
+      ...book.isbns,
+      ...book.isbns.map(value => value.startsWith('978') ? value.slice(3, 12) : null)
+    ].filter(Boolean).map(String)));
+    const coreTitle = normalizeTitle(title);
+    const keyword = coreTitle.split(' ').filter(word => word.length >= 5).sort((a, b) => b.length - a.length)[0];
+    const titleValues = Array.from(new Set([title, coreTitle, keyword].filter(Boolean)));
+    const authorValues = authorsProperty && schemaProperties[authorsProperty].type !== 'relation'
+      ? book.authors.filter(Boolean)
+      : [];
+
+    const isbnConditions = (values) => values
+      .flatMap(value => isbnProperties.map(name => buildContainsCondition(name, schemaProperties[name], value)))
+      .filter(Boolean);
+
+    const conditions = [
+      ...titleValues.map(value => buildContainsCondition(titleProperty, schemaProperties[titleProperty], value)),
+      ...authorValues.map(value => buildContainsCondition(authorsProperty, schemaProperties[authorsProperty], value)),
+      ...isbnConditions(isbnValues)
+    ].filter(Boolean).slice(0, MAX_SEARCH_CONDITIONS);
+    // Other editions only get the conditions left under the limit
+    conditions.push(...isbnConditions(Array.from(editionIsbns)).slice(0, MAX_SEARCH_CONDITIONS - conditions.length));
 
     // If no valid properties found, return empty results
-    if (filter.or.length === 0) {
+    if (conditions.length === 0) {
       return res.json({ books: [] });
     }
 
     const searchData = {
-      filter: filter.or.length > 1 ? filter : filter.or[0]
+      filter: conditions.length > 1 ? { or: conditions } : conditions[0],
+      page_size: 50
     };
 
     let response;
@@ -1384,38 +1906,43 @@ router.post('/database/:databaseId/search', requireAuth, async (req, res) => {
         throw error;
       }
     }
-    
-    const books = response.results.map(page => {
-      // Dynamically extract title and ISBN based on available properties
-      let bookTitle = 'Untitled';
-      let bookIsbn = '';
-      
-      if (availableProperties.includes(titleProperty)) {
-        const titleProp = page.properties[titleProperty];
-        if (titleProp?.title?.[0]?.plain_text) {
-          bookTitle = titleProp.title[0].plain_text;
-        } else if (titleProp?.rich_text?.[0]?.plain_text) {
-          bookTitle = titleProp.rich_text[0].plain_text;
-        }
-      }
-      
-      if (availableProperties.includes(isbnProperty)) {
-        const isbnProp = page.properties[isbnProperty];
-        if (isbnProp?.rich_text?.[0]?.plain_text) {
-          bookIsbn = isbnProp.rich_text[0].plain_text;
-        } else if (isbnProp?.title?.[0]?.plain_text) {
-          bookIsbn = isbnProp.title[0].plain_text;
-        }
-      }
-      
+    const pages = response.results || [];
+
+    // Authors linked from an Authors database are compared by page title
+    const relationTitles = authorsProperty && schemaProperties[authorsProperty].type === 'relation'
+      ? await getRelationTitles(token, Array.from(new Set(pages.flatMap(page =>
+        (page.properties?.[authorsProperty]?.relation || []).map(relation => relation.id)))))
+      : new Map();
+
+    const books = pages.map(page => {
+      const pageTitle = readPropertyValue(page.properties?.[titleProperty], schemaProperties[titleProperty]?.type);
+      const pageIsbns = isbnProperties
+        .map(name => readPropertyValue(page.properties?.[name], schemaProperties[name].type))
+        .filter(value => typeof value === 'string');
+      const authorValue = authorsProperty
+        ? readPropertyValue(page.properties?.[authorsProperty], schemaProperties[authorsProperty].type)
+        : null;
+      const pageAuthors = schemaProperties[authorsProperty]?.type === 'relation'
+        ? (authorValue || []).map(id => relationTitles.get(id)).filter(Boolean)
+        : (Array.isArray(authorValue) ? authorValue : String(authorValue || '').split(/\s*[;,]\s*/)).filter(Boolean);
+
+      const match = scoreDuplicate(book, {
+        title: typeof pageTitle === 'string' ? pageTitle : '',
+        authors: pageAuthors,
+        isbns: pageIsbns.map(toIsbn13).filter(Boolean)
+      }, editionIsbns);
+      if (!match) return null;
+
       return {
         id: page.id,
         url: page.url,
-        title: bookTitle,
-        isbn: bookIsbn,
-        created_time: page.created_time
+        title: typeof pageTitle === 'string' && pageTitle ? pageTitle : 'Untitled',
+        isbn: pageIsbns[0] || '',
+        authors: pageAuthors,
+        created_time: page.created_time,
+        ...match
       };
-    });
+    }).filter(Boolean).sort((a, b) => b.score - a.score);
 
     res.json({ books });
 
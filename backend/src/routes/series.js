@@ -0,0 +1,152 @@
+const express = require('express');
+const authToken = require('../utils/authToken');
+const seriesCatalog = require('../services/seriesCatalogService');
+const router = express.Router();
+
+// Middleware to check authentication (using JWT tokens)
+const requireAuth = authToken.requireAuth.bind(authToken);
+
+const sendCatalogError = (res, error, action) => {
+  if (error.isOperational) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.statusCode === 404 ? 'Series Not Found' : 'Invalid Series',
+      message: error.message
+    });
+  }
+
+  console.error(`❌ Series catalog ${action} error:`, error.message);
+  return res.status(500).json({
+    success: false,
+    error: `Failed to ${action} series`,
+    message: error.message
+  });
+};
+
+/**
+ * GET /api/series
+ * List the series catalog
+ * Query parameters:
+ * - q: filter by series name, alias or author
+ */
+router.get('/', (req, res) => {
+  const series = seriesCatalog.list(req.query.q);
+
+  res.json({
+    success: true,
+    data: {
+      series,
+      total: series.length
+    }
+  });
+});
+
+/**
+ * GET /api/series/next
+ * Find the series a book belongs to and the book that follows it
+ * Query parameters:
+ * - title: book title (required)
+ * - author: book author, to disambiguate identical titles
+ */
+router.get('/next', (req, res) => {
+  const { title, author } = req.query;
+
+  if (!title || title.trim() === '') {
+    return res.status(400).json({
+      success: false,
+      error: 'Book title is required'
+    });
+  }
+
+  const match = seriesCatalog.findBook(title, author);
+
+  res.json({
+    success: true,
+    data: {
+      series: match ? match.series : null,
+      book: match ? match.book : null,
+      next: match ? seriesCatalog.getNextBook(match.series, match.book.number) : null
+    }
+  });
+});
+
+/**
+ * GET /api/series/:id
+ * Get one series with its books in reading order
+ */
+router.get('/:id', (req, res) => {
+  const series = seriesCatalog.get(req.params.id);
+
+  if (!series) {
+    return res.status(404).json({
+      success: false,
+      error: 'Series Not Found',
+      message: `Series "${req.params.id}" not found`
+    });
+  }
+
+  res.json({
+    success: true,
+    data: series
+  });
+});
+
+/**
+ * POST /api/series
+ * Add a series to the catalog
+ * Body: { name, author, aliases, books: [{ number, title, aliases }] }
+ */
+router.post('/', requireAuth, (req, res) => {
+  try {
+    const series = seriesCatalog.createSeries(req.body);
+    console.log(`📚 Added series "${series.name}" with ${series.books.length} books`);
+
+    res.status(201).json({
+      success: true,
+      data: series
+    });
+  } catch (error) {
+    sendCatalogError(res, error, 'create');
+  }
+});
+
+/**
+ * PUT /api/series/:id
+ * Replace a series' name, author, aliases and books. Books saved here are never
+ * overwritten by provider data.
+ */
+router.put('/:id', requireAuth, (req, res) => {
+  try {
+    const series = seriesCatalog.updateSeries(req.params.id, req.body);
+    console.log(`📚 Updated series "${series.name}"`);
+
+    res.json({
+      success: true,
+      data: series
+    });
+  } catch (error) {
+    sendCatalogError(res, error, 'update');
+  }
+});
+
+/**
+ * DELETE /api/series/:id
+ * Remove a series from the catalog
+ */
+router.delete('/:id', requireAuth, (req, res) => {
+  try {
+    seriesCatalog.removeSeries(req.params.id);
+    console.log(`🗑️ Removed series "${req.params.id}"`);
+
+    res.json({
+      success: true,
+      data: {
+        id: req.params.id
+      }
+    });
+  } catch (error) {
+    sendCatalogError(res, error, 'delete');
+  }
+});
+
+module.exports = router;
@@ -1,5 +1,8 @@
 const express = require('express');
 const authToken = require('../utils/authToken');
+const { notionRequest, resolveDataSourceId, getRelationTitles } = require('../lib/notion');
+const { collectRelationIds, pageToBook } = require('../utils/notionLibrary');
+const { computeLibraryStats } = require('../utils/libraryStats');
 const router = express.Router();
 
 // Middleware to check authentication (using JWT tokens)
@@ -78,29 +81,66 @@ router.get('/profile', requireAuth, async (req, res) => {
   }
 });
 
-// Get user statistics (session-based, simplified)
+// Stop reading the library after this many pages so one request stays bounded
+const MAX_STATS_PAGES = 5000;
+
+// Every page of the books data source, with linked page titles for mapped relations
+const loadLibraryBooks = async (token, databaseId, fieldMappings) => {
+  const dataSourceId = await resolveDataSourceId(token, databaseId);
+  const schema = await notionRequest(token, 'GET', `/data_sources/${dataSourceId}`);
+
+  const pages = [];
+  let cursor = null;
+  do {
+    const response = await notionRequest(token, 'POST', `/data_sources/${dataSourceId}/query`, {
+      page_size: 100,
+      ...(cursor ? { start_cursor: cursor } : {})
+    });
+    pages.push(...(response.results || []));
+    cursor = response.has_more ? response.next_cursor : null;
+  } while (cursor && pages.length < MAX_STATS_PAGES);
+
+  const relationTitles = await getRelationTitles(token, collectRelationIds(pages, schema, fieldMappings));
+
+  return {
+    books: pages.map(page => pageToBook(page, schema, fieldMappings, relationTitles)),
+    truncated: Boolean(cursor)
+  };
+};
+
+// Get reading statistics for the books database
+// Query: databaseId, fieldMappings (JSON-encoded saved field mappings)
 router.get('/stats', requireAuth, async (req, res) => {
   try {
-    // For session-based storage, provide simplified stats
-    const stats = {
-      sessions: {
-        total: 0,
-        approved: 0,
-        pending: 0
-      },
-      recentActivity: [],
-      user: {
-        joinedAt: new Date().toISOString(),
-        hasSettings: !!req.session.userSettings,
-        hasDatabaseConfigured: !!(req.session.userSettings?.notion_database_id)
-      }
-    };
+    const { databaseId } = req.query;
+    if (!databaseId) {
+      return res.status(400).json({ error: 'Database ID is required' });
+    }
+
+    let fieldMappings;
+    try {
+      fieldMappings = JSON.parse(req.query.fieldMappings || '{}');
+    } catch (parseError) {
+      return res.status(400).json({ error: 'Field mappings must be valid JSON' });
+    }
 
-    res.json(stats);
+    const token = await authToken.getNotionToken(req);
+    const { books, truncated } = await loadLibraryBooks(token, databaseId, fieldMappings);
+
+    res.json({
+      ...computeLibraryStats(books),
+      truncated,
+      generatedAt: new Date().toISOString()
+    });
 
   } catch (error) {
-    console.error('Error fetching user stats:', error);
-    res.status(500).json({ error: 'Failed to fetch user statistics' });
+    console.error('Error fetching user stats:', error.message);
+
+    if (error.statusCode === 404) {
+      return res.status(404).json({ error: 'Database not found or access denied' });
+    }
+
+    res.status(error.statusCode === 401 ? 401 : 500).json({ error: 'Failed to fetch user statistics' });
   }
 });
 
@@ -11,6 +11,10 @@ const authRoutes = require('./routes/auth');
 const bookRoutes = require('./routes/books');
 const notionRoutes = require('./routes/notion');
 const userRoutes = require('./routes/user');
+const cacheRoutes = require('./routes/cache');
+const seriesRoutes = require('./routes/series');
+const responseCache = require('./lib/responseCache');
+const seriesCatalog = require('./services/seriesCatalogService');
 
 const app = express();
 // Default to 3002 to avoid conflicts with other projects
@@ -68,7 +72,9 @@ const corsOptions = {
 
     callback(new Error(`Not allowed by CORS: ${origin}`));
   },
-  credentials: true
+  credentials: true,
+  // Let the frontend read whether upstream responses came from the cache
+  exposedHeaders: ['X-Cache', 'X-Cache-Hits', 'X-Cache-Misses']
 };
 
 app.use(cors(corsOptions));
@@ -88,11 +94,16 @@ if (process.env.NODE_ENV === 'production') {
   app.use(express.static(path.join(__dirname, '../../frontend/build')));
 }
 
+// Report upstream cache usage on every API response
+app.use('/api', responseCache.headersMiddleware());
+
 // Routes
 app.use('/auth', authRoutes);
 app.use('/api/books', bookRoutes);
 app.use('/api/notion', notionRoutes);
 app.use('/api/user', userRoutes);
+app.use('/api/cache', cacheRoutes);
+app.use('/api/series', seriesRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -171,6 +182,8 @@ app.use((err, req, res, next) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  responseCache.flush();
+  seriesCatalog.flush();
   process.exit(0);
 });
 
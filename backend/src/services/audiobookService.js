@@ -1,4 +1,4 @@
-const axios = require('axios');
+const responseCache = require('../lib/responseCache');
 
 class AudiobookService {
   constructor() {
@@ -134,7 +134,7 @@ class AudiobookService {
         try {
           console.log(`🔍 Trying Audible search: "${query}"`);
           
-          const response = await axios.get(`${this.audibleBaseURL}/catalog/products`, {
+          const response = await responseCache.fetch('audible', `${this.audibleBaseURL}/catalog/products`, {
             params: {
               'response_groups': 'contributors,product_desc,product_extended_attrs,product_attrs,media,rating',
               'image_sizes': '500,1024',
@@ -330,7 +330,7 @@ class AudiobookService {
   async searchByAuthor(title, author) {
     try {
       // Search for the author
-      const authorResponse = await axios.get(`${this.audnexusBaseURL}/authors`, {
+      const authorResponse = await responseCache.fetch('audnexus', `${this.audnexusBaseURL}/authors`, {
         params: {
           name: author,
           region: 'us'
@@ -355,7 +355,7 @@ class AudiobookService {
       console.log(`🎧 Found matching author: ${matchingAuthor.name} (${matchingAuthor.asin})`);
 
       // Get detailed author information
-      const authorDetailResponse = await axios.get(`${this.audnexusBaseURL}/authors/${matchingAuthor.asin}`, {
+      const authorDetailResponse = await responseCache.fetch('audnexus', `${this.audnexusBaseURL}/authors/${matchingAuthor.asin}`, {
         params: { 
           region: 'us',
           update: '0' // Don't force update to be faster
@@ -535,7 +535,7 @@ class AudiobookService {
     try {
       console.log(`🎧 Getting audiobook details for ASIN: ${asin}`);
 
-      const bookResponse = await axios.get(`${this.audnexusBaseURL}/books/${asin}`, {
+      const bookResponse = await responseCache.fetch('audnexus', `${this.audnexusBaseURL}/books/${asin}`, {
         params: {
           region: 'us',
           seedAuthors: 1,
@@ -555,7 +555,7 @@ class AudiobookService {
       // Get chapter information for duration
       let chapterData = null;
       try {
-        const chaptersResponse = await axios.get(`${this.audnexusBaseURL}/books/${asin}/chapters`, {
+        const chaptersResponse = await responseCache.fetch('audnexus', `${this.audnexusBaseURL}/books/${asin}/chapters`, {
           params: {
             region: 'us',
             update: 0
@@ -651,6 +651,11 @@ class AudiobookService {
       totalDurationMinutes: totalDurationMinutes,
       totalDurationHours: totalDurationHours,
       chapterCount: chapterCount,
+      chapterList: (chapterData?.chapters || []).map(chapter => ({
+        title: chapter.title,
+        lengthMs: chapter.lengthMs,
+        startOffsetMs: chapter.startOffsetMs
+      })),
       publisher: book.publisherName,
       description: book.description,
       summary: book.summary,
@@ -664,7 +669,9 @@ class AudiobookService {
       formatType: book.formatType,
       image: book.image,
       genres: book.genres || [],
-      authors: book.authors?.map(a => a.name) || []
+      authors: book.authors?.map(a => a.name) || [],
+      series: book.seriesPrimary?.name || null,
+      seriesPosition: book.seriesPrimary?.position || null
     };
 
     console.log(`✅ Successfully parsed audiobook data for "${book.title}"`);
@@ -962,7 +969,7 @@ class AudiobookService {
       let authorInfo = null;
       try {
         console.log(`🔍 Trying Audnexus author search as fallback`);
-        const authorResponse = await axios.get(`${this.audnexusBaseURL}/authors`, {
+        const authorResponse = await responseCache.fetch('audnexus', `${this.audnexusBaseURL}/authors`, {
           params: {
             name: author,
             region: 'us'
@@ -978,7 +985,7 @@ class AudiobookService {
             
             // Get author details
             try {
-              const authorDetailResponse = await axios.get(`${this.audnexusBaseURL}/authors/${bestAuthor.asin}`, {
+              const authorDetailResponse = await responseCache.fetch('audnexus', `${this.audnexusBaseURL}/authors/${bestAuthor.asin}`, {
                 params: { region: 'us' },
                 timeout: 8000
               });
@@ -0,0 +1,104 @@
+const responseCache = require('../lib/responseCache');
+
+const normalizeName = (name) => String(name || '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+/**
+ * Looks up author details (photo and bio) used to fill pages in a linked Notion "Authors" database.
+ * Audnexus author info already attached to a book wins; otherwise Open Library is asked.
+ */
+class AuthorInfoService {
+  constructor() {
+    this.openLibraryBaseURL = 'https://openlibrary.org';
+    this.openLibraryCoversURL = 'https://covers.openlibrary.org';
+  }
+
+  /**
+   * Get a photo and bio for an author
+   * @param {string} name - Author name
+   * @param {Object} audiobookAuthorInfo - Optional `audiobookData.authorInfo` from the book being added
+   * @returns {Promise<Object>} { name, bio, photo, source } (bio and photo may be null)
+   */
+  async getAuthorInfo(name, audiobookAuthorInfo = null) {
+    const fromAudiobook = this.fromAudiobookAuthorInfo(name, audiobookAuthorInfo);
+    if (fromAudiobook) {
+      return fromAudiobook;
+    }
+
+    try {
+      const fromOpenLibrary = await this.fetchOpenLibraryAuthor(name);
+      if (fromOpenLibrary) {
+        return fromOpenLibrary;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Open Library author lookup failed for "${name}":`, error.message);
+    }
+
+    return { name, bio: null, photo: null, source: null };
+  }
+
+  /**
+   * Use Audnexus author info when it is about the same person
+   * @param {string} name - Author name
+   * @param {Object} authorInfo - Audnexus author info
+   * @returns {Object|null} Author details
+   */
+  fromAudiobookAuthorInfo(name, authorInfo) {
+    if (!authorInfo?.name || normalizeName(authorInfo.name) !== normalizeName(name)) {
+      return null;
+    }
+    if (!authorInfo.description && !authorInfo.image) {
+      return null;
+    }
+
+    return {
+      name,
+      bio: authorInfo.description || null,
+      photo: authorInfo.image || null,
+      source: 'audnexus'
+    };
+  }
+
+  /**
+   * Search Open Library for an author and read their bio and photo
+   * @param {string} name - Author name
+   * @returns {Promise<Object|null>} Author details
+   */
+  async fetchOpenLibraryAuthor(name) {
+    const searchResponse = await responseCache.fetch('open_library', `${this.openLibraryBaseURL}/search/authors.json`, {
+      params: { q: name, limit: 5 },
+      timeout: 8000
+    });
+
+    const candidates = searchResponse.data?.docs || [];
+    const target = normalizeName(name);
+    const match = candidates.find(doc => normalizeName(doc.name) === target)
+      || candidates.find(doc => (doc.alternate_names || []).some(alt => normalizeName(alt) === target));
+    if (!match?.key) {
+      return null;
+    }
+
+    const key = match.key.replace('/authors/', '');
+    const detailResponse = await responseCache.fetch('open_library', `${this.openLibraryBaseURL}/authors/${key}.json`, {
+      timeout: 8000
+    });
+    const details = detailResponse.data || {};
+
+    const bio = typeof details.bio === 'string' ? details.bio : details.bio?.value;
+    const photoId = (details.photos || []).find(id => id > 0);
+
+    console.log(`👤 Found Open Library author ${key} for "${name}"`);
+    return {
+      name,
+      bio: bio || null,
+      photo: photoId ? `${this.openLibraryCoversURL}/a/id/${photoId}-L.jpg` : null,
+      source: 'open_library'
+    };
+  }
+}
+
+module.exports = new AuthorInfoService();
@@ -1,58 +1,98 @@
-const axios = require('axios');
-const googleBooksService = require('./googleBooksService');
+const responseCache = require('../lib/responseCache');
 const AudiobookService = require('./audiobookService');
+const seriesCatalog = require('./seriesCatalogService');
+const ProviderRegistry = require('./providers/providerRegistry');
+const GoogleBooksProvider = require('./providers/googleBooksProvider');
+const OpenLibraryProvider = require('./providers/openLibraryProvider');
+const FixtureProvider = require('./providers/fixtureProvider');
+const { applySearchFilters, toOpenLibraryLanguage } = require('../utils/searchFilters');
+const { encodeSearchCursor, decodeSearchCursor, selectSearchPage } = require('../utils/searchPagination');
 
 class BookSearchService {
   constructor() {
     this.openLibraryBaseURL = 'https://openlibrary.org/search.json';
     this.openLibraryWorksURL = 'https://openlibrary.org/works';
     this.audiobookService = new AudiobookService();
+
+    // Metadata providers, consulted in registration order unless a request specifies its own
+    this.providers = new ProviderRegistry();
+    this.providers.register(new GoogleBooksProvider({
+      enhanceBook: book => this.enhanceBookWithOpenLibraryData(book)
+    }));
+    this.providers.register(new OpenLibraryProvider(this));
+    this.providers.register(new FixtureProvider());
   }
 
   /**
-   * Search for books using Google Books API with Open Library fallback and merging
+   * Search for books across the enabled metadata providers and merge the results
    * @param {string} query - Search query
    * @param {string} searchType - Type of search (isbn, title, author, general)
    * @param {number} maxResults - Maximum number of results
    * @param {boolean|string} includeAudiobooks - Whether to enrich results with audiobook data 
    *                                           - Can be boolean or string 'top' to only enrich top result
-   * @returns {Promise<Object>} Enhanced book data with merged results from both APIs
+   * @param {Object} options - Search options
+   * @param {Array<string>} options.providers - Provider IDs to query, in priority order (defaults to enabled providers)
+   * @param {string} options.cursor - nextCursor of the previous page, for pagination (default: first page)
+   * @param {Object} options.filters - Normalized filters (see utils/searchFilters), passed to providers and re-applied after merging
+   * @returns {Promise<Object>} Enhanced book data with merged results from all providers
    */
-  async searchBooks(query, searchType = 'general', maxResults = 10, includeAudiobooks = false) {
+  async searchBooks(query, searchType = 'general', maxResults = 10, includeAudiobooks = false, options = {}) {
     try {
-      console.log(`🔍 Starting enhanced search for: "${query}" (type: ${searchType})`);
+      const requestedProviders = this.providers.resolve(options.providers);
+      const offsets = decodeSearchCursor(options.cursor);
+      // Providers that ran out of results on an earlier page are not asked again
+      const providers = requestedProviders.filter(provider => offsets[provider.id] !== null);
+      const filters = options.filters || null;
+      // Audiobook availability is only known after enrichment, so that filter needs every result enriched
+      if (filters?.hasAudiobook) {
+        includeAudiobooks = true;
+      }
+      console.log(`🔍 Starting enhanced search for: "${query}" (type: ${searchType}, providers: ${providers.map(p => p.id).join(', ') || 'none'}${options.cursor ? `, offsets: ${JSON.stringify(offsets)}` : ''})`);
       
-      // Search both APIs in parallel
-      const [googleResult, openLibraryResult] = await Promise.all([
-        googleBooksService.searchBooks(query, searchType, maxResults).catch(err => {
-          console.warn('⚠️ Google Books search failed:', err.message);
-          return { success: false, books: [], totalItems: 0, source: 'google_books' };
-        }),
-        this.searchOpenLibraryDirect(query, searchType, maxResults).catch(err => {
-          console.warn('⚠️ Open Library search failed:', err.message);
-          return { success: false, books: [], totalItems: 0, source: 'open_library' };
-        })
-      ]);
-
-      console.log(`📊 Google Books found: ${googleResult.books?.length || 0} results`);
-      console.log(`📊 Open Library found: ${openLibraryResult.books?.length || 0} results`);
+      // Search all providers in parallel
+      const providerResults = await Promise.all(providers.map(provider =>
+        provider.search(query, searchType, maxResults, { offset: offsets[provider.id] || 0, filters })
+          .then(result => ({ providerId: provider.id, success: !!result.success, books: result.books || [], totalItems: result.totalItems || 0 }))
+          .catch(err => {
+            console.warn(`⚠️ ${provider.name} search failed:`, err.message);
+            return { providerId: provider.id, success: false, books: [], totalItems: 0 };
+          })
+      ));
+
+      providerResults.forEach(result => {
+        console.log(`📊 ${this.providers.get(result.providerId).name} found: ${result.books.length} results`);
+      });
 
       let finalBooks = [];
+      const provenance = new Map();
 
-      // Enhance Google results with Open Library data when available
-      const enhancedGoogleBooks = googleResult.success && googleResult.books.length > 0
-        ? await Promise.all(
-            googleResult.books.map(book => this.enhanceBookWithOpenLibraryData(book))
-          )
-        : [];
+      if (providerResults.some(result => result.books.length > 0)) {
+        finalBooks = this.mergeAndRankResults(providerResults, query, provenance);
+      }
 
-      const openLibraryBooks = openLibraryResult.success && openLibraryResult.books.length > 0
-        ? openLibraryResult.books
-        : [];
+      // Providers apply what their APIs support; enforce every filter on the merged list
+      if (filters) {
+        const { hasAudiobook, ...metadataFilters } = filters;
+        finalBooks = applySearchFilters(finalBooks, metadataFilters);
+      }
 
-      if (enhancedGoogleBooks.length > 0 || openLibraryBooks.length > 0) {
-        finalBooks = this.mergeAndRankResults(enhancedGoogleBooks, openLibraryBooks, query);
+      // Each provider advances only past the results this page used, so lower-ranked ones come back on later pages
+      const page = selectSearchPage(finalBooks, provenance, providerResults, maxResults);
+      finalBooks = page.books;
+      const nextOffsets = {};
+      for (const provider of requestedProviders) {
+        const result = providerResults.find(candidate => candidate.providerId === provider.id);
+        if (!result) {
+          nextOffsets[provider.id] = null;
+          continue;
+        }
+        const offset = offsets[provider.id] || 0;
+        const consumed = page.consumed[provider.id] || 0;
+        const hasMore = result.success && result.books.length > 0 &&
+          (consumed < result.books.length || offset + consumed < result.totalItems);
+        nextOffsets[provider.id] = hasMore ? offset + consumed : null;
       }
+      const nextCursor = encodeSearchCursor(nextOffsets);
 
       // Enrich with audiobook data if requested
       if (includeAudiobooks && finalBooks.length > 0) {
@@ -96,25 +136,33 @@ class BookSearchService {
         }
       }
 
+      if (filters?.hasAudiobook) {
+        finalBooks = applySearchFilters(finalBooks, { hasAudiobook: true });
+      }
+
+      seriesCatalog.annotateBooks(finalBooks);
+
       // Determine source
+      const successfulProviders = providerResults.filter(result => result.success).map(result => result.providerId);
       let source = 'no_results';
       if (finalBooks.length > 0) {
-        if (googleResult.success && openLibraryResult.success) {
+        if (successfulProviders.length > 1) {
           source = 'merged_apis';
-        } else if (googleResult.success) {
-          source = 'google_books_enhanced';
         } else {
-          source = 'open_library_primary';
+          const provider = this.providers.get(successfulProviders[0] || providerResults[0].providerId);
+          source = provider.singleSourceLabel || provider.id;
         }
       }
 
       return {
         success: true,
-        totalItems: Math.max(googleResult.totalItems || 0, openLibraryResult.totalItems || 0),
-        books: finalBooks.slice(0, maxResults),
+        totalItems: Math.max(0, ...providerResults.map(result => result.totalItems)),
+        books: finalBooks,
+        nextCursor,
+        hasMore: nextCursor !== null,
         source: source,
-        sources: googleResult.success && openLibraryResult.success ? ['google_books', 'open_library'] : undefined,
-        message: finalBooks.length === 0 ? 'No results found from either Google Books or Open Library' : undefined
+        sources: successfulProviders.length > 1 ? successfulProviders : undefined,
+        message: finalBooks.length === 0 ? 'No results found from any enabled metadata provider' : undefined
       };
 
     } catch (error) {
@@ -128,13 +176,15 @@ class BookSearchService {
    * @param {string} query - Search query
    * @param {string} searchType - Type of search
    * @param {number} maxResults - Maximum number of results
+   * @param {number} offset - Number of results to skip, for pagination
+   * @param {Object|null} filters - Normalized search filters; language, year range and ebook format are applied by the API
    * @returns {Promise<Object>} Open Library search results
    */
-  async searchOpenLibraryDirect(query, searchType = 'general', maxResults = 10) {
+  async searchOpenLibraryDirect(query, searchType = 'general', maxResults = 10, offset = 0, filters = null) {
     try {
       let params = { 
-        limit: Math.min(maxResults * 2, 20), // Get more results to filter better matches
-        fields: 'key,title,author_name,first_publish_year,edition_count,subject,isbn,number_of_pages_median,publisher,cover_i,language'
+        limit: maxResults,
+        fields: 'key,title,author_name,first_publish_year,edition_count,subject,isbn,number_of_pages_median,publisher,cover_i,language,ebook_access'
       };
 
       // Format query based on search type
@@ -213,9 +263,31 @@ class BookSearchService {
         }
       }
 
+      if (offset > 0) {
+        params.offset = offset;
+      }
+
+      if (filters) {
+        if (filters.language) {
+          params.language = toOpenLibraryLanguage(filters.language);
+        }
+
+        // Year range and ebook availability are only expressible as Solr clauses in q
+        const clauses = [];
+        if (filters.yearFrom || filters.yearTo) {
+          clauses.push(`first_publish_year:[${filters.yearFrom || '*'} TO ${filters.yearTo || '*'}]`);
+        }
+        if (filters.format === 'ebook') {
+          clauses.push('ebook_access:(public OR borrowable)');
+        }
+        if (clauses.length > 0) {
+          params.q = [params.q, ...clauses].filter(Boolean).join(' AND ');
+        }
+      }
+
       console.log(`🔍 Searching Open Library directly: ${JSON.stringify(params)}`);
 
-      const response = await axios.get(this.openLibraryBaseURL, {
+      const response = await responseCache.fetch('open_library', this.openLibraryBaseURL, {
         params,
         timeout: 8000
       });
@@ -232,8 +304,7 @@ class BookSearchService {
       // Parse and filter results
       const books = response.data.docs
         .map(doc => this.parseOpenLibraryData(doc))
-        .filter(book => book.title && book.title !== 'Unknown Title')
-        .slice(0, maxResults);
+        .filter(book => book.title && book.title !== 'Unknown Title');
 
       return {
         success: true,
@@ -286,6 +357,7 @@ class BookSearchService {
       previewLink: null,
       infoLink: doc.key ? `https://openlibrary.org${doc.key}` : null,
       buyLink: null,
+      formats: ['public', 'borrowable'].includes(doc.ebook_access) ? ['print', 'ebook'] : ['print'],
       source: 'open_library',
       openLibraryKey: doc.key,
       openLibraryData: {
@@ -298,15 +370,17 @@ class BookSearchService {
   }
 
   /**
-   * Merge and rank results from both APIs
-   * @param {Array} googleBooks - Books from Google Books (already enhanced)
-   * @param {Array} openLibraryBooks - Books from Open Library
+   * Merge and rank results from any number of providers
+   * @param {Array<{providerId: string, books: Array}>} providerResults - Results in provider priority order
    * @param {string} query - Original search query
+   * @param {Map|null} provenance - When given, filled with the provider results ({providerId, index}) behind each merged book
    * @returns {Array} Merged and ranked book results
    */
-  mergeAndRankResults(googleBooks, openLibraryBooks, query) {
+  mergeAndRankResults(providerResults, query, provenance = null) {
     const mergedBooks = [];
     const seenTitles = new Map();
+    // Provider results behind each entry of mergedBooks, by the same index
+    const contributions = [];
 
     // Helper function to determine if a title is a special edition
     const isSpecialEdition = (title) => {
@@ -316,7 +390,7 @@ class BookSearchService {
              /\([^)]*(?:edition|version|release|deluxe|special|collector|hardcover|paperback)[^)]*\)/i.test(titleLower);
     };
 
-    const upsertBook = (book, sourceLabel) => {
+    const upsertBook = (book, sourceLabel, contribution) => {
       if (!book?.title) {
         return;
       }
@@ -331,6 +405,7 @@ class BookSearchService {
       if (existingIndex === undefined) {
         bookWithScore.primarySource = sourceLabel;
         mergedBooks.push(bookWithScore);
+        contributions.push([contribution]);
         seenTitles.set(normalizedTitle, mergedBooks.length - 1);
         return;
       }
@@ -365,6 +440,7 @@ class BookSearchService {
       mergedBook.primarySource = primaryBook.primarySource;
 
       mergedBooks[existingIndex] = mergedBook;
+      contributions[existingIndex].push(contribution);
     };
 
     // Helper function to calculate relevance score
@@ -550,14 +626,13 @@ class BookSearchService {
         .trim();
     };
 
-    // Add Google Books results first (they usually have better metadata)
-    for (const book of googleBooks) {
-      upsertBook(book, 'google_books');
+    // Add results in provider priority order; earlier providers become the primary record for duplicates
+    for (const { providerId, books } of providerResults) {
+      books.forEach((book, index) => upsertBook(book, providerId, { providerId, index }));
     }
 
-    // Add Open Library results that aren't duplicates
-    for (const book of openLibraryBooks) {
-      upsertBook(book, 'open_library');
+    if (provenance) {
+      mergedBooks.forEach((book, index) => provenance.set(book, contributions[index]));
     }
 
     // Sort by relevance score (highest first)
@@ -690,6 +765,7 @@ class BookSearchService {
       isbn10: primaryBook.isbn10 || secondaryBook.isbn10,
       thumbnail: primaryBook.thumbnail || secondaryBook.thumbnail,
       categories: mergedCategories,
+      formats: [...new Set([...(primaryBook.formats || []), ...(secondaryBook.formats || [])])],
       // Store edition variants for later use in field source selection
       editionVariants: mergedEditionVariants.length > 0 ? mergedEditionVariants : undefined,
       // Merge Open Library data
@@ -793,7 +869,7 @@ class BookSearchService {
           fields: 'key,title,author_name,first_publish_year,edition_count,subject,isbn'
         };
 
-        const titleResponse = await axios.get(this.openLibraryBaseURL, {
+        const titleResponse = await responseCache.fetch('open_library', this.openLibraryBaseURL, {
           params: titleAuthorParams,
           timeout: 5000
         });
@@ -827,7 +903,7 @@ class BookSearchService {
           fields: 'key,title,author_name,first_publish_year,edition_count,subject,isbn'
         };
 
-        const isbnResponse = await axios.get(this.openLibraryBaseURL, {
+        const isbnResponse = await responseCache.fetch('open_library', this.openLibraryBaseURL, {
           params: isbnSearchParams,
           timeout: 5000
         });
@@ -930,24 +1006,23 @@ class BookSearchService {
   }
 
   /**
-   * Get book details by Google Books ID with Open Library enhancement
-   * @param {string} bookId - Google Books volume ID
-   * @returns {Promise<Object>} Enhanced book details
+   * Get book details by ID from a metadata provider
+   * @param {string} bookId - Provider-specific book ID (Google Books volume ID by default)
+   * @param {string} providerId - Provider to ask (defaults to Google Books)
+   * @returns {Promise<Object>} Provider result ({ success, book, source }), with the book annotated from the series catalog
    */
-  async getBookById(bookId) {
+  async getBookById(bookId, providerId = 'google_books') {
     try {
-      const googleResult = await googleBooksService.getBookById(bookId);
-      
-      if (!googleResult.success) {
-        return googleResult;
+      const provider = this.providers.get(providerId);
+      if (!provider || !provider.capabilities.getById) {
+        throw new Error(`Metadata provider "${providerId}" does not support lookups by ID`);
       }
 
-      const enhancedBook = await this.enhanceBookWithOpenLibraryData(googleResult.book);
-
-      return {
-        ...googleResult,
-        book: enhancedBook
-      };
+      const result = await provider.getById(bookId);
+      if (result?.book) {
+        seriesCatalog.annotateBooks([result.book]);
+      }
+      return result;
 
     } catch (error) {
       console.error('❌ Enhanced Book Get Error:', error.message);
@@ -956,14 +1031,47 @@ class BookSearchService {
   }
 
   /**
-   * Get different editions of a book from Open Library
+   * Get different editions of a book from the providers that support editions
+   * @param {string} workKey - Work key (e.g., Open Library "/works/OL123456W")
+   * @param {number} limit - Maximum number of editions to return
+   * @param {boolean} englishOnly - Filter to English-only editions
+   * @param {string} originalTitle - Original title of the book
+   * @param {Array<string>} providerIds - Provider IDs in priority order (defaults to enabled providers)
+   * @returns {Promise<Object>} Different editions of the book
+   */
+  async getBookEditions(workKey, limit = 20, englishOnly = false, originalTitle = '', providerIds) {
+    const providers = this.providers.resolve(providerIds).filter(provider => provider.capabilities.editions);
+    if (providers.length === 0) {
+      return {
+        success: false,
+        error: 'No enabled metadata provider supports editions',
+        totalEditions: 0,
+        editions: []
+      };
+    }
+
+    // Use the first provider that knows this work, falling back to the last answer
+    let result = null;
+    for (const provider of providers) {
+      result = await provider.getEditions(workKey, limit, englishOnly, originalTitle);
+      if (result.success && result.editions.length > 0) {
+        seriesCatalog.annotateBooks(result.editions);
+        return result;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch different editions of a book from Open Library
    * @param {string} openLibraryKey - Open Library work key (e.g., "/works/OL123456W")
    * @param {number} limit - Maximum number of editions to return
    * @param {boolean} englishOnly - Filter to English-only editions
    * @param {string} originalTitle - Original title of the book
    * @returns {Promise<Object>} Different editions of the book
    */
-  async getBookEditions(openLibraryKey, limit = 20, englishOnly = false, originalTitle = '') {
+  async fetchOpenLibraryEditions(openLibraryKey, limit = 20, englishOnly = false, originalTitle = '') {
     try {
       if (!openLibraryKey) {
         throw new Error('Open Library key is required');
@@ -977,7 +1085,7 @@ class BookSearchService {
 
       let response;
       try {
-        response = await axios.get(`https://openlibrary.org${workKey}/editions.json`, {
+        response = await responseCache.fetch('open_library', `https://openlibrary.org${workKey}/editions.json`, {
           params: { limit: englishOnly ? limit * 3 : limit * 2, offset: 0 }, // Fetch more if filtering heavily
           timeout: 8000
         });
@@ -1145,6 +1253,7 @@ class BookSearchService {
       weight: edition.weight || null,
       description: edition.description?.value || edition.description || null,
       categories: categories, // Add categories from edition
+      openLibrarySeries: edition.series || [],
       infoLink: `https://openlibrary.org${edition.key}`,
       source: 'open_library_edition',
       openLibraryKey: edition.key,
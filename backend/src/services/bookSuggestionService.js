@@ -1,88 +1,9 @@
 const googleBooksService = require('./googleBooksService');
+const seriesCatalog = require('./seriesCatalogService');
+const { normalizeSeriesName } = seriesCatalog;
 
 class BookSuggestionService {
   constructor() {
-    // Popular book series and their variations
-    this.bookSeries = {
-      'harry potter': {
-        books: [
-          { number: 1, title: 'Harry Potter and the Philosopher\'s Stone', aliases: ['sorcerer\'s stone', 'philosopher\'s stone'] },
-          { number: 2, title: 'Harry Potter and the Chamber of Secrets', aliases: ['chamber of secrets'] },
-          { number: 3, title: 'Harry Potter and the Prisoner of Azkaban', aliases: ['prisoner of azkaban'] },
-          { number: 4, title: 'Harry Potter and the Goblet of Fire', aliases: ['goblet of fire'] },
-          { number: 5, title: 'Harry Potter and the Order of the Phoenix', aliases: ['order of the phoenix'] },
-          { number: 6, title: 'Harry Potter and the Half-Blood Prince', aliases: ['half-blood prince'] },
-          { number: 7, title: 'Harry Potter and the Deathly Hallows', aliases: ['deathly hallows'] }
-        ],
-        author: 'J.K. Rowling'
-      },
-      'lord of the rings': {
-        books: [
-          { number: 1, title: 'The Fellowship of the Ring', aliases: ['fellowship'] },
-          { number: 2, title: 'The Two Towers', aliases: ['two towers'] },
-          { number: 3, title: 'The Return of the King', aliases: ['return of the king'] }
-        ],
-        author: 'J.R.R. Tolkien'
-      },
-      'hunger games': {
-        books: [
-          { number: 1, title: 'The Hunger Games', aliases: ['hunger games'] },
-          { number: 2, title: 'Catching Fire', aliases: ['catching fire'] },
-          { number: 3, title: 'Mockingjay', aliases: ['mockingjay'] }
-        ],
-        author: 'Suzanne Collins'
-      },
-      'game of thrones': {
-        books: [
-          { number: 1, title: 'A Game of Thrones', aliases: ['game of thrones'] },
-          { number: 2, title: 'A Clash of Kings', aliases: ['clash of kings'] },
-          { number: 3, title: 'A Storm of Swords', aliases: ['storm of swords'] },
-          { number: 4, title: 'A Feast for Crows', aliases: ['feast for crows'] },
-          { number: 5, title: 'A Dance with Dragons', aliases: ['dance with dragons'] }
-        ],
-        author: 'George R.R. Martin'
-      },
-      'chronicles of narnia': {
-        books: [
-          { number: 1, title: 'The Lion, the Witch and the Wardrobe', aliases: ['lion witch wardrobe'] },
-          { number: 2, title: 'Prince Caspian', aliases: ['prince caspian'] },
-          { number: 3, title: 'The Voyage of the Dawn Treader', aliases: ['dawn treader'] },
-          { number: 4, title: 'The Silver Chair', aliases: ['silver chair'] },
-          { number: 5, title: 'The Horse and His Boy', aliases: ['horse and his boy'] },
-          { number: 6, title: 'The Magician\'s Nephew', aliases: ['magician\'s nephew'] },
-          { number: 7, title: 'The Last Battle', aliases: ['last battle'] }
-        ],
-        author: 'C.S. Lewis'
-      },
-      'stormlight archive': {
-        books: [
-          { number: 1, title: 'The Way of Kings', aliases: ['way of kings'] },
-          { number: 2, title: 'Words of Radiance', aliases: ['words of radiance'] },
-          { number: 3, title: 'Oathbringer', aliases: ['oathbringer'] },
-          { number: 4, title: 'Rhythm of War', aliases: ['rhythm of war'] }
-        ],
-        author: 'Brandon Sanderson'
-      },
-      'mistborn': {
-        books: [
-          { number: 1, title: 'The Final Empire', aliases: ['final empire', 'mistborn'] },
-          { number: 2, title: 'The Well of Ascension', aliases: ['well of ascension'] },
-          { number: 3, title: 'The Hero of Ages', aliases: ['hero of ages'] }
-        ],
-        author: 'Brandon Sanderson'
-      },
-      'wheel of time': {
-        books: [
-          { number: 1, title: 'The Eye of the World', aliases: ['eye of the world'] },
-          { number: 2, title: 'The Great Hunt', aliases: ['great hunt'] },
-          { number: 3, title: 'The Dragon Reborn', aliases: ['dragon reborn'] },
-          { number: 4, title: 'The Shadow Rising', aliases: ['shadow rising'] },
-          { number: 5, title: 'The Fires of Heaven', aliases: ['fires of heaven'] }
-        ],
-        author: 'Robert Jordan'
-      }
-    };
-
     // Common search patterns and their corrections
     this.commonPatterns = [
       { pattern: /^(.+?)\s+(\d+)$/, type: 'series_number' },
@@ -123,14 +44,20 @@ class BookSuggestionService {
       }
     }
 
-    // Check for partial series matches in hardcoded series
-    const partialSuggestions = this.getPartialSeriesMatches(normalizedQuery);
-    suggestions.push(...partialSuggestions);
+    // Check for partial series matches and known books in the series catalog
+    suggestions.push(...this.getPartialSeriesMatches(normalizedQuery));
+    suggestions.push(...this.getNextInSeriesSuggestions(normalizedQuery));
 
-    // If no suggestions from hardcoded series, try dynamic detection
+    // If the catalog doesn't know the series yet, try dynamic detection
     if (suggestions.length === 0) {
       const dynamicSuggestions = await this.getDynamicSeriesSuggestions(normalizedQuery);
-      suggestions.push(...dynamicSuggestions);
+
+      // Dynamic detection teaches the catalog any series the providers revealed
+      suggestions.push(...this.getPartialSeriesMatches(normalizedQuery));
+      suggestions.push(...this.getNextInSeriesSuggestions(normalizedQuery));
+      if (suggestions.length === 0) {
+        suggestions.push(...dynamicSuggestions);
+      }
     }
 
     // Remove duplicates and limit results
@@ -163,6 +90,7 @@ class BookSuggestionService {
       }
 
       console.log(`📚 Found ${searchResult.books.length} books for dynamic analysis`);
+      seriesCatalog.learnFromBooks(searchResult.books);
 
       // Analyze results to detect series patterns
       const seriesAnalysis = this.analyzeForSeries(searchResult.books, query);
@@ -792,50 +720,16 @@ class BookSuggestionService {
    * @returns {Array} Array of suggestions
    */
   async getSeriesSuggestions(seriesName, bookNumber) {
-    const suggestions = [];
-
-    // Check hardcoded series first
-    for (const [key, series] of Object.entries(this.bookSeries)) {
-      if (this.isSeriesMatch(seriesName, key)) {
-        const book = series.books.find(b => b.number === bookNumber);
-        if (book) {
-          suggestions.push({
-            type: 'exact_match',
-            confidence: 0.9,
-            originalQuery: `${seriesName} ${bookNumber}`,
-            suggestion: book.title,
-            author: series.author,
-            series: key,
-            bookNumber: bookNumber,
-            reason: `Did you mean "${book.title}"?`
-          });
-        }
-
-        // Also suggest nearby books in the series
-        const nearbyBooks = series.books.filter(b => 
-          Math.abs(b.number - bookNumber) <= 1 && b.number !== bookNumber
-        );
-        
-        for (const nearbyBook of nearbyBooks) {
-          suggestions.push({
-            type: 'nearby_book',
-            confidence: 0.6,
-            originalQuery: `${seriesName} ${bookNumber}`,
-            suggestion: nearbyBook.title,
-            author: series.author,
-            series: key,
-            bookNumber: nearbyBook.number,
-            reason: `Or maybe "${nearbyBook.title}" (Book ${nearbyBook.number})?`
-          });
-        }
-      }
-    }
+    let suggestions = this.getCatalogSeriesSuggestions(seriesName, bookNumber);
 
-    // If no hardcoded matches, try dynamic detection
+    // If the catalog has no match, try dynamic detection (which also grows the catalog)
     if (suggestions.length === 0) {
       try {
         const dynamicSuggestions = await this.getDynamicSeriesSuggestions(`${seriesName} book ${bookNumber}`);
-        suggestions.push(...dynamicSuggestions);
+        suggestions = this.getCatalogSeriesSuggestions(seriesName, bookNumber);
+        if (suggestions.length === 0) {
+          suggestions = dynamicSuggestions;
+        }
       } catch (error) {
         console.error('❌ Dynamic series suggestions error:', error.message);
       }
@@ -844,6 +738,66 @@ class BookSuggestionService {
     return suggestions;
   }
 
+  /**
+   * Suggest a numbered book (and its neighbours) from catalog series matching a name
+   * @param {string} seriesName - The series name
+   * @param {number} bookNumber - The book number
+   * @returns {Array} Array of suggestions
+   */
+  getCatalogSeriesSuggestions(seriesName, bookNumber) {
+    const suggestions = [];
+
+    for (const series of this.findCatalogSeries(seriesName)) {
+      const book = series.books.find(b => b.number === bookNumber);
+      if (book) {
+        suggestions.push({
+          type: 'exact_match',
+          confidence: 0.9,
+          originalQuery: `${seriesName} ${bookNumber}`,
+          suggestion: book.title,
+          author: series.author,
+          series: series.name,
+          bookNumber: bookNumber,
+          reason: `Did you mean "${book.title}"?`
+        });
+      }
+
+      // Also suggest nearby books in the series
+      const nearbyBooks = series.books.filter(b => 
+        Math.abs(b.number - bookNumber) <= 1 && b.number !== bookNumber
+      );
+      
+      for (const nearbyBook of nearbyBooks) {
+        suggestions.push({
+          type: 'nearby_book',
+          confidence: 0.6,
+          originalQuery: `${seriesName} ${bookNumber}`,
+          suggestion: nearbyBook.title,
+          author: series.author,
+          series: series.name,
+          bookNumber: nearbyBook.number,
+          reason: `Or maybe "${nearbyBook.title}" (Book ${nearbyBook.number})?`
+        });
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Catalog series whose name or alias matches a query
+   * @param {string} query - The search query
+   * @returns {Array} Matching series
+   */
+  findCatalogSeries(query) {
+    const normalizedQuery = normalizeSeriesName(query);
+    if (!normalizedQuery) return [];
+
+    return seriesCatalog.list().filter(series =>
+      [series.name, ...series.aliases].some(name => this.isSeriesMatch(normalizedQuery, normalizeSeriesName(name)))
+    );
+  }
+
   /**
    * Get partial matches for series names
    * @param {string} query - The search query
@@ -851,48 +805,83 @@ class BookSuggestionService {
    */
   getPartialSeriesMatches(query) {
     const suggestions = [];
+    const normalizedQuery = normalizeSeriesName(query);
+    const queryWords = normalizedQuery.split(' ');
+    if (!normalizedQuery) return suggestions;
+
+    for (const series of seriesCatalog.list()) {
+      const keys = [series.name, ...series.aliases].map(normalizeSeriesName).filter(Boolean);
 
-    for (const [key, series] of Object.entries(this.bookSeries)) {
       // Check if query partially matches series name
-      if (key.includes(query) || query.includes(key.split(' ')[0])) {
-        // Suggest the first book in the series
-        const firstBook = series.books[0];
-        if (firstBook) {
+      const matches = keys.some(key => {
+        const firstWord = key.split(' ')[0];
+        return key.includes(normalizedQuery) || (firstWord.length > 3 && queryWords.includes(firstWord));
+      });
+      if (!matches) continue;
+
+      // Suggest the first book in the series
+      const firstBook = series.books[0];
+      if (firstBook) {
+        suggestions.push({
+          type: 'series_start',
+          confidence: 0.7,
+          originalQuery: query,
+          suggestion: firstBook.title,
+          author: series.author,
+          series: series.name,
+          bookNumber: firstBook.number,
+          reason: `Start with "${firstBook.title}" (Book ${firstBook.number} of ${series.name})`
+        });
+      }
+
+      // Check for alias matches within the series
+      for (const book of series.books) {
+        const title = normalizeSeriesName(book.title);
+        const aliasMatch = book.aliases.map(normalizeSeriesName).some(alias =>
+          alias && (alias.includes(normalizedQuery) || normalizedQuery.includes(alias))
+        );
+        if (aliasMatch || (title.length > 3 && normalizedQuery.includes(title))) {
           suggestions.push({
-            type: 'series_start',
-            confidence: 0.7,
+            type: 'alias_match',
+            confidence: 0.8,
             originalQuery: query,
-            suggestion: firstBook.title,
+            suggestion: book.title,
             author: series.author,
-            series: key,
-            bookNumber: 1,
-            reason: `Start with "${firstBook.title}" (Book 1 of ${this.capitalizeWords(key)})`
+            series: series.name,
+            bookNumber: book.number,
+            reason: `Did you mean "${book.title}"?`
           });
         }
-
-        // Check for alias matches within the series
-        for (const book of series.books) {
-          for (const alias of book.aliases) {
-            if (alias.includes(query) || query.includes(alias)) {
-              suggestions.push({
-                type: 'alias_match',
-                confidence: 0.8,
-                originalQuery: query,
-                suggestion: book.title,
-                author: series.author,
-                series: key,
-                bookNumber: book.number,
-                reason: `Did you mean "${book.title}"?`
-              });
-            }
-          }
-        }
       }
     }
 
     return suggestions;
   }
 
+  /**
+   * When the query names a book the catalog knows, suggest the one that follows it
+   * @param {string} query - The search query
+   * @returns {Array} Array of suggestions
+   */
+  getNextInSeriesSuggestions(query) {
+    const match = seriesCatalog.findBook(query);
+    if (!match) return [];
+
+    const nextBook = seriesCatalog.getNextBook(match.series, match.book.number);
+    if (!nextBook) return [];
+
+    return [{
+      type: 'series_next',
+      confidence: 0.75,
+      originalQuery: query,
+      suggestion: nextBook.title,
+      author: match.series.author,
+      series: match.series.name,
+      bookNumber: nextBook.number,
+      reason: `Next in ${match.series.name}: "${nextBook.title}" (Book ${nextBook.number})`
+    }];
+  }
+
   /**
    * Check if a query matches a series name
    * @param {string} query - The search query
@@ -901,7 +890,7 @@ class BookSuggestionService {
    */
   isSeriesMatch(query, seriesKey) {
     const queryWords = query.split(' ');
-    const seriesWords = seriesKey.split(' ');
+    const seriesWords = seriesKey.split(' ').filter(word => word.length > 2);
     
     // Check for exact match
     if (query === seriesKey) return true;
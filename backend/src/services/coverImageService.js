@@ -0,0 +1,178 @@
+const axios = require('axios');
+const dns = require('dns');
+const net = require('net');
+const sharp = require('sharp');
+const { NOTION_API_URL } = require('../lib/axios');
+
+const FORMATS = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  webp: { contentType: 'image/webp', extension: 'webp' }
+};
+
+// Cover URLs come from the client, so downloads must not reach the server's own network:
+// loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4'));
+[
+  // IPv4 written as IPv6 (::ffff:127.0.0.1, 64:ff9b::7f00:1) could hide any of the above
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6'));
+
+const isBlockedAddress = (address) => {
+  const family = net.isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Only http(s) URLs, and hosts given as an IP must be public (hostnames are checked on lookup)
+const assertDownloadableUrl = ({ protocol, hostname }) => {
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Refusing to download a cover over ${protocol}`);
+  }
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`Refusing to download a cover from ${host}`);
+  }
+};
+
+// DNS lookup that fails for hostnames resolving to a blocked address, checked on every connection
+const publicAddressLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(new Error(`Refusing to download a cover from ${hostname} (${blocked.address})`));
+    }
+    callback(null, addresses);
+  });
+};
+
+/**
+ * Downloads book covers, normalizes them and uploads them to Notion, so pages keep their cover
+ * after the original (Google Books, Open Library, Audible) link breaks or expires.
+ */
+class CoverImageService {
+  constructor() {
+    this.maxDimension = parseInt(process.env.COVER_MAX_DIMENSION, 10) || 1200;
+    this.maxDownloadBytes = 15 * 1024 * 1024;
+  }
+
+  /**
+   * Download a cover image
+   * @param {string} url - Image URL
+   * @returns {Promise<Buffer>} Image bytes
+   */
+  async downloadImage(url) {
+    assertDownloadableUrl(new URL(url));
+
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: 15000,
+      maxContentLength: this.maxDownloadBytes,
+      maxRedirects: 5,
+      lookup: publicAddressLookup,
+      // Redirects may point anywhere, so their targets are checked like the original URL
+      beforeRedirect: (options) => assertDownloadableUrl(options),
+      headers: { 'User-Agent': 'NotionBooks/1.0' }
+    });
+
+    const contentType = String(response.headers['content-type'] || '');
+    if (contentType && !contentType.startsWith('image/')) {
+      throw new Error(`Expected an image but got ${contentType}`);
+    }
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Fit an image within the maximum dimension and re-encode it
+   * @param {Buffer} buffer - Image bytes
+   * @param {string} format - 'jpeg' or 'webp'
+   * @returns {Promise<Object>} { buffer, contentType, extension, width, height }
+   */
+  async normalizeImage(buffer, format = 'jpeg') {
+    const target = FORMATS[format] ? format : 'jpeg';
+    let pipeline = sharp(buffer, { failOn: 'none' })
+      .rotate()
+      .resize({
+        width: this.maxDimension,
+        height: this.maxDimension,
+        fit: 'inside',
+        withoutEnlargement: true
+      });
+
+    pipeline = target === 'webp'
+      ? pipeline.webp({ quality: 85 })
+      // JPEG has no transparency, so transparent PNG covers get a white background
+      : pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: 85, mozjpeg: true });
+
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    return {
+      buffer: data,
+      ...FORMATS[target],
+      width: info.width,
+      height: info.height
+    };
+  }
+
+  /**
+   * Upload a file through Notion's single-part file upload API
+   * @param {string} token - Notion integration token
+   * @param {Object} file - { buffer, contentType, filename }
+   * @returns {Promise<string>} File upload ID, usable in files properties, icons and covers
+   */
+  async uploadToNotion(token, { buffer, contentType, filename }) {
+    const headers = {
+      'Authorization': `Bearer ${token}`,
+      'Notion-Version': '2025-09-03'
+    };
+
+    const created = await axios.post(`${NOTION_API_URL}/file_uploads`, {
+      mode: 'single_part',
+      filename,
+      content_type: contentType
+    }, { headers, timeout: 15000 });
+
+    const form = new FormData();
+    form.append('file', new Blob([buffer], { type: contentType }), filename);
+    const sent = await axios.post(`${NOTION_API_URL}/file_uploads/${created.data.id}/send`, form, {
+      headers,
+      timeout: 30000
+    });
+
+    if (sent.data?.status && sent.data.status !== 'uploaded') {
+      throw new Error(`Notion file upload ended with status "${sent.data.status}"`);
+    }
+    return created.data.id;
+  }
+
+  /**
+   * Download, normalize and upload a book cover
+   * @param {string} token - Notion integration token
+   * @param {string} url - Cover URL
+   * @param {Object} options - { format: 'jpeg' | 'webp', title }
+   * @returns {Promise<Object|null>} Notion file object, or null when any step fails
+   */
+  async uploadCover(token, url, { format = 'jpeg', title = '' } = {}) {
+    try {
+      const original = await this.downloadImage(url);
+      const normalized = await this.normalizeImage(original, format);
+      const slug = String(title).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60);
+      const filename = `${slug ? `${slug}-` : ''}cover.${normalized.extension}`;
+
+      const fileUploadId = await this.uploadToNotion(token, { ...normalized, filename });
+      console.log(`🖼️ Uploaded cover ${filename} (${normalized.width}x${normalized.height}, ${Math.round(normalized.buffer.length / 1024)} KB) to Notion`);
+      return {
+        type: 'file_upload',
+        file_upload: { id: fileUploadId },
+        name: filename
+      };
+    } catch (error) {
+      console.warn(`⚠️ Cover upload failed for ${url}, linking it instead:`, error.response?.data?.message || error.message);
+      return null;
+    }
+  }
+}
+
+module.exports = new CoverImageService();
@@ -1,4 +1,5 @@
-const axios = require('axios');
+const responseCache = require('../lib/responseCache');
+const { normalizeLanguage } = require('../utils/searchFilters');
 
 class GoogleBooksService {
   constructor() {
@@ -11,9 +12,11 @@ class GoogleBooksService {
    * @param {string} query - Search query (ISBN, title, author, etc.)
    * @param {string} searchType - Type of search (isbn, title, author, general)
    * @param {number} maxResults - Maximum number of results (default: 10)
+   * @param {number} startIndex - Index of the first result to return, for pagination (default: 0)
+   * @param {Object|null} filters - Normalized search filters; language and ebook format are applied by the API
    * @returns {Promise<Object>} Formatted book data
    */
-  async searchBooks(query, searchType = 'general', maxResults = 10) {
+  async searchBooks(query, searchType = 'general', maxResults = 10, startIndex = 0, filters = null) {
     try {
       if (!query || query.trim() === '') {
         throw new Error('Search query is required');
@@ -29,14 +32,22 @@ class GoogleBooksService {
       const params = {
         q: formattedQuery,
         maxResults: Math.min(maxResults, 40), // Google Books API limit
+        startIndex: Math.max(0, startIndex),
         key: this.apiKey,
         printType: 'books',
         projection: 'full'
       };
 
-      console.log(`🔍 Searching Google Books API: ${formattedQuery}`);
+      if (filters?.language) {
+        params.langRestrict = normalizeLanguage(filters.language);
+      }
+      if (filters?.format === 'ebook') {
+        params.filter = 'ebooks';
+      }
+
+      console.log(`🔍 Searching Google Books API: ${formattedQuery}${startIndex > 0 ? ` (from ${startIndex})` : ''}`);
       
-      const response = await axios.get(this.baseURL, { 
+      const response = await responseCache.fetch('google_books', this.baseURL, { 
         params,
         timeout: 10000 // 10 second timeout
       });
@@ -170,6 +181,11 @@ class GoogleBooksService {
       previewLink: volumeInfo.previewLink || null,
       infoLink: volumeInfo.infoLink || null,
       buyLink: saleInfo.buyLink || null,
+      formats: [
+        // Google eBooks without an ISBN have no print edition
+        ...(volumeInfo.printType === 'BOOK' && (isbn13 || isbn10 || !saleInfo.isEbook) ? ['print'] : []),
+        ...(saleInfo.isEbook ? ['ebook'] : [])
+      ],
       copyright: volumeInfo.copyrightYear ? `©${volumeInfo.copyrightYear}` : null,
       source: 'google_books',
       rawData: item // Keep original data for debugging
@@ -196,7 +212,7 @@ class GoogleBooksService {
 
       console.log(`📖 Fetching book details: ${bookId}`);
 
-      const response = await axios.get(url, { 
+      const response = await responseCache.fetch('google_books', url, { 
         params,
         timeout: 10000
       });
@@ -0,0 +1,123 @@
+const fs = require('fs');
+const path = require('path');
+const { applySearchFilters } = require('../../utils/searchFilters');
+
+const DEFAULT_FIXTURES_PATH = path.join(__dirname, 'fixtures', 'books.json');
+
+/**
+ * Local fixture provider for offline development.
+ * Serves books from a JSON file (BOOK_FIXTURES_PATH, defaulting to fixtures/books.json).
+ * Disabled unless ENABLE_FIXTURE_PROVIDER=true or selected in the Settings panel.
+ */
+class FixtureProvider {
+  constructor({ fixturesPath } = {}) {
+    this.id = 'local_fixtures';
+    this.name = 'Local Fixtures';
+    this.description = 'Books from a local JSON file, for offline development and demos.';
+    this.capabilities = { search: true, getById: true, editions: true, isbnSearch: true };
+    this.enabledByDefault = process.env.ENABLE_FIXTURE_PROVIDER === 'true';
+    this.singleSourceLabel = 'local_fixtures';
+    this.fixturesPath = fixturesPath || process.env.BOOK_FIXTURES_PATH || DEFAULT_FIXTURES_PATH;
+    this.books = null;
+  }
+
+  /**
+   * Load fixtures from disk on first use
+   * @returns {Array} Fixture books
+   */
+  loadBooks() {
+    if (this.books) {
+      return this.books;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.fixturesPath, 'utf8'));
+      this.books = (Array.isArray(raw) ? raw : raw.books || []).map(book => ({
+        categories: [],
+        authors: [],
+        ...book,
+        source: this.id
+      }));
+      console.log(`📦 Loaded ${this.books.length} fixture books from ${this.fixturesPath}`);
+    } catch (error) {
+      console.error(`❌ Failed to load book fixtures from ${this.fixturesPath}:`, error.message);
+      this.books = [];
+    }
+
+    return this.books;
+  }
+
+  /**
+   * Search fixture books
+   * @param {string} query - Search query
+   * @param {string} searchType - Type of search (isbn, title, author, subject, general)
+   * @param {number} maxResults - Maximum number of results
+   * @param {Object} options - Search options
+   * @param {number} options.offset - Number of results to skip
+   * @param {Object} options.filters - Normalized search filters
+   * @returns {Promise<Object>} Search results
+   */
+  async search(query, searchType = 'general', maxResults = 10, options = {}) {
+    const offset = options.offset || 0;
+    const normalizedQuery = (query || '').toLowerCase().trim();
+    const cleanIsbn = normalizedQuery.replace(/[^0-9x]/g, '');
+    const tokens = normalizedQuery.split(/\s+/).filter(Boolean);
+
+    const candidates = applySearchFilters(this.loadBooks(), options.filters ? { ...options.filters, hasAudiobook: false } : null);
+    const matches = candidates.filter(book => {
+      const title = `${book.title || ''} ${book.subtitle || ''}`.toLowerCase();
+      const authors = (book.authors || []).join(' ').toLowerCase();
+      const subjects = (book.categories || []).join(' ').toLowerCase();
+
+      switch (searchType) {
+        case 'isbn':
+          return [book.isbn13, book.isbn10].some(isbn => isbn && isbn.toLowerCase() === cleanIsbn);
+        case 'title':
+          return title.includes(normalizedQuery);
+        case 'author':
+          return authors.includes(normalizedQuery);
+        case 'subject':
+          return subjects.includes(normalizedQuery);
+        default:
+          return tokens.every(token => `${title} ${authors}`.includes(token));
+      }
+    });
+
+    return {
+      success: true,
+      totalItems: matches.length,
+      books: matches.slice(offset, offset + maxResults),
+      source: this.id
+    };
+  }
+
+  /**
+   * Get a fixture book by ID
+   * @param {string} bookId - Fixture book ID
+   * @returns {Promise<Object>} Book details
+   */
+  async getById(bookId) {
+    const book = this.loadBooks().find(candidate => candidate.id === bookId);
+    if (!book) {
+      throw new Error('Book not found');
+    }
+    return { success: true, book, source: this.id };
+  }
+
+  /**
+   * Fixture books sharing an Open Library work key are treated as editions of each other
+   * @param {string} workKey - Work key
+   * @param {number} limit - Maximum number of editions
+   * @returns {Promise<Object>} Editions
+   */
+  async getEditions(workKey, limit = 20) {
+    const key = workKey.startsWith('/works/') ? workKey : `/works/${workKey}`;
+    const editions = this.loadBooks()
+      .filter(book => book.openLibraryKey === key)
+      .slice(0, limit);
+
+    return { success: true, totalEditions: editions.length, editions, workKey: key };
+  }
+}
+
+module.exports = FixtureProvider;
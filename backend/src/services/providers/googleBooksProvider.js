@@ -0,0 +1,56 @@
+const googleBooksService = require('../googleBooksService');
+
+/**
+ * Google Books metadata provider.
+ * Results are enhanced with Open Library data (original publication dates, editions)
+ * through the callback supplied by BookSearchService.
+ */
+class GoogleBooksProvider {
+  constructor({ enhanceBook } = {}) {
+    this.id = 'google_books';
+    this.name = 'Google Books';
+    this.description = 'Rich edition metadata, descriptions and covers. Requires GOOGLE_BOOKS_API_KEY.';
+    this.capabilities = { search: true, getById: true, editions: false, isbnSearch: true };
+    this.enabledByDefault = true;
+    this.singleSourceLabel = 'google_books_enhanced';
+    this.enhanceBook = enhanceBook || (book => Promise.resolve(book));
+  }
+
+  /**
+   * Search Google Books
+   * @param {string} query - Search query
+   * @param {string} searchType - Type of search (isbn, title, author, general)
+   * @param {number} maxResults - Maximum number of results
+   * @param {Object} options - Search options
+   * @param {number} options.offset - Number of results to skip (maps to Google's startIndex)
+   * @param {Object} options.filters - Normalized search filters
+   * @returns {Promise<Object>} Search results
+   */
+  async search(query, searchType, maxResults, options = {}) {
+    const result = await googleBooksService.searchBooks(query, searchType, maxResults, options.offset || 0, options.filters);
+    const books = result.success && result.books.length > 0
+      ? await Promise.all(result.books.map(book => this.enhanceBook(book)))
+      : [];
+
+    return { ...result, books };
+  }
+
+  /**
+   * Get a Google Books volume by ID
+   * @param {string} bookId - Google Books volume ID
+   * @returns {Promise<Object>} Book details
+   */
+  async getById(bookId) {
+    const result = await googleBooksService.getBookById(bookId);
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      ...result,
+      book: await this.enhanceBook(result.book)
+    };
+  }
+}
+
+module.exports = GoogleBooksProvider;
@@ -0,0 +1,44 @@
+/**
+ * Open Library metadata provider.
+ * Wraps the Open Library search and editions lookups that live on BookSearchService,
+ * since those are also used to enhance results from other providers.
+ */
+class OpenLibraryProvider {
+  constructor(bookSearchService) {
+    this.id = 'open_library';
+    this.name = 'Open Library';
+    this.description = 'Original publication years, subjects and edition lists. No API key required.';
+    this.capabilities = { search: true, getById: false, editions: true, isbnSearch: true };
+    this.enabledByDefault = true;
+    this.singleSourceLabel = 'open_library_primary';
+    this.bookSearchService = bookSearchService;
+  }
+
+  /**
+   * Search Open Library
+   * @param {string} query - Search query
+   * @param {string} searchType - Type of search
+   * @param {number} maxResults - Maximum number of results
+   * @param {Object} options - Search options
+   * @param {number} options.offset - Number of results to skip
+   * @param {Object} options.filters - Normalized search filters
+   * @returns {Promise<Object>} Search results
+   */
+  async search(query, searchType, maxResults, options = {}) {
+    return this.bookSearchService.searchOpenLibraryDirect(query, searchType, maxResults, options.offset || 0, options.filters);
+  }
+
+  /**
+   * Get the editions of an Open Library work
+   * @param {string} workKey - Open Library work key
+   * @param {number} limit - Maximum number of editions
+   * @param {boolean} englishOnly - Filter to English-only editions
+   * @param {string} originalTitle - Original title of the book
+   * @returns {Promise<Object>} Editions
+   */
+  async getEditions(workKey, limit, englishOnly, originalTitle) {
+    return this.bookSearchService.fetchOpenLibraryEditions(workKey, limit, englishOnly, originalTitle);
+  }
+}
+
+module.exports = OpenLibraryProvider;
@@ -0,0 +1,117 @@
+/**
+ * Registry of book metadata providers used by BookSearchService.
+ *
+ * A provider is an object (usually a class instance) with:
+ * - id: unique identifier, also used as the `primarySource` label when merging
+ * - name, description: shown in the Settings provider panel
+ * - capabilities: { search, getById, editions, isbnSearch }
+ * - enabledByDefault: used when a request does not name its providers
+ * - singleSourceLabel: result `source` when this is the only provider that answered
+ * - search(query, searchType, maxResults, { offset }) → { success, books, totalItems }
+ * - getById(id) → { success, book }            (when capabilities.getById)
+ * - getEditions(key, limit, englishOnly, originalTitle) → { success, editions, totalEditions } (when capabilities.editions)
+ *
+ * Providers are consulted in the order they are resolved; the first provider's
+ * data wins when the same book is returned by several providers.
+ */
+class ProviderRegistry {
+  constructor() {
+    this.providers = new Map();
+  }
+
+  /**
+   * Register (or replace) a provider
+   * @param {Object} provider - Provider implementation
+   * @returns {Object} The registered provider
+   */
+  register(provider) {
+    if (!provider?.id) {
+      throw new Error('Metadata provider must have an id');
+    }
+    if (typeof provider.search !== 'function') {
+      throw new Error(`Metadata provider "${provider.id}" must implement search()`);
+    }
+
+    this.providers.set(provider.id, {
+      ...provider,
+      // Keep prototype methods callable after spreading class instances
+      search: provider.search.bind(provider),
+      getById: typeof provider.getById === 'function' ? provider.getById.bind(provider) : undefined,
+      getEditions: typeof provider.getEditions === 'function' ? provider.getEditions.bind(provider) : undefined,
+      name: provider.name || provider.id,
+      description: provider.description || '',
+      capabilities: {
+        search: true,
+        getById: typeof provider.getById === 'function',
+        editions: typeof provider.getEditions === 'function',
+        isbnSearch: false,
+        ...provider.capabilities
+      },
+      enabledByDefault: provider.enabledByDefault !== false
+    });
+
+    console.log(`🔌 Registered metadata provider: ${provider.id}`);
+    return this.providers.get(provider.id);
+  }
+
+  /**
+   * Remove a provider from the registry
+   * @param {string} providerId - Provider ID
+   * @returns {boolean} Whether a provider was removed
+   */
+  unregister(providerId) {
+    return this.providers.delete(providerId);
+  }
+
+  /**
+   * Get a provider by ID
+   * @param {string} providerId - Provider ID
+   * @returns {Object|undefined} Provider
+   */
+  get(providerId) {
+    return this.providers.get(providerId);
+  }
+
+  /**
+   * List all providers in registration order
+   * @returns {Array} Providers
+   */
+  list() {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Public description of every provider, for the Settings panel
+   * @returns {Array} Provider info without implementation details
+   */
+  describe() {
+    return this.list().map(({ id, name, description, capabilities, enabledByDefault }) => ({
+      id,
+      name,
+      description,
+      capabilities,
+      enabledByDefault
+    }));
+  }
+
+  /**
+   * Resolve the ordered providers for a request
+   * @param {Array<string>} [providerIds] - Requested provider IDs in priority order
+   * @returns {Array} Providers to query
+   */
+  resolve(providerIds) {
+    if (Array.isArray(providerIds) && providerIds.length > 0) {
+      const unknown = providerIds.filter(id => !this.providers.has(id));
+      if (unknown.length > 0) {
+        console.warn(`⚠️ Ignoring unknown metadata providers: ${unknown.join(', ')}`);
+      }
+      return providerIds
+        .filter((id, index) => this.providers.has(id) && providerIds.indexOf(id) === index)
+        .map(id => this.providers.get(id));
+    }
+
+    return this.list().filter(provider => provider.enabledByDefault);
+  }
+}
+
+module.exports = ProviderRegistry;
@@ -0,0 +1,557 @@
+const fs = require('fs');
+const path = require('path');
+const { ValidationError, NotFoundError } = require('../lib/errors');
+
+// When two sources disagree about a book's place in a series, the higher priority wins
+const SOURCE_PRIORITY = {
+  title_pattern: 0,
+  open_library: 1,
+  audnexus: 2,
+  seed: 3,
+  user: 4
+};
+
+const WORD_NUMBERS = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+};
+
+// Subtitles shared by unrelated books ("A Novel"), never used on their own to match titles
+const GENERIC_SUBTITLES = /^(novel|novella|memoir|thriller|mystery|romance|story|stories)$/;
+
+const normalizeText = (value) => String(value || '')
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/['’]/g, '')
+  .replace(/&/g, ' and ')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+/**
+ * Comparable form of a series name: "The Mistborn Trilogy" and "Mistborn" both become "mistborn"
+ * @param {string} name - Series name
+ * @returns {string} Normalized name
+ */
+const normalizeSeriesName = (name) => normalizeText(name)
+  .replace(/^(the|a|an)\s+/, '')
+  .replace(/\s+(series|trilogy|saga|sequence|cycle|novels|books)$/, '')
+  .trim();
+
+/**
+ * Comparable forms of a book title: the full title, plus each side of a "Main: Subtitle" split
+ * @param {string} title - Book title
+ * @returns {Array<string>} Normalized title variants
+ */
+const titleVariants = (title) => {
+  const text = String(title || '');
+  const parts = [text, ...text.split(':')];
+  return [...new Set(parts
+    .map(part => normalizeText(part).replace(/^(the|a|an)\s+/, ''))
+    .filter(part => part.length > 0 && !GENERIC_SUBTITLES.test(part)))];
+};
+
+/**
+ * Parse a position in a series ("1", "1.5", "Book 2", "bk. three"); omnibus ranges like "1-3" have none
+ * @param {string|number} value - Raw position
+ * @returns {number|null} Position
+ */
+const parsePosition = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+
+  const text = String(value).toLowerCase().trim();
+  if (/\d+\s*[-–]\s*\d+/.test(text)) return null;
+
+  const match = text.match(/(\d+(?:\.\d+)?)/);
+  if (match) {
+    const number = parseFloat(match[1]);
+    return number > 0 && number < 1000 ? number : null;
+  }
+
+  const word = text.split(/[^a-z]+/).find(part => WORD_NUMBERS[part]);
+  return word ? WORD_NUMBERS[word] : null;
+};
+
+/**
+ * Parse a series statement as found on Open Library editions ("Harry Potter ; 1", "Mistborn -- bk. 2")
+ * @param {string} value - Series statement
+ * @returns {Object|null} { name, position }
+ */
+const parseSeriesStatement = (value) => {
+  const text = String(value || '').trim();
+  if (!text) return null;
+
+  const match = text.match(/^(.+?)\s*(?:;|,|:|--|\(|#)\s*(?:(?:book|bk|vol|volume|part|no|number)\.?\s*)?#?\s*(\d+(?:\.\d+)?)\s*\)?\.?$/i)
+    || text.match(/^(.+?)\s+#?(\d+(?:\.\d+)?)$/);
+  if (match) {
+    return { name: match[1].trim(), position: parsePosition(match[2]) };
+  }
+
+  return { name: text.replace(/[.;,]+$/, '').trim(), position: null };
+};
+
+/**
+ * Detect a series embedded in a book title, e.g. "The Final Empire (Mistborn, #1)",
+ * "The Way of Kings: Book One of the Stormlight Archive" or "Mistborn, Book 2: The Well of Ascension"
+ * @param {string} title - Book title
+ * @returns {Object|null} { name, position, title } with the series part removed from the title
+ */
+const parseSeriesFromTitle = (title) => {
+  const text = String(title || '').trim();
+  if (!text) return null;
+
+  const parenthetical = text.match(/^(.+?)\s*[([]\s*([^()[\]]+?)\s*[,;:]?\s*(?:#|book\s+|bk\.?\s*|vol\.?\s*|volume\s+|part\s+)(\d+(?:\.\d+)?)\s*[)\]]\s*$/i);
+  if (parenthetical) {
+    return { name: parenthetical[2].trim(), position: parsePosition(parenthetical[3]), title: parenthetical[1].trim() };
+  }
+
+  const bookOf = text.match(/^(.+?)\s*[:\-–]\s*(?:book|volume|part)\s+(\w+)\s+(?:of|in)\s+(.+?)\s*$/i);
+  if (bookOf && parsePosition(bookOf[2]) !== null) {
+    return { name: bookOf[3].trim().replace(/^the\s+/, 'The '), position: parsePosition(bookOf[2]), title: bookOf[1].trim() };
+  }
+
+  const prefixed = text.match(/^(.+?),?\s+(?:book|volume|vol\.?)\s+(\d+)\s*:\s*(.+)$/i);
+  if (prefixed) {
+    return { name: prefixed[1].trim(), position: parsePosition(prefixed[2]), title: prefixed[3].trim() };
+  }
+
+  return null;
+};
+
+const slugify = (value) => normalizeSeriesName(value).replace(/\s+/g, '-') || 'series';
+
+const uniqueStrings = (values) => [...new Set((values || [])
+  .map(value => String(value || '').trim())
+  .filter(Boolean))];
+
+/**
+ * Catalog of book series and their reading order.
+ *
+ * Seeded from services/data/seriesSeed.json on first start, then grown from
+ * provider data as books pass through search: Audnexus series positions,
+ * Open Library edition series statements and series names embedded in titles.
+ * Users can add, correct or remove series; their edits always win over
+ * learned data. The catalog is kept on disk (debounced writes) so it survives
+ * restarts.
+ */
+class SeriesCatalog {
+  constructor(options = {}) {
+    this.persistPath = options.persistPath || null;
+    this.seedPath = options.seedPath || null;
+    this.persistDelayMs = options.persistDelayMs || 5000;
+
+    this.series = new Map();
+    // IDs of series the user deleted, so learning doesn't bring them back
+    this.removed = new Set();
+    this.persistTimer = null;
+
+    this.load();
+  }
+
+  /**
+   * All series, sorted by name, optionally filtered by a name/author query
+   * @param {string} query - Optional filter
+   * @returns {Array} Series entries
+   */
+  list(query) {
+    const needle = normalizeText(query);
+    return Array.from(this.series.values())
+      .filter(entry => !needle || [entry.name, entry.author, ...entry.aliases].some(value => normalizeText(value).includes(needle)))
+      .sort((a, b) => normalizeSeriesName(a.name).localeCompare(normalizeSeriesName(b.name)));
+  }
+
+  get(id) {
+    return this.series.get(id) || null;
+  }
+
+  /**
+   * Find a series by its name or one of its aliases
+   * @param {string} name - Series name
+   * @returns {Object|null} Series entry
+   */
+  findByName(name) {
+    const normalized = normalizeSeriesName(name);
+    if (!normalized) return null;
+
+    for (const entry of this.series.values()) {
+      if ([entry.name, ...entry.aliases].some(value => normalizeSeriesName(value) === normalized)) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the series a book belongs to by its title (or a known alias)
+   * @param {string} title - Book title
+   * @param {string} author - Optional author, used to rule out same-titled books in other series
+   * @returns {Object|null} { series, book }
+   */
+  findBook(title, author) {
+    const fromTitle = parseSeriesFromTitle(title);
+    const variants = titleVariants(fromTitle ? fromTitle.title : title);
+    if (variants.length === 0) return null;
+
+    const authorWords = normalizeText(author).split(' ').filter(word => word.length > 2);
+
+    for (const entry of this.series.values()) {
+      if (authorWords.length > 0 && entry.author) {
+        const seriesAuthor = normalizeText(entry.author);
+        if (!authorWords.some(word => seriesAuthor.includes(word))) continue;
+      }
+
+      const book = entry.books.find(candidate =>
+        [candidate.title, ...candidate.aliases].some(value => titleVariants(value).some(variant => variants.includes(variant)))
+      );
+      if (book) {
+        return { series: entry, book };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The book that follows a given position in a series
+   * @param {Object} entry - Series entry
+   * @param {number} position - Current position
+   * @returns {Object|null} Next book
+   */
+  getNextBook(entry, position) {
+    return entry.books.find(book => book.number > position) || null;
+  }
+
+  /**
+   * Work out which series a print book or edition belongs to. The catalog (which holds
+   * user corrections) is asked first, then the title itself, then Open Library series statements.
+   * @param {Object} book - Search result or edition
+   * @returns {Object|null} { name, position }
+   */
+  detectSeries(book) {
+    if (!book || !book.title) return null;
+
+    const author = (book.authors || []).find(name => name && !/^unknown author$/i.test(name)) || null;
+    const match = this.findBook(book.title, author);
+    if (match) {
+      return { name: match.series.name, position: match.book.number };
+    }
+
+    const fromTitle = parseSeriesFromTitle(book.title);
+    if (fromTitle) {
+      return { name: fromTitle.name, position: fromTitle.position };
+    }
+
+    const statement = (book.openLibrarySeries || [])
+      .map(parseSeriesStatement)
+      .filter(Boolean)
+      .sort((a, b) => (b.position !== null) - (a.position !== null))[0];
+    return statement || null;
+  }
+
+  /**
+   * Learn from a list of books, then tag each one with its detected series
+   * (`series` and `seriesNumber`) so it can be written to Notion
+   * @param {Array} books - Books
+   * @returns {Array} The same books
+   */
+  annotateBooks(books) {
+    this.learnFromBooks(books);
+    (books || []).forEach(book => {
+      const detected = this.detectSeries(book);
+      book.series = detected ? detected.name : null;
+      book.seriesNumber = detected ? detected.position : null;
+    });
+    return books;
+  }
+
+  /**
+   * Record that a book sits at a position in a series. Creates the series if needed.
+   * Books without a known position are ignored: they can't drive "next in series".
+   * @param {Object} observation - { name, position, title, author, source }
+   * @returns {boolean} Whether the catalog changed
+   */
+  observe({ name, position, title, author, source }) {
+    const number = parsePosition(position);
+    const seriesName = String(name || '').trim();
+    const bookTitle = String(title || '').trim();
+    if (!normalizeSeriesName(seriesName) || number === null || !bookTitle) return false;
+
+    const priority = SOURCE_PRIORITY[source] ?? 0;
+    let entry = this.findByName(seriesName);
+    if (!entry) {
+      if (this.removed.has(slugify(seriesName))) return false;
+      entry = this.createEntry({ name: seriesName, author, aliases: [], books: [] }, source);
+    }
+
+    const variants = titleVariants(bookTitle);
+    const sameTitle = entry.books.find(book =>
+      [book.title, ...book.aliases].some(value => titleVariants(value).some(variant => variants.includes(variant)))
+    );
+    const samePosition = entry.books.find(book => book.number === number);
+
+    if (sameTitle) {
+      // Known book: a more trusted source may correct its position
+      if (sameTitle.number === number || samePosition || priority <= (SOURCE_PRIORITY[sameTitle.source] ?? 0)) {
+        return false;
+      }
+      sameTitle.number = number;
+      sameTitle.source = source;
+    } else if (samePosition) {
+      if (priority <= (SOURCE_PRIORITY[samePosition.source] ?? 0)) return false;
+      samePosition.title = bookTitle;
+      samePosition.aliases = [];
+      samePosition.source = source;
+    } else {
+      entry.books.push({ number, title: bookTitle, aliases: [], source });
+    }
+
+    entry.books.sort((a, b) => a.number - b.number);
+    if (!entry.author && author) entry.author = author;
+    if (!entry.sources.includes(source)) entry.sources.push(source);
+    entry.updatedAt = new Date().toISOString();
+    this.schedulePersist();
+    return true;
+  }
+
+  /**
+   * Learn series membership from a search result, edition or enriched book
+   * @param {Object} book - Book data
+   * @returns {number} Number of catalog changes
+   */
+  learnFromBook(book) {
+    if (!book || !book.title) return 0;
+
+    // Open Library editions only carry author keys, parsed as "Unknown Author"
+    const author = (book.authors || []).find(name => name && !/^unknown author$/i.test(name)) || null;
+    const fromTitle = parseSeriesFromTitle(book.title);
+    const title = fromTitle ? fromTitle.title : book.title;
+    const observations = [];
+
+    if (fromTitle) {
+      observations.push({ ...fromTitle, author, source: 'title_pattern' });
+    }
+
+    const audiobook = book.audiobookData;
+    if (audiobook?.hasAudiobook && audiobook.series) {
+      observations.push({ name: audiobook.series, position: audiobook.seriesPosition, title, author, source: 'audnexus' });
+    }
+
+    (book.openLibrarySeries || []).forEach(statement => {
+      const parsed = parseSeriesStatement(statement);
+      if (parsed) {
+        observations.push({ ...parsed, title, author, source: 'open_library' });
+      }
+    });
+
+    return observations.filter(observation => this.observe(observation)).length;
+  }
+
+  /**
+   * Learn from a list of books (search results or editions)
+   * @param {Array} books - Books
+   * @returns {number} Number of catalog changes
+   */
+  learnFromBooks(books) {
+    const changes = (books || []).reduce((total, book) => total + this.learnFromBook(book), 0);
+    if (changes > 0) {
+      console.log(`📚 Series catalog learned ${changes} update${changes === 1 ? '' : 's'} from provider data`);
+    }
+    return changes;
+  }
+
+  /**
+   * Add a series by hand
+   * @param {Object} data - { name, author, aliases, books: [{ number, title, aliases }] }
+   * @returns {Object} Created entry
+   */
+  createSeries(data) {
+    const input = this.validateInput(data);
+    if (this.findByName(input.name)) {
+      throw new ValidationError(`A series named "${input.name}" already exists`);
+    }
+
+    this.removed.delete(slugify(input.name));
+    const entry = this.createEntry(input, 'user');
+    entry.userEdited = true;
+    this.schedulePersist();
+    return entry;
+  }
+
+  /**
+   * Replace a series' name, author, aliases and books with the user's version
+   * @param {string} id - Series ID
+   * @param {Object} data - { name, author, aliases, books }
+   * @returns {Object} Updated entry
+   */
+  updateSeries(id, data) {
+    const entry = this.series.get(id);
+    if (!entry) {
+      throw new NotFoundError(`Series "${id}" not found`);
+    }
+
+    const input = this.validateInput(data);
+    const clash = this.findByName(input.name);
+    if (clash && clash.id !== id) {
+      throw new ValidationError(`A series named "${input.name}" already exists`);
+    }
+
+    Object.assign(entry, {
+      name: input.name,
+      author: input.author,
+      aliases: input.aliases,
+      books: input.books.map(book => ({ ...book, source: 'user' })),
+      userEdited: true,
+      updatedAt: new Date().toISOString()
+    });
+    if (!entry.sources.includes('user')) entry.sources.push('user');
+
+    this.schedulePersist();
+    return entry;
+  }
+
+  /**
+   * Delete a series. It won't be re-learned from provider data unless re-created by hand.
+   * @param {string} id - Series ID
+   */
+  removeSeries(id) {
+    const entry = this.series.get(id);
+    if (!entry) {
+      throw new NotFoundError(`Series "${id}" not found`);
+    }
+
+    this.series.delete(id);
+    this.removed.add(id);
+    this.removed.add(slugify(entry.name));
+    this.schedulePersist();
+  }
+
+  validateInput(data = {}) {
+    const name = String(data.name || '').trim();
+    if (!normalizeSeriesName(name)) {
+      throw new ValidationError('Series name is required');
+    }
+
+    const books = (Array.isArray(data.books) ? data.books : []).map((book, index) => {
+      const number = parsePosition(book?.number);
+      const title = String(book?.title || '').trim();
+      if (number === null || !title) {
+        throw new ValidationError(`Book ${index + 1} needs a positive number and a title`);
+      }
+      return { number, title, aliases: uniqueStrings(book.aliases) };
+    });
+
+    const numbers = books.map(book => book.number);
+    if (new Set(numbers).size !== numbers.length) {
+      throw new ValidationError('Each book in a series needs a different number');
+    }
+
+    return {
+      name,
+      author: String(data.author || '').trim() || null,
+      aliases: uniqueStrings(data.aliases),
+      books: books.sort((a, b) => a.number - b.number)
+    };
+  }
+
+  createEntry(input, source) {
+    let id = slugify(input.name);
+    for (let suffix = 2; this.series.has(id); suffix++) {
+      id = `${slugify(input.name)}-${suffix}`;
+    }
+
+    const now = new Date().toISOString();
+    const entry = {
+      id,
+      name: input.name,
+      author: input.author || null,
+      aliases: uniqueStrings(input.aliases),
+      books: (input.books || [])
+        .map(book => ({ number: book.number, title: book.title, aliases: uniqueStrings(book.aliases), source: book.source || source }))
+        .sort((a, b) => a.number - b.number),
+      sources: [source],
+      userEdited: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.series.set(id, entry);
+    return entry;
+  }
+
+  load() {
+    try {
+      if (this.persistPath && fs.existsSync(this.persistPath)) {
+        const stored = JSON.parse(fs.readFileSync(this.persistPath, 'utf8'));
+        (stored.series || []).forEach(entry => this.series.set(entry.id, entry));
+        (stored.removed || []).forEach(id => this.removed.add(id));
+        console.log(`📚 Loaded ${this.series.size} series from ${this.persistPath}`);
+        return;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not load series catalog from ${this.persistPath}:`, error.message);
+    }
+
+    this.seed();
+  }
+
+  seed() {
+    if (!this.seedPath) return;
+
+    try {
+      const seed = JSON.parse(fs.readFileSync(this.seedPath, 'utf8'));
+      seed.forEach(series => this.createEntry(series, 'seed'));
+    } catch (error) {
+      console.warn(`⚠️ Could not read series seed from ${this.seedPath}:`, error.message);
+    }
+  }
+
+  schedulePersist() {
+    if (!this.persistPath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persistToDisk();
+    }, this.persistDelayMs);
+    // Don't keep the process alive just to save the catalog
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Write pending changes to disk immediately (used on shutdown)
+   */
+  flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.persistToDisk();
+  }
+
+  persistToDisk() {
+    if (!this.persistPath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.persistPath), { recursive: true });
+      const tempPath = `${this.persistPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({
+        series: Array.from(this.series.values()),
+        removed: Array.from(this.removed)
+      }, null, 2));
+      fs.renameSync(tempPath, this.persistPath);
+    } catch (error) {
+      console.warn(`⚠️ Could not persist series catalog to ${this.persistPath}:`, error.message);
+    }
+  }
+}
+
+const seriesCatalog = new SeriesCatalog({
+  persistPath: process.env.SERIES_CATALOG_PATH || path.join(__dirname, '../../data/series-catalog.json'),
+  seedPath: path.join(__dirname, 'data/seriesSeed.json')
+});
+
+module.exports = seriesCatalog;
+module.exports.SeriesCatalog = SeriesCatalog;
+module.exports.parseSeriesFromTitle = parseSeriesFromTitle;
+module.exports.parseSeriesStatement = parseSeriesStatement;
+module.exports.parsePosition = parsePosition;
+module.exports.normalizeSeriesName = normalizeSeriesName;
@@ -0,0 +1,152 @@
+// Scoring pages of the books database as possible duplicates of a book. ISBNs are compared in
+// their ISBN-13 form, titles without subtitles, series suffixes and leading articles, and other
+// editions of the same Open Library work count as duplicates of the edition being added.
+
+// Candidates scoring below this are not reported
+const MIN_DUPLICATE_SCORE = 60;
+
+/**
+ * ISBN-13 form of an ISBN-10 or ISBN-13, so both spellings of one edition compare equal
+ * @param {string} isbn - ISBN with or without hyphens
+ * @returns {string|null} 13 digits, or null when it is not an ISBN
+ */
+const toIsbn13 = (isbn) => {
+  const digits = String(isbn || '').replace(/[^0-9X]/gi, '').toUpperCase();
+  if (/^97[89]\d{10}$/.test(digits)) return digits;
+  if (!/^\d{9}[\dX]$/.test(digits)) return null;
+
+  const core = `978${digits.slice(0, 9)}`;
+  const sum = core.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1), 0);
+  return `${core}${(10 - (sum % 10)) % 10}`;
+};
+
+/**
+ * Title reduced to what identifies the work: no subtitle, series suffix, leading article or punctuation
+ * @param {string} title - Book title
+ * @returns {string} Lowercase words separated by single spaces
+ */
+const normalizeTitle = (title) => String(title || '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  // Series suffixes: "(The Expanse, #1)", "[Dune Chronicles 1]"
+  .replace(/\s*[([][^)\]]*[)\]]\s*$/, '')
+  // Subtitles after a colon or a spaced dash
+  .replace(/\s*(:|\s[-–—]\s).*$/, '')
+  // Numbered suffixes: "Dune, Book 1", "Mistborn #2"
+  .replace(/,?\s*(book|vol\.?|volume|#)\s*\d+$/, '')
+  .replace(/^(the|a|an)\s+/, '')
+  .replace(/&/g, 'and')
+  .replace(/[^\w\s]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const getBigrams = (text) => {
+  const compact = text.replace(/\s/g, '');
+  const bigrams = new Map();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Similarity of two titles after normalizing them (Dice coefficient over letter pairs)
+ * @returns {number} 0 (nothing in common) to 1 (same title)
+ */
+const getTitleSimilarity = (a, b) => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = getBigrams(left);
+  const rightBigrams = getBigrams(right);
+  let shared = 0;
+  let total = 0;
+  leftBigrams.forEach((count, bigram) => {
+    shared += Math.min(count, rightBigrams.get(bigram) || 0);
+    total += count;
+  });
+  rightBigrams.forEach(count => { total += count; });
+  return total > 0 ? (2 * shared) / total : 0;
+};
+
+// Last name of "First Last" or "Last, First", which survives initials and name formats
+const getAuthorKey = (name) => {
+  const text = String(name || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  if (!text) return null;
+  const last = text.includes(',') ? text.split(',')[0] : text.split(/\s+/).pop();
+  return last.replace(/[^\w]/g, '') || null;
+};
+
+/**
+ * Share of the authors on the side with fewer authors that also appear on the other side
+ * @returns {number|null} 0 to 1, or null when either side has no authors
+ */
+const getAuthorOverlap = (a = [], b = []) => {
+  const left = new Set(a.map(getAuthorKey).filter(Boolean));
+  const right = new Set(b.map(getAuthorKey).filter(Boolean));
+  if (left.size === 0 || right.size === 0) return null;
+
+  const shared = Array.from(left).filter(key => right.has(key)).length;
+  return shared / Math.min(left.size, right.size);
+};
+
+/**
+ * How likely a page is a duplicate of the book, and why
+ * @param {Object} book - { title, authors, isbns } with ISBNs in ISBN-13 form
+ * @param {Object} candidate - { title, authors, isbns } read from the page
+ * @param {Set<string>} [editionIsbns] - ISBN-13s of the other editions of the book's work
+ * @returns {{ score: number, matchType: string, reasons: string[] }|null} Null below the reporting threshold
+ */
+const scoreDuplicate = (book, candidate, editionIsbns = new Set()) => {
+  const reasons = [];
+
+  if (candidate.isbns.some(isbn => book.isbns.includes(isbn))) {
+    return { score: 100, matchType: 'same-edition', reasons: ['Same ISBN'] };
+  }
+
+  const titleSimilarity = getTitleSimilarity(book.title, candidate.title);
+  const authorOverlap = getAuthorOverlap(book.authors, candidate.authors);
+  const sameWork = candidate.isbns.some(isbn => editionIsbns.has(isbn));
+
+  if (sameWork) reasons.push('Another edition of the same work (Open Library)');
+  if (titleSimilarity === 1) {
+    reasons.push('Same title');
+  } else if (titleSimilarity >= 0.5) {
+    reasons.push(`Similar title (${Math.round(titleSimilarity * 100)}%)`);
+  }
+  if (authorOverlap === 1) {
+    reasons.push('Same author');
+  } else if (authorOverlap > 0) {
+    reasons.push('Shares an author');
+  } else if (authorOverlap === 0) {
+    reasons.push('Different author');
+  }
+
+  // Unknown authors count half, so a bare title match stays below a title and author match
+  const score = sameWork
+    ? 90 + Math.round(titleSimilarity * 5)
+    : Math.round(titleSimilarity * 70 + (authorOverlap ?? 0.5) * 25);
+  if (score < MIN_DUPLICATE_SCORE) return null;
+
+  // The same title and author under another ISBN is most likely another edition
+  const differentIsbn = book.isbns.length > 0 && candidate.isbns.length > 0;
+  if (differentIsbn) reasons.push('Different ISBN');
+  const matchType = sameWork || (differentIsbn && titleSimilarity >= 0.9 && authorOverlap > 0)
+    ? 'other-edition'
+    : 'similar';
+
+  return { score: Math.min(score, 95), matchType, reasons };
+};
+
+module.exports = {
+  MIN_DUPLICATE_SCORE,
+  toIsbn13,
+  normalizeTitle,
+  getTitleSimilarity,
+  getAuthorOverlap,
+  scoreDuplicate
+};
@@ -0,0 +1,118 @@
+const {
+  toIsbn13,
+  normalizeTitle,
+  getTitleSimilarity,
+  getAuthorOverlap,
+  scoreDuplicate
+} = require('./duplicateMatching');
+
+describe('toIsbn13', () => {
+  it('converts ISBN-10s with the ISBN-13 check digit', () => {
+    expect(toIsbn13('0306406152')).toBe('9780306406157');
+    expect(toIsbn13('0441013597')).toBe('9780441013593');
+  });
+
+  it('converts ISBN-10s ending in X', () => {
+    expect(toIsbn13('080442957X')).toBe('9780804429573');
+    expect(toIsbn13('080442957x')).toBe('9780804429573');
+  });
+
+  it('keeps ISBN-13s and strips hyphens and spaces', () => {
+    expect(toIsbn13('978-0-306-40615-7')).toBe('9780306406157');
+    expect(toIsbn13('979 10 343 0400 4')).toBe('9791034304004');
+  });
+
+  it('returns null for anything else', () => {
+    expect(toIsbn13('12345')).toBeNull();
+    expect(toIsbn13('4006381333931')).toBeNull();
+    expect(toIsbn13('')).toBeNull();
+    expect(toIsbn13(null)).toBeNull();
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('drops subtitles, series suffixes and leading articles', () => {
+    expect(normalizeTitle('The Way of Kings: The Stormlight Archive')).toBe('way of kings');
+    expect(normalizeTitle('Leviathan Wakes (The Expanse, #1)')).toBe('leviathan wakes');
+    expect(normalizeTitle('Mistborn #2')).toBe('mistborn');
+    expect(normalizeTitle('Dune, Book 1')).toBe('dune');
+  });
+
+  it('drops accents and punctuation and spells out ampersands', () => {
+    expect(normalizeTitle('Crime & Punishment')).toBe('crime and punishment');
+    expect(normalizeTitle('Les Misérables!')).toBe('les miserables');
+  });
+});
+
+describe('getTitleSimilarity', () => {
+  it('is 1 for titles that only differ in presentation', () => {
+    expect(getTitleSimilarity('Dune', 'Dune (Dune Chronicles, #1)')).toBe(1);
+  });
+
+  it('is 0 when either title is empty', () => {
+    expect(getTitleSimilarity('', 'Dune')).toBe(0);
+  });
+
+  it('is between 0 and 1 for similar titles', () => {
+    const similarity = getTitleSimilarity('The Colour of Magic', 'The Color of Magic');
+    expect(similarity).toBeGreaterThan(0.8);
+    expect(similarity).toBeLessThan(1);
+  });
+});
+
+describe('getAuthorOverlap', () => {
+  it('matches names by last name in either format', () => {
+    expect(getAuthorOverlap(['Frank Herbert'], ['Herbert, Frank'])).toBe(1);
+  });
+
+  it('is the share of the shorter author list', () => {
+    expect(getAuthorOverlap(['Neil Gaiman', 'Terry Pratchett'], ['Terry Pratchett'])).toBe(1);
+    expect(getAuthorOverlap(['Neil Gaiman', 'Terry Pratchett'], ['Terry Pratchett', 'Stephen Baxter'])).toBe(0.5);
+  });
+
+  it('is null when either side has no authors', () => {
+    expect(getAuthorOverlap([], ['Frank Herbert'])).toBeNull();
+  });
+});
+
+describe('scoreDuplicate', () => {
+  // ISBNs are compared in their ISBN-13 form, as the routes pass them
+  const book = { title: 'Dune', authors: ['Frank Herbert'], isbns: [toIsbn13('0441013597')] };
+
+  it('scores an ISBN-10 page of the same edition as the same ISBN', () => {
+    const candidate = { title: 'Dune', authors: [], isbns: [toIsbn13('0-441-01359-7')] };
+    expect(scoreDuplicate(book, candidate)).toEqual({ score: 100, matchType: 'same-edition', reasons: ['Same ISBN'] });
+  });
+
+  it('scores the same title and author under another ISBN as another edition', () => {
+    const candidate = { title: 'Dune (Dune Chronicles, #1)', authors: ['Herbert, Frank'], isbns: ['9780593099322'] };
+    expect(scoreDuplicate(book, candidate)).toEqual({
+      score: 95,
+      matchType: 'other-edition',
+      reasons: ['Same title', 'Same author', 'Different ISBN']
+    });
+  });
+
+  it('scores other editions of the same work by their ISBNs', () => {
+    const candidate = { title: 'Dune Messiah', authors: ['Frank Herbert'], isbns: ['9780593098233'] };
+    const result = scoreDuplicate(book, candidate, new Set(['9780593098233']));
+    expect(result.matchType).toBe('other-edition');
+    expect(result.score).toBeGreaterThanOrEqual(90);
+    expect(result.reasons).toContain('Another edition of the same work (Open Library)');
+  });
+
+  it('counts unknown authors half, below a title and author match', () => {
+    const result = scoreDuplicate(book, { title: 'Dune', authors: [], isbns: [] });
+    expect(result).toEqual({ score: 83, matchType: 'similar', reasons: ['Same title'] });
+  });
+
+  it('scores a different author lower', () => {
+    const result = scoreDuplicate(book, { title: 'Dune', authors: ['Someone Else'], isbns: [] });
+    expect(result).toEqual({ score: 70, matchType: 'similar', reasons: ['Same title', 'Different author'] });
+  });
+
+  it('leaves out candidates below the reporting threshold', () => {
+    expect(scoreDuplicate(book, { title: 'Neuromancer', authors: ['William Gibson'], isbns: [] })).toBeNull();
+    expect(scoreDuplicate(book, { title: 'Dune Messiah', authors: ['Frank Herbert'], isbns: [] })).toBeNull();
+  });
+});
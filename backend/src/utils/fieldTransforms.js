@@ -0,0 +1,177 @@
+// Transforms applied to a mapped value before it is written to Notion. Each mapping can carry a
+// pipeline of them in fieldMappings.transforms[bookField]; they run in order, and all but `join`
+// apply to each item of a list. The frontend mirrors this file for its mapping previews
+// (frontend/src/components/BookDetailsModal/utils/fieldTransforms.ts).
+
+const vm = require('vm');
+
+// Lowercase name particles that belong to the last name ("Le Guin", "van der Berg")
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'ter', 'st.', 'bin', 'al']);
+const NAME_SUFFIXES = /^(jr\.?|sr\.?|ii|iii|iv|phd|md)$/i;
+// Words kept lowercase in title case unless first or last
+const SMALL_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'in', 'nor', 'of', 'on', 'or', 'the', 'to', 'up', 'via', 'vs']);
+const MAX_PATTERN_LENGTH = 200;
+// Replace patterns come from the client; one that backtracks catastrophically is stopped after this long
+const REPLACE_TIMEOUT_MS = 50;
+const replaceScript = new vm.Script('value.replace(pattern, replacement)');
+const replaceContext = vm.createContext({});
+
+const splitName = (name) => {
+  const words = name.trim().split(/\s+/);
+  const suffix = words.length > 2 && NAME_SUFFIXES.test(words[words.length - 1].replace(/,$/, '')) ? words.pop() : null;
+  let lastStart = words.length - 1;
+  while (lastStart > 1 && NAME_PARTICLES.has(words[lastStart - 1].toLowerCase())) lastStart--;
+  return {
+    first: words.slice(0, lastStart).join(' ').replace(/,$/, ''),
+    last: words.slice(lastStart).join(' '),
+    suffix
+  };
+};
+
+const formatName = (name, format) => {
+  // Already "Last, First", or a single word
+  if (name.includes(',') || !/\s/.test(name.trim())) return name;
+  const { first, last, suffix } = splitName(name);
+  switch (format) {
+    case 'lastFirst':
+      return `${last}, ${first}${suffix ? `, ${suffix}` : ''}`;
+    case 'initialsLast':
+      return `${first.split(/[\s.]+/).filter(Boolean).map(part => `${part[0].toUpperCase()}.`).join(' ')} ${last}`;
+    case 'lastOnly':
+      return last;
+    default:
+      return name;
+  }
+};
+
+// Acronyms and names keep their capitals, unless the whole text is shouting
+const toTitleCase = (text) => {
+  const source = text === text.toUpperCase() ? text.toLowerCase() : text;
+  const words = source.split(/(\s+)/);
+  const lastWord = words.length - 1;
+  return words.map((word, index) => {
+    if (/^\s+$/.test(word)) return word;
+    if (index !== 0 && index !== lastWord && SMALL_WORDS.has(word.toLowerCase())) return word.toLowerCase();
+    return word.replace(/^([^a-zà-ÿ]*)([a-zà-ÿ])/, (_, lead, letter) => lead + letter.toUpperCase());
+  }).join('');
+};
+
+const stripSubtitle = (title) => title
+  // Trailing series or edition notes: "Leviathan Wakes (The Expanse, #1)"
+  .replace(/\s*[([][^)\]]*[)\]]\s*$/, '')
+  .split(/\s*[:—–]\s+|\s+-\s+/)[0]
+  .trim();
+
+/**
+ * Read a duration as minutes: "21 hrs and 2 mins", "10.5 hrs", "45 min", "12:30:00" or a bare
+ * number of minutes
+ * @param {string|number} value - Duration
+ * @returns {number|null} Minutes, or null when the value is not a duration
+ */
+const parseDurationMinutes = (value) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim().toLowerCase();
+
+  const clock = /^(\d+):(\d{1,2})(?::(\d{1,2}))?$/.exec(text);
+  if (clock) {
+    return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10) + (clock[3] ? parseInt(clock[3], 10) / 60 : 0);
+  }
+
+  const hours = /(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/.exec(text);
+  const minutes = /(\d+(?:\.\d+)?)\s*(?:m|min|mins|minute|minutes)\b/.exec(text);
+  if (hours || minutes) {
+    return (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0);
+  }
+
+  return /^\d+(?:\.\d+)?$/.test(text) ? parseFloat(text) : null;
+};
+
+const buildPattern = (transform) => {
+  if (!transform.pattern || transform.pattern.length > MAX_PATTERN_LENGTH) return null;
+  try {
+    return new RegExp(transform.pattern, transform.ignoreCase ? 'gi' : 'g');
+  } catch (error) {
+    console.warn(`Ignoring invalid replace pattern "${transform.pattern}":`, error.message);
+    return null;
+  }
+};
+
+const replaceWithTimeout = (value, pattern, replacement) => {
+  Object.assign(replaceContext, { value, pattern, replacement });
+  try {
+    return replaceScript.runInContext(replaceContext, { timeout: REPLACE_TIMEOUT_MS });
+  } catch (error) {
+    console.warn(`Skipping replace pattern "${pattern.source}":`, error.message);
+    return value;
+  } finally {
+    Object.assign(replaceContext, { value: null, pattern: null, replacement: null });
+  }
+};
+
+// Apply one transform to a single (non-list) value
+const transformItem = (value, transform) => {
+  if (value === null || value === undefined || value === '') return value;
+
+  switch (transform.type) {
+    case 'nameFormat':
+      return formatName(String(value), transform.format);
+
+    case 'case': {
+      const text = String(value);
+      if (transform.mode === 'upper') return text.toUpperCase();
+      if (transform.mode === 'lower') return text.toLowerCase();
+      return toTitleCase(text);
+    }
+
+    case 'stripSubtitle':
+      return stripSubtitle(String(value)) || value;
+
+    case 'duration': {
+      const minutes = parseDurationMinutes(value);
+      if (minutes === null) return value;
+      return transform.unit === 'hours'
+        ? Math.round((minutes / 60) * 100) / 100
+        : Math.round(minutes);
+    }
+
+    case 'year':
+      return /\d{4}/.exec(String(value))?.[0] || value;
+
+    case 'affix':
+      return `${transform.prefix || ''}${value}${transform.suffix || ''}`;
+
+    case 'replace': {
+      const pattern = buildPattern(transform);
+      return pattern ? replaceWithTimeout(String(value), pattern, String(transform.replacement || '')) : value;
+    }
+
+    default:
+      return value;
+  }
+};
+
+/**
+ * Run a mapping's transform pipeline on its value
+ * @param {*} value - Mapped book value (string, number or list)
+ * @param {Object[]} transforms - [{ type, ...options }]
+ * @returns {*} Transformed value
+ */
+const applyFieldTransforms = (value, transforms) => {
+  if (!Array.isArray(transforms) || transforms.length === 0) return value;
+
+  return transforms.reduce((current, transform) => {
+    if (!transform?.type) return current;
+    if (transform.type === 'join') {
+      return Array.isArray(current)
+        ? current.filter(item => item !== null && item !== undefined && item !== '').join(transform.separator ?? ', ')
+        : current;
+    }
+    return Array.isArray(current)
+      ? current.map(item => transformItem(item, transform))
+      : transformItem(current, transform);
+  }, value);
+};
+
+module.exports = {
+  applyFieldTransforms
+};
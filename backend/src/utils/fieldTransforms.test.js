@@ -0,0 +1,84 @@
+const { applyFieldTransforms } = require('./fieldTransforms');
+
+describe('applyFieldTransforms', () => {
+  it('returns the value unchanged without transforms', () => {
+    expect(applyFieldTransforms('Dune', undefined)).toBe('Dune');
+    expect(applyFieldTransforms(['Frank Herbert'], [])).toEqual(['Frank Herbert']);
+  });
+
+  it('runs transforms in order on each item of a list', () => {
+    const transforms = [{ type: 'nameFormat', format: 'lastOnly' }, { type: 'case', mode: 'upper' }, { type: 'join', separator: ' & ' }];
+    expect(applyFieldTransforms(['Neil Gaiman', 'Terry Pratchett'], transforms)).toBe('GAIMAN & PRATCHETT');
+  });
+
+  describe('nameFormat', () => {
+    const format = (name, nameFormat) => applyFieldTransforms(name, [{ type: 'nameFormat', format: nameFormat }]);
+
+    it('writes names last name first', () => {
+      expect(format('Frank Herbert', 'lastFirst')).toBe('Herbert, Frank');
+      expect(format('Ursula K. Le Guin', 'lastFirst')).toBe('Le Guin, Ursula K.');
+      expect(format('Martin Luther King Jr.', 'lastFirst')).toBe('King, Martin Luther, Jr.');
+    });
+
+    it('shortens first names to initials', () => {
+      expect(format('John Ronald Reuel Tolkien', 'initialsLast')).toBe('J. R. R. Tolkien');
+      expect(format('Ludwig van Beethoven', 'initialsLast')).toBe('L. van Beethoven');
+    });
+
+    it('keeps only the last name', () => {
+      expect(format('Ursula K. Le Guin', 'lastOnly')).toBe('Le Guin');
+    });
+
+    it('leaves names already written last name first and single names alone', () => {
+      expect(format('Herbert, Frank', 'lastFirst')).toBe('Herbert, Frank');
+      expect(format('Plato', 'initialsLast')).toBe('Plato');
+    });
+  });
+
+  describe('duration', () => {
+    const toMinutes = (value) => applyFieldTransforms(value, [{ type: 'duration', unit: 'minutes' }]);
+    const toHours = (value) => applyFieldTransforms(value, [{ type: 'duration', unit: 'hours' }]);
+
+    it('reads Audible, clock and decimal durations', () => {
+      expect(toMinutes('21 hrs and 2 mins')).toBe(1262);
+      expect(toMinutes('12:30:00')).toBe(750);
+      expect(toMinutes('10.5 hrs')).toBe(630);
+      expect(toMinutes('45 min')).toBe(45);
+    });
+
+    it('reads bare numbers as minutes and converts to hours', () => {
+      expect(toHours(90)).toBe(1.5);
+      expect(toHours('100')).toBe(1.67);
+    });
+
+    it('leaves values that are not durations alone', () => {
+      expect(toMinutes('unabridged')).toBe('unabridged');
+      expect(toMinutes('')).toBe('');
+    });
+  });
+
+  describe('replace', () => {
+    const replace = (value, transform) => applyFieldTransforms(value, [{ type: 'replace', ...transform }]);
+
+    it('replaces every match, optionally ignoring case', () => {
+      expect(replace('Dune (Dune Chronicles, #1)', { pattern: '\\s*\\(.*\\)$' })).toBe('Dune');
+      expect(replace('The Hobbit', { pattern: 'the ', replacement: '', ignoreCase: true })).toBe('Hobbit');
+      expect(replace('a-b-c', { pattern: '-', replacement: ' / ' })).toBe('a / b / c');
+    });
+
+    it('supports capture groups in the replacement', () => {
+      expect(replace('Herbert, Frank', { pattern: '^(\\w+), (\\w+)$', replacement: '$2 $1' })).toBe('Frank Herbert');
+    });
+
+    it('ignores invalid and overlong patterns', () => {
+      expect(replace('Dune', { pattern: '(' })).toBe('Dune');
+      expect(replace('Dune', { pattern: 'D'.repeat(201) })).toBe('Dune');
+    });
+
+    it('gives up on patterns that backtrack catastrophically', () => {
+      const start = Date.now();
+      expect(replace(`${'a'.repeat(40)}!`, { pattern: '^(a+)+$' })).toBe(`${'a'.repeat(40)}!`);
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+  });
+});
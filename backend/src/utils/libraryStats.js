@@ -0,0 +1,129 @@
+// Reading statistics over the books of the library, as read back by pageToBook
+
+const TOP_LIMIT = 10;
+
+// Statuses that mean the book was finished, when no read date is set
+const FINISHED_STATUSES = /^(read|finished|completed|done)$/i;
+
+/**
+ * Listening time in hours from an audiobook duration, as written to the page
+ * ("12.5 hrs", "45 min", "10 hrs and 5 mins") or a plain number of hours
+ * @param {string|number|null} duration
+ * @returns {number|null} Hours
+ */
+const parseDurationHours = (duration) => {
+  if (typeof duration === 'number') return Number.isFinite(duration) ? duration : null;
+  if (!duration) return null;
+
+  const text = String(duration).toLowerCase();
+  const hours = /(\d+(?:\.\d+)?)\s*h/.exec(text);
+  const minutes = /(\d+)\s*m/.exec(text);
+  if (hours || minutes) {
+    return (hours ? parseFloat(hours[1]) : 0) + (minutes ? parseInt(minutes[1], 10) / 60 : 0);
+  }
+
+  const plain = parseFloat(text);
+  return Number.isFinite(plain) ? plain : null;
+};
+
+const isFinished = (book) => Boolean(book.dateRead) || FINISHED_STATUSES.test(book.readingStatus || '');
+
+// Pages do not record the format a book was read in, only whether Audible data was added to it
+const hasAudiobookData = (book) => Boolean(book.audiobookData?.duration || book.audiobookData?.asin);
+
+// "YYYY-MM" and "YYYY" keys from ISO dates; dates without a month only count towards the year
+const monthOf = (date) => (/^\d{4}-\d{2}/.test(date || '') ? date.slice(0, 7) : null);
+const yearOf = (date) => (/^\d{4}/.test(date || '') ? date.slice(0, 4) : null);
+
+const countTop = (values) => {
+  const counts = new Map();
+  values.forEach(value => {
+    const name = String(value || '').trim();
+    if (name) counts.set(name, (counts.get(name) || 0) + 1);
+  });
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_LIMIT);
+};
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Aggregate reading statistics for a library
+ * @param {Object[]} books - Books from pageToBook
+ * @returns {Object} Totals, per-month and per-year timelines, top lists and the audiobook data split
+ */
+const computeLibraryStats = (books) => {
+  const months = new Map();
+  const years = new Map();
+  const bucket = (map, key) => {
+    if (!map.has(key)) map.set(key, { added: 0, finished: 0, pagesRead: 0, audiobookHours: 0 });
+    return map.get(key);
+  };
+
+  // Finished books without a read date count in the totals but in no month or year
+  const totals = { books: books.length, finished: 0, finishedUndated: 0, pagesRead: 0, audiobookHours: 0 };
+  const audiobookData = { with: 0, without: 0 };
+  const ratings = [];
+
+  for (const book of books) {
+    audiobookData[hasAudiobookData(book) ? 'with' : 'without'] += 1;
+
+    // The mapped rating property holds the reader's own rating when the book was added with one,
+    // otherwise the community average, so the two cannot be told apart here
+    if (typeof book.averageRating === 'number') ratings.push(book.averageRating);
+
+    const addedMonth = monthOf(book.dateAdded);
+    const addedYear = yearOf(book.dateAdded);
+    if (addedMonth) bucket(months, addedMonth).added += 1;
+    if (addedYear) bucket(years, addedYear).added += 1;
+
+    if (!isFinished(book)) continue;
+
+    // Finished books count their pages and, when known, their audiobook length, whichever way they were read
+    const pages = book.pageCount || 0;
+    const hours = parseDurationHours(book.audiobookData?.duration) || 0;
+    totals.finished += 1;
+    totals.pagesRead += pages;
+    totals.audiobookHours += hours;
+
+    if (!yearOf(book.dateRead)) totals.finishedUndated += 1;
+
+    const finishedMonth = monthOf(book.dateRead);
+    const finishedYear = yearOf(book.dateRead);
+    [finishedMonth && bucket(months, finishedMonth), finishedYear && bucket(years, finishedYear)]
+      .filter(Boolean)
+      .forEach(entry => {
+        entry.finished += 1;
+        entry.pagesRead += pages;
+        entry.audiobookHours += hours;
+      });
+  }
+
+  const timeline = (map, key) => Array.from(map, ([period, entry]) => ({
+    [key]: period,
+    ...entry,
+    audiobookHours: round(entry.audiobookHours)
+  })).sort((a, b) => a[key].localeCompare(b[key]));
+
+  return {
+    totals: {
+      ...totals,
+      audiobookHours: round(totals.audiobookHours),
+      averageRating: ratings.length > 0 ? round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length, 2) : null,
+      ratedBooks: ratings.length
+    },
+    byMonth: timeline(months, 'month'),
+    byYear: timeline(years, 'year'),
+    topCategories: countTop(books.flatMap(book => book.categories || [])),
+    topAuthors: countTop(books.flatMap(book => book.authors || [])),
+    topPublishers: countTop(books.map(book => book.publisher)),
+    statuses: countTop(books.map(book => book.readingStatus)),
+    audiobookData
+  };
+};
+
+module.exports = {
+  computeLibraryStats,
+  parseDurationHours
+};
@@ -0,0 +1,121 @@
+const { computeLibraryStats, parseDurationHours } = require('./libraryStats');
+
+describe('parseDurationHours', () => {
+  it('reads hours and minutes as written to pages', () => {
+    expect(parseDurationHours('12.5 hrs')).toBe(12.5);
+    expect(parseDurationHours('45 min')).toBe(0.75);
+    expect(parseDurationHours('10 hrs and 30 mins')).toBe(10.5);
+  });
+
+  it('reads plain numbers as hours', () => {
+    expect(parseDurationHours(8)).toBe(8);
+    expect(parseDurationHours('8')).toBe(8);
+  });
+
+  it('returns null for missing or unreadable durations', () => {
+    expect(parseDurationHours(null)).toBeNull();
+    expect(parseDurationHours('')).toBeNull();
+    expect(parseDurationHours('unknown')).toBeNull();
+    expect(parseDurationHours(NaN)).toBeNull();
+  });
+});
+
+describe('computeLibraryStats', () => {
+  it('returns empty totals and lists for an empty library', () => {
+    expect(computeLibraryStats([])).toEqual({
+      totals: {
+        books: 0,
+        finished: 0,
+        finishedUndated: 0,
+        pagesRead: 0,
+        audiobookHours: 0,
+        averageRating: null,
+        ratedBooks: 0
+      },
+      byMonth: [],
+      byYear: [],
+      topCategories: [],
+      topAuthors: [],
+      topPublishers: [],
+      statuses: [],
+      audiobookData: { with: 0, without: 0 }
+    });
+  });
+
+  it('counts pages for every finished book and hours for those with audiobook data', () => {
+    const stats = computeLibraryStats([
+      { dateRead: '2024-03-10', pageCount: 300 },
+      { dateRead: '2024-03-20', pageCount: 500, audiobookData: { duration: '10 hrs and 30 mins' } },
+      { pageCount: 200, audiobookData: { asin: 'B000' } }
+    ]);
+
+    expect(stats.totals).toMatchObject({ finished: 2, pagesRead: 800, audiobookHours: 10.5 });
+    expect(stats.audiobookData).toEqual({ with: 2, without: 1 });
+    expect(stats.byMonth).toEqual([{ month: '2024-03', added: 0, finished: 2, pagesRead: 800, audiobookHours: 10.5 }]);
+  });
+
+  it('counts finished books without a read date in the totals only', () => {
+    const stats = computeLibraryStats([
+      { readingStatus: 'Read', pageCount: 200 },
+      { readingStatus: 'To Read', pageCount: 400 }
+    ]);
+
+    expect(stats.totals).toMatchObject({ books: 2, finished: 1, finishedUndated: 1, pagesRead: 200 });
+    expect(stats.byMonth).toEqual([]);
+    expect(stats.byYear).toEqual([]);
+  });
+
+  it('counts dates with only a year towards the year', () => {
+    const stats = computeLibraryStats([{ dateAdded: '2023', dateRead: '2023' }]);
+
+    expect(stats.byMonth).toEqual([]);
+    expect(stats.byYear).toEqual([{ year: '2023', added: 1, finished: 1, pagesRead: 0, audiobookHours: 0 }]);
+    expect(stats.totals.finishedUndated).toBe(0);
+  });
+
+  it('ignores dates that cannot be read', () => {
+    const stats = computeLibraryStats([{ dateAdded: 'last spring', dateRead: null, readingStatus: 'Reading' }]);
+
+    expect(stats.totals).toMatchObject({ books: 1, finished: 0 });
+    expect(stats.byYear).toEqual([]);
+  });
+
+  it('sorts timelines by period', () => {
+    const stats = computeLibraryStats([
+      { dateAdded: '2024-02-01' },
+      { dateAdded: '2023-11-15' },
+      { dateAdded: '2024-02-20' }
+    ]);
+
+    expect(stats.byMonth.map(entry => [entry.month, entry.added])).toEqual([['2023-11', 1], ['2024-02', 2]]);
+    expect(stats.byYear.map(entry => [entry.year, entry.added])).toEqual([['2023', 1], ['2024', 2]]);
+  });
+
+  it('averages only books with a rating', () => {
+    const stats = computeLibraryStats([{ averageRating: 4 }, { averageRating: 3.5 }, { averageRating: null }, {}]);
+
+    expect(stats.totals).toMatchObject({ averageRating: 3.75, ratedBooks: 2 });
+  });
+
+  it('ranks top lists by count, then by name, and skips blank names', () => {
+    const stats = computeLibraryStats([
+      { authors: ['Terry Pratchett'], publisher: 'Corgi', categories: ['Fantasy', ' '] },
+      { authors: ['Neil Gaiman', 'Terry Pratchett'], publisher: '', categories: ['Fantasy', 'Humor'] },
+      { authors: ['Neil Gaiman'], categories: ['Adventure'] }
+    ]);
+
+    expect(stats.topAuthors).toEqual([{ name: 'Neil Gaiman', count: 2 }, { name: 'Terry Pratchett', count: 2 }]);
+    expect(stats.topCategories).toEqual([
+      { name: 'Fantasy', count: 2 },
+      { name: 'Adventure', count: 1 },
+      { name: 'Humor', count: 1 }
+    ]);
+    expect(stats.topPublishers).toEqual([{ name: 'Corgi', count: 1 }]);
+  });
+
+  it('keeps the ten largest entries of a top list', () => {
+    const books = Array.from({ length: 12 }, (_, index) => ({ categories: [`Category ${String(index).padStart(2, '0')}`] }));
+
+    expect(computeLibraryStats(books).topCategories).toHaveLength(10);
+  });
+});
@@ -0,0 +1,303 @@
+// Notion limits: 2000 characters per rich text item, 100 rich text items per block,
+// 100 blocks per children array
+const MAX_TEXT_LENGTH = 2000;
+const MAX_RICH_TEXT_ITEMS = 100;
+const MAX_CHILDREN = 100;
+
+const decodeEntities = (text) => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+  .replace(/&amp;/g, '&');
+
+/**
+ * Split text into pieces of at most `maxLength` characters, preferring to break after a
+ * sentence, then at a space
+ * @param {string} text - Text to split
+ * @param {number} maxLength - Maximum piece length
+ * @returns {string[]} Pieces that join back to the original text
+ */
+const splitText = (text, maxLength = MAX_TEXT_LENGTH) => {
+  const pieces = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const window = rest.substring(0, maxLength);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('! '), window.lastIndexOf('? '));
+    const space = window.lastIndexOf(' ');
+    const cut = sentenceEnd > maxLength / 2 ? sentenceEnd + 2 : space > maxLength / 2 ? space + 1 : maxLength;
+    pieces.push(rest.substring(0, cut));
+    rest = rest.substring(cut);
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+};
+
+/**
+ * Build rich text items for a piece of text, splitting it to fit Notion's length limit
+ * @param {string} content - Text
+ * @param {Object} style - { bold, italic, underline, strikethrough, code, link }
+ * @returns {Object[]} Notion rich text items
+ */
+const toRichText = (content, { bold = false, italic = false, underline = false, strikethrough = false, code = false, link = null } = {}) =>
+  splitText(String(content)).map(piece => {
+    const item = { type: 'text', text: { content: piece } };
+    if (link) item.text.link = { url: link };
+    if (bold || italic || underline || strikethrough || code) {
+      item.annotations = { bold, italic, underline, strikethrough, code };
+    }
+    return item;
+  });
+
+const styleKey = (item) => JSON.stringify([item.annotations || null, item.text.link || null]);
+
+// Join neighbouring items with the same style so long paragraphs use fewer items
+const mergeRichText = (items) => items.reduce((merged, item) => {
+  const previous = merged[merged.length - 1];
+  if (previous && styleKey(previous) === styleKey(item) &&
+      previous.text.content.length + item.text.content.length <= MAX_TEXT_LENGTH) {
+    previous.text.content += item.text.content;
+  } else {
+    merged.push({ ...item, text: { ...item.text } });
+  }
+  return merged;
+}, []);
+
+/**
+ * Convert a description (HTML from Google Books or Audible, or plain text) into blocks of
+ * rich text, keeping paragraphs, list items, bold, italics, underline and links
+ * @param {string} html - Description
+ * @returns {Object[]} Array of { type: 'paragraph' | 'bulleted_list_item', richText }
+ */
+const htmlToParagraphs = (html) => {
+  if (!html) return [];
+  const source = String(html)
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/\r\n?/g, '\n');
+
+  // Plain text: blank lines separate paragraphs, single line breaks are kept
+  if (!/<[a-z][^>]*>/i.test(source)) {
+    return source
+      .split(/\n\s*\n/)
+      .map(paragraph => decodeEntities(paragraph.trim()))
+      .filter(Boolean)
+      .map(paragraph => ({ type: 'paragraph', richText: toRichText(paragraph) }));
+  }
+
+  const paragraphs = [];
+  const style = { bold: 0, italic: 0, underline: 0, links: [] };
+  let current = { type: 'paragraph', richText: [] };
+
+  const flush = (nextType = 'paragraph') => {
+    const items = mergeRichText(current.richText);
+    // Trim the whitespace HTML leaves around block boundaries
+    if (items.length > 0) {
+      items[0].text.content = items[0].text.content.replace(/^\s+/, '');
+      items[items.length - 1].text.content = items[items.length - 1].text.content.replace(/\s+$/, '');
+    }
+    const richText = items.filter(item => item.text.content);
+    if (richText.length > 0) {
+      paragraphs.push({ type: current.type, richText });
+    }
+    current = { type: nextType, richText: [] };
+  };
+
+  for (const token of source.split(/(<[^>]*>)/)) {
+    const tag = /^<\s*(\/)?\s*([a-z0-9]+)([^>]*)>$/i.exec(token);
+    if (!tag) {
+      const content = decodeEntities(token.replace(/\s+/g, ' '));
+      if (content) {
+        current.richText.push(...toRichText(content, {
+          bold: style.bold > 0,
+          italic: style.italic > 0,
+          underline: style.underline > 0,
+          link: style.links[style.links.length - 1] || null
+        }));
+      }
+      continue;
+    }
+
+    const [, closing, rawName, attributes] = tag;
+    const name = rawName.toLowerCase();
+    const delta = closing ? -1 : 1;
+    switch (name) {
+      case 'b':
+      case 'strong':
+        style.bold = Math.max(0, style.bold + delta);
+        break;
+      case 'i':
+      case 'em':
+        style.italic = Math.max(0, style.italic + delta);
+        break;
+      case 'u':
+        style.underline = Math.max(0, style.underline + delta);
+        break;
+      case 'a':
+        if (closing) {
+          style.links.pop();
+        } else {
+          const href = /href\s*=\s*["']([^"']+)["']/i.exec(attributes)?.[1];
+          style.links.push(href && /^https?:\/\//i.test(href) ? decodeEntities(href) : null);
+        }
+        break;
+      case 'br':
+        current.richText.push(...toRichText('\n'));
+        break;
+      case 'li':
+        flush(closing ? 'paragraph' : 'bulleted_list_item');
+        break;
+      case 'p':
+      case 'div':
+      case 'ul':
+      case 'ol':
+      case 'blockquote':
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        flush();
+        break;
+      default:
+        break;
+    }
+  }
+  flush();
+
+  return paragraphs;
+};
+
+const textBlock = (type, richText, extra = {}) => ({
+  object: 'block',
+  type,
+  [type]: { rich_text: richText, ...extra }
+});
+
+// Blocks holding more than 100 rich text items are split into several blocks of the same type
+const richTextBlocks = (type, richText) => {
+  const blocks = [];
+  for (let i = 0; i < richText.length; i += MAX_RICH_TEXT_ITEMS) {
+    blocks.push(textBlock(type, richText.slice(i, i + MAX_RICH_TEXT_ITEMS)));
+  }
+  return blocks;
+};
+
+const heading = (content, extra = {}) => textBlock('heading_2', toRichText(content), extra);
+
+// "Label: value" list item with the label in bold
+const detailItem = (label, value) => textBlock('bulleted_list_item', [
+  ...toRichText(`${label}: `, { bold: true }),
+  ...toRichText(value)
+]);
+
+const formatChapterLength = (lengthMs) => {
+  if (!lengthMs) return '';
+  const totalSeconds = Math.round(lengthMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const descriptionBlocks = (bookData) => {
+  const paragraphs = htmlToParagraphs(bookData.descriptionHtml || bookData.description);
+  if (paragraphs.length === 0) return [];
+  return [
+    heading('Description'),
+    ...paragraphs.flatMap(paragraph => richTextBlocks(paragraph.type, paragraph.richText))
+  ];
+};
+
+const chapterBlocks = (bookData) => {
+  const chapters = (bookData.audiobookData?.chapterList || []).filter(chapter => chapter?.title);
+  if (chapters.length === 0) return [];
+
+  const items = chapters.map(chapter => {
+    const length = formatChapterLength(chapter.lengthMs);
+    return textBlock('numbered_list_item', [
+      ...toRichText(chapter.title),
+      ...(length ? toRichText(` · ${length}`, { italic: true }) : [])
+    ]);
+  });
+
+  // Nest the list under a toggle heading when it fits in a single children array
+  return items.length <= MAX_CHILDREN
+    ? [heading(`Chapters (${items.length})`, { is_toggleable: true, children: items })]
+    : [heading(`Chapters (${items.length})`), ...items];
+};
+
+const editionBlocks = (bookData) => {
+  const audiobook = bookData.audiobookData?.hasAudiobook ? bookData.audiobookData : null;
+  const series = bookData.series || audiobook?.series;
+  const seriesNumber = bookData.series ? bookData.seriesNumber : audiobook?.seriesPosition;
+  const narrators = Array.isArray(audiobook?.narrators) ? audiobook.narrators.join(', ') : audiobook?.narrators;
+  const duration = audiobook?.totalDurationHours
+    ? `${audiobook.totalDurationHours} hrs`
+    : audiobook?.duration;
+
+  const details = [
+    ['Publisher', bookData.publisher],
+    ['Published', bookData.publishedDate],
+    ['First published', bookData.originalPublishedDate !== bookData.publishedDate ? bookData.originalPublishedDate : null],
+    ['Pages', bookData.pageCount],
+    ['ISBN-13', bookData.isbn13],
+    ['ISBN-10', bookData.isbn10],
+    ['Language', bookData.language],
+    ['Series', series ? `${series}${seriesNumber ? ` #${seriesNumber}` : ''}` : null],
+    ['Narrated by', narrators],
+    ['Audiobook length', duration],
+    ['Audiobook publisher', audiobook?.publisher],
+    ['Audiobook released', audiobook?.publishedDate],
+    ['ASIN', audiobook?.asin]
+  ].filter(([, value]) => value !== null && value !== undefined && value !== '');
+
+  if (details.length === 0) return [];
+  return [heading('Edition'), ...details.map(([label, value]) => detailItem(label, String(value)))];
+};
+
+const linkBlocks = (bookData) => {
+  const audiobook = bookData.audiobookData?.hasAudiobook ? bookData.audiobookData : null;
+  const openLibraryKey = bookData.openLibraryKey
+    ? (bookData.openLibraryKey.startsWith('/') ? bookData.openLibraryKey : `/works/${bookData.openLibraryKey}`)
+    : null;
+
+  const links = [
+    ['Google Books', bookData.infoLink || bookData.previewLink],
+    ['Open Library', openLibraryKey ? `https://openlibrary.org${openLibraryKey}` : null],
+    ['Audible', audiobook?.audibleUrl || (audiobook?.asin ? `https://www.audible.com/pd/${audiobook.asin}` : null)]
+  ].filter(([, url]) => url && /^https?:\/\//i.test(url));
+
+  if (links.length === 0) return [];
+  return [
+    heading('Links'),
+    ...links.map(([label, url]) => textBlock('bulleted_list_item', toRichText(label, { link: url })))
+  ];
+};
+
+/**
+ * Build the page body for a book
+ * @param {Object} bookData - Book data sent by the frontend
+ * @param {Object} sections - { description, chapters, edition, links } booleans
+ * @returns {Object[]} Notion blocks, in page order
+ */
+const buildBookPageBlocks = (bookData, sections = {}) => [
+  ...(sections.description ? descriptionBlocks(bookData) : []),
+  ...(sections.chapters ? chapterBlocks(bookData) : []),
+  ...(sections.edition ? editionBlocks(bookData) : []),
+  ...(sections.links ? linkBlocks(bookData) : [])
+];
+
+module.exports = {
+  MAX_CHILDREN,
+  splitText,
+  toRichText,
+  mergeRichText,
+  textBlock,
+  richTextBlocks,
+  htmlToParagraphs,
+  buildBookPageBlocks
+};
@@ -0,0 +1,252 @@
+// Turning pages of the books database back into books, and library searches into data source
+// queries. Both go through the saved field mappings, the reverse of formatBookDataForNotion.
+const { readPropertyValue } = require('./notionProperties');
+
+const SORTABLE_FIELDS = ['title', 'authors', 'dateAdded', 'dateRead', 'releaseDate', 'rating', 'pageCount'];
+const UNSORTABLE_TYPES = ['relation', 'rollup', 'files', 'people'];
+
+const getMappedProperty = (schema, mappings, bookField) => {
+  const name = mappings?.[bookField];
+  if (!name || typeof name !== 'string') return null;
+  const property = schema?.properties?.[name];
+  return property ? { name, type: property.type, config: property[property.type] || {} } : null;
+};
+
+const asText = (value) => {
+  if (value === null || value === undefined) return null;
+  return Array.isArray(value) ? value.join(', ') || null : String(value);
+};
+
+const asNumber = (value) => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(asText(value));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Text properties hold lists joined with ", "; names written as "Last, First" are kept together
+const splitNames = (value) => {
+  if (Array.isArray(value)) return value;
+  const text = asText(value);
+  if (!text) return [];
+  if (text.includes(';')) return text.split(';').map(name => name.trim()).filter(Boolean);
+  const parts = text.split(',').map(name => name.trim()).filter(Boolean);
+  return parts.every(part => /\s/.test(part)) ? parts : [text];
+};
+
+const splitList = (value) => {
+  if (Array.isArray(value)) return value;
+  const text = asText(value);
+  return text ? text.split(',').map(item => item.trim()).filter(Boolean) : [];
+};
+
+const getFileUrl = (file) => file?.external?.url || file?.file?.url || null;
+
+/**
+ * IDs of the pages linked through mapped relation properties, whose titles are needed to show them
+ * @param {Object[]} pages - Pages from a data source query
+ * @param {Object} schema - Data source schema
+ * @param {Object} mappings - Field mappings
+ * @returns {string[]} Unique page IDs
+ */
+const collectRelationIds = (pages, schema, mappings) => {
+  const relationProperties = Object.keys(mappings || {})
+    .map(field => getMappedProperty(schema, mappings, field))
+    .filter(property => property?.type === 'relation');
+
+  const ids = new Set();
+  for (const page of pages) {
+    for (const { name } of relationProperties) {
+      (page.properties?.[name]?.relation || []).forEach(relation => ids.add(relation.id));
+    }
+  }
+  return Array.from(ids);
+};
+
+/**
+ * Read a page of the books database as a book, in the shape the search results use
+ * @param {Object} page - Notion page
+ * @param {Object} schema - Data source schema
+ * @param {Object} mappings - Field mappings (book field → property name)
+ * @param {Map<string, string>} relationTitles - Titles of linked pages by ID
+ * @returns {Object} Book with notionPageId and notionPageUrl
+ */
+const pageToBook = (page, schema, mappings, relationTitles = new Map()) => {
+  const read = (bookField) => {
+    const property = getMappedProperty(schema, mappings, bookField);
+    if (!property) return null;
+    const value = readPropertyValue(page.properties?.[property.name], property.type);
+    return property.type === 'relation'
+      ? value.map(id => relationTitles.get(id)).filter(Boolean)
+      : value;
+  };
+
+  const isbn = asText(read('isbn'))?.replace(/[^0-9X]/gi, '') || null;
+  const thumbnailValue = read('thumbnail');
+  const thumbnail = getFileUrl(page.cover)
+    || (Array.isArray(thumbnailValue) ? thumbnailValue[0] : asText(thumbnailValue))
+    || (page.icon?.type !== 'emoji' ? getFileUrl(page.icon) : null);
+
+  const audiobookRating = asText(read('audiobookRating'));
+  const audiobook = {
+    publisher: asText(read('audiobookPublisher')),
+    narrators: splitNames(read('audiobookNarrators')),
+    asin: asText(read('audiobookASIN')),
+    duration: asText(read('audiobookDuration')),
+    chapters: asNumber(read('audiobookChapters')),
+    audibleUrl: asText(read('audiobookURL')),
+    // Written as "4.5/5 (1200 reviews)"
+    rating: audiobookRating ? asNumber(audiobookRating.split('/')[0]) : null,
+    ratingCount: audiobookRating ? asNumber(/\((\d+)/.exec(audiobookRating)?.[1]) : null
+  };
+  const hasAudiobook = Object.values(audiobook).some(value => Array.isArray(value) ? value.length > 0 : value !== null);
+
+  return {
+    id: `notion-${page.id}`,
+    notionPageId: page.id,
+    notionPageUrl: page.url,
+    source: 'notion',
+    title: asText(read('title')) || 'Untitled',
+    authors: splitNames(read('authors')),
+    description: asText(read('description')),
+    isbn13: isbn && isbn.length === 13 ? isbn : null,
+    isbn10: isbn && isbn.length === 10 ? isbn : null,
+    publisher: asText(read('publisher')),
+    publishedDate: asText(read('releaseDate')),
+    pageCount: asNumber(read('pageCount')),
+    categories: splitList(read('categories')),
+    averageRating: asNumber(read('rating')),
+    thumbnail,
+    series: asText(read('series')),
+    seriesNumber: asNumber(read('seriesNumber')),
+    // Personal reading data, written back unchanged when the page is updated
+    readingStatus: asText(read('status')),
+    dateRead: asText(read('dateRead')),
+    dateAdded: asText(read('dateAdded')) || page.created_time,
+    createdTime: page.created_time,
+    lastEditedTime: page.last_edited_time,
+    ...(hasAudiobook ? { audiobookData: { hasAudiobook: true, source: 'notion', ...audiobook } } : {})
+  };
+};
+
+// Condition on one property matching a value exactly, as far as its type allows
+const buildMatchFilter = (property, value) => {
+  switch (property.type) {
+    case 'select':
+    case 'status':
+      return { property: property.name, [property.type]: { equals: value } };
+    case 'multi_select':
+      return { property: property.name, multi_select: { contains: value } };
+    case 'title':
+    case 'rich_text':
+      return { property: property.name, [property.type]: { contains: value } };
+    default:
+      return null;
+  }
+};
+
+const buildTextFilter = (property, text) => {
+  if (property.type === 'title' || property.type === 'rich_text') {
+    return { property: property.name, [property.type]: { contains: text } };
+  }
+  return null;
+};
+
+/**
+ * Data source query for a library search
+ * @param {Object} schema - Data source schema
+ * @param {Object} mappings - Field mappings
+ * @param {Object} options - { search, filters: { status, category, author, dateAddedFrom, dateAddedTo }, sort: { field, direction }, authorPageIds }
+ *   where authorPageIds are the linked author pages matching filters.author when authors is a relation
+ * @returns {{ filter?: Object, sorts: Object[] }} Query body without paging
+ */
+const buildLibraryQuery = (schema, mappings, { search, filters = {}, sort = {}, authorPageIds = [] } = {}) => {
+  const conditions = [];
+
+  if (search?.trim()) {
+    const text = search.trim();
+    const searchConditions = ['title', 'authors', 'isbn', 'series']
+      .map(field => getMappedProperty(schema, mappings, field))
+      .filter(Boolean)
+      .map(property => buildTextFilter(property, text))
+      .filter(Boolean);
+    if (searchConditions.length > 0) {
+      conditions.push(searchConditions.length > 1 ? { or: searchConditions } : searchConditions[0]);
+    }
+  }
+
+  const statusProperty = getMappedProperty(schema, mappings, 'status');
+  if (filters.status && statusProperty) {
+    const condition = buildMatchFilter(statusProperty, filters.status);
+    if (condition) conditions.push(condition);
+  }
+
+  const categoriesProperty = getMappedProperty(schema, mappings, 'categories');
+  if (filters.category && categoriesProperty) {
+    const condition = buildMatchFilter(categoriesProperty, filters.category);
+    if (condition) conditions.push(condition);
+  }
+
+  const authorsProperty = getMappedProperty(schema, mappings, 'authors');
+  if (filters.author && authorsProperty) {
+    if (authorsProperty.type === 'relation') {
+      // The caller answers with no books when no linked page has that name
+      const relationConditions = authorPageIds.map(id => ({ property: authorsProperty.name, relation: { contains: id } }));
+      if (relationConditions.length > 0) {
+        conditions.push(relationConditions.length > 1 ? { or: relationConditions } : relationConditions[0]);
+      }
+    } else {
+      const condition = buildMatchFilter(authorsProperty, filters.author);
+      if (condition) conditions.push(condition);
+    }
+  }
+
+  // Date added falls back to when the page was created
+  const dateAddedProperty = getMappedProperty(schema, mappings, 'dateAdded');
+  const dateAddedTarget = dateAddedProperty?.type === 'date'
+    ? { property: dateAddedProperty.name, key: 'date' }
+    : { timestamp: 'created_time', key: 'created_time' };
+  const { key: dateKey, ...dateTarget } = dateAddedTarget;
+  if (filters.dateAddedFrom) {
+    conditions.push({ ...dateTarget, [dateKey]: { on_or_after: filters.dateAddedFrom } });
+  }
+  if (filters.dateAddedTo) {
+    conditions.push({ ...dateTarget, [dateKey]: { on_or_before: filters.dateAddedTo } });
+  }
+
+  const direction = sort.direction === 'ascending' ? 'ascending' : 'descending';
+  const sortProperty = SORTABLE_FIELDS.includes(sort.field) ? getMappedProperty(schema, mappings, sort.field) : null;
+  const sorts = sortProperty && !UNSORTABLE_TYPES.includes(sortProperty.type)
+    ? [{ property: sortProperty.name, direction }]
+    : [{ timestamp: 'created_time', direction: sort.field === 'dateAdded' ? direction : 'descending' }];
+
+  return {
+    ...(conditions.length > 0 ? { filter: conditions.length > 1 ? { and: conditions } : conditions[0] } : {}),
+    sorts
+  };
+};
+
+/**
+ * Values to offer in the library filters, from the options of the mapped properties
+ * @param {Object} schema - Data source schema
+ * @param {Object} mappings - Field mappings
+ * @returns {{ statuses: string[], categories: string[], authors: string[] }}
+ */
+const getLibraryFilterOptions = (schema, mappings) => {
+  const optionNames = (bookField) => {
+    const property = getMappedProperty(schema, mappings, bookField);
+    return (property?.config?.options || []).map(option => option.name);
+  };
+
+  return {
+    statuses: optionNames('status'),
+    categories: optionNames('categories'),
+    authors: optionNames('authors')
+  };
+};
+
+module.exports = {
+  collectRelationIds,
+  pageToBook,
+  buildLibraryQuery,
+  getLibraryFilterOptions
+};
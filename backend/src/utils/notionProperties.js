@@ -0,0 +1,115 @@
+// Reading page property values back into plain values, or into updates that write them back
+
+const getPlainText = (richText = []) =>
+  richText.map(part => part.plain_text ?? part.text?.content ?? '').join('');
+
+/**
+ * Plain value of a page property
+ * @param {Object} property - Property value from a page
+ * @param {string} [type] - Property type from the schema, for values that omit it
+ * @returns {string|number|boolean|string[]|null} Text, number, flag or list; relations give page IDs
+ */
+const readPropertyValue = (property, type = property?.type) => {
+  if (!property) return null;
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return getPlainText(property[type]) || null;
+    case 'number':
+      return property.number ?? null;
+    case 'select':
+    case 'status':
+      return property[type]?.name ?? null;
+    case 'multi_select':
+      return (property.multi_select || []).map(option => option.name);
+    case 'date':
+      return property.date?.start ?? null;
+    case 'checkbox':
+      return Boolean(property.checkbox);
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return property[type] || null;
+    case 'files':
+      return (property.files || []).map(file => file.external?.url || file.file?.url).filter(Boolean);
+    case 'relation':
+      return (property.relation || []).map(page => page.id);
+    case 'people':
+      return (property.people || []).map(person => person.name).filter(Boolean);
+    case 'created_time':
+    case 'last_edited_time':
+      return property[type] ?? null;
+    case 'unique_id':
+      return property.unique_id?.number != null
+        ? `${property.unique_id.prefix ? `${property.unique_id.prefix}-` : ''}${property.unique_id.number}`
+        : null;
+    case 'formula': {
+      const formula = property.formula || {};
+      return formula.type === 'date' ? formula.date?.start ?? null : formula[formula.type] ?? null;
+    }
+    case 'rollup': {
+      const rollup = property.rollup || {};
+      if (rollup.type === 'array') {
+        return (rollup.array || []).map(item => readPropertyValue(item)).flat().filter(value => value !== null);
+      }
+      return rollup.type === 'date' ? rollup.date?.start ?? null : rollup[rollup.type] ?? null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Page property value in the form a page update accepts, to write it back later
+ * @param {Object} [property] - Property value from a page; missing means empty
+ * @param {string} [type] - Property type, for values that omit it
+ * @returns {Object|null} Update value, or null for computed properties that cannot be written
+ */
+const toPropertyUpdate = (property, type = property?.type) => {
+  const value = property?.[type];
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return {
+        [type]: (value || []).map(part => ({
+          type: 'text',
+          text: {
+            content: part.plain_text ?? part.text?.content ?? '',
+            link: part.href ? { url: part.href } : null
+          },
+          ...(part.annotations ? { annotations: part.annotations } : {})
+        }))
+      };
+    case 'number':
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return { [type]: value ?? null };
+    case 'checkbox':
+      return { checkbox: Boolean(value) };
+    case 'select':
+    case 'status':
+      return { [type]: value?.name ? { name: value.name } : null };
+    case 'multi_select':
+      return { multi_select: (value || []).map(option => ({ name: option.name })) };
+    case 'date':
+      return { date: value?.start ? { start: value.start, end: value.end ?? null } : null };
+    case 'files':
+      // Files hosted by Notion stay attached when passed back as they were read
+      return { files: value || [] };
+    case 'relation':
+      return { relation: (value || []).map(page => ({ id: page.id })) };
+    case 'people':
+      return { people: (value || []).map(person => ({ id: person.id })) };
+    default:
+      return null;
+  }
+};
+
+module.exports = {
+  getPlainText,
+  readPropertyValue,
+  toPropertyUpdate
+};
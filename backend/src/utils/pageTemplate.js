@@ -0,0 +1,206 @@
+const {
+  toRichText,
+  mergeRichText,
+  textBlock,
+  richTextBlocks,
+  htmlToParagraphs
+} = require('./notionBlocks');
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_.]+)\s*\}\}/g;
+const CONDITIONAL_PATTERN = /\{\{\s*(#if|#unless|else|\/if|\/unless)\s*([a-zA-Z0-9_.]*)\s*\}\}/g;
+// **bold**, *italic*, _italic_, ~~strikethrough~~, `code` and [text](url)
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_|~~(.+?)~~|`(.+?)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// YYYY-MM-DD in the server's time zone
+const formatLocalDate = (date) => {
+  const pad = (number) => String(number).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Build the values placeholders resolve against: every book field, `audiobook` as a short
+ * alias for the audiobook data (only when an audiobook was found) and a few derived values
+ * @param {Object} bookData - Book data sent by the frontend
+ * @param {Object} options - { today: 'YYYY-MM-DD' }
+ * @returns {Object} Template context
+ */
+const buildTemplateContext = (bookData = {}, { today } = {}) => {
+  const audiobook = bookData.audiobookData?.hasAudiobook ? bookData.audiobookData : null;
+  return {
+    ...bookData,
+    audiobook,
+    audiobookData: audiobook,
+    isbn: bookData.isbn13 || bookData.isbn10 || bookData.isbn || null,
+    year: /^\d{4}/.exec(bookData.publishedDate || '')?.[0] || null,
+    today: today || formatLocalDate(new Date())
+  };
+};
+
+const resolvePath = (context, path) =>
+  path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), context);
+
+const isTruthy = (value) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return Boolean(value);
+};
+
+// Arrays are joined with commas; chapters and other objects use their title or name
+const formatValue = (value) => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return value.title || value.name || '';
+  return String(value);
+};
+
+/**
+ * Resolve {{#if field}} ... {{else}} ... {{/if}} and {{#unless field}} ... {{/unless}} sections,
+ * which may be nested
+ * @param {string} template - Template text
+ * @param {Object} context - Template context
+ * @returns {string} Template text with only the sections that apply
+ */
+const applyConditionals = (template, context) => {
+  // Each frame collects the output of one open section; `active` tracks whether its current
+  // branch is written
+  const stack = [{ output: '', active: true }];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(CONDITIONAL_PATTERN)) {
+    const frame = stack[stack.length - 1];
+    if (frame.active) frame.output += template.substring(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+
+    const [, tag, path] = match;
+    if (tag === '#if' || tag === '#unless') {
+      const condition = isTruthy(resolvePath(context, path));
+      const applies = tag === '#if' ? condition : !condition;
+      stack.push({ output: '', active: frame.active && applies, parentActive: frame.active, applies });
+    } else if (tag === 'else' && stack.length > 1) {
+      frame.active = frame.parentActive && !frame.applies;
+    } else if (stack.length > 1) {
+      stack.pop();
+      stack[stack.length - 1].output += frame.output;
+    }
+  }
+
+  const frame = stack[stack.length - 1];
+  if (frame.active) frame.output += template.substring(lastIndex);
+  // Sections left open at the end of the template are closed implicitly
+  while (stack.length > 1) {
+    const open = stack.pop();
+    stack[stack.length - 1].output += open.output;
+  }
+  return stack[0].output;
+};
+
+const substitute = (text, context) =>
+  text.replace(PLACEHOLDER_PATTERN, (_, path) => formatValue(resolvePath(context, path)));
+
+/**
+ * Turn one line of template text into rich text, applying inline formatting and filling
+ * placeholders. Formatting is parsed before placeholders are filled, so book data containing
+ * asterisks or brackets is written as-is.
+ */
+const renderInline = (text, context) => {
+  const items = [];
+  let lastIndex = 0;
+
+  const pushText = (content, style = {}) => {
+    const value = substitute(content, context);
+    if (value) items.push(...toRichText(value, style));
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.substring(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [, bold, italic, underscored, strikethrough, code, label, url] = match;
+    if (bold !== undefined) pushText(bold, { bold: true });
+    else if (italic !== undefined || underscored !== undefined) pushText(italic ?? underscored, { italic: true });
+    else if (strikethrough !== undefined) pushText(strikethrough, { strikethrough: true });
+    else if (code !== undefined) pushText(code, { code: true });
+    else {
+      const link = substitute(url, context);
+      pushText(label, /^https?:\/\//i.test(link) ? { link } : {});
+    }
+  }
+  pushText(text.substring(lastIndex));
+
+  return mergeRichText(items);
+};
+
+// Line prefixes and the block each one starts
+const LINE_BLOCKS = [
+  { pattern: /^###\s+(.*)$/, type: 'heading_3' },
+  { pattern: /^##\s+(.*)$/, type: 'heading_2' },
+  { pattern: /^#\s+(.*)$/, type: 'heading_1' },
+  { pattern: /^(?:[-*]\s+)?\[\s\]\s+(.*)$/, type: 'to_do', extra: { checked: false } },
+  { pattern: /^(?:[-*]\s+)?\[[xX]\]\s+(.*)$/, type: 'to_do', extra: { checked: true } },
+  { pattern: /^[-*]\s+(.*)$/, type: 'bulleted_list_item' },
+  { pattern: /^\d+[.)]\s+(.*)$/, type: 'numbered_list_item' },
+  { pattern: /^>\s?(.*)$/, type: 'quote' }
+];
+
+/**
+ * Render a page template into Notion blocks.
+ *
+ * Each line becomes one block: `#`, `##` and `###` headings, `-` or `*` bullets, `1.` numbered
+ * items, `[ ]` and `[x]` to-dos, `>` quotes, `---` dividers and plain paragraphs. `{{field}}`
+ * placeholders take any book field (dotted paths reach nested values such as
+ * `{{audiobook.narrators}}`), and a placeholder alone on a line expands to full paragraphs, so
+ * `{{description}}` keeps the description's formatting. Lines left empty by missing values are
+ * dropped.
+ * @param {string} template - Template text
+ * @param {Object} bookData - Book data sent by the frontend
+ * @param {Object} options - { today: 'YYYY-MM-DD' }
+ * @returns {Object[]} Notion blocks, in page order
+ */
+const renderPageTemplate = (template, bookData, options = {}) => {
+  if (!template || typeof template !== 'string') return [];
+  const context = buildTemplateContext(bookData, options);
+  const blocks = [];
+
+  for (const rawLine of applyConditionals(template.replace(/\r\n?/g, '\n'), context).split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (/^(-{3,}|\*{3,})$/.test(line)) {
+      blocks.push({ object: 'block', type: 'divider', divider: {} });
+      continue;
+    }
+
+    const standalone = /^\{\{\s*([a-zA-Z0-9_.]+)\s*\}\}$/.exec(line);
+    if (standalone) {
+      const path = standalone[1];
+      const value = path === 'description'
+        ? context.descriptionHtml || context.description
+        : resolvePath(context, path);
+      const paragraphs = htmlToParagraphs(typeof value === 'string' ? value : formatValue(value));
+      blocks.push(...paragraphs.flatMap(paragraph => richTextBlocks(paragraph.type, paragraph.richText)));
+      continue;
+    }
+
+    const rule = LINE_BLOCKS.find(({ pattern }) => pattern.test(line));
+    const content = rule ? rule.pattern.exec(line)[1] : line;
+    const richText = renderInline(content, context);
+    // To-dos are kept without text so they can still be ticked off
+    if (richText.length === 0 && rule?.type !== 'to_do') continue;
+
+    if (rule?.extra) {
+      blocks.push(textBlock(rule.type, richText.slice(0, 100), rule.extra));
+    } else {
+      blocks.push(...richTextBlocks(rule?.type || 'paragraph', richText));
+    }
+  }
+
+  return blocks;
+};
+
+module.exports = {
+  formatLocalDate,
+  buildTemplateContext,
+  renderPageTemplate
+};
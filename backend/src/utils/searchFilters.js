@@ -0,0 +1,161 @@
+// ISO 639-1 codes used by Google Books mapped to the MARC codes Open Library uses
+const LANGUAGE_CODES = {
+  en: 'eng',
+  es: 'spa',
+  fr: 'fre',
+  de: 'ger',
+  it: 'ita',
+  pt: 'por',
+  nl: 'dut',
+  sv: 'swe',
+  da: 'dan',
+  no: 'nor',
+  fi: 'fin',
+  pl: 'pol',
+  ru: 'rus',
+  ja: 'jpn',
+  zh: 'chi',
+  ko: 'kor',
+  ar: 'ara',
+  he: 'heb',
+  hi: 'hin',
+  tr: 'tur',
+  el: 'gre',
+  cs: 'cze',
+  hu: 'hun'
+};
+
+const FORMATS = ['print', 'ebook'];
+
+const parseYear = (value) => {
+  const year = parseInt(value, 10);
+  return Number.isFinite(year) && year > 0 && year < 10000 ? year : null;
+};
+
+const parseCount = (value) => {
+  const count = parseInt(value, 10);
+  return Number.isFinite(count) && count >= 0 ? count : null;
+};
+
+/**
+ * Normalize a language code to ISO 639-1 (accepts 2-letter or MARC 3-letter codes)
+ * @param {string} code - Language code
+ * @returns {string|null} Two-letter code
+ */
+const normalizeLanguage = (code) => {
+  if (!code) return null;
+  const lower = String(code).toLowerCase().trim();
+  if (lower.length === 2) return lower;
+  const match = Object.entries(LANGUAGE_CODES).find(([, marc]) => marc === lower);
+  return match ? match[0] : lower;
+};
+
+/**
+ * Open Library MARC code for a two-letter language code
+ * @param {string} code - ISO 639-1 code
+ * @returns {string|null} MARC language code
+ */
+const toOpenLibraryLanguage = (code) => {
+  const normalized = normalizeLanguage(code);
+  return normalized ? LANGUAGE_CODES[normalized] || normalized : null;
+};
+
+/**
+ * Parse structured search filters from request query parameters
+ * @param {Object} query - Query parameters (yearFrom, yearTo, language, minPages, maxPages, format, hasAudiobook)
+ * @returns {Object|null} Normalized filters, or null when no filter is set
+ */
+const parseSearchFilters = (query = {}) => {
+  const filters = {};
+
+  const yearFrom = parseYear(query.yearFrom);
+  const yearTo = parseYear(query.yearTo);
+  if (yearFrom !== null) filters.yearFrom = yearFrom;
+  if (yearTo !== null) filters.yearTo = yearTo;
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+    filters.yearFrom = yearTo;
+    filters.yearTo = yearFrom;
+  }
+
+  const language = normalizeLanguage(query.language);
+  if (language) filters.language = language;
+
+  const minPages = parseCount(query.minPages);
+  const maxPages = parseCount(query.maxPages);
+  if (minPages !== null && minPages > 0) filters.minPages = minPages;
+  if (maxPages !== null && maxPages > 0) filters.maxPages = maxPages;
+
+  if (FORMATS.includes(query.format)) filters.format = query.format;
+
+  if (query.hasAudiobook === true || query.hasAudiobook === 'true') filters.hasAudiobook = true;
+
+  return Object.keys(filters).length > 0 ? filters : null;
+};
+
+/**
+ * Year a book was first published, falling back to the edition's date
+ * @param {Object} book - Book data
+ * @returns {number|null} Year
+ */
+const getPublicationYear = (book) => {
+  const date = book.originalPublishedDate || book.firstPublishedDate || book.publishedDate;
+  const match = date ? String(date).match(/\d{4}/) : null;
+  return match ? parseInt(match[0], 10) : null;
+};
+
+/**
+ * Check a merged book against the filters. Books with unknown year or page count are
+ * excluded when those filters are set; unknown language or format is given the benefit of the doubt.
+ * @param {Object} book - Book data
+ * @param {Object} filters - Normalized filters
+ * @returns {boolean} Whether the book matches
+ */
+const matchesSearchFilters = (book, filters) => {
+  if (!filters) return true;
+
+  if (filters.yearFrom || filters.yearTo) {
+    const year = getPublicationYear(book);
+    if (year === null) return false;
+    if (filters.yearFrom && year < filters.yearFrom) return false;
+    if (filters.yearTo && year > filters.yearTo) return false;
+  }
+
+  if (filters.language && book.language && normalizeLanguage(book.language) !== filters.language) {
+    return false;
+  }
+
+  if (filters.minPages || filters.maxPages) {
+    if (!book.pageCount) return false;
+    if (filters.minPages && book.pageCount < filters.minPages) return false;
+    if (filters.maxPages && book.pageCount > filters.maxPages) return false;
+  }
+
+  if (filters.format && Array.isArray(book.formats) && book.formats.length > 0 && !book.formats.includes(filters.format)) {
+    return false;
+  }
+
+  if (filters.hasAudiobook && !book.audiobookData?.hasAudiobook) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Filter merged search results
+ * @param {Array} books - Books to filter
+ * @param {Object|null} filters - Normalized filters
+ * @returns {Array} Matching books
+ */
+const applySearchFilters = (books, filters) => {
+  if (!filters) return books;
+  return books.filter(book => matchesSearchFilters(book, filters));
+};
+
+module.exports = {
+  parseSearchFilters,
+  applySearchFilters,
+  matchesSearchFilters,
+  normalizeLanguage,
+  toOpenLibraryLanguage
+};
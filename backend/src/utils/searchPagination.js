@@ -0,0 +1,116 @@
+// Search pages are requested with an opaque cursor holding the next offset of each provider.
+// A provider that has no further results is kept in the cursor with a null offset, so later
+// pages skip it instead of starting it over.
+
+const parseOffset = (value) => {
+  const offset = parseInt(value, 10);
+  return Number.isFinite(offset) && offset >= 0 ? offset : null;
+};
+
+/**
+ * @param {Object<string, number|null>} offsets - Next offset per provider ID, null once a provider is exhausted
+ * @returns {string|null} Cursor for the next page, or null when no provider has more results
+ */
+const encodeSearchCursor = (offsets) => {
+  if (!Object.values(offsets).some(offset => offset !== null)) return null;
+  return Buffer.from(JSON.stringify(offsets)).toString('base64url');
+};
+
+/**
+ * @param {string|undefined} cursor - Cursor from the previous page
+ * @returns {Object<string, number|null>} Offsets per provider ID; empty for the first page or an unreadable cursor
+ */
+const decodeSearchCursor = (cursor) => {
+  if (!cursor || typeof cursor !== 'string') return {};
+
+  let parsed;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+
+  const offsets = {};
+  for (const [providerId, value] of Object.entries(parsed)) {
+    if (value === null) {
+      offsets[providerId] = null;
+    } else if (parseOffset(value) !== null) {
+      offsets[providerId] = parseOffset(value);
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Choose the books for one page of merged results and how far each provider gets to advance.
+ *
+ * A provider can only move past results it has handed out, so taking a book also takes every
+ * earlier result of each provider that contributed to it. Results that did not survive merging
+ * or filtering need no page slot and are passed over freely. The first book is always taken
+ * with everything it needs, so each page makes progress even when that exceeds maxResults.
+ *
+ * @param {Array} rankedBooks - Merged, filtered books in rank order
+ * @param {Map<Object, Array<{providerId: string, index: number}>>} provenance - Provider results each merged book was built from
+ * @param {Array<{providerId: string, books: Array}>} providerResults - Results as returned by each provider
+ * @param {number} maxResults - Page size
+ * @returns {{books: Array, consumed: Object<string, number>}} Page books in rank order and the results consumed per provider
+ */
+const selectSearchPage = (rankedBooks, provenance, providerResults, maxResults) => {
+  // The ranked book each provider result ended up in, or null when it was dropped
+  const owners = new Map(providerResults.map(({ providerId, books }) => [providerId, books.map(() => null)]));
+  for (const book of rankedBooks) {
+    for (const { providerId, index } of provenance.get(book) || []) {
+      if (owners.has(providerId)) {
+        owners.get(providerId)[index] = book;
+      }
+    }
+  }
+
+  const selected = new Set();
+  const closureOf = (book) => {
+    const closure = new Set([book]);
+    const pending = [book];
+    while (pending.length > 0) {
+      for (const { providerId, index } of provenance.get(pending.pop()) || []) {
+        const providerOwners = owners.get(providerId) || [];
+        for (let earlier = 0; earlier < index; earlier++) {
+          const owner = providerOwners[earlier];
+          if (owner && !selected.has(owner) && !closure.has(owner)) {
+            closure.add(owner);
+            pending.push(owner);
+          }
+        }
+      }
+    }
+    return closure;
+  };
+
+  for (const book of rankedBooks) {
+    if (selected.has(book)) continue;
+    const closure = closureOf(book);
+    if (selected.size > 0 && selected.size + closure.size > maxResults) break;
+    closure.forEach(member => selected.add(member));
+    if (selected.size >= maxResults) break;
+  }
+
+  const consumed = {};
+  for (const [providerId, providerOwners] of owners) {
+    let count = 0;
+    while (count < providerOwners.length && (providerOwners[count] === null || selected.has(providerOwners[count]))) {
+      count++;
+    }
+    consumed[providerId] = count;
+  }
+
+  return {
+    books: rankedBooks.filter(book => selected.has(book)),
+    consumed
+  };
+};
+
+module.exports = {
+  encodeSearchCursor,
+  decodeSearchCursor,
+  selectSearchPage
+};
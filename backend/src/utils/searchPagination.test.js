@@ -0,0 +1,100 @@
+const { encodeSearchCursor, decodeSearchCursor, selectSearchPage } = require('./searchPagination');
+
+describe('search cursors', () => {
+  it('round-trips offsets, keeping exhausted providers', () => {
+    const cursor = encodeSearchCursor({ google_books: 7, open_library: null });
+    expect(decodeSearchCursor(cursor)).toEqual({ google_books: 7, open_library: null });
+  });
+
+  it('is null when no provider has more results', () => {
+    expect(encodeSearchCursor({ google_books: null, open_library: null })).toBeNull();
+    expect(encodeSearchCursor({})).toBeNull();
+  });
+
+  it('reads a missing or unreadable cursor as the first page', () => {
+    expect(decodeSearchCursor(undefined)).toEqual({});
+    expect(decodeSearchCursor('not a cursor')).toEqual({});
+    expect(decodeSearchCursor(Buffer.from('[1,2]').toString('base64url'))).toEqual({});
+  });
+
+  it('drops offsets that are not whole non-negative numbers', () => {
+    const cursor = Buffer.from(JSON.stringify({ a: -3, b: 'x', c: '4' })).toString('base64url');
+    expect(decodeSearchCursor(cursor)).toEqual({ c: 4 });
+  });
+});
+
+describe('selectSearchPage', () => {
+  // Books of one provider in provider order, each built from that provider's result at the same index
+  const providerBooks = (providerId, titles, provenance) => titles.map((title, index) => {
+    const book = { title };
+    provenance.set(book, [{ providerId, index }]);
+    return book;
+  });
+
+  it('advances each provider by the results on the page', () => {
+    const provenance = new Map();
+    const a = providerBooks('a', ['a0', 'a1', 'a2'], provenance);
+    const b = providerBooks('b', ['b0', 'b1', 'b2'], provenance);
+    const ranked = [a[0], b[0], a[1], b[1], a[2], b[2]];
+
+    const page = selectSearchPage(ranked, provenance, [{ providerId: 'a', books: a }, { providerId: 'b', books: b }], 3);
+
+    expect(page.books).toEqual([a[0], b[0], a[1]]);
+    expect(page.consumed).toEqual({ a: 2, b: 1 });
+  });
+
+  it('takes earlier results of a provider along with a later one', () => {
+    const provenance = new Map();
+    const a = providerBooks('a', ['a0', 'a1', 'a2'], provenance);
+    const ranked = [a[2], a[0], a[1]];
+
+    const page = selectSearchPage(ranked, provenance, [{ providerId: 'a', books: a }], 2);
+
+    // a2 cannot be handed out without a0 and a1, so the page runs over rather than skip them
+    expect(page.books).toEqual([a[2], a[0], a[1]]);
+    expect(page.consumed).toEqual({ a: 3 });
+  });
+
+  it('stops before a book whose earlier results do not fit', () => {
+    const provenance = new Map();
+    const a = providerBooks('a', ['a0', 'a1'], provenance);
+    const b = providerBooks('b', ['b0', 'b1', 'b2'], provenance);
+    const ranked = [a[0], b[2], b[0], a[1], b[1]];
+
+    const page = selectSearchPage(ranked, provenance, [{ providerId: 'a', books: a }, { providerId: 'b', books: b }], 2);
+
+    expect(page.books).toEqual([a[0]]);
+    expect(page.consumed).toEqual({ a: 1, b: 0 });
+  });
+
+  it('follows merged books into every provider they came from', () => {
+    const provenance = new Map();
+    const a = providerBooks('a', ['a0'], provenance);
+    const b = providerBooks('b', ['b0', 'b1'], provenance);
+    const merged = { title: 'a0 + b1' };
+    provenance.set(merged, [{ providerId: 'a', index: 0 }, { providerId: 'b', index: 1 }]);
+    const ranked = [merged, b[0]];
+
+    const page = selectSearchPage(ranked, provenance, [{ providerId: 'a', books: a }, { providerId: 'b', books: b }], 1);
+
+    expect(page.books).toEqual([merged, b[0]]);
+    expect(page.consumed).toEqual({ a: 1, b: 2 });
+  });
+
+  it('passes over results that were filtered out', () => {
+    const provenance = new Map();
+    const a = providerBooks('a', ['a0', 'a1', 'a2', 'a3'], provenance);
+    const ranked = [a[2], a[3]];
+
+    const page = selectSearchPage(ranked, provenance, [{ providerId: 'a', books: a }], 1);
+
+    expect(page.books).toEqual([a[2]]);
+    expect(page.consumed).toEqual({ a: 3 });
+  });
+
+  it('consumes everything a provider returned when nothing survived', () => {
+    const page = selectSearchPage([], new Map(), [{ providerId: 'a', books: [{ title: 'x' }, {}] }], 10);
+
+    expect(page).toEqual({ books: [], consumed: { a: 2 } });
+  });
+});
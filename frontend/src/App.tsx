@@ -4,12 +4,15 @@ import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
 import { SearchProvider } from './contexts/SearchContext';
 import { NotionSettingsProvider } from './contexts/NotionSettingsContext';
+import { NotionActivityProvider } from './contexts/NotionActivityContext';
 
 // Pages
 import Landing from './pages/Landing';
 import BookReview from './pages/BookReview';
 import Settings from './pages/Settings';
 import Notion from './pages/Notion';
+import Import from './pages/Import';
+import Dashboard from './pages/Dashboard';
 
 // Components
 import Navbar from './components/Navbar';
@@ -19,51 +22,57 @@ function App() {
   return (
     <AuthProvider>
       <NotionSettingsProvider>
-        <SearchProvider>
-          <Router>
-            <div className="min-h-screen bg-gray-50">
-              <Navbar />
-              <main className="container mx-auto px-4 py-4">
-                <Routes>
-                  <Route path="/" element={<Landing />} />
+        <NotionActivityProvider>
+          <SearchProvider>
+            <Router>
+              <div className="min-h-screen bg-gray-50">
+                <Navbar />
+                <main className="container mx-auto px-4 py-4">
+                  <Routes>
+                    <Route path="/" element={<Landing />} />
                   
-                  {/* Protected Routes */}
-                  <Route path="/notion" element={<Notion />} />
-                  <Route path="/book-review/:sessionId" element={
-                    <ProtectedRoute>
-                      <BookReview />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/settings" element={<Settings />} />
-                </Routes>
-              </main>
+                    {/* Protected Routes */}
+                    <Route path="/notion" element={<Notion />} />
+                    <Route path="/book-review/:sessionId" element={
+                      <ProtectedRoute>
+                        <BookReview />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/library" element={<Dashboard />} />
+                    <Route path="/library/stats" element={<Dashboard />} />
+                    <Route path="/library/refresh" element={<Dashboard />} />
+                    <Route path="/import" element={<Import />} />
+                    <Route path="/settings" element={<Settings />} />
+                  </Routes>
+                </main>
               
-              {/* Toast notifications */}
-              <Toaster
-                position="top-right"
-                toastOptions={{
-                  duration: 4000,
-                  style: {
-                    background: '#363636',
-                    color: '#fff',
-                  },
-                  success: {
-                    duration: 3000,
+                {/* Toast notifications */}
+                <Toaster
+                  position="top-right"
+                  toastOptions={{
+                    duration: 4000,
                     style: {
-                      background: '#10B981',
+                      background: '#363636',
+                      color: '#fff',
                     },
-                  },
-                  error: {
-                    duration: 5000,
-                    style: {
-                      background: '#EF4444',
+                    success: {
+                      duration: 3000,
+                      style: {
+                        background: '#10B981',
+                      },
+                    },
+                    error: {
+                      duration: 5000,
+                      style: {
+                        background: '#EF4444',
+                      },
                     },
-                  },
-                }}
-              />
-            </div>
-          </Router>
-        </SearchProvider>
+                  }}
+                />
+              </div>
+            </Router>
+          </SearchProvider>
+        </NotionActivityProvider>
       </NotionSettingsProvider>
     </AuthProvider>
   );
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowCounterClockwiseIcon, ListChecksIcon } from '@phosphor-icons/react';
+import { NotionActivity } from '../types/notion';
+import { useNotionActivity } from '../contexts/NotionActivityContext';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Pages added and updated in Notion during this session, each of which can be undone. Hidden
+ * until something has been written.
+ */
+const ActivityMenu: React.FC = () => {
+  const { activities, undoingId, canUndo, undoActivity, clearActivities } = useNotionActivity();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  if (activities.length === 0) return null;
+
+  const renderEntry = (activity: NotionActivity) => {
+    const undoable = canUndo(activity.id);
+    // A trashed page has nothing left to open
+    const isTrashed = activity.action === 'created' && activity.undone;
+
+    return (
+      <li key={activity.id} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50">
+        <div className="flex-1 min-w-0">
+          {isTrashed ? (
+            <span className="block text-sm font-medium text-gray-400 line-through truncate">{activity.bookTitle}</span>
+          ) : (
+            <a
+              href={activity.pageUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-sm font-medium text-gray-900 hover:text-blue-600 truncate"
+            >
+              {activity.bookTitle}
+            </a>
+          )}
+          <div className="text-xs text-gray-500">
+            {activity.action === 'created' ? 'Added' : 'Updated'} · {formatTime(activity.timestamp)}
+            {activity.undone && <span> · Undone</span>}
+          </div>
+        </div>
+        {!activity.undone && (
+          <button
+            type="button"
+            onClick={() => undoActivity(activity.id)}
+            disabled={!undoable || undoingId !== null}
+            title={undoable ? undefined : 'Undo the later change to this page first'}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent flex-shrink-0"
+          >
+            <ArrowCounterClockwiseIcon
+              size={12}
+              weight={ICON_WEIGHTS.BOLD}
+              className={undoingId === activity.id ? 'animate-spin' : ''}
+            />
+            Undo
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="group flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-600 rounded-md hover:text-gray-900 hover:bg-gray-100"
+        aria-expanded={isOpen}
+      >
+        <ListChecksIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+        Activity
+        <span className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">{activities.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-80 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg max-h-96 overflow-y-auto">
+          <div className="flex items-center justify-between px-3 pt-2 pb-1">
+            <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">This Session</span>
+            <button
+              type="button"
+              onClick={clearActivities}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Clear
+            </button>
+          </div>
+          <ul>{activities.map(renderEntry)}</ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityMenu;
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { SpinnerGapIcon, WarningIcon, CheckIcon } from '@phosphor-icons/react';
+import { AuthorsDatabaseSettings } from '../types/notion';
+import { NotionService } from '../services/notionService';
+import Tooltip from './ui/Tooltip';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface DatabaseProperty {
+  name: string;
+  type: string;
+  config?: any;
+}
+
+interface AuthorsDatabasePanelProps {
+  databases: Array<{ id: string; title: string }>;
+  booksDatabaseId: string;
+  // The books database property currently mapped to authors, with its schema
+  authorsProperty?: DatabaseProperty | null;
+  value: AuthorsDatabaseSettings | null;
+  onChange: (value: AuthorsDatabaseSettings | null) => void;
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const AuthorsDatabasePanel: React.FC<AuthorsDatabasePanelProps> = ({
+  databases,
+  booksDatabaseId,
+  authorsProperty,
+  value,
+  onChange
+}) => {
+  const [properties, setProperties] = useState<DatabaseProperty[]>([]);
+  const [dataSourceId, setDataSourceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const databaseId = value?.databaseId || '';
+
+  useEffect(() => {
+    if (!databaseId) {
+      setProperties([]);
+      setDataSourceId(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    NotionService.getDatabaseProperties(databaseId)
+      .then(result => {
+        if (cancelled) return;
+        setProperties(result?.properties || []);
+        setDataSourceId(result?.data_source_id || null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setProperties([]);
+        setError(err instanceof Error ? err.message : 'Failed to load database properties');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [databaseId]);
+
+  const update = (changes: Partial<AuthorsDatabaseSettings>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const photoProperties = properties.filter(property => property.type === 'files' || property.type === 'url');
+  const bioProperties = properties.filter(property => property.type === 'rich_text');
+
+  // Authors are only linked when the books database maps them to a relation into this database
+  const getLinkStatus = (): { ok: boolean; message: string } | null => {
+    if (!databaseId) return null;
+    if (!authorsProperty) {
+      return { ok: false, message: 'Map Authors to a relation property in Field Mappings to link author pages.' };
+    }
+    if (authorsProperty.type !== 'relation') {
+      return { ok: false, message: `"${authorsProperty.name}" is a ${authorsProperty.type.replace('_', ' ')} property. Map Authors to a relation property to link author pages.` };
+    }
+    const target = authorsProperty.config?.data_source_id || authorsProperty.config?.database_id;
+    if (target && target !== databaseId && target !== dataSourceId) {
+      return { ok: false, message: `"${authorsProperty.name}" points at a different database; authors will be linked there instead.` };
+    }
+    return { ok: true, message: `Authors are linked through "${authorsProperty.name}".` };
+  };
+
+  const linkStatus = getLinkStatus();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Authors Database</h2>
+        <Tooltip content="Keep one page per author in a second database. When a book is added, each author is looked up by name there and created with a photo and bio (from Audible or Open Library) if missing, then linked to the book.">
+          <div className="text-blue-600 cursor-help">
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM8.94 6.94a.75.75 0 11-1.061-1.061 3 3 0 112.871 5.026v.345a.75.75 0 01-1.5 0v-.5c0-.72.57-1.172 1.081-1.287A1.5 1.5 0 108.94 6.94zM10 15a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+            </svg>
+          </div>
+        </Tooltip>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="authors-database-select" className="block text-sm font-medium text-gray-700 mb-2">
+            Authors database
+          </label>
+          <select
+            id="authors-database-select"
+            value={databaseId}
+            onChange={(e) => onChange(e.target.value ? { databaseId: e.target.value } : null)}
+            className={selectClassName}
+          >
+            <option value="">None (authors stay plain text)</option>
+            {databases
+              .filter(db => db.id !== booksDatabaseId)
+              .slice()
+              .sort((a, b) => a.title.localeCompare(b.title))
+              .map(db => (
+                <option key={db.id} value={db.id}>{db.title}</option>
+              ))}
+          </select>
+        </div>
+
+        {databaseId && (
+          loading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+              Loading properties...
+            </div>
+          ) : error ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="authors-photo-property" className="block text-xs font-medium text-gray-600 mb-1">Photo property</label>
+                <select
+                  id="authors-photo-property"
+                  value={value?.photoProperty || ''}
+                  onChange={(e) => update({ photoProperty: e.target.value || undefined })}
+                  className={selectClassName}
+                >
+                  <option value="">Detect automatically</option>
+                  {photoProperties.map(property => (
+                    <option key={property.name} value={property.name}>{property.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="authors-bio-property" className="block text-xs font-medium text-gray-600 mb-1">Bio property</label>
+                <select
+                  id="authors-bio-property"
+                  value={value?.bioProperty || ''}
+                  onChange={(e) => update({ bioProperty: e.target.value || undefined })}
+                  className={selectClassName}
+                >
+                  <option value="">Detect automatically</option>
+                  {bioProperties.map(property => (
+                    <option key={property.name} value={property.name}>{property.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )
+        )}
+
+        {linkStatus && (
+          <div className={`flex items-start gap-2 p-3 rounded-lg text-sm border ${
+            linkStatus.ok ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}>
+            {linkStatus.ok ? (
+              <CheckIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="flex-shrink-0 mt-0.5" />
+            ) : (
+              <WarningIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="flex-shrink-0 mt-0.5" />
+            )}
+            {linkStatus.message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthorsDatabasePanel;
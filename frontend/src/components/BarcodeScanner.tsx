@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  CameraIcon,
+  StopIcon,
+  UploadSimpleIcon,
+  MagnifyingGlassIcon,
+  TrashIcon,
+  BarcodeIcon,
+} from '@phosphor-icons/react';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+import { decodeFromFile, decodeFromImageSource } from '../utils/barcodeDecoder';
+
+export interface ScannedIsbn {
+  isbn: string;
+  scannedAt: number;
+}
+
+interface BarcodeScannerProps {
+  // Single scans search straight away; continuous scans only collect ISBNs until one is picked
+  onIsbnScanned: (isbn: string) => void;
+  onSearchIsbn: (isbn: string) => void;
+  isLoading?: boolean;
+}
+
+// Interval between webcam frame decodes
+const SCAN_INTERVAL_MS = 250;
+
+// Consecutive identical reads required before a webcam result is accepted
+const REQUIRED_MATCHING_READS = 2;
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onIsbnScanned, onSearchIsbn, isLoading = false }) => {
+  const [isCameraActive, setIsCameraActive] = useState(false);
+  const [continuousMode, setContinuousMode] = useState(false);
+  const [scannedIsbns, setScannedIsbns] = useState<ScannedIsbn[]>([]);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isDecodingFile, setIsDecodingFile] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const scanTimerRef = useRef<NodeJS.Timeout>();
+  const lastReadRef = useRef<{ code: string; count: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Mirrors scannedIsbns so duplicate checks see reads from the same batch
+  const scannedIsbnsRef = useRef<ScannedIsbn[]>([]);
+
+  const stopCamera = useCallback(() => {
+    if (scanTimerRef.current) {
+      clearInterval(scanTimerRef.current);
+      scanTimerRef.current = undefined;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    lastReadRef.current = null;
+    setIsCameraActive(false);
+  }, []);
+
+  // Release the camera when the scanner unmounts
+  useEffect(() => {
+    return () => stopCamera();
+  }, [stopCamera]);
+
+  const updateScannedIsbns = useCallback((entries: ScannedIsbn[]) => {
+    scannedIsbnsRef.current = entries;
+    setScannedIsbns(entries);
+  }, []);
+
+  // Returns whether the code was an ISBN
+  const handleDetectedCode = useCallback((code: string, isbn: string | null, fromCamera: boolean) => {
+    if (!isbn) {
+      setStatusMessage(`Barcode ${code} is not an ISBN (expected a 978/979 prefix)`);
+      return false;
+    }
+
+    setErrorMessage(null);
+
+    // Continuous scan: queue the ISBN; searches run when one is picked from the list
+    if (continuousMode) {
+      if (scannedIsbnsRef.current.some(entry => entry.isbn === isbn)) {
+        setStatusMessage(`Already scanned ${isbn}`);
+        return true;
+      }
+      updateScannedIsbns([{ isbn, scannedAt: Date.now() }, ...scannedIsbnsRef.current]);
+      setStatusMessage(`Scanned ${isbn}`);
+      return true;
+    }
+
+    // Single scan: stop the camera and search straight away
+    if (fromCamera) {
+      stopCamera();
+    }
+    setStatusMessage(`Scanned ${isbn}`);
+    onIsbnScanned(isbn);
+    return true;
+  }, [continuousMode, onIsbnScanned, stopCamera, updateScannedIsbns]);
+
+  const scanFrame = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return;
+
+    const result = decodeFromImageSource(video, video.videoWidth, video.videoHeight, 960);
+    if (!result) {
+      lastReadRef.current = null;
+      return;
+    }
+
+    // Only accept a code once it has been read on consecutive frames
+    const lastRead = lastReadRef.current;
+    const count = lastRead && lastRead.code === result.code ? lastRead.count + 1 : 1;
+    lastReadRef.current = { code: result.code, count };
+
+    if (count === REQUIRED_MATCHING_READS) {
+      handleDetectedCode(result.code, result.isbn, true);
+    }
+  }, [handleDetectedCode]);
+
+  // Restart the frame loop whenever the detection handler changes (e.g. mode toggled)
+  useEffect(() => {
+    if (!isCameraActive) return;
+
+    if (scanTimerRef.current) {
+      clearInterval(scanTimerRef.current);
+    }
+    scanTimerRef.current = setInterval(scanFrame, SCAN_INTERVAL_MS);
+
+    return () => {
+      if (scanTimerRef.current) {
+        clearInterval(scanTimerRef.current);
+        scanTimerRef.current = undefined;
+      }
+    };
+  }, [isCameraActive, scanFrame]);
+
+  const startCamera = async () => {
+    setErrorMessage(null);
+    setStatusMessage(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setErrorMessage('Camera access is not supported in this browser. Upload a photo instead.');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false,
+      });
+      streamRef.current = stream;
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+
+      setIsCameraActive(true);
+      setStatusMessage('Point the camera at the barcode on the back cover');
+    } catch (error) {
+      console.error('Failed to start camera:', error);
+      stopCamera();
+      setErrorMessage('Could not access the camera. Check permissions or upload a photo instead.');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setErrorMessage(null);
+    setIsDecodingFile(true);
+
+    try {
+      // One photo at a time; a single scan stops at the first ISBN since it starts a search
+      let found = 0;
+      for (const file of files) {
+        const result = await decodeFromFile(file);
+        if (!result) continue;
+        found++;
+        if (handleDetectedCode(result.code, result.isbn, false) && !continuousMode) break;
+      }
+
+      if (found === 0) {
+        setErrorMessage(
+          files.length === 1
+            ? 'No barcode found in the photo. Try a sharper, well-lit image.'
+            : 'No barcodes found in the selected photos.'
+        );
+      }
+    } catch (error) {
+      console.error('Failed to decode barcode image:', error);
+      setErrorMessage('Could not read the selected image.');
+    } finally {
+      setIsDecodingFile(false);
+    }
+  };
+
+  const removeScannedIsbn = (isbn: string) => {
+    updateScannedIsbns(scannedIsbns.filter(entry => entry.isbn !== isbn));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {isCameraActive ? (
+          <button
+            type="button"
+            onClick={stopCamera}
+            className="group flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md bg-red-100 text-red-700 hover:bg-red-200"
+          >
+            <StopIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+            Stop Camera
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={startCamera}
+            disabled={isLoading}
+            className="group flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <CameraIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+            Use Camera
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading || isDecodingFile}
+          className="group flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <UploadSimpleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+          {isDecodingFile ? 'Reading photo...' : 'Upload Photo'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple={continuousMode}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+
+        <label className="flex items-center gap-2 ml-auto text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={continuousMode}
+            onChange={(e) => setContinuousMode(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Continuous scanning
+        </label>
+      </div>
+
+      <div className={`relative overflow-hidden rounded-lg bg-black ${isCameraActive ? 'block' : 'hidden'}`}>
+        <video ref={videoRef} className="w-full max-h-72 object-cover" muted playsInline />
+        <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500 opacity-75" />
+      </div>
+
+      {statusMessage && !errorMessage && (
+        <p className="text-sm text-gray-600">{statusMessage}</p>
+      )}
+      {errorMessage && (
+        <p className="text-sm text-red-600">{errorMessage}</p>
+      )}
+
+      {continuousMode && (
+        <div className="border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200 rounded-t-lg">
+            <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <BarcodeIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} />
+              Scanned ISBNs ({scannedIsbns.length})
+            </span>
+            {scannedIsbns.length > 0 && (
+              <button
+                type="button"
+                onClick={() => updateScannedIsbns([])}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+          {scannedIsbns.length === 0 ? (
+            <p className="px-3 py-4 text-sm text-gray-500 text-center">
+              Scanned books will collect here. Keep scanning to queue up a whole box.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-60 overflow-auto">
+              {scannedIsbns.map(entry => (
+                <li key={entry.isbn} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="font-mono text-gray-900">{entry.isbn}</span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onSearchIsbn(entry.isbn)}
+                      disabled={isLoading}
+                      className="p-1 rounded text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                      title="Search this ISBN"
+                      aria-label={`Search ISBN ${entry.isbn}`}
+                    >
+                      <MagnifyingGlassIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeScannedIsbn(entry.isbn)}
+                      className="p-1 rounded text-gray-500 hover:text-red-600 hover:bg-red-50"
+                      title="Remove from list"
+                      aria-label={`Remove ISBN ${entry.isbn}`}
+                    >
+                      <TrashIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BarcodeScanner;
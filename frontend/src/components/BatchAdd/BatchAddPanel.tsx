@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowClockwiseIcon,
+  ArrowSquareOutIcon,
+  CheckCircleIcon,
+  MinusCircleIcon,
+  PlusIcon,
+  SpinnerGapIcon,
+  StackIcon,
+  StopIcon,
+  UploadSimpleIcon,
+  XCircleIcon,
+  XIcon
+} from '@phosphor-icons/react';
+import { BookSearchResult } from '../../types/book';
+import { BatchDuplicateMode, BatchItemStatus } from '../../types/batch';
+import { NotionIntegrationSettings } from '../../types/notion';
+import { NotionService } from '../../services/notionService';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { useBatchQueue } from './hooks/useBatchQueue';
+
+interface BatchAddPanelProps {
+  selectedBooks: BookSearchResult[];
+  onClearSelection: () => void;
+  notionSettings: NotionIntegrationSettings | null;
+  isNotionConnected: boolean;
+}
+
+const DUPLICATE_MODES: Array<{ value: BatchDuplicateMode; label: string; description: string }> = [
+  { value: 'skip', label: 'Skip duplicates', description: 'Leave books that are already in Notion untouched' },
+  { value: 'replace', label: 'Replace', description: 'Update the existing page with the new data' },
+  { value: 'keep-both', label: 'Keep both', description: 'Always create a new page' }
+];
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  checking: 'Checking duplicates',
+  adding: 'Adding',
+  added: 'Added',
+  updated: 'Replaced',
+  skipped: 'Already in Notion',
+  failed: 'Failed'
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'text-gray-500',
+  checking: 'text-blue-600',
+  adding: 'text-blue-600',
+  added: 'text-green-600',
+  updated: 'text-green-600',
+  skipped: 'text-yellow-600',
+  failed: 'text-red-600'
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'checking':
+    case 'adding':
+      return <SpinnerGapIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />;
+    case 'added':
+    case 'updated':
+      return <CheckCircleIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} />;
+    case 'skipped':
+      return <MinusCircleIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} />;
+    case 'failed':
+      return <XCircleIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} />;
+    default:
+      return <StackIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.REGULAR} />;
+  }
+};
+
+const BatchAddPanel: React.FC<BatchAddPanelProps> = ({
+  selectedBooks,
+  onClearSelection,
+  notionSettings,
+  isNotionConnected
+}) => {
+  const { items, isRunning, enqueue, remove, clearFinished, run, retryFailed, cancel } = useBatchQueue();
+  const [duplicateMode, setDuplicateMode] = useState<BatchDuplicateMode>('skip');
+
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const finishedCount = items.filter(item => ['added', 'updated', 'skipped'].includes(item.status)).length;
+  const doneCount = finishedCount + failedCount;
+  const canRun = isNotionConnected && !!notionSettings?.databaseId;
+
+  if (selectedBooks.length === 0 && items.length === 0) {
+    return null;
+  }
+
+  const handleAddSelection = () => {
+    enqueue(selectedBooks);
+    onClearSelection();
+  };
+
+  const handleRun = async () => {
+    if (!canRun || !notionSettings) {
+      toast.error('Please connect to Notion and configure your settings first');
+      return;
+    }
+
+    try {
+      const authStatus = await NotionService.checkAuth();
+      if (!authStatus.authenticated) {
+        toast.error('Your session has expired. Please refresh the page and try again.');
+        return;
+      }
+    } catch (authError) {
+      console.error('Authentication check failed:', authError);
+      toast.error('Authentication check failed. Please refresh the page and try again.');
+      return;
+    }
+
+    const { added, updated, skipped, failed } = await run(notionSettings, duplicateMode);
+
+    const parts = [
+      added > 0 && `${added} added`,
+      updated > 0 && `${updated} replaced`,
+      skipped > 0 && `${skipped} skipped as duplicates`
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      toast.success(`Batch complete: ${parts.join(', ')}`);
+    }
+    if (failed > 0) {
+      toast.error(`${failed} book${failed === 1 ? '' : 's'} failed to add`);
+    }
+  };
+
+  const handleRetry = async () => {
+    retryFailed();
+    await handleRun();
+  };
+
+  return (
+    <div className="sticky bottom-4 z-20 bg-white rounded-lg shadow-lg border border-gray-200 p-4 space-y-3">
+      {/* Selection bar */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <StackIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="text-blue-600" />
+          {selectedBooks.length} selected
+          {items.length > 0 && <span className="text-gray-500 font-normal">· {items.length} in queue</span>}
+        </span>
+        {selectedBooks.length > 0 && (
+          <>
+            <button
+              type="button"
+              onClick={handleAddSelection}
+              className="group flex items-center gap-1 px-3 py-1.5 bg-blue-100 text-blue-700 text-sm font-medium rounded-lg hover:bg-blue-200"
+            >
+              <PlusIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+              Add to Queue
+            </button>
+            <button
+              type="button"
+              onClick={onClearSelection}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Clear selection
+            </button>
+          </>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto">
+          <select
+            value={duplicateMode}
+            onChange={(e) => setDuplicateMode(e.target.value as BatchDuplicateMode)}
+            disabled={isRunning}
+            title={DUPLICATE_MODES.find(mode => mode.value === duplicateMode)?.description}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {DUPLICATE_MODES.map(mode => (
+              <option key={mode.value} value={mode.value} title={mode.description}>{mode.label}</option>
+            ))}
+          </select>
+          {isRunning ? (
+            <button
+              type="button"
+              onClick={cancel}
+              className="group flex items-center gap-1 px-3 py-1.5 bg-red-100 text-red-700 text-sm font-medium rounded-lg hover:bg-red-200"
+            >
+              <StopIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+              Stop
+            </button>
+          ) : (
+            <>
+              {failedCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  disabled={!canRun}
+                  className="group flex items-center gap-1 px-3 py-1.5 bg-orange-100 text-orange-700 text-sm font-medium rounded-lg hover:bg-orange-200 disabled:opacity-50"
+                >
+                  <ArrowClockwiseIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+                  Retry {failedCount} Failed
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleRun}
+                disabled={!canRun || queuedCount === 0}
+                className="group flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                <UploadSimpleIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+                Add {queuedCount} to Notion
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Queue */}
+      {items.length > 0 && (
+        <>
+          <div className="flex items-center gap-3">
+            <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-300 ease-out"
+                style={{ width: `${Math.round((doneCount / items.length) * 100)}%` }}
+              />
+            </div>
+            <span className="text-xs text-gray-600 whitespace-nowrap">{doneCount}/{items.length} done</span>
+            {finishedCount > 0 && !isRunning && (
+              <button
+                type="button"
+                onClick={clearFinished}
+                className="text-xs text-gray-500 hover:text-gray-700 underline"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          <ul className="max-h-56 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center gap-3 py-1.5">
+                <span className={`flex items-center gap-1 w-40 flex-shrink-0 text-xs ${STATUS_CLASSES[item.status]}`}>
+                  <StatusIcon status={item.status} />
+                  {STATUS_LABELS[item.status]}
+                </span>
+                <span className="flex-1 min-w-0 truncate text-gray-900" title={item.error || item.book.title}>
+                  {item.book.title}
+                  {item.book.authors?.length > 0 && (
+                    <span className="text-gray-500"> — {item.book.authors.join(', ')}</span>
+                  )}
+                  {item.error && <span className="block text-xs text-red-600 truncate">{item.error}</span>}
+                </span>
+                {item.duplicates.length > 1 && (
+                  <span className="text-xs text-yellow-700 flex-shrink-0">{item.duplicates.length} matches</span>
+                )}
+                {item.pageUrl && (
+                  <a
+                    href={item.pageUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs text-blue-600 hover:underline flex-shrink-0"
+                  >
+                    <ArrowSquareOutIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+                    Open
+                  </a>
+                )}
+                {!isRunning && ['queued', 'failed'].includes(item.status) && (
+                  <button
+                    type="button"
+                    onClick={() => remove(item.id)}
+                    title="Remove from queue"
+                    className="p-1 text-gray-400 hover:text-red-600 flex-shrink-0"
+                  >
+                    <XIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchAddPanel;
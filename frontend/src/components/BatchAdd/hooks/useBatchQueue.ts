@@ -0,0 +1,180 @@
+import { useState, useRef, useCallback } from 'react';
+import { BookSearchResult } from '../../../types/book';
+import { BatchDuplicateMode, BatchQueueItem, BatchRunSummary } from '../../../types/batch';
+import { CreateNotionPageRequest, LIKELY_DUPLICATE_SCORE, NotionIntegrationSettings } from '../../../types/notion';
+import { NotionService } from '../../../services/notionService';
+import { CategoryService } from '../../../services/categoryService';
+import { useNotionActivity } from '../../../contexts/NotionActivityContext';
+
+interface UseBatchQueueReturn {
+  items: BatchQueueItem[];
+  isRunning: boolean;
+  enqueue: (books: BookSearchResult[]) => void;
+  remove: (itemId: string) => void;
+  clearFinished: () => void;
+  run: (settings: NotionIntegrationSettings, duplicateMode: BatchDuplicateMode) => Promise<BatchRunSummary>;
+  retryFailed: () => void;
+  cancel: () => void;
+}
+
+// Statuses that are picked up by the next run
+const RUNNABLE_STATUSES = ['queued'];
+const FINISHED_STATUSES = ['added', 'updated', 'skipped'];
+
+/**
+ * Builds the same page request the details modal would, using the saved field
+ * mappings and category settings instead of per-book choices.
+ */
+const buildPageRequest = (book: BookSearchResult, settings: NotionIntegrationSettings): CreateNotionPageRequest => {
+  const { processed } = CategoryService.processCategories(
+    book.categories || [],
+    CategoryService.loadSettings(),
+    book.audiobookData
+  );
+
+  return {
+    databaseId: settings.databaseId,
+    bookData: {
+      ...book,
+      categories: processed,
+      audiobookPublishedDate: book.audiobookData?.publishedDate
+    },
+    fieldMapping: settings.fieldMapping,
+    // Passed explicitly so a profile switch during the run does not change where pages go
+    defaultValues: settings.defaultValues,
+    authorsDatabase: settings.authorsDatabase,
+    coverImages: settings.coverImages,
+    pageContent: settings.pageContent,
+    pageTemplate: settings.pageTemplate
+  };
+};
+
+/**
+ * Sequential "Add to Notion" queue for several search results at once.
+ * Each book is checked for duplicates, then created, replaced or skipped.
+ */
+export const useBatchQueue = (): UseBatchQueueReturn => {
+  const [items, setItems] = useState<BatchQueueItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef<BatchQueueItem[]>([]);
+  const cancelledRef = useRef(false);
+  const { recordActivity } = useNotionActivity();
+
+  // Applied to the ref synchronously so a run started right after enqueue/retry sees the new items
+  const updateItems = useCallback((updater: (prev: BatchQueueItem[]) => BatchQueueItem[]) => {
+    const next = updater(itemsRef.current);
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const updateItem = useCallback((itemId: string, changes: Partial<BatchQueueItem>) => {
+    updateItems(prev => prev.map(item => item.id === itemId ? { ...item, ...changes } : item));
+  }, [updateItems]);
+
+  const enqueue = useCallback((books: BookSearchResult[]) => {
+    updateItems(prev => {
+      // Books already waiting or in progress are not queued twice
+      const activeIds = new Set(prev.filter(item => !FINISHED_STATUSES.includes(item.status)).map(item => item.book.id));
+      const additions: BatchQueueItem[] = books
+        .filter(book => !activeIds.has(book.id))
+        .map(book => ({
+          id: `${book.id}-${Date.now()}`,
+          book,
+          status: 'queued',
+          duplicates: []
+        }));
+      return [...prev, ...additions];
+    });
+  }, [updateItems]);
+
+  const remove = useCallback((itemId: string) => {
+    updateItems(prev => prev.filter(item => item.id !== itemId));
+  }, [updateItems]);
+
+  const clearFinished = useCallback(() => {
+    updateItems(prev => prev.filter(item => !FINISHED_STATUSES.includes(item.status)));
+  }, [updateItems]);
+
+  const run = useCallback(async (settings: NotionIntegrationSettings, duplicateMode: BatchDuplicateMode) => {
+    const summary: BatchRunSummary = { added: 0, updated: 0, skipped: 0, failed: 0 };
+    const queue = itemsRef.current.filter(item => RUNNABLE_STATUSES.includes(item.status));
+    if (queue.length === 0) return summary;
+
+    cancelledRef.current = false;
+    setIsRunning(true);
+
+    for (const item of queue) {
+      if (cancelledRef.current) break;
+
+      const { book } = item;
+
+      try {
+        updateItem(item.id, { status: 'checking', error: undefined });
+        const matches = await NotionService.searchExistingBooks(settings.databaseId, book, settings.fieldMapping);
+        // Only pages that are this book (or another edition of it) count; similar titles are added
+        const duplicates = matches.filter(match => match.score >= LIKELY_DUPLICATE_SCORE);
+
+        if (duplicates.length > 0 && duplicateMode === 'skip') {
+          updateItem(item.id, { status: 'skipped', duplicates, pageUrl: duplicates[0].url });
+          summary.skipped++;
+          continue;
+        }
+
+        updateItem(item.id, { status: 'adding', duplicates });
+        const request = buildPageRequest(book, settings);
+
+        if (duplicates.length > 0 && duplicateMode === 'replace') {
+          const updatedPage = await NotionService.updateBookPage(duplicates[0].id, request);
+          recordActivity({
+            action: 'updated',
+            pageId: duplicates[0].id,
+            pageUrl: duplicates[0].url,
+            bookTitle: book.title,
+            previous: updatedPage.previous
+          });
+          updateItem(item.id, { status: 'updated', pageUrl: duplicates[0].url });
+          summary.updated++;
+        } else {
+          const page = await NotionService.createPage(request);
+          recordActivity({ action: 'created', pageId: page.id, pageUrl: page.url, bookTitle: book.title });
+          updateItem(item.id, { status: 'added', pageUrl: page.url });
+          summary.added++;
+        }
+      } catch (error) {
+        updateItem(item.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to add book'
+        });
+        summary.failed++;
+      }
+    }
+
+    // Items interrupted by cancel go back to the queue
+    updateItems(prev => prev.map(item =>
+      item.status === 'checking' || item.status === 'adding' ? { ...item, status: 'queued' } : item
+    ));
+    setIsRunning(false);
+    return summary;
+  }, [updateItem, updateItems, recordActivity]);
+
+  const retryFailed = useCallback(() => {
+    updateItems(prev => prev.map(item =>
+      item.status === 'failed' ? { ...item, status: 'queued', error: undefined } : item
+    ));
+  }, [updateItems]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  return {
+    items,
+    isRunning,
+    enqueue,
+    remove,
+    clearFinished,
+    run,
+    retryFailed,
+    cancel
+  };
+};
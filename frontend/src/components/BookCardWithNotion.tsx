@@ -14,6 +14,8 @@ interface BookCardWithNotionProps {
   notionSettings?: any;
   onModalOpen?: () => void;
   onModalClose?: () => void;
+  isSelected?: boolean;
+  onToggleSelect?: (book: BookSearchResult) => void;
 }
 
 const BookCardWithNotion: React.FC<BookCardWithNotionProps> = ({ 
@@ -22,7 +24,9 @@ const BookCardWithNotion: React.FC<BookCardWithNotionProps> = ({
   isNotionConnected,
   notionSettings: initialNotionSettings,
   onModalOpen,
-  onModalClose
+  onModalClose,
+  isSelected = false,
+  onToggleSelect
 }) => {
   const [duplicateStatus, setDuplicateStatus] = useState<'unknown' | 'checking' | 'duplicate' | 'unique'>('unknown');
   const [showEditionsModal, setShowEditionsModal] = useState(false);
@@ -222,11 +226,28 @@ const BookCardWithNotion: React.FC<BookCardWithNotionProps> = ({
   return (
     <div className="relative">
       <div 
-        className={`bg-white rounded-lg shadow-md p-6 border border-gray-200 transition-shadow duration-200 ${
+        className={`bg-white rounded-lg shadow-md p-6 border transition-shadow duration-200 ${
+          isSelected ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+        } ${
           onSelect ? 'hover:shadow-lg cursor-pointer' : ''
         }`}
         onClick={handleClick}
       >
+        {/* Batch selection checkbox */}
+        {onToggleSelect && (
+          <label
+            className="absolute top-3 right-3 z-10 flex items-center gap-1 px-2 py-1 bg-white/90 rounded text-xs text-gray-600 cursor-pointer hover:text-gray-900"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => onToggleSelect(currentBook)}
+              className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Select
+          </label>
+        )}
         <div className="flex gap-4">
           {/* Book Cover */}
           <div className="flex-shrink-0">
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'motion/react';
 import { toast } from 'react-hot-toast';
 import './BookDetailsModal/transitions.css';
 import { BookSearchResult } from '../types/book';
+import { NotionBookSearchResult } from '../types/notion';
 import { CategoryService } from '../services/categoryService';
 import AudiobookSelectionModal from './AudiobookSelectionModal';
 import { X } from '@phosphor-icons/react';
@@ -11,11 +12,13 @@ import {
   FieldSourceSelectionModal,
   ManualMappingModal,
   DuplicateBookModal,
+  PageMergeModal,
   SuccessModal,
   CategoriesModal,
   BookHeader,
   ActionBar,
   NotionFooter,
+  PageTemplatePreview,
   useBookData,
   useCategoryManagement,
   useNotionIntegration,
@@ -31,6 +34,8 @@ interface BookDetailsModalProps {
   isNotionConnected: boolean;
   notionSettings?: any;
   onSettingsUpdated?: (updatedSettings: any) => void;
+  // Opened from the library: edit this page rather than add the book
+  existingPage?: { id: string; url: string } | null;
 }
 
 // Utility function to detect if text appears to be in English
@@ -75,7 +80,8 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
   book,
   isNotionConnected,
   notionSettings,
-  onSettingsUpdated
+  onSettingsUpdated,
+  existingPage
 }) => {
   // Use custom hooks for state management
   const bookData = useBookData({ book, isOpen, notionSettings });
@@ -89,7 +95,8 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
     isNotionConnected,
     notionSettings,
     onSettingsUpdated,
-    currentBook: bookData.currentBook
+    currentBook: bookData.currentBook,
+    existingPage
   });
 
   // Local modal state
@@ -294,9 +301,9 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
   };
 
   // Enhanced duplicate handlers
-  const handleDuplicateReplace = () => {
+  const handleDuplicateReplace = (page: NotionBookSearchResult) => {
     const finalBookData = bookData.getFinalBookData();
-    notionIntegration.handleDuplicateReplace(finalBookData, categoryManagement.selectedCategories);
+    notionIntegration.handleDuplicateReplace(finalBookData, categoryManagement.selectedCategories, page);
   };
 
   const handleDuplicateKeepBoth = () => {
@@ -422,6 +429,13 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
               onOpenCategoriesModal={() => setIsCategoriesModalOpen(true)}
               getFieldSources={bookData.getFieldSources}
             />
+
+            {notionSettings?.pageTemplate && (
+              <PageTemplatePreview
+                template={notionSettings.pageTemplate}
+                book={{ ...bookData.getFinalBookData(), categories: categoryManagement.selectedCategories }}
+              />
+            )}
           </div>
         </div>
 
@@ -430,13 +444,14 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
           isNotionConnected={isNotionConnected}
           duplicateStatus={notionIntegration.duplicateStatus}
           duplicateCount={notionIntegration.duplicateCount}
-          duplicatePages={notionIntegration.duplicatePages}
+          duplicateCandidates={notionIntegration.duplicateCandidates}
           isAddingToNotion={notionIntegration.isAddingToNotion}
           isCheckingDuplicates={notionIntegration.duplicateStatus === 'checking'}
           selectedCategoriesCount={categoryManagement.selectedCategories.length}
           duplicateCheckButtonRef={notionIntegration.duplicateCheckButtonRef}
           onCheckForDuplicates={() => notionIntegration.checkForDuplicates(true)}
           onAddToNotion={addToNotionWithData}
+          existingPageUrl={existingPage?.url}
         />
           </motion.div>
 
@@ -470,7 +485,7 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
         <DuplicateBookModal
           isOpen={notionIntegration.showDuplicateModal}
           bookTitle={bookData.getFinalBookData().title}
-          existingNotionPage={notionIntegration.existingNotionPage}
+          candidates={notionIntegration.duplicateCandidates}
           onClose={notionIntegration.handleDuplicateCancel}
           onCancel={notionIntegration.handleDuplicateCancel}
           onReplace={handleDuplicateReplace}
@@ -478,6 +493,19 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
         />
       )}
 
+      {/* Replace review: keep, replace or merge each property of the existing page */}
+      {notionIntegration.mergeReview && (
+        <PageMergeModal
+          isOpen={!!notionIntegration.mergeReview}
+          bookTitle={notionIntegration.mergeReview.finalBookData.title}
+          pageUrl={notionIntegration.mergeReview.page.url}
+          diffs={notionIntegration.mergeReview.diffs}
+          isSaving={notionIntegration.isAddingToNotion}
+          onCancel={notionIntegration.cancelMergeReview}
+          onConfirm={notionIntegration.confirmMergeReview}
+        />
+      )}
+
       {/* Success Modal */}
       {notionIntegration.showSuccessModal && notionIntegration.successModalData && (
         <SuccessModal
@@ -489,6 +517,9 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
           dateType={notionIntegration.successModalData.dateType}
           actionType={notionIntegration.successModalData.actionType}
           onAddAnotherBook={handleAddAnotherBook}
+          onUndo={notionIntegration.undoSuccessAction}
+          canUndo={notionIntegration.canUndoSuccessAction}
+          isUndoing={notionIntegration.isUndoingSuccessAction}
         />
       )}
 
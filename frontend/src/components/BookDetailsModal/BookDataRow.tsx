@@ -3,6 +3,7 @@ import { BookSearchResult } from '../../types/book';
 import { FieldSelections } from './BookInfoPanel';
 import { CategoryService } from '../../services/categoryService';
 import { extractPlainText } from './utils/htmlUtils';
+import { getCompatibleProperties, isPropertyCompatible } from './utils/notionPropertyUtils';
 
 interface BookDataField {
   id: string;
@@ -385,12 +386,10 @@ const BookDataRow: React.FC<BookDataRowProps> = ({
             className="text-xs border border-gray-300 rounded px-2 py-1 text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-white"
           >
             <option value="">Don't map</option>
-            {databaseProperties.properties
-              ?.slice()
-              ?.sort((a: any, b: any) => a.name.localeCompare(b.name))
-              ?.map((prop: any) => (
+            {getCompatibleProperties<any>(databaseProperties.properties, field.id, currentMapping)
+              .map((prop: any) => (
                 <option key={prop.id} value={prop.name}>
-                  {prop.name} ({prop.type})
+                  {prop.name} ({prop.type}){isPropertyCompatible(field.id, prop.type) ? '' : ' - incompatible'}
                 </option>
               ))}
           </select>
@@ -4,6 +4,7 @@ import BookDataRow from './BookDataRow';
 import { MagnifyingGlassIcon, SpinnerGapIcon } from '@phosphor-icons/react';
 import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
 import Tooltip from '../ui/Tooltip';
+import { getBookSeries } from './utils/seriesUtils';
 
 // Define the BookDataField interface
 interface BookDataField {
@@ -35,6 +36,8 @@ const bookDataFields: BookDataField[] = [
   // Basic Information
   { id: 'title', label: 'Title', category: 'basic' },
   { id: 'authors', label: 'Authors', category: 'basic' },
+  { id: 'series', label: 'Series', category: 'basic' },
+  { id: 'seriesNumber', label: 'Series Number', category: 'basic' },
   { id: 'description', label: 'Description', category: 'basic' },
   { id: 'categories', label: 'Categories', category: 'basic' },
   { id: 'rating', label: 'Rating', category: 'basic' },
@@ -219,6 +222,8 @@ const BookDataTable: React.FC<BookDataTableProps> = ({
     switch (fieldId) {
       case 'title': return book.title || '';
       case 'authors': return book.authors?.join(', ') || '';
+      case 'series': return getBookSeries(book)?.name || '';
+      case 'seriesNumber': return getBookSeries(book)?.number?.toString() || '';
       case 'description': return book.description || '';
       case 'categories': return selectedCategories.length > 0 ? `${selectedCategories.length} selected` : 'None selected';
       case 'rating': return book.averageRating ? `${book.averageRating}/5` : '';
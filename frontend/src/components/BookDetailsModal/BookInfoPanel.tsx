@@ -5,6 +5,7 @@ import FieldSourceTable from './FieldSourceTable';
 import { CategoryService } from '../../services/categoryService';
 import SourceBrowser from './SourceBrowser';
 import { parseHtmlForDisplay, extractPlainText } from './utils/htmlUtils';
+import { formatSeries, getAudiobookSeries, getPrintSeries } from './utils/seriesUtils';
 
 export interface FieldSelections {
   description: 'audiobook' | 'original' | 'audiobook_summary' | number; // number = edition index
@@ -13,6 +14,7 @@ export interface FieldSelections {
   releaseDate: 'published' | 'original' | 'audiobook' | 'first_published' | 'copyright' | 'audiobook_copyright' | number; // published = edition date, original = original published date, audiobook = audiobook date, number = edition index
   isbn: 'original' | number;
   thumbnail: 'original' | 'audiobook' | number;
+  series: 'original' | 'audiobook' | number;
 }
 
 interface BookInfoPanelProps {
@@ -228,7 +230,8 @@ const BookInfoPanel: React.FC<BookInfoPanelProps> = ({
     pageCount: 'original',
     releaseDate: 'original',
     isbn: 'original',
-    thumbnail: 'original'
+    thumbnail: 'original',
+    series: 'original'
   });
 
   // Add state for managing which field source tables are open
@@ -237,11 +240,13 @@ const BookInfoPanel: React.FC<BookInfoPanelProps> = ({
     publisher: boolean;
     pageCount: boolean;
     releaseDate: boolean;
+    series: boolean;
   }>({
     description: false,
     publisher: false,
     pageCount: false,
-    releaseDate: false
+    releaseDate: false,
+    series: false
   });
 
   // Function to toggle field table visibility
@@ -643,6 +648,47 @@ const BookInfoPanel: React.FC<BookInfoPanelProps> = ({
     return sources;
   };
 
+  // Get available series sources
+  const getSeriesSources = () => {
+    const sources: Array<{value: 'audiobook' | 'original' | number, label: string, content: string}> = [];
+
+    // Series detected for the print book
+    const printSeries = getPrintSeries(book);
+    if (printSeries) {
+      sources.push({
+        value: 'original',
+        label: 'Original Book',
+        content: formatSeries(printSeries)
+      });
+    }
+
+    // Audiobook series
+    const audiobookSeries = getAudiobookSeries(book);
+    if (audiobookSeries) {
+      sources.push({
+        value: 'audiobook',
+        label: 'Audiobook',
+        content: formatSeries(audiobookSeries)
+      });
+    }
+
+    // Edition series
+    getFilteredEditions().forEach((edition, index) => {
+      const editionSeries = getPrintSeries(edition);
+      if (editionSeries) {
+        // Find the original index in the unfiltered editions array
+        const originalIndex = editions.findIndex(e => e.id === edition.id);
+        sources.push({
+          value: originalIndex !== -1 ? originalIndex : index,
+          label: createEditionLabel(edition, originalIndex !== -1 ? originalIndex : index),
+          content: formatSeries(editionSeries)
+        });
+      }
+    });
+
+    return sources;
+  };
+
   // Get available release date sources
   const getReleaseDateSources = () => {
     
@@ -794,6 +840,12 @@ const BookInfoPanel: React.FC<BookInfoPanelProps> = ({
     return selectedSource?.content || book.pageCount || null;
   };
 
+  const getSelectedSeries = () => {
+    const sources = getSeriesSources();
+    const selectedSource = sources.find(source => source.value === fieldSelections.series);
+    return selectedSource?.content || sources[0]?.content || '';
+  };
+
   const getSelectedReleaseDate = () => {
     const sources = getReleaseDateSources();
     const selectedSource = sources.find(source => source.value === fieldSelections.releaseDate);
@@ -836,6 +888,7 @@ const BookInfoPanel: React.FC<BookInfoPanelProps> = ({
         pageCount: getSelectedPageCount(),
         releaseDate: getSelectedReleaseDate(),
         thumbnail: getSelectedThumbnail(),
+        series: getSelectedSeries(),
       };
       onFieldSelectionChange(selections, selectedData);
     }
@@ -1050,6 +1103,24 @@ const BookInfoPanel: React.FC<BookInfoPanelProps> = ({
             <p className="text-gray-600">{getSelectedPageCount()}</p>
           </div>
         )}
+        {getSelectedSeries() && (
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-medium text-gray-900">Series:</span>
+              <FieldSourceTable
+                fieldName="Series"
+                sources={getSeriesSources()}
+                selectedValue={fieldSelections.series}
+                onSelect={(value) => {
+                  setFieldSelections(prev => ({ ...prev, series: value }));
+                }}
+                isOpen={openFieldTables.series}
+                onToggle={() => toggleFieldTable('series')}
+              />
+            </div>
+            <p className="text-gray-600">{getSelectedSeries()}</p>
+          </div>
+        )}
         {book.language && (
           <div>
             <span className="font-medium text-gray-900">Language:</span>
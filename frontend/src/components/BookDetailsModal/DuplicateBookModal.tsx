@@ -7,33 +7,60 @@ import {
   PlusIcon 
 } from '@phosphor-icons/react';
 import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { DuplicateMatchType, LIKELY_DUPLICATE_SCORE, NotionBookSearchResult } from '../../types/notion';
 
 interface DuplicateBookModalProps {
   isOpen: boolean;
   bookTitle: string;
-  existingNotionPage?: { url: string; title: string } | null;
+  candidates: NotionBookSearchResult[];
   onClose: () => void;
   onCancel: () => void;
-  onReplace: () => void;
+  onReplace: (page: NotionBookSearchResult) => void;
   onKeepBoth: () => void;
 }
 
+const MATCH_TYPE_LABELS: Record<DuplicateMatchType, string> = {
+  'same-edition': 'Same edition',
+  'other-edition': 'Other edition',
+  similar: 'Similar'
+};
+
+/**
+ * Match score of a duplicate candidate, colored by how sure the match is
+ */
+export const DuplicateScoreBadge: React.FC<{ candidate: NotionBookSearchResult }> = ({ candidate }) => (
+  <span
+    className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap flex-shrink-0 ${
+      candidate.score >= LIKELY_DUPLICATE_SCORE ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-600'
+    }`}
+    title={MATCH_TYPE_LABELS[candidate.matchType]}
+  >
+    {candidate.score}% · {MATCH_TYPE_LABELS[candidate.matchType]}
+  </span>
+);
+
 const DuplicateBookModal: React.FC<DuplicateBookModalProps> = ({
   isOpen,
   bookTitle,
-  existingNotionPage,
+  candidates,
   onClose,
   onCancel,
   onReplace,
   onKeepBoth
 }) => {
   const [isMounted, setIsMounted] = useState(false);
+  // The page Replace updates; the best match unless another is picked
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
   useEffect(() => {
     setIsMounted(true);
     return () => setIsMounted(false); // Clean up on unmount
   }, []);
 
+  useEffect(() => {
+    setSelectedId(null);
+  }, [candidates]);
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       e.stopPropagation(); // Prevent event from bubbling up to parent modals
@@ -45,17 +72,20 @@ const DuplicateBookModal: React.FC<DuplicateBookModalProps> = ({
     e.stopPropagation();
   };
 
-  if (!isOpen || !isMounted) {
+  if (!isOpen || !isMounted || candidates.length === 0) {
     return null;
   }
 
+  const selectedPage = candidates.find(candidate => candidate.id === selectedId) || candidates[0];
+  const isLikelyDuplicate = candidates[0].score >= LIKELY_DUPLICATE_SCORE;
+
   const modalContent = (
     <div
       className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[60] p-4"
       onClick={handleBackdropClick}
     >
       <div
-        className="bg-white rounded-lg max-w-md w-full shadow-2xl border relative"
+        className="bg-white rounded-lg max-w-lg w-full shadow-2xl border relative"
         onClick={handleModalContentClick}
       >
         {/* Header */}
@@ -70,10 +100,12 @@ const DuplicateBookModal: React.FC<DuplicateBookModalProps> = ({
             </div>
             <div>
               <h3 className="text-lg font-semibold text-gray-900">
-                Duplicate Book Found
+                {isLikelyDuplicate ? 'Duplicate Book Found' : 'Similar Books Found'}
               </h3>
               <p className="text-sm text-gray-600">
-                This book already exists in your Notion database
+                {isLikelyDuplicate
+                  ? 'This book may already be in your Notion database'
+                  : 'Your Notion database has books with similar titles or authors'}
               </p>
             </div>
           </div>
@@ -83,22 +115,51 @@ const DuplicateBookModal: React.FC<DuplicateBookModalProps> = ({
         <div className="px-6 py-4">
           <div className="mb-4">
             <p className="text-gray-700">
-              <span className="font-medium">"{bookTitle}"</span> already exists in your database
-              {existingNotionPage && (
-                <>
-                  {' '}{"as"}{' '}
-                  <a
-                    href={existingNotionPage.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 hover:text-blue-800 underline font-medium"
-                  >
-                    "{existingNotionPage.title}"
-                  </a>
-                </>
-              )}.
+              Pages that match <span className="font-medium">"{bookTitle}"</span>
+              {candidates.length > 1 && ', best match first. Replace updates the selected page'}:
             </p>
-            <p className="text-sm text-gray-600 mt-2">
+            <ul className="mt-2 max-h-56 overflow-y-auto space-y-2">
+              {candidates.map(candidate => (
+                <li key={candidate.id}>
+                  <label
+                    className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                      selectedPage.id === candidate.id ? 'border-orange-300 bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {candidates.length > 1 && (
+                      <input
+                        type="radio"
+                        name="duplicate-candidate"
+                        checked={selectedPage.id === candidate.id}
+                        onChange={() => setSelectedId(candidate.id)}
+                        className="mt-1 text-orange-600 focus:ring-orange-500"
+                      />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <a
+                          href={candidate.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 underline font-medium truncate"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {candidate.title}
+                        </a>
+                        <DuplicateScoreBadge candidate={candidate} />
+                      </div>
+                      {(candidate.authors.length > 0 || candidate.isbn) && (
+                        <p className="text-xs text-gray-500 truncate">
+                          {[candidate.authors.join(', '), candidate.isbn && `ISBN ${candidate.isbn}`].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-600 mt-1">{candidate.reasons.join(' · ')}</p>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-gray-600 mt-3">
               What would you like to do?
             </p>
           </div>
@@ -125,7 +186,7 @@ const DuplicateBookModal: React.FC<DuplicateBookModalProps> = ({
 
             {/* Replace */}
             <div
-              onClick={onReplace}
+              onClick={() => onReplace(selectedPage)}
               className="w-full flex items-center px-4 py-3 border border-orange-300 rounded-lg hover:bg-orange-50 transition-colors group cursor-pointer"
             >
               <div className="flex-shrink-0 w-8 h-8 bg-orange-100 rounded-full flex items-center justify-center mr-3 group-hover:bg-orange-200 transition-colors">
@@ -137,7 +198,9 @@ const DuplicateBookModal: React.FC<DuplicateBookModalProps> = ({
               </div>
               <div className="text-left">
                 <div className="font-medium text-gray-900">Replace Existing</div>
-                <div className="text-sm text-gray-600">Update only the book properties, preserving other content</div>
+                <div className="text-sm text-gray-600">
+                  Review and update the properties of "{selectedPage.title}", preserving other content
+                </div>
               </div>
             </div>
 
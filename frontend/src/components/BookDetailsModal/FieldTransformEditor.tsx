@@ -0,0 +1,190 @@
+import React from 'react';
+import { XIcon, ArrowRightIcon } from '@phosphor-icons/react';
+import { FieldTransform } from '../../types/notion';
+import {
+  TRANSFORM_TYPES,
+  TransformValue,
+  applyFieldTransforms,
+  formatTransformValue,
+  getPatternError
+} from './utils/fieldTransforms';
+import { ICON_WEIGHTS } from '../../constants/iconConfig';
+
+interface FieldTransformEditorProps {
+  transforms: FieldTransform[];
+  // Value the preview starts from: the open book's value, or a sample in Settings
+  previewValue: TransformValue;
+  previewLabel: string;
+  onChange: (transforms: FieldTransform[]) => void;
+}
+
+const controlClassName = 'text-xs border border-gray-300 rounded px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const TransformOptions: React.FC<{
+  transform: FieldTransform;
+  onChange: (transform: FieldTransform) => void;
+}> = ({ transform, onChange }) => {
+  switch (transform.type) {
+    case 'nameFormat':
+      return (
+        <select
+          value={transform.format}
+          onChange={(e) => onChange({ ...transform, format: e.target.value as typeof transform.format })}
+          className={controlClassName}
+        >
+          <option value="lastFirst">Last, First</option>
+          <option value="initialsLast">F. Last</option>
+          <option value="lastOnly">Last name only</option>
+        </select>
+      );
+    case 'case':
+      return (
+        <select
+          value={transform.mode}
+          onChange={(e) => onChange({ ...transform, mode: e.target.value as typeof transform.mode })}
+          className={controlClassName}
+        >
+          <option value="title">Title Case</option>
+          <option value="upper">UPPERCASE</option>
+          <option value="lower">lowercase</option>
+        </select>
+      );
+    case 'duration':
+      return (
+        <select
+          value={transform.unit}
+          onChange={(e) => onChange({ ...transform, unit: e.target.value as typeof transform.unit })}
+          className={controlClassName}
+        >
+          <option value="hours">Hours</option>
+          <option value="minutes">Minutes</option>
+        </select>
+      );
+    case 'join':
+      return (
+        <input
+          type="text"
+          value={transform.separator}
+          onChange={(e) => onChange({ ...transform, separator: e.target.value })}
+          placeholder="Separator"
+          aria-label="Separator"
+          className={`${controlClassName} w-20`}
+        />
+      );
+    case 'affix':
+      return (
+        <>
+          <input
+            type="text"
+            value={transform.prefix || ''}
+            onChange={(e) => onChange({ ...transform, prefix: e.target.value })}
+            placeholder="Prefix"
+            aria-label="Prefix"
+            className={`${controlClassName} w-24`}
+          />
+          <input
+            type="text"
+            value={transform.suffix || ''}
+            onChange={(e) => onChange({ ...transform, suffix: e.target.value })}
+            placeholder="Suffix"
+            aria-label="Suffix"
+            className={`${controlClassName} w-24`}
+          />
+        </>
+      );
+    case 'replace': {
+      const patternError = getPatternError(transform.pattern);
+      return (
+        <>
+          <input
+            type="text"
+            value={transform.pattern}
+            onChange={(e) => onChange({ ...transform, pattern: e.target.value })}
+            placeholder="Pattern"
+            aria-label="Pattern"
+            title={patternError || undefined}
+            className={`${controlClassName} w-32 font-mono ${patternError ? 'border-red-400 text-red-700' : ''}`}
+          />
+          <input
+            type="text"
+            value={transform.replacement || ''}
+            onChange={(e) => onChange({ ...transform, replacement: e.target.value })}
+            placeholder="Replacement"
+            aria-label="Replacement"
+            className={`${controlClassName} w-28 font-mono`}
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={transform.ignoreCase || false}
+              onChange={(e) => onChange({ ...transform, ignoreCase: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Ignore case
+          </label>
+        </>
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+const FieldTransformEditor: React.FC<FieldTransformEditorProps> = ({
+  transforms,
+  previewValue,
+  previewLabel,
+  onChange
+}) => {
+  const updateAt = (index: number, transform: FieldTransform) =>
+    onChange(transforms.map((current, i) => (i === index ? transform : current)));
+  const removeAt = (index: number) => onChange(transforms.filter((_, i) => i !== index));
+
+  return (
+    <div className="mt-2 p-3 bg-white border border-gray-200 rounded space-y-2">
+      {transforms.map((transform, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-400 w-4">{index + 1}.</span>
+          <span className="text-xs font-medium text-gray-700">
+            {TRANSFORM_TYPES.find(option => option.type === transform.type)?.label || transform.type}
+          </span>
+          <TransformOptions transform={transform} onChange={(updated) => updateAt(index, updated)} />
+          <button
+            type="button"
+            onClick={() => removeAt(index)}
+            className="ml-auto text-gray-400 hover:text-red-600"
+            aria-label="Remove transform"
+          >
+            <XIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+          </button>
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => {
+          const option = TRANSFORM_TYPES.find(candidate => candidate.type === e.target.value);
+          if (option) onChange([...transforms, option.create()]);
+        }}
+        className={controlClassName}
+        aria-label="Add a transform"
+      >
+        <option value="">+ Add transform</option>
+        {TRANSFORM_TYPES.map(option => (
+          <option key={option.type} value={option.type}>{option.label}</option>
+        ))}
+      </select>
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-100 text-xs">
+        <span className="text-gray-500">{previewLabel}:</span>
+        <span className="text-gray-700 break-all">{formatTransformValue(previewValue)}</span>
+        <ArrowRightIcon size={12} weight={ICON_WEIGHTS.BOLD} className="text-gray-400 flex-shrink-0" />
+        <span className="font-medium text-blue-700 break-all">
+          {formatTransformValue(applyFieldTransforms(previewValue, transforms))}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default FieldTransformEditor;
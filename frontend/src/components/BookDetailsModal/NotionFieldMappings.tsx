@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BookSearchResult } from '../../types/book';
+import { FieldTransform } from '../../types/notion';
 import { 
   CaretRightIcon, 
   CheckIcon, 
@@ -7,9 +8,39 @@ import {
   SpinnerGapIcon,
   WarningIcon,
   BookIcon,
-  ImageIcon
+  ImageIcon,
+  MagicWandIcon
 } from '@phosphor-icons/react';
 import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { getBookSeries } from './utils/seriesUtils';
+import { getCompatibleProperties, isPropertyCompatible } from './utils/notionPropertyUtils';
+import { TransformValue } from './utils/fieldTransforms';
+import FieldTransformEditor from './FieldTransformEditor';
+
+// Values the transform previews start from when there is no book (Settings)
+const SAMPLE_VALUES: Record<string, TransformValue> = {
+  title: 'The Fellowship of the Ring: Being the First Part of The Lord of the Rings',
+  authors: ['J.R.R. Tolkien', 'Ursula K. Le Guin'],
+  description: 'A hobbit inherits a ring of great power.',
+  isbn: '978-0-547-92821-0',
+  publisher: 'Allen & Unwin',
+  pageCount: 423,
+  categories: ['Fantasy', 'Classics'],
+  rating: 4.4,
+  status: 'To Read',
+  releaseDate: '1954-07-29',
+  dateRead: '2024-03-14',
+  dateAdded: '2024-01-02',
+  series: 'The Lord of the Rings',
+  seriesNumber: 1,
+  audiobookPublisher: 'Recorded Books',
+  audiobookChapters: 23,
+  audiobookASIN: 'B007978NPG',
+  audiobookNarrators: ['Rob Inglis'],
+  audiobookDuration: '19 hrs and 7 mins',
+  audiobookURL: 'https://www.audible.com/pd/B007978NPG',
+  audiobookRating: '4.8/5 (35000 reviews)'
+};
 
 interface NotionFieldMappingsProps {
   book: BookSearchResult;
@@ -25,6 +56,7 @@ interface NotionFieldMappingsProps {
   onResetTempFieldMappings?: () => void;
   onSaveTempFieldMappings?: () => void;
   onHasUnsavedChanges?: () => boolean;
+  onTransformsChange?: (bookField: string, transforms: FieldTransform[]) => void;
   showDataValues?: boolean;
   hideUnsavedChangesIndicator?: boolean;
 }
@@ -43,9 +75,44 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
   onResetTempFieldMappings,
   onSaveTempFieldMappings,
   onHasUnsavedChanges,
+  onTransformsChange,
   showDataValues = true,
   hideUnsavedChangesIndicator = false
 }) => {
+  const [expandedTransforms, setExpandedTransforms] = useState<string | null>(null);
+
+  // The value the backend transforms for a field: the raw book value, lists kept as lists
+  const getTransformPreviewValue = (bookField: string): TransformValue => {
+    if (!showDataValues) return SAMPLE_VALUES[bookField];
+    const audiobook = book.audiobookData;
+    switch (bookField) {
+      case 'title': return book.title;
+      case 'authors': return book.authors;
+      case 'description': return book.description;
+      case 'isbn': return book.isbn13 || book.isbn10;
+      case 'publisher': return book.publisher;
+      case 'pageCount': return book.pageCount;
+      case 'categories': return selectedCategories;
+      case 'rating': return book.averageRating;
+      case 'releaseDate': return book.publishedDate;
+      case 'series': return getBookSeries(book)?.name;
+      case 'seriesNumber': return getBookSeries(book)?.number;
+      case 'audiobookPublisher': return audiobook?.publisher;
+      case 'audiobookChapters': return audiobook?.chapters || audiobook?.chapterCount;
+      case 'audiobookASIN': return audiobook?.asin;
+      case 'audiobookNarrators': return audiobook?.narrators;
+      case 'audiobookDuration':
+        if (audiobook?.totalDurationHours) {
+          return audiobook.totalDurationHours < 1
+            ? `${Math.round(audiobook.totalDurationHours * 60)} min`
+            : `${audiobook.totalDurationHours.toFixed(1)} hrs`;
+        }
+        return audiobook?.duration;
+      case 'audiobookURL': return audiobook?.audibleUrl;
+      default: return SAMPLE_VALUES[bookField];
+    }
+  };
+
   const formatDate = (dateString?: string | null) => {
     if (!dateString) return ''; // Return empty string for falsy dates
     
@@ -208,6 +275,10 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                   case 'thumbnail': return book.thumbnail ? 'Available' : 'None';
                   case 'status': return 'To Read (default)';
                   case 'notes': return 'Empty (default)';
+                  case 'dateRead': return 'Empty (set by imports)';
+                  case 'dateAdded': return 'Empty (set by imports)';
+                  case 'series': return getBookSeries(book)?.name || '';
+                  case 'seriesNumber': return getBookSeries(book)?.number?.toString() || '';
                   // Date field - consolidated releaseDate
                   case 'releaseDate': 
                     return book.publishedDate ? formatDate(book.publishedDate) : '';
@@ -268,6 +339,10 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                     case 'thumbnail': return 'Book cover image URL';
                     case 'status': return 'Reading progress status';
                     case 'notes': return 'Personal notes about the book';
+                    case 'dateRead': return 'Date you finished reading';
+                    case 'dateAdded': return 'Date added to your library';
+                    case 'series': return 'Series the book belongs to';
+                    case 'seriesNumber': return 'Position in the series';
                     case 'releaseDate': return 'Book publication/release date';
                     case 'audiobookPublisher': return 'Publisher of the audiobook version';
                     case 'audiobookChapters': return 'Number of chapters in audiobook';
@@ -343,7 +418,7 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
               const allPossibleBookFields = [
                 'title', 'authors', 'description', 'isbn', 'publisher', 'pageCount', 
                 'categories', 'rating', 'thumbnail', 'status', 'notes',
-                'releaseDate',
+                'releaseDate', 'dateRead', 'dateAdded', 'series', 'seriesNumber',
                 'audiobookPublisher', 'audiobookChapters', 'audiobookASIN', 
                 'audiobookNarrators', 'audiobookDuration', 'audiobookURL', 'audiobookRating'
               ];
@@ -389,15 +464,32 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                    // Use the more explicit check: if it's not truly mapped OR is explicitly unmapped, put it in unmapped section
                    if (isTrulyMapped && !isExplicitlyUnmapped) {
                      // This is a mapped field
+                     const transforms: FieldTransform[] = currentFieldMappings.transforms?.[bookField] || [];
+                     const isTransformsOpen = expandedTransforms === bookField;
                      mappingElements.push(
-                       <div key={bookField} className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded text-sm">
+                       <div key={bookField} className="py-2 px-3 bg-gray-50 rounded text-sm">
+                       <div className="flex items-center justify-between">
                          <div className="flex-1">
                            <span className="font-medium text-gray-700 capitalize">
                              {formatFieldLabel(bookField)}:
                            </span>
                            <span className="ml-2 text-gray-600">{getDisplayValue(bookField)}</span>
                          </div>
-                         <div className="flex items-center text-xs text-gray-500">
+                         <div className="flex items-center gap-2 text-xs text-gray-500">
+                           {(onTransformsChange || transforms.length > 0) && bookField !== 'thumbnail' && (
+                             <button
+                               type="button"
+                               onClick={() => setExpandedTransforms(isTransformsOpen ? null : bookField)}
+                               disabled={!onTransformsChange}
+                               className={`flex items-center gap-1 px-1.5 py-1 rounded transition-colors ${
+                                 transforms.length > 0 ? 'text-blue-700 bg-blue-50 hover:bg-blue-100' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                               }`}
+                               title={transforms.length > 0 ? `${transforms.length} transform${transforms.length > 1 ? 's' : ''}` : 'Add transforms'}
+                             >
+                               <MagicWandIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+                               {transforms.length > 0 && <span>{transforms.length}</span>}
+                             </button>
+                           )}
                            {canEdit ? (
                              <select
                                value={notionField}
@@ -405,12 +497,10 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                                className="text-xs border border-gray-300 rounded px-2 py-1 text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
                              >
                                <option value="">Don't map</option>
-                               {databaseProperties.properties
-                                 ?.slice()
-                                 ?.sort((a: any, b: any) => a.name.localeCompare(b.name))
-                                 ?.map((prop: any) => (
+                               {getCompatibleProperties<any>(databaseProperties.properties, bookField, notionField)
+                                 .map((prop: any) => (
                                    <option key={prop.id} value={prop.name}>
-                                     {prop.name} ({prop.type})
+                                     {prop.name} ({prop.type}){isPropertyCompatible(bookField, prop.type) ? '' : ' - incompatible'}
                                    </option>
                                  ))}
                              </select>
@@ -426,6 +516,15 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                            )}
                          </div>
                        </div>
+                       {isTransformsOpen && onTransformsChange && (
+                         <FieldTransformEditor
+                           transforms={transforms}
+                           previewValue={getTransformPreviewValue(bookField)}
+                           previewLabel={showDataValues ? 'This book' : 'Sample'}
+                           onChange={(updated) => onTransformsChange(bookField, updated)}
+                         />
+                       )}
+                       </div>
                      );
                    } else {
                      // This is an unmapped field (no mapping or empty mapping)
@@ -445,12 +544,10 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                                className="text-xs border border-orange-300 rounded px-2 py-1 text-orange-700 bg-white focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
                              >
                                <option value="">Don't map</option>
-                               {databaseProperties.properties
-                                 ?.slice()
-                                 ?.sort((a: any, b: any) => a.name.localeCompare(b.name))
-                                 ?.map((prop: any) => (
+                               {getCompatibleProperties<any>(databaseProperties.properties, bookField, notionField)
+                                 .map((prop: any) => (
                                    <option key={prop.id} value={prop.name}>
-                                     {prop.name} ({prop.type})
+                                     {prop.name} ({prop.type}){isPropertyCompatible(bookField, prop.type) ? '' : ' - incompatible'}
                                    </option>
                                  ))}
                              </select>
@@ -519,6 +616,8 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
             const currentFieldMappings = tempFieldMappings || notionSettings.fieldMapping;
             const allPossibleFields = [
               'releaseDate',
+              'series',
+              'seriesNumber',
               'audiobookPublisher',
               'audiobookChapters',
               'audiobookASIN',
@@ -531,6 +630,8 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
             const getBookValue = (bookField: string) => {
               switch (bookField) {
                 case 'releaseDate': return book.publishedDate;
+                case 'series': return getBookSeries(book)?.name;
+                case 'seriesNumber': return getBookSeries(book)?.number;
                 case 'audiobookPublisher': return book.audiobookData?.publisher;
                 case 'audiobookChapters': return book.audiobookData?.chapters || book.audiobookData?.chapterCount;
                 case 'audiobookASIN': return book.audiobookData?.asin;
@@ -548,6 +649,7 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
 
             if (unmappedWithData.length > 0) {
               const dateFields = unmappedWithData.filter(f => f === 'releaseDate');
+              const seriesFields = unmappedWithData.filter(f => f.startsWith('series'));
               const audiobookFields = unmappedWithData.filter(f => f.startsWith('audiobook'));
 
               return (
@@ -567,6 +669,11 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
                           • {dateFields.length} date field{dateFields.length > 1 ? 's' : ''}
                         </span>
                       )}
+                      {seriesFields.length > 0 && (
+                        <span className="text-orange-700 text-xs block mt-1">
+                          • {seriesFields.length} series field{seriesFields.length > 1 ? 's' : ''}
+                        </span>
+                      )}
                       {audiobookFields.length > 0 && (
                         <span className="text-orange-700 text-xs block mt-1">
                           • {audiobookFields.length} audiobook field{audiobookFields.length > 1 ? 's' : ''}
@@ -599,7 +706,7 @@ const NotionFieldMappings: React.FC<NotionFieldMappingsProps> = ({
             </div>
           )}
 
-          {Object.keys(notionSettings.fieldMapping).filter(key => notionSettings.fieldMapping[key] && key !== 'pageIcon').length === 0 && (
+          {Object.keys(notionSettings.fieldMapping).filter(key => notionSettings.fieldMapping[key] && key !== 'pageIcon' && key !== 'transforms').length === 0 && (
             <div className="text-center py-4 text-gray-500 text-sm">
               <p>No field mappings configured</p>
               <p className="text-xs mt-1">Configure mappings in Settings to see what data will be sent to Notion</p>
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { GitDiffIcon, SpinnerGapIcon } from '@phosphor-icons/react';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { PropertyDiff, PropertyMergeChoice } from './utils/pageMerge';
+
+interface PageMergeModalProps {
+  isOpen: boolean;
+  bookTitle: string;
+  pageUrl: string;
+  diffs: PropertyDiff[];
+  isSaving: boolean;
+  onCancel: () => void;
+  onConfirm: (diffs: PropertyDiff[]) => void;
+}
+
+const CHOICE_LABELS: Record<PropertyMergeChoice, string> = {
+  keep: 'Keep',
+  replace: 'Replace',
+  merge: 'Merge'
+};
+
+const DiffValue: React.FC<{ values: string[]; isImage: boolean; className: string }> = ({ values, isImage, className }) => {
+  if (values.length === 0) {
+    return <span className="text-gray-400 italic">Empty</span>;
+  }
+  if (isImage) {
+    // Emoji icons are text, not URLs
+    return /^https?:\/\//.test(values[0])
+      ? <img src={values[0]} alt="" className="w-10 h-14 object-cover rounded border border-gray-200" />
+      : <span className="text-xl">{values[0]}</span>;
+  }
+  return <span className={`${className} break-words line-clamp-4`}>{values.join(', ')}</span>;
+};
+
+/**
+ * Side-by-side review of an existing page and the book replacing it. Each property is kept,
+ * replaced or, for lists, merged, and only replaced or merged properties are written.
+ */
+const PageMergeModal: React.FC<PageMergeModalProps> = ({
+  isOpen,
+  bookTitle,
+  pageUrl,
+  diffs,
+  isSaving,
+  onCancel,
+  onConfirm
+}) => {
+  const [choices, setChoices] = useState<Record<string, PropertyMergeChoice>>({});
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(diffs.map(diff => [diff.key, diff.choice])));
+  }, [diffs]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const changedDiffs = diffs.filter(diff => diff.changed);
+  const unchangedDiffs = diffs.filter(diff => !diff.changed);
+  const writeCount = changedDiffs.filter(diff => choices[diff.key] !== 'keep').length;
+
+  const setAll = (choice: 'keep' | 'replace') => {
+    setChoices(prev => ({
+      ...prev,
+      ...Object.fromEntries(changedDiffs.map(diff => [diff.key, choice]))
+    }));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(diffs.map(diff => ({ ...diff, choice: choices[diff.key] || diff.choice })));
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isSaving) {
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[60] p-4"
+      onClick={handleBackdropClick}
+    >
+      <div
+        className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] flex flex-col shadow-2xl border"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+          <div className="flex-shrink-0 w-10 h-10 bg-orange-100 rounded-full flex items-center justify-center mr-3">
+            <GitDiffIcon size={ICON_CONTEXTS.STATUS.LARGE} weight={ICON_WEIGHTS.BOLD} className="text-orange-600" />
+          </div>
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">Review changes</h3>
+            <p className="text-sm text-gray-600 truncate">
+              Choose what to write to{' '}
+              <a href={pageUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+                the existing page
+              </a>{' '}
+              for "{bookTitle}"
+            </p>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto">
+          {changedDiffs.length === 0 ? (
+            <p className="text-sm text-gray-600">The page already has the same values as this book.</p>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-2 text-xs">
+                <button type="button" onClick={() => setAll('keep')} className="text-gray-600 hover:text-gray-900">
+                  Keep all
+                </button>
+                <span className="text-gray-300">|</span>
+                <button type="button" onClick={() => setAll('replace')} className="text-gray-600 hover:text-gray-900">
+                  Replace all
+                </button>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-3 font-medium">Property</th>
+                    <th className="py-2 pr-3 font-medium">In Notion</th>
+                    <th className="py-2 pr-3 font-medium">From this book</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {changedDiffs.map(diff => {
+                    const choice = choices[diff.key] || diff.choice;
+                    const options: PropertyMergeChoice[] = diff.canMerge ? ['keep', 'replace', 'merge'] : ['keep', 'replace'];
+                    return (
+                      <tr key={diff.key} className="align-top">
+                        <td className="py-2 pr-3 font-medium text-gray-900 whitespace-nowrap">{diff.label}</td>
+                        <td className="py-2 pr-3">
+                          <DiffValue
+                            values={diff.current}
+                            isImage={diff.isImage}
+                            className={choice === 'replace' ? 'text-gray-400 line-through' : 'text-gray-900'}
+                          />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <DiffValue
+                            values={diff.proposed}
+                            isImage={diff.isImage}
+                            className={choice === 'keep' ? 'text-gray-400' : 'text-gray-900'}
+                          />
+                        </td>
+                        <td className="py-2">
+                          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label={diff.label}>
+                            {options.map(option => (
+                              <button
+                                key={option}
+                                type="button"
+                                role="radio"
+                                aria-checked={choice === option}
+                                onClick={() => setChoices(prev => ({ ...prev, [diff.key]: option }))}
+                                disabled={isSaving}
+                                className={`px-2 py-1 text-xs transition-colors ${
+                                  choice === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                                }`}
+                              >
+                                {CHOICE_LABELS[option]}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          )}
+          {unchangedDiffs.length > 0 && (
+            <p className="text-xs text-gray-500 mt-3">
+              Already the same: {unchangedDiffs.map(diff => diff.label).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 bg-gray-50 rounded-b-lg flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">
+            Properties left out here, and the page content, are not changed.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isSaving || writeCount === 0}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <SpinnerGapIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />}
+              Update {writeCount} propert{writeCount === 1 ? 'y' : 'ies'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return ReactDOM.createPortal(modalContent, document.body);
+};
+
+export default PageMergeModal;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { CaretRightIcon, SpinnerGapIcon } from '@phosphor-icons/react';
+import { BookSearchResult } from '../../types/book';
+import { NotionBlock, NotionRichTextItem } from '../../types/notion';
+import { NotionService } from '../../services/notionService';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+
+interface PageTemplatePreviewProps {
+  template: string;
+  book: BookSearchResult;
+}
+
+const RichText: React.FC<{ items: NotionRichTextItem[] }> = ({ items }) => (
+  <>
+    {items.map((item, index) => {
+      const { bold, italic, underline, strikethrough, code } = item.annotations || {};
+      const className = [
+        bold && 'font-semibold',
+        italic && 'italic',
+        underline && 'underline',
+        strikethrough && 'line-through',
+        code && 'font-mono text-red-600 bg-gray-100 px-1 rounded'
+      ].filter(Boolean).join(' ');
+      const content = <span className={className || undefined}>{item.text.content}</span>;
+      return item.text.link?.url ? (
+        <a key={index} href={item.text.link.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+          {content}
+        </a>
+      ) : (
+        <React.Fragment key={index}>{content}</React.Fragment>
+      );
+    })}
+  </>
+);
+
+// Approximates how Notion displays each block type
+const Block: React.FC<{ block: NotionBlock; number: number }> = ({ block, number }) => {
+  const value = block[block.type] || {};
+  const text = <RichText items={value.rich_text || []} />;
+
+  switch (block.type) {
+    case 'heading_1':
+      return <h1 className="text-2xl font-bold text-gray-900 mt-4 mb-1">{text}</h1>;
+    case 'heading_2':
+      return <h2 className="text-xl font-semibold text-gray-900 mt-3 mb-1">{text}</h2>;
+    case 'heading_3':
+      return <h3 className="text-lg font-semibold text-gray-900 mt-2 mb-1">{text}</h3>;
+    case 'bulleted_list_item':
+      return <div className="flex gap-2 pl-1"><span>•</span><div>{text}</div></div>;
+    case 'numbered_list_item':
+      return <div className="flex gap-2 pl-1"><span>{number}.</span><div>{text}</div></div>;
+    case 'to_do':
+      return (
+        <div className="flex items-start gap-2 pl-1">
+          <input type="checkbox" checked={Boolean(value.checked)} readOnly className="mt-1 rounded border-gray-300" />
+          <div className={value.checked ? 'line-through text-gray-400' : undefined}>{text}</div>
+        </div>
+      );
+    case 'quote':
+      return <blockquote className="border-l-4 border-gray-800 pl-3 my-1">{text}</blockquote>;
+    case 'divider':
+      return <hr className="my-3 border-gray-200" />;
+    default:
+      return <p className="my-1 whitespace-pre-wrap">{text}</p>;
+  }
+};
+
+/**
+ * Shows the blocks the saved page template renders for the open book, as they will be
+ * written to the top of the new Notion page
+ */
+const PageTemplatePreview: React.FC<PageTemplatePreviewProps> = ({ template, book }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [blocks, setBlocks] = useState<NotionBlock[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The book object is rebuilt on every render, so compare it by value
+  const bookKey = JSON.stringify(book);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(() => {
+      NotionService.previewPageTemplate(template, JSON.parse(bookKey))
+        .then(result => {
+          if (cancelled) return;
+          setBlocks(result);
+          setError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setError(err instanceof Error ? err.message : 'Failed to render template');
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isExpanded, template, bookKey]);
+
+  // Numbered items count up within each run of consecutive items, as in Notion
+  let listNumber = 0;
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50 rounded-lg"
+        aria-expanded={isExpanded}
+      >
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <CaretRightIcon
+            size={ICON_CONTEXTS.UI.BUTTON}
+            weight={ICON_WEIGHTS.BOLD}
+            className={`transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+          />
+          Page template preview
+        </span>
+        {loading && (
+          <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin text-gray-500" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-6 pb-4 text-sm text-gray-800">
+          {error ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+          ) : blocks.length === 0 && !loading ? (
+            <p className="text-gray-500 italic">The template renders no content for this book.</p>
+          ) : (
+            blocks.map((block, index) => {
+              listNumber = block.type === 'numbered_list_item' ? listNumber + 1 : 0;
+              return <Block key={index} block={block} number={listNumber} />;
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageTemplatePreview;
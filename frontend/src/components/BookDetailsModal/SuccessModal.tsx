@@ -5,6 +5,7 @@ import {
   XIcon,
   CheckCircleIcon,
   ArrowClockwiseIcon,
+  ArrowCounterClockwiseIcon,
   BooksIcon
 } from '@phosphor-icons/react';
 import { ICON_CONTEXTS, ICON_WEIGHTS, ICON_SIZES } from '../../constants/iconConfig';
@@ -18,6 +19,10 @@ interface SuccessModalProps {
   dateType: string;
   actionType: 'added' | 'updated' | 'added as separate entry';
   onAddAnotherBook: () => void;
+  // Archives the added page or restores the values the update replaced
+  onUndo?: () => void;
+  canUndo?: boolean;
+  isUndoing?: boolean;
 }
 
 const SuccessModal: React.FC<SuccessModalProps> = ({
@@ -29,6 +34,9 @@ const SuccessModal: React.FC<SuccessModalProps> = ({
   dateType,
   actionType,
   onAddAnotherBook,
+  onUndo,
+  canUndo = false,
+  isUndoing = false,
 }) => {
   if (!isOpen) return null;
 
@@ -119,7 +127,30 @@ const SuccessModal: React.FC<SuccessModalProps> = ({
             />
             Add Another Book
           </button>
+
+          {onUndo && canUndo && (
+            <button
+              onClick={onUndo}
+              disabled={isUndoing}
+              className="group w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArrowCounterClockwiseIcon
+                size={ICON_CONTEXTS.SETTINGS.DEFAULT}
+                weight={ICON_WEIGHTS.BOLD}
+                className={isUndoing ? 'animate-spin' : 'group-hover:animate-wiggle'}
+              />
+              {isUndoing
+                ? 'Undoing...'
+                : actionType === 'updated' ? 'Undo (restore previous values)' : 'Undo (move page to trash)'}
+            </button>
+          )}
         </div>
+
+        {onUndo && canUndo && (
+          <p className="text-xs text-gray-500 text-center mt-3">
+            You can also undo this later in this session from Activity in the navigation bar.
+          </p>
+        )}
       </div>
     </div>
   );
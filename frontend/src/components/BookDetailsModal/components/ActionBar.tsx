@@ -1,8 +1,9 @@
 import React from 'react';
+import { DuplicateStatus } from '../../../types/notion';
 
 interface ActionBarProps {
   selectedCategoriesCount: number;
-  duplicateStatus: 'unknown' | 'checking' | 'duplicate' | 'unique';
+  duplicateStatus: DuplicateStatus;
   onOpenCategoriesModal: () => void;
 }
 
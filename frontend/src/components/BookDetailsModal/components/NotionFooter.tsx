@@ -1,31 +1,37 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { CaretDownIcon, ArrowSquareOutIcon } from '@phosphor-icons/react';
 import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../../constants/iconConfig';
+import ProfileSwitcher from '../../ProfileSwitcher';
+import { DuplicateStatus, NotionBookSearchResult } from '../../../types/notion';
+import { DuplicateScoreBadge } from '../DuplicateBookModal';
 
 interface NotionFooterProps {
   isNotionConnected: boolean;
-  duplicateStatus: 'unknown' | 'checking' | 'duplicate' | 'unique';
+  duplicateStatus: DuplicateStatus;
   duplicateCount: number;
-  duplicatePages?: Array<{ title: string; url: string }>;
+  duplicateCandidates?: NotionBookSearchResult[];
   isAddingToNotion: boolean;
   isCheckingDuplicates: boolean;
   selectedCategoriesCount: number;
   duplicateCheckButtonRef: React.RefObject<HTMLButtonElement>;
   onCheckForDuplicates: () => void;
   onAddToNotion: () => void;
+  // Set when the book was opened from the library, so it updates that page instead of adding one
+  existingPageUrl?: string;
 }
 
 const NotionFooter: React.FC<NotionFooterProps> = ({
   isNotionConnected,
   duplicateStatus,
   duplicateCount,
-  duplicatePages = [],
+  duplicateCandidates = [],
   isAddingToNotion,
   isCheckingDuplicates,
   selectedCategoriesCount,
   duplicateCheckButtonRef,
   onCheckForDuplicates,
-  onAddToNotion
+  onAddToNotion,
+  existingPageUrl
 }) => {
   const [showDuplicatesList, setShowDuplicatesList] = useState(false);
   const [dropdownPosition, setDropdownPosition] = useState<'below' | 'above'>('below');
@@ -50,7 +56,18 @@ const NotionFooter: React.FC<NotionFooterProps> = ({
     <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3">
-          {isNotionConnected && (
+          {isNotionConnected && existingPageUrl && (
+            <a
+              href={existingPageUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-4 py-2 text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors flex items-center gap-2"
+            >
+              Open in Notion
+              <ArrowSquareOutIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+            </a>
+          )}
+          {isNotionConnected && !existingPageUrl && (
             <div className="flex items-center gap-2">
               <button
                 ref={duplicateCheckButtonRef}
@@ -69,18 +86,24 @@ const NotionFooter: React.FC<NotionFooterProps> = ({
                   Checking...
                 </div>
               )}
-              {duplicateStatus === 'duplicate' && duplicateCount > 0 && (
+              {(duplicateStatus === 'duplicate' || duplicateStatus === 'possible-duplicate') && duplicateCount > 0 && (
                 <div className="relative">
                   <button
                     ref={duplicateButtonRef}
                     onClick={() => setShowDuplicatesList(!showDuplicatesList)}
-                    className="group px-4 py-2 text-yellow-700 bg-yellow-200 hover:bg-yellow-300 rounded-lg transition-colors flex items-center gap-2"
+                    className={`group px-4 py-2 rounded-lg transition-colors flex items-center gap-2 ${
+                      duplicateStatus === 'duplicate'
+                        ? 'text-yellow-700 bg-yellow-200 hover:bg-yellow-300'
+                        : 'text-gray-700 bg-gray-200 hover:bg-gray-300'
+                    }`}
                   >
                     <span className="text-base font-bold animate-pulse group-hover:animate-wiggle">
                       {duplicateCount}
                     </span>
                     <span className="text-sm">
-                      duplicate{duplicateCount > 1 ? 's' : ''} found
+                      {duplicateStatus === 'duplicate'
+                        ? `duplicate${duplicateCount > 1 ? 's' : ''} found`
+                        : `similar book${duplicateCount > 1 ? 's' : ''}`}
                     </span>
                     <CaretDownIcon 
                       size={ICON_CONTEXTS.UI.BUTTON} 
@@ -92,22 +115,22 @@ const NotionFooter: React.FC<NotionFooterProps> = ({
                   </button>
                   
                   {/* Duplicates List Dropdown */}
-                  {showDuplicatesList && duplicatePages.length > 0 && (
+                  {showDuplicatesList && duplicateCandidates.length > 0 && (
                     <div className={`absolute left-0 ${
                       dropdownPosition === 'above' ? 'bottom-full mb-2' : 'top-full mt-2'
                     } bg-white border border-gray-200 rounded-lg shadow-lg z-10 min-w-80 max-w-md`}>
                       <div className="p-3 border-b border-gray-200">
                         <h4 className="text-sm font-semibold text-gray-900">
-                          Duplicate Pages in Notion
+                          {duplicateStatus === 'duplicate' ? 'Duplicate Pages in Notion' : 'Similar Pages in Notion'}
                         </h4>
                         <p className="text-xs text-gray-600 mt-1">
-                          Click to open existing pages
+                          Scored by ISBN, edition, title and author. Click to open existing pages
                         </p>
                       </div>
                       <div className="max-h-48 overflow-y-auto">
-                        {duplicatePages.map((page, index) => (
+                        {duplicateCandidates.map(page => (
                           <a
-                            key={index}
+                            key={page.id}
                             href={page.url}
                             target="_blank"
                             rel="noopener noreferrer"
@@ -118,9 +141,10 @@ const NotionFooter: React.FC<NotionFooterProps> = ({
                                 {page.title}
                               </p>
                               <p className="text-xs text-gray-500 truncate">
-                                {page.url.replace(/^https?:\/\//, '').split('/')[0]}
+                                {page.reasons.join(' · ')}
                               </p>
                             </div>
+                            <DuplicateScoreBadge candidate={page} />
                             <ArrowSquareOutIcon 
                               size={ICON_CONTEXTS.UI.BUTTON} 
                               weight={ICON_WEIGHTS.BOLD}
@@ -137,6 +161,7 @@ const NotionFooter: React.FC<NotionFooterProps> = ({
           )}
         </div>
         <div className="flex items-center gap-3">
+          {isNotionConnected && !existingPageUrl && <ProfileSwitcher disabled={isAddingToNotion} />}
           {isNotionConnected ? (
             <button
               onClick={onAddToNotion}
@@ -149,10 +174,10 @@ const NotionFooter: React.FC<NotionFooterProps> = ({
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  Adding to Notion...
+                  {existingPageUrl ? 'Updating Notion...' : 'Adding to Notion...'}
                 </>
               ) : (
-                'Add to Notion'
+                existingPageUrl ? 'Update in Notion' : 'Add to Notion'
               )}
             </button>
           ) : (
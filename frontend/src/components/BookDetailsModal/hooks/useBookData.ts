@@ -4,6 +4,7 @@ import { BookService } from '../../../services/bookService';
 import { CategoryService } from '../../../services/categoryService';
 import { FieldSelections } from '../BookInfoPanel';
 import { extractPlainText } from '../utils/htmlUtils';
+import { BookSeriesInfo, formatSeries, getAudiobookSeries, getBookSeries, getPrintSeries } from '../utils/seriesUtils';
 import { toast } from 'react-hot-toast';
 import { API_BASE_URL } from '../../../utils/api';
 
@@ -118,10 +119,13 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
           }
           break;
         case 'description':
+          finalData.descriptionHtml = null;
           if (selection === 'audiobook' && currentBook.audiobookData?.description) {
             finalData.description = extractPlainText(currentBook.audiobookData.description);
+            finalData.descriptionHtml = currentBook.audiobookData.description;
           } else if (selection === 'audiobook_summary' && currentBook.audiobookData?.summary) {
             finalData.description = extractPlainText(currentBook.audiobookData.summary);
+            finalData.descriptionHtml = currentBook.audiobookData.summary;
           } else if (typeof selection === 'string' && selection.startsWith('variant_') && currentBook.editionVariants) {
             const variantIndex = parseInt(selection.replace('variant_', ''));
             const variant = currentBook.editionVariants[variantIndex];
@@ -177,6 +181,21 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
             finalData.pageCount = book.pageCount;
           }
           break;
+        case 'series': {
+          let selectedSeries: BookSeriesInfo | null = null;
+          if (selection === 'audiobook') {
+            selectedSeries = getAudiobookSeries(currentBook);
+          } else if (typeof selection === 'number' && editions[selection]) {
+            selectedSeries = getPrintSeries(editions[selection]);
+          } else {
+            selectedSeries = getPrintSeries(currentBook);
+          }
+          if (selectedSeries) {
+            finalData.series = selectedSeries.name;
+            finalData.seriesNumber = selectedSeries.number;
+          }
+          break;
+        }
       }
     });
 
@@ -191,6 +210,7 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
         pageCount: 'original',
         releaseDate: 'original',
         thumbnail: 'original',
+        series: 'original',
       } as FieldSelections),
       [fieldId]: value,
     };
@@ -210,6 +230,7 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
     const savedPublisherDefault = CategoryService.getFieldDefault('publisher');
     const savedReleaseDateDefault = CategoryService.getFieldDefault('releaseDate');
     const savedThumbnailDefault = CategoryService.getFieldDefault('thumbnail');
+    const savedSeriesDefault = CategoryService.getFieldDefault('series');
     
     const updatedSelections: FieldSelections = { 
       ...(fieldSelections || {
@@ -218,6 +239,7 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
         pageCount: 'original',
         releaseDate: 'original',
         thumbnail: 'original',
+        series: 'original',
       })
     } as FieldSelections;
 
@@ -255,12 +277,18 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
         updatedSelections.releaseDate = 'audiobook';
         needsUpdate = true;
       }
+
+      // Audible usually knows the series even when the print record doesn't
+      if ((savedSeriesDefault === 'audiobook' || !currentBook.series) && currentBook.audiobookData.series && updatedSelections.series !== 'audiobook') {
+        updatedSelections.series = 'audiobook';
+        needsUpdate = true;
+      }
     }
 
     if (needsUpdate) {
       setFieldSelections(updatedSelections);
     }
-  }, [editions.length, fieldSelections, isOpen, currentBook.audiobookData]);
+  }, [editions.length, fieldSelections, isOpen, currentBook.audiobookData, currentBook.series]);
 
   const fetchAllEditionsCategories = useCallback(async () => {
     if (!currentBook.openLibraryKey) return;
@@ -291,6 +319,10 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
           queryParams.append('originalTitle', normalizedTitle);
         }
       }
+      const providers = BookService.getEnabledProviderIds();
+      if (providers) {
+        queryParams.append('providers', providers.join(','));
+      }
       const queryString = queryParams.toString();
       if (queryString) {
         url += `?${queryString}`;
@@ -466,6 +498,12 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
   const getFieldSources = (fieldId: string) => {
     const sources: Array<{value: string | number, label: string, content: any}> = [];
 
+    // The series number always comes from whichever source was picked for the series
+    if (fieldId === 'seriesNumber') {
+      const seriesNumber = getBookSeries(getFinalBookData())?.number;
+      return seriesNumber ? [{ value: 'series', label: 'Same as Series', content: String(seriesNumber) }] : [];
+    }
+
     // Helper to get the value from the main book object
     const getMainValue = (field: string): any => {
       switch (field) {
@@ -480,6 +518,7 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
         case 'isbn10': return currentBook.isbn10;
         case 'rating': return currentBook.averageRating;
         case 'categories': return currentBook.categories?.length ? `${currentBook.categories.length} categories` : null;
+        case 'series': return formatSeries(getPrintSeries(currentBook));
         // Audiobook-specific fields
         case 'audiobookPublisher': return currentBook.audiobookData?.publisher;
         case 'audiobookNarrators': 
@@ -589,6 +628,7 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
           case 'description': editionValue = edition.description; break;
           case 'thumbnail': editionValue = edition.thumbnail; break;
           case 'releaseDate': editionValue = edition.publishedDate; break;
+          case 'series': editionValue = formatSeries(getPrintSeries(edition)); break;
         }
 
         // Add if the edition has a value and it's not already in sources
@@ -618,6 +658,10 @@ export const useBookData = ({ book, isOpen, notionSettings }: UseBookDataProps):
        if (fieldId === 'publisher' && currentBook.audiobookData.publisher && !sources.some(s => s.value === 'audiobook')) {
         sources.push({ value: 'audiobook', label: 'Audiobook', content: currentBook.audiobookData.publisher });
       }
+      const audiobookSeries = getAudiobookSeries(currentBook);
+      if (fieldId === 'series' && audiobookSeries && !sources.some(s => s.value === 'audiobook')) {
+        sources.push({ value: 'audiobook', label: 'Audiobook', content: formatSeries(audiobookSeries) });
+      }
     }
     
     // Remove duplicates based on content, prioritizing 'original' and then others
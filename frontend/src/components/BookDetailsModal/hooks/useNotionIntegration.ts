@@ -2,7 +2,14 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { toast } from 'react-hot-toast';
 import { BookSearchResult } from '../../../types/book';
 import { NotionService } from '../../../services/notionService';
-import { CreateNotionPageRequest } from '../../../types/notion';
+import { useNotionActivity } from '../../../contexts/NotionActivityContext';
+import {
+  CreateNotionPageRequest,
+  DuplicateStatus,
+  LIKELY_DUPLICATE_SCORE,
+  NotionBookSearchResult
+} from '../../../types/notion';
+import { PropertyDiff, applyPageDiffs, buildPageDiffs } from '../utils/pageMerge';
 
 const areMappingsEqual = (a: any, b: any) => {
   if (a === b) return true;
@@ -28,6 +35,8 @@ interface UseNotionIntegrationProps {
   notionSettings?: any;
   onSettingsUpdated?: (updatedSettings: any) => void;
   currentBook?: BookSearchResult;
+  // The page the book was opened from in the library; saving updates it instead of adding a page
+  existingPage?: { id: string; url: string } | null;
 }
 
 interface SuccessModalData {
@@ -36,31 +45,50 @@ interface SuccessModalData {
   categoriesCount: number;
   dateType: string;
   actionType: 'added' | 'updated' | 'added as separate entry';
+  activityId?: string; // Session activity entry, for undo
+}
+
+// The existing page being compared with the book before it is replaced
+interface MergeReview {
+  page: NotionBookSearchResult;
+  diffs: PropertyDiff[];
+  finalBookData: BookSearchResult;
+  selectedCategories: string[];
 }
 
 interface UseNotionIntegrationReturn {
-  duplicateStatus: 'unknown' | 'checking' | 'duplicate' | 'unique';
+  duplicateStatus: DuplicateStatus;
   duplicateCount: number;
-  existingNotionPage: { url: string; title: string } | null;
-  duplicatePages: Array<{ title: string; url: string }>;
+  duplicateCandidates: NotionBookSearchResult[];
   isAddingToNotion: boolean;
   duplicateAction: 'cancel' | 'replace' | 'keep-both' | null;
   showDuplicateModal: boolean;
   showSuccessModal: boolean;
   successModalData: SuccessModalData | null;
+  canUndoSuccessAction: boolean;
+  isUndoingSuccessAction: boolean;
+  mergeReview: MergeReview | null;
   tempFieldMappings: any;
   databaseProperties: any;
   loadingDatabaseProperties: boolean;
   duplicateCheckButtonRef: React.RefObject<HTMLButtonElement>;
   checkForDuplicates: (showToast?: boolean) => Promise<string>;
   addToNotion: (finalBookData: BookSearchResult, selectedCategories: string[]) => Promise<void>;
-  replaceExistingNotionPage: (finalBookData: BookSearchResult, selectedCategories: string[]) => Promise<void>;
+  replaceExistingNotionPage: (
+    finalBookData: BookSearchResult,
+    selectedCategories: string[],
+    page: NotionBookSearchResult,
+    request?: CreateNotionPageRequest
+  ) => Promise<void>;
   createNewNotionPage: (finalBookData: BookSearchResult, selectedCategories: string[]) => Promise<void>;
   handleDuplicateCancel: () => void;
-  handleDuplicateReplace: (finalBookData: BookSearchResult, selectedCategories: string[]) => void;
+  handleDuplicateReplace: (finalBookData: BookSearchResult, selectedCategories: string[], page: NotionBookSearchResult) => void;
   handleDuplicateKeepBoth: (finalBookData: BookSearchResult, selectedCategories: string[]) => void;
+  confirmMergeReview: (diffs: PropertyDiff[]) => void;
+  cancelMergeReview: () => void;
   setShowSuccessModal: (show: boolean) => void;
   setSuccessModalData: (data: SuccessModalData | null) => void;
+  undoSuccessAction: () => Promise<void>;
   handleTempFieldMappingChange: (bookField: string, notionProperty: string) => void;
   resetTempFieldMappings: () => void;
   saveTempFieldMappings: () => Promise<void>;
@@ -72,24 +100,26 @@ export const useNotionIntegration = ({
   isNotionConnected,
   notionSettings,
   onSettingsUpdated,
-  currentBook
+  currentBook,
+  existingPage
 }: UseNotionIntegrationProps): UseNotionIntegrationReturn => {
-  const [duplicateStatus, setDuplicateStatus] = useState<'unknown' | 'checking' | 'duplicate' | 'unique'>('unknown');
-  const [duplicateCount, setDuplicateCount] = useState<number>(0);
-  const [existingNotionPage, setExistingNotionPage] = useState<{ url: string; title: string } | null>(null);
-  const [duplicatePages, setDuplicatePages] = useState<Array<{ title: string; url: string }>>([]);
+  const [duplicateStatus, setDuplicateStatus] = useState<DuplicateStatus>('unknown');
+  const [duplicateCandidates, setDuplicateCandidates] = useState<NotionBookSearchResult[]>([]);
   const [isAddingToNotion, setIsAddingToNotion] = useState(false);
   const [duplicateAction, setDuplicateAction] = useState<'cancel' | 'replace' | 'keep-both' | null>(null);
   const [showDuplicateModal, setShowDuplicateModal] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successModalData, setSuccessModalData] = useState<SuccessModalData | null>(null);
+  const [mergeReview, setMergeReview] = useState<MergeReview | null>(null);
   const [tempFieldMappings, setTempFieldMappings] = useState<any>(null);
   const [databaseProperties, setDatabaseProperties] = useState<any>(null);
   const [loadingDatabaseProperties, setLoadingDatabaseProperties] = useState(false);
   const lastLoadedDatabaseIdRef = useRef<string | null>(null);
+  const { recordActivity, canUndo, undoActivity, undoingId } = useNotionActivity();
 
   const duplicateCheckButtonRef = useRef<HTMLButtonElement>(null);
   const hasAutoChecked = useRef(false);
+  const checkedDatabaseIdRef = useRef<string | undefined>(notionSettings?.databaseId);
 
   // Initialize temp field mappings when modal opens or settings change
   useEffect(() => {
@@ -153,60 +183,58 @@ export const useNotionIntegration = ({
     if (!isOpen) {
       hasAutoChecked.current = false;
       setDuplicateStatus('unknown');
-      setDuplicateCount(0);
-      setExistingNotionPage(null);
-      setDuplicatePages([]);
+      setDuplicateCandidates([]);
       setShowDuplicateModal(false);
       setDuplicateAction(null);
+      setMergeReview(null);
     }
   }, [isOpen]);
 
-  // Check for duplicates
-  const checkForDuplicates = useCallback(async (showToast: boolean = true) => {
-    if (!isNotionConnected || !notionSettings?.databaseId) {
+  // Switching profiles changes the database, so earlier duplicate results no longer apply
+  useEffect(() => {
+    if (checkedDatabaseIdRef.current === notionSettings?.databaseId) return;
+    checkedDatabaseIdRef.current = notionSettings?.databaseId;
+    hasAutoChecked.current = false;
+    setDuplicateStatus('unknown');
+    setDuplicateCandidates([]);
+  }, [notionSettings?.databaseId]);
+
+  // Check for duplicates: pages scored by ISBN, Open Library work, title and author
+  const checkForDuplicates = useCallback(async (showToast: boolean = true): Promise<DuplicateStatus> => {
+    if (!isNotionConnected || !notionSettings?.databaseId || !currentBook) {
       return 'unknown';
     }
 
     try {
       setDuplicateStatus('checking');
-      // Note: We need the current book to be passed in somehow, for now using a placeholder
-      // This will need to be refactored to accept the current book as a parameter
-      const existingBooks = await NotionService.searchExistingBooks(
+      const candidates = await NotionService.searchExistingBooks(
         notionSettings.databaseId,
-        currentBook?.isbn13 || currentBook?.isbn10 || '',
-        currentBook?.title || '',
+        currentBook,
         notionSettings.fieldMapping
       );
 
-      if (existingBooks.length > 0) {
-        setDuplicateStatus('duplicate');
-        setDuplicateCount(existingBooks.length);
-        setExistingNotionPage({
-          url: existingBooks[0].url,
-          title: existingBooks[0].title
-        });
-        setDuplicatePages(existingBooks.map(book => ({
-          title: book.title,
-          url: book.url
-        })));
-        if (showToast) {
-          toast(`This book already exists in your Notion database (${existingBooks.length} match${existingBooks.length > 1 ? 'es' : ''})`, {
+      const status: DuplicateStatus = candidates.length === 0
+        ? 'unique'
+        : candidates[0].score >= LIKELY_DUPLICATE_SCORE ? 'duplicate' : 'possible-duplicate';
+      setDuplicateStatus(status);
+      setDuplicateCandidates(candidates);
+
+      if (showToast) {
+        if (status === 'duplicate') {
+          toast(`This book already exists in your Notion database (${candidates.length} match${candidates.length > 1 ? 'es' : ''})`, {
             duration: 4000,
           });
-        }
-        return 'duplicate';
-      } else {
-        setDuplicateStatus('unique');
-        setDuplicateCount(0);
-        setExistingNotionPage(null);
-        setDuplicatePages([]);
-        if (showToast) {
+        } else if (status === 'possible-duplicate') {
+          toast(`Found ${candidates.length} similar book${candidates.length > 1 ? 's' : ''} in your Notion database`, {
+            duration: 4000,
+          });
+        } else {
           toast.success('No duplicates found! This book is unique in your database.', {
             duration: 3000,
           });
         }
-        return 'unique';
       }
+      return status;
     } catch (error) {
       console.error('Duplicate check failed:', error);
       setDuplicateStatus('unknown');
@@ -215,17 +243,17 @@ export const useNotionIntegration = ({
       }
       return 'unknown';
     }
-  }, [currentBook?.isbn10, currentBook?.isbn13, currentBook?.title, isNotionConnected, notionSettings]);
+  }, [currentBook, isNotionConnected, notionSettings]);
 
   // Auto-check for duplicates when modal opens
   useEffect(() => {
-    if (isOpen && isNotionConnected && notionSettings?.databaseId && !hasAutoChecked.current) {
+    if (isOpen && isNotionConnected && notionSettings?.databaseId && !existingPage && !hasAutoChecked.current) {
       setTimeout(() => {
         hasAutoChecked.current = true;
         checkForDuplicates(false); // Auto-check without showing toast
       }, 100);
     }
-  }, [isOpen, isNotionConnected, notionSettings?.databaseId, checkForDuplicates]);
+  }, [isOpen, isNotionConnected, notionSettings?.databaseId, existingPage, checkForDuplicates]);
 
   // Create a notion page request helper
   const createNotionRequest = (finalBookData: BookSearchResult, selectedCategories: string[]): CreateNotionPageRequest => {
@@ -242,7 +270,8 @@ export const useNotionIntegration = ({
       databaseId: notionSettings!.databaseId,
       bookData: bookDataWithSelectedCategories,
       fieldMapping: tempFieldMappings || notionSettings!.fieldMapping,
-      customValues: notionSettings!.defaultValues
+      defaultValues: notionSettings!.defaultValues,
+      coverImages: notionSettings!.coverImages
     };
   };
 
@@ -271,13 +300,39 @@ export const useNotionIntegration = ({
         return;
       }
 
+      // A book opened from the library is already in the database, so it only updates its own page
+      if (existingPage) {
+        const request = createNotionRequest(finalBookData, selectedCategories);
+        const updatedPage = await NotionService.updateBookPage(existingPage.id, request);
+
+        toast.success(`"${finalBookData.title}" updated in Notion!`);
+
+        setSuccessModalData({
+          bookTitle: finalBookData.title,
+          notionUrl: existingPage.url,
+          categoriesCount: selectedCategories.length,
+          dateType: 'multiple dates available',
+          actionType: 'updated',
+          activityId: recordActivity({
+            action: 'updated',
+            pageId: existingPage.id,
+            pageUrl: existingPage.url,
+            bookTitle: finalBookData.title,
+            previous: updatedPage.previous
+          })
+        });
+
+        setShowSuccessModal(true);
+        return;
+      }
+
       let currentDuplicateStatus = duplicateStatus;
       if (duplicateStatus === 'unknown') {
         currentDuplicateStatus = await checkForDuplicates();
       }
 
-      // If duplicate found and no action set, show modal
-      if (currentDuplicateStatus === 'duplicate' && !duplicateAction) {
+      // If duplicates or similar books were found and no action set, show modal
+      if ((currentDuplicateStatus === 'duplicate' || currentDuplicateStatus === 'possible-duplicate') && !duplicateAction) {
         setShowDuplicateModal(true);
         return; // Modal handlers will take care of the rest
       }
@@ -295,7 +350,13 @@ export const useNotionIntegration = ({
           notionUrl: createdPage.url,
           categoriesCount: selectedCategories.length,
           dateType: 'multiple dates available',
-          actionType: actionType as 'added' | 'added as separate entry'
+          actionType: actionType as 'added' | 'added as separate entry',
+          activityId: recordActivity({
+            action: 'created',
+            pageId: createdPage.id,
+            pageUrl: createdPage.url,
+            bookTitle: finalBookData.title
+          })
         });
         
         setDuplicateAction(null);
@@ -312,9 +373,47 @@ export const useNotionIntegration = ({
     }
   };
 
-  // Replace existing Notion page
-  const replaceExistingNotionPage = async (finalBookData: BookSearchResult, selectedCategories: string[]) => {
-    if (!existingNotionPage || !notionSettings) {
+  // Compare the existing page with the book so each property can be kept, replaced or merged
+  const openMergeReview = async (
+    finalBookData: BookSearchResult,
+    selectedCategories: string[],
+    existingNotionPage: NotionBookSearchResult
+  ) => {
+    if (!notionSettings) {
+      toast.error('Cannot replace: existing page not found');
+      return;
+    }
+
+    try {
+      setIsAddingToNotion(true);
+
+      const page = await NotionService.getPage(existingNotionPage.id);
+      const request = createNotionRequest(finalBookData, selectedCategories);
+
+      setMergeReview({
+        page: existingNotionPage,
+        diffs: buildPageDiffs(page, request),
+        finalBookData,
+        selectedCategories
+      });
+    } catch (error) {
+      console.error('Loading existing page failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to load the existing page: ${errorMessage}`);
+      setDuplicateAction(null);
+    } finally {
+      setIsAddingToNotion(false);
+    }
+  };
+
+  // Replace existing Notion page; `request` limits the update to the properties chosen in the review
+  const replaceExistingNotionPage = async (
+    finalBookData: BookSearchResult,
+    selectedCategories: string[],
+    existingNotionPage: NotionBookSearchResult,
+    request: CreateNotionPageRequest = createNotionRequest(finalBookData, selectedCategories)
+  ) => {
+    if (!notionSettings) {
       toast.error('Cannot replace: existing page not found');
       return;
     }
@@ -329,22 +428,7 @@ export const useNotionIntegration = ({
         return;
       }
 
-      // Extract page ID from URL
-      const urlPart = existingNotionPage.url.split('/').pop()?.split('?')[0];
-      
-      if (!urlPart) {
-        throw new Error('Could not extract page information from Notion URL');
-      }
-      
-      const pageIdMatch = urlPart.match(/([a-f0-9]{32})$/i);
-      const pageId = pageIdMatch ? pageIdMatch[1] : urlPart;
-      
-      if (!pageId || pageId.length !== 32) {
-        throw new Error(`Invalid Notion page ID extracted: "${pageId}". Expected 32-character hex string.`);
-      }
-
-      const request = createNotionRequest(finalBookData, selectedCategories);
-      await NotionService.updateBookPage(pageId, request);
+      const updatedPage = await NotionService.updateBookPage(existingNotionPage.id, request);
       
       toast.success(`"${finalBookData.title}" updated in Notion!`);
       
@@ -353,7 +437,14 @@ export const useNotionIntegration = ({
         notionUrl: existingNotionPage.url,
         categoriesCount: selectedCategories.length,
         dateType: 'multiple dates available',
-        actionType: 'updated'
+        actionType: 'updated',
+        activityId: recordActivity({
+          action: 'updated',
+          pageId: existingNotionPage.id,
+          pageUrl: existingNotionPage.url,
+          bookTitle: finalBookData.title,
+          previous: updatedPage.previous
+        })
       });
       
       setShowSuccessModal(true);
@@ -393,7 +484,13 @@ export const useNotionIntegration = ({
           notionUrl: createdPage.url,
           categoriesCount: selectedCategories.length,
           dateType: 'multiple dates available',
-          actionType: 'added'
+          actionType: 'added',
+          activityId: recordActivity({
+            action: 'created',
+            pageId: createdPage.id,
+            pageUrl: createdPage.url,
+            bookTitle: finalBookData.title
+          })
         });
         
         setShowSuccessModal(true);
@@ -416,10 +513,23 @@ export const useNotionIntegration = ({
     setIsAddingToNotion(false);
   };
 
-  const handleDuplicateReplace = (finalBookData: BookSearchResult, selectedCategories: string[]) => {
+  const handleDuplicateReplace = (finalBookData: BookSearchResult, selectedCategories: string[], page: NotionBookSearchResult) => {
     setDuplicateAction('replace');
     setShowDuplicateModal(false);
-    setTimeout(() => replaceExistingNotionPage(finalBookData, selectedCategories), 50);
+    setTimeout(() => openMergeReview(finalBookData, selectedCategories, page), 50);
+  };
+
+  const confirmMergeReview = async (diffs: PropertyDiff[]) => {
+    if (!mergeReview) return;
+    const { page, finalBookData, selectedCategories } = mergeReview;
+    const request = applyPageDiffs(createNotionRequest(finalBookData, selectedCategories), diffs);
+    await replaceExistingNotionPage(finalBookData, selectedCategories, page, request);
+    setMergeReview(null);
+  };
+
+  const cancelMergeReview = () => {
+    setMergeReview(null);
+    setDuplicateAction('cancel');
   };
 
   const handleDuplicateKeepBoth = (finalBookData: BookSearchResult, selectedCategories: string[]) => {
@@ -428,6 +538,20 @@ export const useNotionIntegration = ({
     setTimeout(() => createNewNotionPage(finalBookData, selectedCategories), 50);
   };
 
+  // Undo the add or update shown in the success modal
+  const undoSuccessAction = async () => {
+    if (!successModalData?.activityId) return;
+    const undone = await undoActivity(successModalData.activityId);
+    if (!undone) return;
+
+    setShowSuccessModal(false);
+    setSuccessModalData(null);
+    // The database changed, so earlier duplicate results no longer apply
+    setDuplicateAction(null);
+    setDuplicateStatus('unknown');
+    setDuplicateCandidates([]);
+  };
+
   // Handle temporary field mapping changes
   const handleTempFieldMappingChange = (bookField: string, notionProperty: string) => {
     setTempFieldMappings((prev: any) => ({
@@ -478,14 +602,16 @@ export const useNotionIntegration = ({
 
   return {
     duplicateStatus,
-    duplicateCount,
-    existingNotionPage,
-    duplicatePages,
+    duplicateCount: duplicateCandidates.length,
+    duplicateCandidates,
     isAddingToNotion,
     duplicateAction,
     showDuplicateModal,
     showSuccessModal,
     successModalData,
+    canUndoSuccessAction: !!successModalData?.activityId && canUndo(successModalData.activityId),
+    isUndoingSuccessAction: !!successModalData?.activityId && undoingId === successModalData.activityId,
+    mergeReview,
     tempFieldMappings,
     databaseProperties,
     loadingDatabaseProperties,
@@ -497,8 +623,11 @@ export const useNotionIntegration = ({
     handleDuplicateCancel,
     handleDuplicateReplace,
     handleDuplicateKeepBoth,
+    confirmMergeReview,
+    cancelMergeReview,
     setShowSuccessModal,
     setSuccessModalData,
+    undoSuccessAction,
     handleTempFieldMappingChange,
     resetTempFieldMappings,
     saveTempFieldMappings,
@@ -5,8 +5,10 @@ import BookDataRow from './BookDataRow';
 import FieldSourceSelectionModal from './FieldSourceSelectionModal';
 import ManualMappingModal from './ManualMappingModal';
 import DuplicateBookModal from './DuplicateBookModal';
+import PageMergeModal from './PageMergeModal';
 import SuccessModal from './SuccessModal';
 import SourceBrowser from './SourceBrowser';
+import PageTemplatePreview from './PageTemplatePreview';
 
 // New components
 import BookHeader from './components/BookHeader';
@@ -29,8 +31,10 @@ export {
   FieldSourceSelectionModal,
   ManualMappingModal,
   DuplicateBookModal,
+  PageMergeModal,
   SuccessModal,
   SourceBrowser,
+  PageTemplatePreview,
   BookHeader,
   ActionBar,
   NotionFooter
@@ -0,0 +1,142 @@
+import { FieldTransform } from '../../../types/notion';
+
+// Mirrors backend/src/utils/fieldTransforms.js, which applies the transforms when pages are
+// written, so mapping previews show exactly what Notion will receive.
+
+export type TransformValue = string | number | Array<string | number> | null | undefined;
+
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'ter', 'st.', 'bin', 'al']);
+const NAME_SUFFIXES = /^(jr\.?|sr\.?|ii|iii|iv|phd|md)$/i;
+const SMALL_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'in', 'nor', 'of', 'on', 'or', 'the', 'to', 'up', 'via', 'vs']);
+const MAX_PATTERN_LENGTH = 200;
+
+export const TRANSFORM_TYPES: Array<{ type: FieldTransform['type']; label: string; create: () => FieldTransform }> = [
+  { type: 'nameFormat', label: 'Name format', create: () => ({ type: 'nameFormat', format: 'lastFirst' }) },
+  { type: 'case', label: 'Change case', create: () => ({ type: 'case', mode: 'title' }) },
+  { type: 'stripSubtitle', label: 'Strip subtitle', create: () => ({ type: 'stripSubtitle' }) },
+  { type: 'duration', label: 'Duration as number', create: () => ({ type: 'duration', unit: 'hours' }) },
+  { type: 'year', label: 'Year only', create: () => ({ type: 'year' }) },
+  { type: 'join', label: 'Join list', create: () => ({ type: 'join', separator: ', ' }) },
+  { type: 'affix', label: 'Prefix / suffix', create: () => ({ type: 'affix', prefix: '', suffix: '' }) },
+  { type: 'replace', label: 'Find and replace (regex)', create: () => ({ type: 'replace', pattern: '', replacement: '' }) }
+];
+
+const formatName = (name: string, format: string): string => {
+  if (name.includes(',') || !/\s/.test(name.trim())) return name;
+  const words = name.trim().split(/\s+/);
+  const suffix = words.length > 2 && NAME_SUFFIXES.test(words[words.length - 1].replace(/,$/, '')) ? words.pop() : null;
+  let lastStart = words.length - 1;
+  while (lastStart > 1 && NAME_PARTICLES.has(words[lastStart - 1].toLowerCase())) lastStart--;
+  const first = words.slice(0, lastStart).join(' ').replace(/,$/, '');
+  const last = words.slice(lastStart).join(' ');
+
+  switch (format) {
+    case 'lastFirst':
+      return `${last}, ${first}${suffix ? `, ${suffix}` : ''}`;
+    case 'initialsLast':
+      return `${first.split(/[\s.]+/).filter(Boolean).map(part => `${part[0].toUpperCase()}.`).join(' ')} ${last}`;
+    case 'lastOnly':
+      return last;
+    default:
+      return name;
+  }
+};
+
+const toTitleCase = (text: string): string => {
+  const source = text === text.toUpperCase() ? text.toLowerCase() : text;
+  const words = source.split(/(\s+)/);
+  const lastWord = words.length - 1;
+  return words.map((word, index) => {
+    if (/^\s+$/.test(word)) return word;
+    if (index !== 0 && index !== lastWord && SMALL_WORDS.has(word.toLowerCase())) return word.toLowerCase();
+    return word.replace(/^([^a-zà-ÿ]*)([a-zà-ÿ])/, (_, lead, letter) => lead + letter.toUpperCase());
+  }).join('');
+};
+
+const stripSubtitle = (title: string): string => title
+  .replace(/\s*[([][^)\]]*[)\]]\s*$/, '')
+  .split(/\s*[:—–]\s+|\s+-\s+/)[0]
+  .trim();
+
+const parseDurationMinutes = (value: string | number): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim().toLowerCase();
+
+  const clock = /^(\d+):(\d{1,2})(?::(\d{1,2}))?$/.exec(text);
+  if (clock) {
+    return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10) + (clock[3] ? parseInt(clock[3], 10) / 60 : 0);
+  }
+
+  const hours = /(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/.exec(text);
+  const minutes = /(\d+(?:\.\d+)?)\s*(?:m|min|mins|minute|minutes)\b/.exec(text);
+  if (hours || minutes) {
+    return (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0);
+  }
+
+  return /^\d+(?:\.\d+)?$/.test(text) ? parseFloat(text) : null;
+};
+
+// The regex error, if any, so the editor can flag the pattern
+export const getPatternError = (pattern: string): string | null => {
+  if (!pattern) return null;
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+const transformItem = (value: string | number, transform: FieldTransform): string | number => {
+  if (value === '') return value;
+
+  switch (transform.type) {
+    case 'nameFormat':
+      return formatName(String(value), transform.format);
+    case 'case': {
+      const text = String(value);
+      if (transform.mode === 'upper') return text.toUpperCase();
+      if (transform.mode === 'lower') return text.toLowerCase();
+      return toTitleCase(text);
+    }
+    case 'stripSubtitle':
+      return stripSubtitle(String(value)) || value;
+    case 'duration': {
+      const minutes = parseDurationMinutes(value);
+      if (minutes === null) return value;
+      return transform.unit === 'hours' ? Math.round((minutes / 60) * 100) / 100 : Math.round(minutes);
+    }
+    case 'year':
+      return /\d{4}/.exec(String(value))?.[0] || value;
+    case 'affix':
+      return `${transform.prefix || ''}${value}${transform.suffix || ''}`;
+    case 'replace': {
+      if (!transform.pattern || getPatternError(transform.pattern)) return value;
+      return String(value).replace(new RegExp(transform.pattern, transform.ignoreCase ? 'gi' : 'g'), transform.replacement || '');
+    }
+    default:
+      return value;
+  }
+};
+
+export const applyFieldTransforms = (value: TransformValue, transforms?: FieldTransform[]): TransformValue => {
+  if (!transforms || transforms.length === 0) return value;
+
+  return transforms.reduce<TransformValue>((current, transform) => {
+    if (current === null || current === undefined) return current;
+    if (transform.type === 'join') {
+      return Array.isArray(current)
+        ? current.filter(item => item !== null && item !== undefined && item !== '').join(transform.separator ?? ', ')
+        : current;
+    }
+    return Array.isArray(current)
+      ? current.map(item => transformItem(item, transform))
+      : transformItem(current, transform);
+  }, value);
+};
+
+export const formatTransformValue = (value: TransformValue): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return Array.isArray(value) ? value.join(' | ') : String(value);
+};
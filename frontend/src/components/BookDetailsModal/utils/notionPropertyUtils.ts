@@ -0,0 +1,69 @@
+// What kind of value each book field holds, which decides the Notion property types it can fill
+type BookFieldKind = 'text' | 'longText' | 'list' | 'person' | 'number' | 'date' | 'url' | 'image' | 'status';
+
+const BOOK_FIELD_KINDS: Record<string, BookFieldKind> = {
+  title: 'text',
+  authors: 'person',
+  description: 'longText',
+  isbn: 'text',
+  isbn13: 'text',
+  isbn10: 'text',
+  publisher: 'text',
+  pageCount: 'number',
+  categories: 'list',
+  rating: 'number',
+  thumbnail: 'image',
+  status: 'status',
+  notes: 'longText',
+  releaseDate: 'date',
+  dateRead: 'date',
+  dateAdded: 'date',
+  series: 'text',
+  seriesNumber: 'number',
+  audiobookPublisher: 'text',
+  audiobookChapters: 'number',
+  audiobookASIN: 'text',
+  audiobookNarrators: 'person',
+  audiobookDuration: 'text',
+  audiobookURL: 'url',
+  audiobookRating: 'text'
+};
+
+// Book field kinds each writable Notion property type accepts. Email and phone number properties
+// only take values supplied by imports, and computed properties (formula, rollup, ...) take none.
+const PROPERTY_TYPE_KINDS: Record<string, BookFieldKind[]> = {
+  title: ['text', 'person', 'list'],
+  rich_text: ['text', 'longText', 'list', 'person', 'number', 'date', 'url', 'image', 'status'],
+  select: ['text', 'list', 'person', 'number', 'status'],
+  multi_select: ['text', 'list', 'person'],
+  status: ['status'],
+  number: ['number'],
+  date: ['date'],
+  url: ['url', 'image'],
+  files: ['image'],
+  // Related pages are found (or created) by title, one per value
+  relation: ['text', 'list', 'person'],
+  // Matched against workspace members by name
+  people: ['person'],
+  email: [],
+  phone_number: [],
+  checkbox: []
+};
+
+export const isPropertyCompatible = (bookField: string, propertyType: string): boolean => {
+  const kind = BOOK_FIELD_KINDS[bookField];
+  // Fields without a known kind keep every option, as before
+  if (!kind) return true;
+  return (PROPERTY_TYPE_KINDS[propertyType] || []).includes(kind);
+};
+
+// Database properties a book field can be mapped to, sorted by name. The current mapping stays
+// listed even when incompatible so the select can still show it.
+export const getCompatibleProperties = <T extends { name: string; type: string }>(
+  properties: T[] | undefined,
+  bookField: string,
+  currentMapping?: string
+): T[] =>
+  (properties || [])
+    .filter(property => property.name === currentMapping || isPropertyCompatible(bookField, property.type))
+    .sort((a, b) => a.name.localeCompare(b.name));
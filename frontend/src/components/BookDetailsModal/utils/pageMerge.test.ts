@@ -0,0 +1,174 @@
+import { CreateNotionPageRequest, NotionPageWithValues, NotionPlainValue } from '../../../types/notion';
+import { PropertyDiff, applyPageDiffs, buildPageDiffs } from './pageMerge';
+
+const makePage = (values: Record<string, NotionPlainValue>, extra: Partial<NotionPageWithValues> = {}): NotionPageWithValues => ({
+  id: 'page-1',
+  url: 'https://www.notion.so/page-1',
+  created_time: '2024-01-01T00:00:00.000Z',
+  last_edited_time: '2024-01-01T00:00:00.000Z',
+  properties: {},
+  icon: null,
+  cover: null,
+  values,
+  ...extra
+});
+
+const makeRequest = (
+  bookData: any,
+  fieldMapping: Partial<CreateNotionPageRequest['fieldMapping']>,
+  extra: Partial<CreateNotionPageRequest> = {}
+): CreateNotionPageRequest => ({
+  databaseId: 'db-1',
+  bookData,
+  fieldMapping: { title: 'Title', authors: 'Authors', ...fieldMapping },
+  ...extra
+});
+
+const findDiff = (diffs: PropertyDiff[], key: string) => {
+  const diff = diffs.find(candidate => candidate.key === key);
+  if (!diff) throw new Error(`No diff for ${key}`);
+  return diff;
+};
+
+describe('buildPageDiffs', () => {
+  it('splits text lists of full names on commas', () => {
+    const page = makePage({ Title: 'Good Omens', Authors: 'Neil Gaiman, Terry Pratchett' });
+    const diffs = buildPageDiffs(page, makeRequest({ title: 'Good Omens', authors: ['Terry Pratchett', 'Neil Gaiman'] }, {}));
+
+    const authors = findDiff(diffs, 'Authors');
+    expect(authors.current).toEqual(['Neil Gaiman', 'Terry Pratchett']);
+    expect(authors.changed).toBe(true);
+    expect(authors.choice).toBe('merge');
+  });
+
+  it('keeps a single "Last, First" name together', () => {
+    const page = makePage({ Title: 'Dune', Authors: 'Herbert, Frank' });
+    const diffs = buildPageDiffs(page, makeRequest({ title: 'Dune', authors: ['Frank Herbert'] }, {}));
+
+    expect(findDiff(diffs, 'Authors').current).toEqual(['Herbert, Frank']);
+  });
+
+  it('splits categories on every comma and lists on semicolons', () => {
+    const page = makePage({ Title: 'Dune', Authors: 'Herbert; Anderson', Genres: 'Fiction, Classics' });
+    const diffs = buildPageDiffs(page, makeRequest(
+      { title: 'Dune', authors: ['Herbert', 'Anderson'], categories: ['Fiction', 'Science Fiction'] },
+      { categories: 'Genres' }
+    ));
+
+    expect(findDiff(diffs, 'Authors').current).toEqual(['Herbert', 'Anderson']);
+    expect(findDiff(diffs, 'Genres').current).toEqual(['Fiction', 'Classics']);
+  });
+
+  it('keeps unchanged properties, fills empty ones and keeps changed personal fields', () => {
+    const page = makePage({ Title: 'dune', Authors: ['Frank Herbert'], Pages: null, Rating: 5 });
+    const diffs = buildPageDiffs(page, makeRequest(
+      { title: 'Dune', authors: ['Frank Herbert'], pageCount: 412, averageRating: 4.3 },
+      { pageCount: 'Pages', rating: 'Rating' }
+    ));
+
+    expect(findDiff(diffs, 'Title')).toMatchObject({ changed: false, choice: 'keep' });
+    expect(findDiff(diffs, 'Pages')).toMatchObject({ current: [], proposed: ['412'], choice: 'replace' });
+    expect(findDiff(diffs, 'Rating')).toMatchObject({ current: ['5'], proposed: ['4.3'], choice: 'keep' });
+  });
+
+  it('leaves out properties the book has no value for or the page lacks', () => {
+    const page = makePage({ Title: 'Dune', Authors: [] });
+    const diffs = buildPageDiffs(page, makeRequest({ title: 'Dune', authors: [], publisher: 'Ace' }, { publisher: 'Publisher' }));
+
+    expect(diffs.map(diff => diff.key)).toEqual(['Title']);
+  });
+
+  it('does not offer to merge transformed lists', () => {
+    const page = makePage({ Title: 'Dune', Authors: ['Frank Herbert'] });
+    const diffs = buildPageDiffs(page, makeRequest(
+      { title: 'Dune', authors: ['Frank Herbert', 'Brian Herbert'] },
+      { transforms: { authors: [{ type: 'case', mode: 'upper' }] } }
+    ));
+
+    expect(findDiff(diffs, 'Authors')).toMatchObject({ canMerge: false, choice: 'replace' });
+  });
+
+  it('compares the page icon and, when enabled, the page cover with the book cover', () => {
+    const page = makePage({ Title: 'Dune', Authors: [] }, { cover: { type: 'external', external: { url: 'https://old/cover.jpg' } } });
+    const bookData = { title: 'Dune', thumbnail: 'https://new/cover.jpg' };
+
+    expect(buildPageDiffs(page, makeRequest(bookData, {})).some(diff => diff.kind !== 'property')).toBe(false);
+
+    const diffs = buildPageDiffs(page, makeRequest(bookData, { pageIcon: true }, {
+      coverImages: { upload: false, format: 'jpeg', usePageCover: true }
+    }));
+    expect(findDiff(diffs, 'page-icon')).toMatchObject({ current: [], proposed: ['https://new/cover.jpg'], choice: 'replace' });
+    expect(findDiff(diffs, 'page-cover')).toMatchObject({ current: ['https://old/cover.jpg'], choice: 'replace' });
+  });
+});
+
+describe('applyPageDiffs', () => {
+  const coverImages = { upload: true, format: 'webp' as const, usePageCover: true };
+
+  const buildAndApply = (choices: Record<string, PropertyDiff['choice']>) => {
+    const page = makePage(
+      { Title: 'Good Omens', Authors: 'Neil Gaiman', Genres: 'Fantasy', Narrators: 'Stephen Fry', Rating: 5 },
+      { icon: { type: 'emoji', emoji: '📕' } }
+    );
+    const request = makeRequest(
+      {
+        title: 'Good Omens',
+        authors: ['Terry Pratchett', 'neil gaiman'],
+        categories: ['Fiction', 'Fantasy'],
+        averageRating: 4.2,
+        thumbnail: 'https://new/cover.jpg',
+        audiobookData: { narrators: ['Martin Jarvis'], asin: 'B000' }
+      },
+      {
+        categories: 'Genres',
+        rating: 'Rating',
+        audiobookNarrators: 'Narrators',
+        pageIcon: true,
+        transforms: { title: [] }
+      },
+      { coverImages }
+    );
+    const diffs = buildPageDiffs(page, request).map(diff => ({ ...diff, choice: choices[diff.key] ?? diff.choice }));
+    return applyPageDiffs(request, diffs);
+  };
+
+  it('sends merged lists as the union of the page and book values', () => {
+    const result = buildAndApply({});
+
+    expect(result.bookData.authors).toEqual(['Neil Gaiman', 'Terry Pratchett']);
+    expect(result.bookData.categories).toEqual(['Fantasy', 'Fiction']);
+    expect(result.bookData.audiobookData).toEqual({ narrators: ['Stephen Fry', 'Martin Jarvis'], asin: 'B000' });
+  });
+
+  it('maps only the properties that are written', () => {
+    const result = buildAndApply({ Genres: 'keep' });
+
+    expect(result.fieldMapping).toEqual({
+      title: '',
+      authors: 'Authors',
+      audiobookNarrators: 'Narrators',
+      pageIcon: true,
+      transforms: { title: [] }
+    });
+    // The kept list is sent as the book had it, but no property is mapped for it
+    expect(result.bookData.categories).toEqual(['Fiction', 'Fantasy']);
+  });
+
+  it('replaces lists instead of merging them when chosen', () => {
+    const result = buildAndApply({ Authors: 'replace' });
+
+    expect(result.fieldMapping.authors).toBe('Authors');
+    expect(result.bookData.authors).toEqual(['Terry Pratchett', 'neil gaiman']);
+  });
+
+  it('turns the page icon and cover off when they are kept', () => {
+    const result = buildAndApply({ 'page-icon': 'keep', 'page-cover': 'keep' });
+
+    expect(result.fieldMapping.pageIcon).toBe(false);
+    expect(result.coverImages).toEqual({ ...coverImages, usePageCover: false });
+  });
+
+  it('keeps the cover settings when the cover is replaced', () => {
+    expect(buildAndApply({}).coverImages).toEqual(coverImages);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  BookToNotionMapping,
+  CreateNotionPageRequest,
+  NotionPageWithValues,
+  NotionPlainValue
+} from '../../../types/notion';
+import { TransformValue, applyFieldTransforms } from './fieldTransforms';
+
+export type PropertyMergeChoice = 'keep' | 'replace' | 'merge';
+
+// Book fields mapped to a property by name
+type MappedBookField = Exclude<keyof BookToNotionMapping, 'pageIcon' | 'transforms'>;
+
+// One mapped property of an existing page next to what the book would write there
+export interface PropertyDiff {
+  key: string;
+  label: string;
+  kind: 'property' | 'icon' | 'cover';
+  bookFields: MappedBookField[]; // Book fields mapped to the property
+  current: string[];
+  proposed: string[];
+  isImage: boolean;
+  changed: boolean;
+  canMerge: boolean;
+  choice: PropertyMergeChoice;
+}
+
+// Fields holding lists, which can be merged as a union of the page's values and the book's
+const LIST_FIELDS = ['authors', 'categories', 'audiobookNarrators'];
+
+// Personal data curated by hand in Notion, kept unless changed on purpose
+const PERSONAL_FIELDS = ['rating', 'status', 'notes', 'dateRead', 'dateAdded'];
+
+const formatDuration = (hours: number) =>
+  hours < 1 ? `${Math.round(hours * 60)} min` : `${hours.toFixed(1)} hrs`;
+
+// The value the backend writes for a book field, before transforms (mirrors formatBookDataForNotion)
+const getWrittenValue = (bookData: any, bookField: string): TransformValue => {
+  const audiobook = bookData.audiobookData;
+  switch (bookField) {
+    case 'isbn': return bookData.isbn13 || bookData.isbn10;
+    case 'releaseDate': return bookData.publishedDate;
+    case 'rating': return bookData.userRating || bookData.averageRating;
+    case 'status': return bookData.readingStatus;
+    case 'series': return bookData.series || audiobook?.series;
+    case 'seriesNumber': return bookData.series ? bookData.seriesNumber : audiobook?.seriesPosition;
+    case 'audiobookPublisher': return audiobook?.publisher;
+    case 'audiobookPublishedDate': return audiobook?.publishedDate;
+    case 'audiobookChapters': return audiobook?.chapters || audiobook?.chapterCount;
+    case 'audiobookASIN': return audiobook?.asin;
+    case 'audiobookNarrators': return audiobook?.narrators;
+    case 'audiobookDuration':
+      return audiobook?.totalDurationHours ? formatDuration(audiobook.totalDurationHours) : audiobook?.duration;
+    case 'audiobookURL': return audiobook?.audibleUrl;
+    case 'audiobookRating':
+      if (!audiobook?.rating) return null;
+      return audiobook.ratingCount
+        ? `${audiobook.rating}/5 (${audiobook.ratingCount} reviews)`
+        : `${audiobook.rating}/5`;
+    default:
+      return bookData[bookField];
+  }
+};
+
+const toList = (value: TransformValue | NotionPlainValue): string[] => {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === 'boolean') return [value ? 'Yes' : 'No'];
+  return [String(value)];
+};
+
+// Text properties hold lists joined with ", "; names written as "Last, First" are kept together
+const splitListText = (values: string[], bookField: string): string[] => {
+  if (values.length !== 1) return values;
+  const text = values[0];
+  if (text.includes(';')) return text.split(';').map(item => item.trim()).filter(Boolean);
+  const parts = text.split(',').map(item => item.trim()).filter(Boolean);
+  if (bookField === 'categories') return parts;
+  return parts.every(part => /\s/.test(part)) ? parts : [text];
+};
+
+const isSameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, index) => item.trim().toLowerCase() === b[index].trim().toLowerCase());
+
+const getImageUrl = (image: NotionPageWithValues['icon'] | NotionPageWithValues['cover']): string[] => {
+  if (!image) return [];
+  if ('emoji' in image && image.emoji) return [image.emoji];
+  const url = image.external?.url || image.file?.url;
+  return url ? [url] : [];
+};
+
+const getDefaultChoice = (diff: Pick<PropertyDiff, 'bookFields' | 'current' | 'changed' | 'canMerge'>): PropertyMergeChoice => {
+  if (!diff.changed) return 'keep';
+  if (diff.current.length === 0) return 'replace';
+  if (diff.canMerge) return 'merge';
+  return diff.bookFields.some(field => PERSONAL_FIELDS.includes(field)) ? 'keep' : 'replace';
+};
+
+// The page icon and cover are replaced with the book cover along with the properties
+const buildImageDiff = (kind: 'icon' | 'cover', label: string, current: string[], thumbnail: string): PropertyDiff => {
+  const changed = current[0] !== thumbnail;
+  return {
+    key: `page-${kind}`,
+    label,
+    kind,
+    bookFields: [],
+    current,
+    proposed: [thumbnail],
+    isImage: true,
+    changed,
+    canMerge: false,
+    choice: getDefaultChoice({ bookFields: [], current, changed, canMerge: false })
+  };
+};
+
+/**
+ * Compare an existing page with the update a book would make, one entry per mapped property the
+ * book has a value for. Properties the book leaves empty are not written and are left out.
+ */
+export const buildPageDiffs = (page: NotionPageWithValues, request: CreateNotionPageRequest): PropertyDiff[] => {
+  const { transforms = {}, pageIcon, ...mapping } = request.fieldMapping;
+
+  // Group book fields by property; the backend writes one value per property
+  const fieldsByProperty = new Map<string, MappedBookField[]>();
+  Object.entries(mapping).forEach(([bookField, property]) => {
+    if (typeof property !== 'string' || !property) return;
+    fieldsByProperty.set(property, [...(fieldsByProperty.get(property) || []), bookField as MappedBookField]);
+  });
+
+  const diffs: PropertyDiff[] = [];
+  fieldsByProperty.forEach((bookFields, property) => {
+    const writtenField = bookFields.find(field => toList(getWrittenValue(request.bookData, field)).length > 0);
+    if (!writtenField || !(property in page.values)) return;
+
+    const proposed = toList(applyFieldTransforms(getWrittenValue(request.bookData, writtenField), transforms[writtenField]));
+    const isList = LIST_FIELDS.includes(writtenField);
+    const current = isList ? splitListText(toList(page.values[property]), writtenField) : toList(page.values[property]);
+    // Transforms would run again over the values already on the page, so transformed lists only replace
+    const canMerge = isList && !transforms[writtenField]?.length;
+    const changed = !isSameList(current, proposed);
+
+    diffs.push({
+      key: property,
+      label: property,
+      kind: 'property',
+      bookFields,
+      current,
+      proposed,
+      isImage: writtenField === 'thumbnail',
+      changed,
+      canMerge,
+      choice: getDefaultChoice({ bookFields, current, changed, canMerge })
+    });
+  });
+
+  const thumbnail = request.bookData.thumbnail as string | undefined;
+  if (thumbnail && pageIcon) {
+    diffs.push(buildImageDiff('icon', 'Page icon', getImageUrl(page.icon), thumbnail));
+  }
+  if (thumbnail && request.coverImages?.usePageCover) {
+    diffs.push(buildImageDiff('cover', 'Page cover', getImageUrl(page.cover), thumbnail));
+  }
+
+  return diffs;
+};
+
+const mergeLists = (current: string[], proposed: string[]) => {
+  const seen = new Set(current.map(item => item.trim().toLowerCase()));
+  return [...current, ...proposed.filter(item => !seen.has(item.trim().toLowerCase()))];
+};
+
+/**
+ * The page update for the chosen diffs: only replaced and merged properties are written, and merged
+ * lists are sent as the union of the page's values and the book's.
+ */
+export const applyPageDiffs = (request: CreateNotionPageRequest, diffs: PropertyDiff[]): CreateNotionPageRequest => {
+  const fieldMapping = { title: '', authors: '' } as BookToNotionMapping;
+  if (request.fieldMapping.transforms) {
+    fieldMapping.transforms = request.fieldMapping.transforms;
+  }
+  const bookData = { ...request.bookData };
+  let updatedCoverImages = request.coverImages;
+
+  diffs.forEach(diff => {
+    const write = diff.choice !== 'keep';
+    if (diff.kind === 'icon') {
+      fieldMapping.pageIcon = write;
+      return;
+    }
+    if (diff.kind === 'cover') {
+      if (request.coverImages) {
+        updatedCoverImages = { ...request.coverImages, usePageCover: write };
+      }
+      return;
+    }
+    if (!write) return;
+
+    diff.bookFields.forEach(field => {
+      fieldMapping[field] = diff.key;
+    });
+    if (diff.choice === 'merge') {
+      const merged = mergeLists(diff.current, diff.proposed);
+      if (diff.bookFields.includes('audiobookNarrators')) {
+        bookData.audiobookData = { ...bookData.audiobookData, narrators: merged };
+      } else {
+        diff.bookFields.filter(field => LIST_FIELDS.includes(field)).forEach(field => {
+          bookData[field] = merged;
+        });
+      }
+    }
+  });
+
+  return { ...request, bookData, fieldMapping, coverImages: updatedCoverImages };
+};
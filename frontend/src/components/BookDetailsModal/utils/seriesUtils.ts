@@ -0,0 +1,34 @@
+import { BookSearchResult } from '../../../types/book';
+
+export interface BookSeriesInfo {
+  name: string;
+  number: number | null;
+}
+
+// Audnexus positions come as text ("1", "1.5", "Book 2"); omnibus ranges like "1-3" have no single position
+export const parseSeriesPosition = (value?: string | number | null): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (/\d+\s*[-–]\s*\d+/.test(value)) return null;
+
+  const match = value.match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+// Series detected for the print book (title, Open Library, series catalog)
+export const getPrintSeries = (book: Pick<BookSearchResult, 'series' | 'seriesNumber'>): BookSeriesInfo | null =>
+  book.series ? { name: book.series, number: book.seriesNumber ?? null } : null;
+
+export const getAudiobookSeries = (book: BookSearchResult): BookSeriesInfo | null =>
+  book.audiobookData?.hasAudiobook && book.audiobookData.series
+    ? { name: book.audiobookData.series, number: parseSeriesPosition(book.audiobookData.seriesPosition) }
+    : null;
+
+// The series sent to Notion when no source has been picked: print first, then audiobook
+export const getBookSeries = (book: BookSearchResult): BookSeriesInfo | null =>
+  getPrintSeries(book) || getAudiobookSeries(book);
+
+export const formatSeries = (series: BookSeriesInfo | null): string => {
+  if (!series) return '';
+  return series.number !== null ? `${series.name} #${series.number}` : series.name;
+};
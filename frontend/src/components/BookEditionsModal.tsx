@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { BookEdition, BookEditionsResponse } from '../types/book';
+import { BookService } from '../services/bookService';
 
 interface BookEditionsModalProps {
   isOpen: boolean;
@@ -39,7 +40,10 @@ const BookEditionsModal: React.FC<BookEditionsModalProps> = ({
       // Extract work key from full path if needed
       const cleanWorkKey = workKey.replace('/works/', '');
       
-      const response = await fetch(`/api/books/editions/${cleanWorkKey}`);
+      const providers = BookService.getEnabledProviderIds();
+      const query = providers ? `?providers=${encodeURIComponent(providers.join(','))}` : '';
+      
+      const response = await fetch(`/api/books/editions/${cleanWorkKey}${query}`);
       const result: BookEditionsResponse = await response.json();
       
       if (result.success && result.data) {
@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { SpinnerGapIcon, XIcon, PlusIcon, SparkleIcon } from '@phosphor-icons/react';
+import { BookToNotionMapping, DefaultPropertyValue, RelatedPageRef } from '../types/notion';
+import { NotionService } from '../services/notionService';
+import Tooltip from './ui/Tooltip';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface DatabaseProperty {
+  name: string;
+  type: string;
+  config?: any;
+}
+
+interface DefaultValuesPanelProps {
+  properties: DatabaseProperty[];
+  // Book field → property name, to tell which properties a mapping may already fill
+  fieldMappings: Omit<BookToNotionMapping, 'pageIcon'>;
+  value: Record<string, DefaultPropertyValue>;
+  onChange: (value: Record<string, DefaultPropertyValue>) => void;
+}
+
+// Title always holds the book title, and computed or people properties can't take a fixed value
+const SUPPORTED_TYPES = ['select', 'status', 'multi_select', 'checkbox', 'number', 'date', 'rich_text', 'url', 'email', 'phone_number', 'relation'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const initialValueFor = (property: DatabaseProperty): DefaultPropertyValue => {
+  switch (property.type) {
+    case 'checkbox':
+      return true;
+    case 'date':
+      return 'today';
+    case 'multi_select':
+    case 'relation':
+      return [];
+    case 'select':
+    case 'status':
+      return property.config?.options?.[0]?.name || '';
+    default:
+      return '';
+  }
+};
+
+// "To Read"-style status and "Date added"-style dates, for properties without a default yet
+const getSuggestedDefaults = (
+  properties: DatabaseProperty[],
+  value: Record<string, DefaultPropertyValue>
+): Record<string, DefaultPropertyValue> => {
+  const suggestions: Record<string, DefaultPropertyValue> = {};
+  for (const property of properties) {
+    if (value[property.name] !== undefined) continue;
+
+    if ((property.type === 'status' || property.type === 'select') && /status|state|shelf/i.test(property.name)) {
+      const options: Array<{ id: string; name: string }> = property.config?.options || [];
+      const toDoGroup = (property.config?.groups || []).find((group: any) => /to[ -]?do|not started/i.test(group.name));
+      const option = options.find(o => /to[ -]?read|want to read|not started|unread/i.test(o.name))
+        || options.find(o => toDoGroup?.option_ids?.includes(o.id));
+      if (option) suggestions[property.name] = option.name;
+    }
+
+    if (property.type === 'date' && /added|acquired|created|imported/i.test(property.name)) {
+      suggestions[property.name] = 'today';
+    }
+  }
+  return suggestions;
+};
+
+const RelationPicker: React.FC<{
+  databaseId: string;
+  value: RelatedPageRef[];
+  onChange: (value: RelatedPageRef[]) => void;
+}> = ({ databaseId, value, onChange }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [results, setResults] = useState<RelatedPageRef[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !databaseId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(() => {
+      NotionService.searchDatabasePages(databaseId, query.trim())
+        .then(pages => {
+          if (cancelled) return;
+          setResults(pages);
+          setError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setError(err instanceof Error ? err.message : 'Failed to load pages');
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [databaseId, query, isOpen]);
+
+  const available = results.filter(page => !value.some(selected => selected.id === page.id));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(page => (
+            <span key={page.id} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 border border-blue-200 text-xs text-blue-800">
+              {page.title}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(selected => selected.id !== page.id))}
+                className="text-blue-500 hover:text-blue-700"
+                aria-label={`Remove ${page.title}`}
+              >
+                <XIcon size={10} weight={ICON_WEIGHTS.BOLD} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          placeholder={databaseId ? 'Search pages to link...' : 'Related database not shared with the integration'}
+          disabled={!databaseId}
+          className={inputClassName}
+        />
+        {isOpen && (
+          <div className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+            {loading ? (
+              <div className="flex items-center gap-2 px-3 py-2 text-gray-500">
+                <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+                Searching...
+              </div>
+            ) : error ? (
+              <div className="px-3 py-2 text-red-600">{error}</div>
+            ) : available.length === 0 ? (
+              <div className="px-3 py-2 text-gray-500">No pages found</div>
+            ) : (
+              available.map(page => (
+                <button
+                  key={page.id}
+                  type="button"
+                  // Runs before the input's blur closes the list
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    onChange([...value, page]);
+                    setQuery('');
+                  }}
+                  className="block w-full text-left px-3 py-2 hover:bg-blue-50"
+                >
+                  {page.title}
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DefaultValueInput: React.FC<{
+  property: DatabaseProperty;
+  value: DefaultPropertyValue;
+  onChange: (value: DefaultPropertyValue) => void;
+}> = ({ property, value, onChange }) => {
+  const options: Array<{ name: string }> = property.config?.options || [];
+
+  switch (property.type) {
+    case 'select':
+    case 'status':
+      return (
+        <select value={String(value)} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+          <option value="">Choose an option</option>
+          {options.map(option => (
+            <option key={option.name} value={option.name}>{option.name}</option>
+          ))}
+        </select>
+      );
+
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? (value as string[]) : [];
+      return (
+        <div className="flex flex-wrap gap-1">
+          {options.length === 0 && <span className="text-xs text-gray-500">This property has no options yet</span>}
+          {options.map(option => {
+            const isSelected = selected.includes(option.name);
+            return (
+              <button
+                key={option.name}
+                type="button"
+                onClick={() => onChange(isSelected ? selected.filter(name => name !== option.name) : [...selected, option.name])}
+                className={`px-2 py-0.5 rounded-full border text-xs ${
+                  isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-blue-50'
+                }`}
+              >
+                {option.name}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'checkbox':
+      return (
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+          />
+          <span className="ml-2 text-sm text-gray-700">{value === true ? 'Checked' : 'Unchecked'}</span>
+        </label>
+      );
+
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+          className={inputClassName}
+        />
+      );
+
+    case 'date': {
+      const isToday = value === 'today';
+      return (
+        <div className="flex gap-2">
+          <select
+            value={isToday ? 'today' : 'fixed'}
+            onChange={(e) => onChange(e.target.value === 'today' ? 'today' : '')}
+            className={inputClassName}
+          >
+            <option value="today">Day the book is added</option>
+            <option value="fixed">Fixed date</option>
+          </select>
+          {!isToday && (
+            <input
+              type="date"
+              value={String(value)}
+              onChange={(e) => onChange(e.target.value)}
+              className={inputClassName}
+            />
+          )}
+        </div>
+      );
+    }
+
+    case 'relation':
+      return (
+        <RelationPicker
+          databaseId={property.config?.data_source_id || property.config?.database_id || ''}
+          value={Array.isArray(value) ? (value as RelatedPageRef[]).filter(page => typeof page === 'object') : []}
+          onChange={onChange}
+        />
+      );
+
+    default:
+      return (
+        <input
+          type={property.type === 'url' ? 'url' : property.type === 'email' ? 'email' : 'text'}
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      );
+  }
+};
+
+const DefaultValuesPanel: React.FC<DefaultValuesPanelProps> = ({
+  properties,
+  fieldMappings,
+  value,
+  onChange
+}) => {
+  const supported = properties
+    .filter(property => SUPPORTED_TYPES.includes(property.type))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const withDefaults = supported.filter(property => value[property.name] !== undefined);
+  const withoutDefaults = supported.filter(property => value[property.name] === undefined);
+  const mappedProperties = new Set(Object.values(fieldMappings).filter((property): property is string => typeof property === 'string' && property !== ''));
+  const suggestions = getSuggestedDefaults(supported, value);
+  // Defaults for properties that were removed from the database are kept but not editable
+  const missing = Object.keys(value).filter(name => !supported.some(property => property.name === name));
+
+  const setValue = (name: string, propertyValue: DefaultPropertyValue) => onChange({ ...value, [name]: propertyValue });
+  const removeValue = (name: string) => {
+    const { [name]: removed, ...rest } = value;
+    onChange(rest);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-semibold text-gray-900">Default Values</h2>
+          <Tooltip content="Fixed values for new book pages, such as a reading status or the date the book was added. A default only fills a property the book's data leaves empty, so mapped fields with a value always win. Existing pages are never changed.">
+            <div className="text-blue-600 cursor-help">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM8.94 6.94a.75.75 0 11-1.061-1.061 3 3 0 112.871 5.026v.345a.75.75 0 01-1.5 0v-.5c0-.72.57-1.172 1.081-1.287A1.5 1.5 0 108.94 6.94zM10 15a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+              </svg>
+            </div>
+          </Tooltip>
+        </div>
+        {Object.keys(suggestions).length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, ...suggestions })}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            title={Object.entries(suggestions).map(([name, suggestion]) => `${name}: ${suggestion}`).join('\n')}
+          >
+            <SparkleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} />
+            Suggest defaults
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {withDefaults.length === 0 && (
+          <p className="text-sm text-gray-500">No defaults yet. New pages only get the values found for the book.</p>
+        )}
+
+        {withDefaults.map(property => (
+          <div key={property.name} className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4 items-start">
+            <div className="pt-2">
+              <div className="text-sm font-medium text-gray-700">{property.name}</div>
+              <div className="text-xs text-gray-500">
+                {property.type.replace('_', ' ')}
+                {mappedProperties.has(property.name) && ' · used when the mapped field is empty'}
+              </div>
+            </div>
+            <div className="md:col-span-2 flex items-start gap-2">
+              <div className="flex-1">
+                <DefaultValueInput
+                  property={property}
+                  value={value[property.name]}
+                  onChange={(propertyValue) => setValue(property.name, propertyValue)}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeValue(property.name)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Remove default for ${property.name}`}
+              >
+                <XIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {missing.length > 0 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 flex items-center justify-between gap-2">
+            <span>Not in this database, skipped: {missing.join(', ')}</span>
+            <button
+              type="button"
+              onClick={() => onChange(Object.fromEntries(Object.entries(value).filter(([name]) => !missing.includes(name))))}
+              className="text-yellow-900 underline flex-shrink-0"
+            >
+              Remove
+            </button>
+          </div>
+        )}
+
+        {withoutDefaults.length > 0 && (
+          <div className="flex items-center gap-2 pt-2">
+            <PlusIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="text-gray-400" />
+            <select
+              value=""
+              onChange={(e) => {
+                const property = supported.find(p => p.name === e.target.value);
+                if (property) setValue(property.name, initialValueFor(property));
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+              aria-label="Add a default value"
+            >
+              <option value="">Add a default for...</option>
+              {withoutDefaults.map(property => (
+                <option key={property.name} value={property.name}>{property.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DefaultValuesPanel;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { ColumnMapping, ColumnMappingEntry, ImportTargetField } from '../../types/import';
+
+interface ColumnMappingTableProps {
+  headers: string[];
+  sampleRow?: Record<string, string>;
+  mapping: ColumnMapping;
+  notionProperties: Array<{ name: string; type: string }>;
+  onChange: (header: string, entry: ColumnMappingEntry) => void;
+  disabled?: boolean;
+}
+
+const TARGET_FIELDS: Array<{ value: ImportTargetField; label: string }> = [
+  { value: 'ignore', label: "Don't import" },
+  { value: 'title', label: 'Title' },
+  { value: 'authors', label: 'Authors' },
+  { value: 'isbn', label: 'ISBN' },
+  { value: 'publisher', label: 'Publisher' },
+  { value: 'publishedDate', label: 'Published Date' },
+  { value: 'pageCount', label: 'Page Count' },
+  { value: 'categories', label: 'Categories' },
+  { value: 'description', label: 'Description' },
+  { value: 'readingStatus', label: 'Reading Status' },
+  { value: 'userRating', label: 'My Rating' },
+  { value: 'dateRead', label: 'Date Read' },
+  { value: 'dateAdded', label: 'Date Added' },
+  { value: 'notionProperty', label: 'Notion property…' }
+];
+
+const LIST_FIELDS: ImportTargetField[] = ['authors', 'categories'];
+
+// Notion property types that accept a plain text cell value
+const CUSTOM_PROPERTY_TYPES = ['title', 'rich_text', 'select', 'multi_select', 'number', 'date', 'url', 'checkbox'];
+
+const ColumnMappingTable: React.FC<ColumnMappingTableProps> = ({
+  headers,
+  sampleRow,
+  mapping,
+  notionProperties,
+  onChange,
+  disabled = false
+}) => {
+  const customProperties = notionProperties.filter(property => CUSTOM_PROPERTY_TYPES.includes(property.type));
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-700">Column</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-700">Example</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-700">Maps To</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-700">Options</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {headers.map(header => {
+            const entry = mapping[header] || { field: 'ignore' };
+            const isIgnored = entry.field === 'ignore';
+
+            return (
+              <tr key={header} className={isIgnored ? 'text-gray-400' : 'text-gray-900'}>
+                <td className="px-3 py-2 font-medium whitespace-nowrap">{header}</td>
+                <td className="px-3 py-2 max-w-[16rem] truncate" title={sampleRow?.[header]}>
+                  {sampleRow?.[header] || <span className="italic text-gray-400">empty</span>}
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    value={entry.field}
+                    onChange={(e) => onChange(header, {
+                      field: e.target.value as ImportTargetField,
+                      separator: LIST_FIELDS.includes(e.target.value as ImportTargetField) ? (entry.separator || ',') : undefined
+                    })}
+                    disabled={disabled}
+                    className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    {TARGET_FIELDS.map(field => (
+                      <option key={field.value} value={field.value}>{field.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2">
+                  {entry.field === 'notionProperty' && (
+                    <select
+                      value={entry.notionProperty || ''}
+                      onChange={(e) => onChange(header, { ...entry, notionProperty: e.target.value || undefined })}
+                      disabled={disabled}
+                      className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">Select property…</option>
+                      {customProperties.map(property => (
+                        <option key={property.name} value={property.name}>
+                          {property.name} ({property.type})
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {LIST_FIELDS.includes(entry.field) && (
+                    <div className="flex items-center gap-3">
+                      <label className="flex items-center gap-1 text-xs text-gray-600">
+                        Separator
+                        <input
+                          type="text"
+                          value={entry.separator ?? ','}
+                          onChange={(e) => onChange(header, { ...entry, separator: e.target.value })}
+                          disabled={disabled}
+                          className="w-10 px-1 py-0.5 border border-gray-300 rounded text-center font-mono"
+                        />
+                      </label>
+                      {entry.field === 'authors' && (
+                        <label className="flex items-center gap-1 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={!!entry.lastFirst}
+                            onChange={(e) => onChange(header, { ...entry, lastFirst: e.target.checked })}
+                            disabled={disabled}
+                          />
+                          "Last, First"
+                        </label>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ColumnMappingTable;
@@ -0,0 +1,473 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowLeftIcon,
+  FileCsvIcon,
+  FloppyDiskIcon,
+  MagnifyingGlassIcon,
+  StopIcon,
+  TrashIcon,
+  UploadSimpleIcon
+} from '@phosphor-icons/react';
+import {
+  ColumnMapping,
+  ColumnMappingEntry,
+  ColumnMappingPreset,
+  ResolvedImportRow
+} from '../../types/import';
+import { ImportService } from '../../services/importService';
+import { useNotionSettings } from '../../contexts/NotionSettingsContext';
+import { parseCsvWithHeaders, ParsedCsv } from '../../utils/csvParser';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { useImportRows } from './hooks/useImportRows';
+import ImportReviewTable from './ImportReviewTable';
+import ImportProgressBar from './ImportProgressBar';
+import ColumnMappingTable from './ColumnMappingTable';
+
+const DELIMITER_OPTIONS = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' }
+];
+
+const PREVIEW_ROW_COUNT = 10;
+
+const CsvImport: React.FC = () => {
+  const { notionSettings, databaseProperties } = useNotionSettings();
+  const {
+    rows,
+    isMatching,
+    isImporting,
+    progress,
+    loadSources,
+    runMatching,
+    runImport,
+    cancel,
+    selectCandidate,
+    toggleIncluded,
+    reset
+  } = useImportRows<ResolvedImportRow>();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [delimiter, setDelimiter] = useState('auto');
+  const [parsed, setParsed] = useState<ParsedCsv>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [presets, setPresets] = useState<ColumnMappingPreset[]>(() => ImportService.loadPresets());
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isBusy = isMatching || isImporting;
+  const isReviewing = rows.length > 0;
+  const fieldMapping = notionSettings?.fieldMapping;
+  const notionProperties = databaseProperties?.properties || [];
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+
+  const shelfStatusMap = useMemo(() => ImportService.loadShelfStatusMap(), []);
+
+  const resolvedRows = useMemo(
+    () => parsed.rows.map((row, index) => ImportService.resolveRow(row, mapping, index + 2, shelfStatusMap)),
+    [parsed.rows, mapping, shelfStatusMap]
+  );
+  const lookupRows = resolvedRows.filter(row => row.title || row.isbn13 || row.isbn10);
+  const hasIdentifierColumn = Object.values(mapping).some(entry => entry.field === 'title' || entry.field === 'isbn');
+
+  // Parse the file and pick a column mapping: preset if given or detected, otherwise guessed from headers
+  const applyFile = (text: string, delimiterChoice: string, preset?: ColumnMappingPreset) => {
+    const nextParsed = parseCsvWithHeaders(text, delimiterChoice === 'auto' ? undefined : delimiterChoice);
+    const matchedPreset = preset || ImportService.detectPreset(nextParsed.headers, presets);
+
+    const nextMapping: ColumnMapping = matchedPreset
+      ? Object.fromEntries(nextParsed.headers.map(header => [header, matchedPreset.mapping[header] || { field: 'ignore' }]))
+      : ImportService.guessColumnMapping(nextParsed.headers);
+
+    setParsed(nextParsed);
+    setDelimiter(delimiterChoice);
+    setMapping(nextMapping);
+    setSelectedPresetId(matchedPreset?.id || '');
+    return matchedPreset;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const nextParsed = parseCsvWithHeaders(text);
+      if (nextParsed.rows.length === 0) {
+        toast.error('No rows found in this file');
+        return;
+      }
+      reset();
+      setFileText(text);
+      setFileName(file.name);
+      const preset = applyFile(text, 'auto');
+      toast.success(preset
+        ? `Loaded ${file.name} using the ${preset.name} preset`
+        : `Loaded ${nextParsed.rows.length} rows from ${file.name}`);
+    } catch (error) {
+      console.error('Failed to parse spreadsheet:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const handleDelimiterChange = (value: string) => {
+    applyFile(fileText, value, selectedPreset);
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) {
+      applyFile(fileText, preset.delimiter, preset);
+    } else {
+      setSelectedPresetId('');
+      setMapping(ImportService.guessColumnMapping(parsed.headers));
+    }
+  };
+
+  const handleMappingChange = (header: string, entry: ColumnMappingEntry) => {
+    setMapping(prev => ({ ...prev, [header]: entry }));
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast.error('Enter a name for the preset');
+      return;
+    }
+
+    // Ignored columns are left out so the preset stays readable and matches similar files
+    const presetMapping = Object.fromEntries(
+      Object.entries(mapping).filter(([, entry]) => entry.field !== 'ignore')
+    );
+    const preset = ImportService.savePreset(name, delimiter === 'auto' ? ',' : delimiter, presetMapping);
+    setPresets(ImportService.loadPresets());
+    setSelectedPresetId(preset.id);
+    setPresetName('');
+    toast.success(`Saved preset "${name}"`);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    ImportService.deletePreset(selectedPreset.id);
+    setPresets(ImportService.loadPresets());
+    setSelectedPresetId('');
+    toast.success(`Deleted preset "${selectedPreset.name}"`);
+  };
+
+  const handleLookup = async () => {
+    loadSources(lookupRows);
+    await runMatching(row => ImportService.matchResolvedRow(row));
+  };
+
+  const handleMatchRemaining = async () => {
+    await runMatching(row => ImportService.matchResolvedRow(row));
+  };
+
+  const handleImport = async () => {
+    if (!notionSettings?.databaseId || !fieldMapping) {
+      toast.error('Select a Notion database and field mappings in Settings first');
+      return;
+    }
+
+    const { imported, failed } = await runImport(row => {
+      const book = row.match!.source === 'import'
+        ? row.match!
+        : ImportService.mergeWithResolvedRow(row.match!, row.source);
+      return ImportService.createImportedPage(
+        notionSettings.databaseId,
+        book,
+        row.source.readingData,
+        fieldMapping,
+        row.source.customValues
+      );
+    });
+
+    if (imported > 0) {
+      toast.success(`Imported ${imported} book${imported === 1 ? '' : 's'} to Notion`);
+    }
+    if (failed > 0) {
+      toast.error(`${failed} book${failed === 1 ? '' : 's'} failed to import`);
+    }
+  };
+
+  const handleReset = () => {
+    reset();
+    setFileName(null);
+    setFileText('');
+    setParsed({ headers: [], rows: [] });
+    setMapping({});
+    setSelectedPresetId('');
+  };
+
+  const pendingCount = rows.filter(row => row.status === 'pending' || row.status === 'error').length;
+  const includedCount = rows.filter(row => row.included && row.match && row.pageStatus !== 'imported').length;
+
+  const renderSource = (source: ResolvedImportRow) => (
+    <div className="min-w-[14rem]">
+      <div className="font-medium text-gray-900">{source.title || <span className="italic text-gray-400">No title</span>}</div>
+      <div className="text-xs text-gray-600">{source.authors.join(', ')}</div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 mt-1">
+        <span>Row {source.rowNumber}</span>
+        {(source.isbn13 || source.isbn10) && <span className="font-mono">{source.isbn13 || source.isbn10}</span>}
+        {source.readingData.readingStatus && (
+          <span className="px-1.5 py-0.5 bg-gray-100 rounded">{source.readingData.readingStatus}</span>
+        )}
+        {Object.keys(source.customValues).length > 0 && (
+          <span>{Object.keys(source.customValues).length} custom</span>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* File selection */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="group flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <UploadSimpleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+          {fileName ? 'Choose Another File' : 'Choose CSV or TSV File'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {fileName && (
+          <span className="flex items-center gap-2 text-sm text-gray-700">
+            <FileCsvIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="text-green-600" />
+            {fileName} ({parsed.rows.length} rows)
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={isBusy}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Clear
+            </button>
+          </span>
+        )}
+      </div>
+
+      {!fileName && (
+        <p className="text-sm text-gray-600">
+          Import a LibraryThing TSV export, a StoryGraph CSV export or your own spreadsheet.
+          Map each column to a book field or a Notion property, check the preview, then look the books up.
+        </p>
+      )}
+
+      {/* Column mapping */}
+      {fileName && !isReviewing && (
+        <>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm">
+              <span className="block text-gray-700 mb-1">Delimiter</span>
+              <select
+                value={delimiter}
+                onChange={(e) => handleDelimiterChange(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {DELIMITER_OPTIONS.map(option => (
+                  <option key={option.label} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm">
+              <span className="block text-gray-700 mb-1">Preset</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={selectedPresetId}
+                  onChange={(e) => handlePresetChange(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="">Guessed from headers</option>
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                {selectedPreset && !selectedPreset.builtIn && (
+                  <button
+                    type="button"
+                    onClick={handleDeletePreset}
+                    title="Delete preset"
+                    className="group p-1 text-gray-500 hover:text-red-600"
+                  >
+                    <TrashIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+                  </button>
+                )}
+              </div>
+            </label>
+            <div className="text-sm">
+              <span className="block text-gray-700 mb-1">Save mapping as preset</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="e.g. My reading log"
+                  className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={handleSavePreset}
+                  className="group flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  <FloppyDiskIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <ColumnMappingTable
+            headers={parsed.headers}
+            sampleRow={parsed.rows[0]}
+            mapping={mapping}
+            notionProperties={notionProperties}
+            onChange={handleMappingChange}
+          />
+
+          {/* Preview */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">
+              Preview (first {Math.min(PREVIEW_ROW_COUNT, resolvedRows.length)} of {resolvedRows.length} rows)
+            </h3>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Title</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Authors</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">ISBN</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Publisher</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Date</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Reading</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Custom</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {resolvedRows.slice(0, PREVIEW_ROW_COUNT).map(row => (
+                    <tr key={row.rowNumber}>
+                      <td className="px-3 py-2 text-gray-900">{row.title}</td>
+                      <td className="px-3 py-2 text-gray-700">{row.authors.join('; ')}</td>
+                      <td className="px-3 py-2 font-mono text-gray-700">{row.isbn13 || row.isbn10}</td>
+                      <td className="px-3 py-2 text-gray-700">{row.publisher}</td>
+                      <td className="px-3 py-2 text-gray-700">{row.publishedDate}</td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {[
+                          row.readingData.readingStatus,
+                          row.readingData.userRating && `★${row.readingData.userRating}`,
+                          row.readingData.dateRead && `read ${row.readingData.dateRead}`
+                        ].filter(Boolean).join(' · ')}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {Object.entries(row.customValues).map(([property, value]) => `${property}: ${value}`).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={handleLookup}
+              disabled={!hasIdentifierColumn || lookupRows.length === 0}
+              className="group flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              <MagnifyingGlassIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+              Look Up {lookupRows.length} Rows
+            </button>
+            {!hasIdentifierColumn && (
+              <span className="text-sm text-orange-700">Map a Title or ISBN column to continue.</span>
+            )}
+            {hasIdentifierColumn && lookupRows.length < resolvedRows.length && (
+              <span className="text-sm text-gray-500">
+                {resolvedRows.length - lookupRows.length} rows without a title or ISBN will be skipped.
+              </span>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Review actions */}
+      {isReviewing && (
+        <div className="flex flex-wrap items-center gap-3">
+          {isBusy ? (
+            <button
+              type="button"
+              onClick={cancel}
+              className="group flex items-center gap-2 px-4 py-2 bg-red-100 text-red-700 text-sm font-medium rounded-lg hover:bg-red-200"
+            >
+              <StopIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+              Stop
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={reset}
+                className="group flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200"
+              >
+                <ArrowLeftIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+                Edit Mapping
+              </button>
+              {pendingCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleMatchRemaining}
+                  className="group flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700"
+                >
+                  <MagnifyingGlassIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+                  Match Remaining ({pendingCount})
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={includedCount === 0 || !notionSettings?.databaseId}
+                className="group flex items-center gap-2 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                <UploadSimpleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+                Import {includedCount} to Notion
+              </button>
+            </>
+          )}
+          {progress && (
+            <ImportProgressBar
+              label={isImporting ? 'Adding to Notion' : isMatching ? 'Matching' : 'Last run'}
+              done={progress.done}
+              total={progress.total}
+            />
+          )}
+        </div>
+      )}
+
+      {isReviewing && (
+        <ImportReviewTable<ResolvedImportRow>
+          rows={rows}
+          sourceHeader="Spreadsheet"
+          renderSource={renderSource}
+          onSelectCandidate={selectCandidate}
+          onToggleIncluded={toggleIncluded}
+          disabled={isBusy}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -0,0 +1,282 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  FileCsvIcon,
+  MagnifyingGlassIcon,
+  StopIcon,
+  UploadSimpleIcon,
+  WarningIcon,
+  StarIcon
+} from '@phosphor-icons/react';
+import { GoodreadsRow, ShelfStatusMap } from '../../types/import';
+import { ImportService } from '../../services/importService';
+import { useNotionSettings } from '../../contexts/NotionSettingsContext';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { useImportRows } from './hooks/useImportRows';
+import ImportReviewTable from './ImportReviewTable';
+import ImportProgressBar from './ImportProgressBar';
+
+const GoodreadsImport: React.FC = () => {
+  const { notionSettings, databaseProperties } = useNotionSettings();
+  const {
+    rows,
+    isMatching,
+    isImporting,
+    progress,
+    loadSources,
+    runMatching,
+    runImport,
+    cancel,
+    selectCandidate,
+    toggleIncluded,
+    reset
+  } = useImportRows<GoodreadsRow>();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [shelfStatusMap, setShelfStatusMap] = useState<ShelfStatusMap>(() => ImportService.loadShelfStatusMap());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isBusy = isMatching || isImporting;
+  const fieldMapping = notionSettings?.fieldMapping;
+
+  // Shelves present in the export, with row counts
+  const shelves = useMemo(() => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+      const shelf = row.source.exclusiveShelf;
+      if (shelf) counts.set(shelf, (counts.get(shelf) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [rows]);
+
+  // Offer the existing options of the mapped status property as suggestions
+  const statusOptions: string[] = useMemo(() => {
+    if (!fieldMapping?.status || !databaseProperties?.properties) return [];
+    const property = databaseProperties.properties.find((prop: any) => prop.name === fieldMapping.status);
+    return (property?.config?.options || []).map((option: any) => option.name);
+  }, [fieldMapping?.status, databaseProperties]);
+
+  const unmappedReadingFields = (['status', 'rating', 'dateRead', 'dateAdded'] as const)
+    .filter(field => !fieldMapping?.[field]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const parsedRows = ImportService.parseGoodreadsExport(text);
+      if (parsedRows.length === 0) {
+        toast.error('No books found in this file');
+        return;
+      }
+      loadSources(parsedRows);
+      setFileName(file.name);
+      toast.success(`Loaded ${parsedRows.length} books from ${file.name}`);
+    } catch (error) {
+      console.error('Failed to parse Goodreads export:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read CSV file');
+    }
+  };
+
+  const handleShelfStatusChange = (shelf: string, status: string) => {
+    const nextMap = { ...shelfStatusMap, [shelf]: status };
+    setShelfStatusMap(nextMap);
+    ImportService.saveShelfStatusMap(nextMap);
+  };
+
+  const handleMatch = async () => {
+    await runMatching(row => ImportService.matchGoodreadsRow(row));
+  };
+
+  const handleImport = async () => {
+    if (!notionSettings?.databaseId || !fieldMapping) {
+      toast.error('Select a Notion database and field mappings in Settings first');
+      return;
+    }
+
+    const { imported, failed } = await runImport(row =>
+      ImportService.createImportedPage(
+        notionSettings.databaseId,
+        row.match!,
+        ImportService.getGoodreadsReadingData(row.source, shelfStatusMap),
+        fieldMapping
+      )
+    );
+
+    if (imported > 0) {
+      toast.success(`Imported ${imported} book${imported === 1 ? '' : 's'} to Notion`);
+    }
+    if (failed > 0) {
+      toast.error(`${failed} book${failed === 1 ? '' : 's'} failed to import`);
+    }
+  };
+
+  const handleReset = () => {
+    reset();
+    setFileName(null);
+  };
+
+  const pendingCount = rows.filter(row => row.status === 'pending' || row.status === 'error').length;
+  const includedCount = rows.filter(row => row.included && row.match && row.pageStatus !== 'imported').length;
+
+  const renderSource = (source: GoodreadsRow) => (
+    <div className="min-w-[14rem]">
+      <div className="font-medium text-gray-900">{source.title}</div>
+      <div className="text-xs text-gray-600">{source.author}</div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 mt-1">
+        {(source.isbn13 || source.isbn10) && <span className="font-mono">{source.isbn13 || source.isbn10}</span>}
+        {source.exclusiveShelf && (
+          <span className="px-1.5 py-0.5 bg-gray-100 rounded">{source.exclusiveShelf}</span>
+        )}
+        {source.myRating > 0 && (
+          <span className="flex items-center gap-0.5 text-yellow-600">
+            <StarIcon size={12} weight={ICON_WEIGHTS.FILL} />
+            {source.myRating}
+          </span>
+        )}
+        {source.dateRead && <span>Read {source.dateRead}</span>}
+        {source.dateAdded && <span>Added {source.dateAdded}</span>}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* File selection */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="group flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <UploadSimpleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+          {fileName ? 'Choose Another File' : 'Choose Goodreads Export'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {fileName && (
+          <span className="flex items-center gap-2 text-sm text-gray-700">
+            <FileCsvIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="text-green-600" />
+            {fileName} ({rows.length} books)
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={isBusy}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Clear
+            </button>
+          </span>
+        )}
+      </div>
+
+      {!fileName && (
+        <p className="text-sm text-gray-600">
+          Export your library from Goodreads (My Books → Import and export → Export Library) and choose the CSV file here.
+          Each row is matched by ISBN-13, then ISBN-10, then title and author.
+        </p>
+      )}
+
+      {unmappedReadingFields.length > 0 && rows.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-orange-50 border border-orange-200 rounded text-sm">
+          <WarningIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} className="text-orange-600 mt-0.5 flex-shrink-0" />
+          <span className="text-orange-800">
+            No Notion property is mapped for {unmappedReadingFields.join(', ')}. Map these fields in Settings to carry your reading history over.
+          </span>
+        </div>
+      )}
+
+      {/* Shelf → status mapping */}
+      {shelves.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Shelf to Status</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {shelves.map(([shelf, count]) => (
+              <label key={shelf} className="flex items-center gap-3 text-sm">
+                <span className="w-40 truncate text-gray-700" title={shelf}>
+                  {shelf} <span className="text-gray-400">({count})</span>
+                </span>
+                <input
+                  type="text"
+                  list="goodreads-status-options"
+                  value={shelfStatusMap[shelf] ?? ImportService.defaultStatusForShelf(shelf)}
+                  onChange={(e) => handleShelfStatusChange(shelf, e.target.value)}
+                  disabled={isBusy}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+          <datalist id="goodreads-status-options">
+            {statusOptions.map(option => <option key={option} value={option} />)}
+          </datalist>
+        </div>
+      )}
+
+      {/* Actions */}
+      {rows.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          {isBusy ? (
+            <button
+              type="button"
+              onClick={cancel}
+              className="group flex items-center gap-2 px-4 py-2 bg-red-100 text-red-700 text-sm font-medium rounded-lg hover:bg-red-200"
+            >
+              <StopIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+              Stop
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={handleMatch}
+                disabled={pendingCount === 0}
+                className="group flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                <MagnifyingGlassIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+                {pendingCount === rows.length ? `Match ${pendingCount} Books` : `Match Remaining (${pendingCount})`}
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={includedCount === 0 || !notionSettings?.databaseId}
+                className="group flex items-center gap-2 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                <UploadSimpleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+                Import {includedCount} to Notion
+              </button>
+            </>
+          )}
+          {progress && (
+            <ImportProgressBar
+              label={isImporting ? 'Adding to Notion' : isMatching ? 'Matching' : 'Last run'}
+              done={progress.done}
+              total={progress.total}
+            />
+          )}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <ImportReviewTable<GoodreadsRow>
+          rows={rows}
+          sourceHeader="Goodreads"
+          renderSource={renderSource}
+          onSelectCandidate={selectCandidate}
+          onToggleIncluded={toggleIncluded}
+          disabled={isBusy}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GoodreadsImport;
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ImportProgressBarProps {
+  label: string;
+  done: number;
+  total: number;
+}
+
+const ImportProgressBar: React.FC<ImportProgressBarProps> = ({ label, done, total }) => {
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-3 flex-1 min-w-[12rem]">
+      <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-600 transition-all duration-300 ease-out"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="text-xs text-gray-600 whitespace-nowrap">
+        {label}: {done}/{total}
+      </span>
+    </div>
+  );
+};
+
+export default ImportProgressBar;
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import {
+  CheckCircleIcon,
+  QuestionIcon,
+  XCircleIcon,
+  SpinnerGapIcon,
+  BookIcon,
+  ArrowSquareOutIcon,
+  WarningIcon
+} from '@phosphor-icons/react';
+import { BookSearchResult } from '../../types/book';
+import { ImportMatchStatus, ImportRow } from '../../types/import';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+
+type ReviewFilter = 'all' | 'matched' | 'ambiguous' | 'unmatched';
+
+interface ImportReviewTableProps<T> {
+  rows: ImportRow<T>[];
+  sourceHeader: string;
+  renderSource: (source: T) => React.ReactNode;
+  onSelectCandidate: (rowId: string, book: BookSearchResult | undefined) => void;
+  onToggleIncluded: (rowId: string, included: boolean) => void;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<ImportMatchStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  matching: 'bg-blue-100 text-blue-700',
+  matched: 'bg-green-100 text-green-800',
+  ambiguous: 'bg-yellow-100 text-yellow-800',
+  unmatched: 'bg-red-100 text-red-700',
+  error: 'bg-red-100 text-red-700'
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  isbn13: 'ISBN-13',
+  isbn10: 'ISBN-10',
+  title_author: 'Title + author',
+  manual: 'Chosen manually'
+};
+
+const describeCandidate = (book: BookSearchResult) => {
+  const year = book.publishedDate ? ` (${book.publishedDate.substring(0, 4)})` : '';
+  const authors = book.authors?.length ? ` — ${book.authors.join(', ')}` : '';
+  const origin = book.source === 'import' ? ' (from file)' : '';
+  return `${book.title}${authors}${year}${origin}`;
+};
+
+const StatusIcon: React.FC<{ status: ImportMatchStatus }> = ({ status }) => {
+  switch (status) {
+    case 'matched':
+      return <CheckCircleIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} />;
+    case 'ambiguous':
+      return <QuestionIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} />;
+    case 'matching':
+      return <SpinnerGapIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />;
+    case 'unmatched':
+    case 'error':
+      return <XCircleIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} />;
+    default:
+      return null;
+  }
+};
+
+function ImportReviewTable<T>({
+  rows,
+  sourceHeader,
+  renderSource,
+  onSelectCandidate,
+  onToggleIncluded,
+  disabled = false
+}: ImportReviewTableProps<T>) {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+
+  const counts = {
+    all: rows.length,
+    matched: rows.filter(row => row.status === 'matched').length,
+    ambiguous: rows.filter(row => row.status === 'ambiguous').length,
+    unmatched: rows.filter(row => row.status === 'unmatched' || row.status === 'error').length
+  };
+
+  const visibleRows = rows.filter(row => {
+    if (filter === 'all') return true;
+    if (filter === 'unmatched') return row.status === 'unmatched' || row.status === 'error';
+    return row.status === filter;
+  });
+
+  const filterOptions: Array<{ value: ReviewFilter; label: string }> = [
+    { value: 'all', label: 'All' },
+    { value: 'matched', label: 'Matched' },
+    { value: 'ambiguous', label: 'Ambiguous' },
+    { value: 'unmatched', label: 'Unmatched' }
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {filterOptions.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setFilter(option.value)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              filter === option.value
+                ? 'border-blue-600 bg-blue-50 text-blue-800'
+                : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {option.label} ({counts[option.value]})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700 w-10">Add</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{sourceHeader}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Status</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Matched Book</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                  No rows in this view
+                </td>
+              </tr>
+            )}
+            {visibleRows.map(row => (
+              <tr key={row.id} className={row.included ? '' : 'opacity-60'}>
+                <td className="px-3 py-2 align-top">
+                  <input
+                    type="checkbox"
+                    checked={row.included}
+                    disabled={disabled || !row.match || row.pageStatus === 'imported'}
+                    onChange={(e) => onToggleIncluded(row.id, e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    aria-label="Include in import"
+                  />
+                </td>
+                <td className="px-3 py-2 align-top">{renderSource(row.source)}</td>
+                <td className="px-3 py-2 align-top whitespace-nowrap">
+                  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                    <StatusIcon status={row.status} />
+                    {row.status}
+                  </span>
+                  {row.method && row.match && (
+                    <div className="text-xs text-gray-500 mt-1">{METHOD_LABELS[row.method]}</div>
+                  )}
+                  {row.error && (
+                    <div className="text-xs text-red-600 mt-1">{row.error}</div>
+                  )}
+                  {row.pageStatus === 'importing' && (
+                    <div className="flex items-center gap-1 text-xs text-blue-600 mt-1">
+                      <SpinnerGapIcon size={12} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+                      Adding to Notion...
+                    </div>
+                  )}
+                  {row.pageStatus === 'imported' && row.pageUrl && (
+                    <a
+                      href={row.pageUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-xs text-green-700 hover:underline mt-1"
+                    >
+                      <ArrowSquareOutIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+                      Added to Notion
+                    </a>
+                  )}
+                  {row.pageStatus === 'failed' && (
+                    <div className="flex items-center gap-1 text-xs text-red-600 mt-1" title={row.pageError}>
+                      <WarningIcon size={12} weight={ICON_WEIGHTS.FILL} />
+                      {row.pageError || 'Failed to add'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-3 py-2 align-top">
+                  <div className="flex items-start gap-3">
+                    {row.match?.thumbnail ? (
+                      <img src={row.match.thumbnail} alt="" className="w-8 h-12 object-cover rounded shadow-sm flex-shrink-0" />
+                    ) : (
+                      <div className="w-8 h-12 bg-gray-100 rounded flex items-center justify-center flex-shrink-0">
+                        <BookIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.LIGHT} className="text-gray-400" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      {row.candidates.length > 0 ? (
+                        <select
+                          value={row.match?.id || ''}
+                          disabled={disabled || row.pageStatus === 'imported'}
+                          onChange={(e) => onSelectCandidate(
+                            row.id,
+                            row.candidates.find(candidate => candidate.id === e.target.value)
+                          )}
+                          className="w-full text-xs border border-gray-300 rounded px-2 py-1 text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          <option value="">Don't import</option>
+                          {row.candidates.map(candidate => (
+                            <option key={candidate.id} value={candidate.id}>
+                              {describeCandidate(candidate)}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-gray-400">
+                          {row.status === 'pending' || row.status === 'matching' ? 'Not looked up yet' : 'No candidates found'}
+                        </span>
+                      )}
+                      {row.match && (
+                        <div className="text-xs text-gray-500 mt-1 truncate">
+                          {[row.match.publisher, row.match.isbn13 || row.match.isbn10].filter(Boolean).join(' • ')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default ImportReviewTable;
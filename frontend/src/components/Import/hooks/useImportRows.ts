@@ -0,0 +1,183 @@
+import { useState, useRef, useCallback } from 'react';
+import { BookSearchResult } from '../../../types/book';
+import { ImportMatchResult, ImportRow } from '../../../types/import';
+import { NotionPage } from '../../../types/notion';
+import { useNotionActivity } from '../../../contexts/NotionActivityContext';
+
+interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+interface UseImportRowsReturn<T> {
+  rows: ImportRow<T>[];
+  isMatching: boolean;
+  isImporting: boolean;
+  progress: ImportProgress | null;
+  loadSources: (sources: T[]) => void;
+  runMatching: (matcher: (source: T) => Promise<ImportMatchResult>) => Promise<void>;
+  runImport: (creator: (row: ImportRow<T>) => Promise<NotionPage>) => Promise<{ imported: number; failed: number }>;
+  cancel: () => void;
+  selectCandidate: (rowId: string, book: BookSearchResult | undefined) => void;
+  toggleIncluded: (rowId: string, included: boolean) => void;
+  reset: () => void;
+}
+
+/**
+ * Shared state machine for library imports: rows are loaded from a source file,
+ * matched one at a time against the book search API, reviewed, then created in Notion.
+ */
+export const useImportRows = <T>(): UseImportRowsReturn<T> => {
+  const [rows, setRows] = useState<ImportRow<T>[]>([]);
+  const [isMatching, setIsMatching] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const cancelledRef = useRef(false);
+  const { recordActivity } = useNotionActivity();
+  const rowsRef = useRef<ImportRow<T>[]>([]);
+
+  const updateRows = useCallback((updater: (prev: ImportRow<T>[]) => ImportRow<T>[]) => {
+    setRows(prev => {
+      const next = updater(prev);
+      rowsRef.current = next;
+      return next;
+    });
+  }, []);
+
+  const updateRow = useCallback((rowId: string, changes: Partial<ImportRow<T>>) => {
+    updateRows(prev => prev.map(row => row.id === rowId ? { ...row, ...changes } : row));
+  }, [updateRows]);
+
+  const loadSources = useCallback((sources: T[]) => {
+    const nextRows: ImportRow<T>[] = sources.map((source, index) => ({
+      id: `row-${index}`,
+      source,
+      status: 'pending',
+      candidates: [],
+      included: false
+    }));
+    rowsRef.current = nextRows;
+    setRows(nextRows);
+    setProgress(null);
+  }, []);
+
+  const runMatching = useCallback(async (matcher: (source: T) => Promise<ImportMatchResult>) => {
+    // Only look up rows that have not been resolved yet
+    const pendingRows = rowsRef.current.filter(row =>
+      row.status === 'pending' || row.status === 'error'
+    );
+    if (pendingRows.length === 0) return;
+
+    cancelledRef.current = false;
+    setIsMatching(true);
+    setProgress({ done: 0, total: pendingRows.length });
+
+    for (let i = 0; i < pendingRows.length; i++) {
+      if (cancelledRef.current) break;
+
+      const row = pendingRows[i];
+      updateRow(row.id, { status: 'matching', error: undefined });
+
+      try {
+        const result = await matcher(row.source);
+        updateRow(row.id, {
+          status: result.status,
+          method: result.method,
+          match: result.match,
+          candidates: result.candidates,
+          included: result.status === 'matched'
+        });
+      } catch (error) {
+        updateRow(row.id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Lookup failed'
+        });
+      }
+
+      setProgress({ done: i + 1, total: pendingRows.length });
+    }
+
+    // Rows interrupted by cancel go back to pending so they can be resumed
+    updateRows(prev => prev.map(row => row.status === 'matching' ? { ...row, status: 'pending' } : row));
+    setIsMatching(false);
+  }, [updateRow, updateRows]);
+
+  const runImport = useCallback(async (creator: (row: ImportRow<T>) => Promise<NotionPage>) => {
+    const queue = rowsRef.current.filter(row => row.included && row.match && row.pageStatus !== 'imported');
+    let imported = 0;
+    let failed = 0;
+    if (queue.length === 0) return { imported, failed };
+
+    cancelledRef.current = false;
+    setIsImporting(true);
+    setProgress({ done: 0, total: queue.length });
+
+    for (let i = 0; i < queue.length; i++) {
+      if (cancelledRef.current) break;
+
+      const row = queue[i];
+      updateRow(row.id, { pageStatus: 'importing', pageError: undefined });
+
+      try {
+        const page = await creator(row);
+        recordActivity({ action: 'created', pageId: page.id, pageUrl: page.url, bookTitle: row.match!.title });
+        updateRow(row.id, { pageStatus: 'imported', pageUrl: page.url, included: false });
+        imported++;
+      } catch (error) {
+        updateRow(row.id, {
+          pageStatus: 'failed',
+          pageError: error instanceof Error ? error.message : 'Failed to create page'
+        });
+        failed++;
+      }
+
+      setProgress({ done: i + 1, total: queue.length });
+    }
+
+    updateRows(prev => prev.map(row => row.pageStatus === 'importing' ? { ...row, pageStatus: 'pending' } : row));
+    setIsImporting(false);
+    return { imported, failed };
+  }, [updateRow, updateRows, recordActivity]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const selectCandidate = useCallback((rowId: string, book: BookSearchResult | undefined) => {
+    updateRows(prev => prev.map(row => {
+      if (row.id !== rowId) return row;
+      return {
+        ...row,
+        match: book,
+        method: book ? (book.id === row.match?.id ? row.method : 'manual') : undefined,
+        status: book ? 'matched' : (row.candidates.length > 0 ? 'ambiguous' : 'unmatched'),
+        included: !!book
+      };
+    }));
+  }, [updateRows]);
+
+  const toggleIncluded = useCallback((rowId: string, included: boolean) => {
+    updateRow(rowId, { included });
+  }, [updateRow]);
+
+  const reset = useCallback(() => {
+    cancelledRef.current = true;
+    rowsRef.current = [];
+    setRows([]);
+    setProgress(null);
+  }, []);
+
+  return {
+    rows,
+    isMatching,
+    isImporting,
+    progress,
+    loadSources,
+    runMatching,
+    runImport,
+    cancel,
+    selectCandidate,
+    toggleIncluded,
+    reset
+  };
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { ArrowDownIcon, SpinnerGapIcon } from '@phosphor-icons/react';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  // Changes whenever items are appended, so a still-visible trigger fires again
+  itemCount: number;
+  endMessage?: string;
+}
+
+/**
+ * Sentinel placed after a results list that requests the next page when it scrolls into view.
+ * Also renders a manual "Load more" button for browsers without IntersectionObserver.
+ */
+const InfiniteScrollTrigger: React.FC<InfiniteScrollTriggerProps> = ({
+  hasMore,
+  isLoading,
+  onLoadMore,
+  itemCount,
+  endMessage = 'End of results'
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, itemCount]);
+
+  if (!hasMore) {
+    return itemCount > 0 ? (
+      <p className="text-center text-sm text-gray-400 py-6">{endMessage}</p>
+    ) : null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-6">
+      {isLoading ? (
+        <span className="flex items-center gap-2 text-sm text-gray-600">
+          <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+          Loading more results...
+        </span>
+      ) : (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="group flex items-center gap-1 px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100"
+        >
+          <ArrowDownIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+          Load more
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default InfiniteScrollTrigger;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { BookOpenIcon } from '@phosphor-icons/react';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { LibraryBook } from '../../types/library';
+import { formatDate } from '../BookDetailsModal/utils/dateUtils';
+
+interface LibraryGridProps {
+  books: LibraryBook[];
+  onSelect: (book: LibraryBook) => void;
+}
+
+export const LibraryCover: React.FC<{ book: LibraryBook; className: string }> = ({ book, className }) =>
+  book.thumbnail ? (
+    <img src={book.thumbnail} alt="" className={`${className} object-cover bg-gray-100`} loading="lazy" />
+  ) : (
+    <div className={`${className} flex items-center justify-center bg-gray-100 text-gray-400`}>
+      <BookOpenIcon size={ICON_CONTEXTS.BOOK_HEADER.COVER_PLACEHOLDER} weight={ICON_WEIGHTS.LIGHT} />
+    </div>
+  );
+
+export const StatusBadge: React.FC<{ status?: string | null }> = ({ status }) =>
+  status ? (
+    <span className="inline-block px-2 py-0.5 text-xs font-medium text-blue-800 bg-blue-100 rounded-full truncate max-w-full">
+      {status}
+    </span>
+  ) : null;
+
+const LibraryGrid: React.FC<LibraryGridProps> = ({ books, onSelect }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+    {books.map(book => (
+      <button
+        key={book.id}
+        type="button"
+        onClick={() => onSelect(book)}
+        className="group text-left bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md hover:border-blue-300 transition-all"
+      >
+        <LibraryCover book={book} className="w-full aspect-[2/3]" />
+        <div className="p-3 space-y-1">
+          <p className="text-sm font-medium text-gray-900 line-clamp-2 group-hover:text-blue-700">{book.title}</p>
+          {book.authors.length > 0 && (
+            <p className="text-xs text-gray-600 truncate">{book.authors.join(', ')}</p>
+          )}
+          <StatusBadge status={book.readingStatus} />
+          {book.dateAdded && (
+            <p className="text-xs text-gray-400">Added {formatDate(book.dateAdded)}</p>
+          )}
+        </div>
+      </button>
+    ))}
+  </div>
+);
+
+export default LibraryGrid;
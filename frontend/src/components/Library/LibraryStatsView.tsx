@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowClockwiseIcon, DownloadSimpleIcon, SpinnerGapIcon } from '@phosphor-icons/react';
+import { NotionService } from '../../services/notionService';
+import { LibraryStats, LibraryStatsPeriod } from '../../types/library';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { PeriodBar, PeriodBarChart, RankedList, SplitBar } from './StatsCharts';
+
+interface LibraryStatsViewProps {
+  databaseId: string;
+  fieldMapping: any;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const EMPTY_PERIOD: LibraryStatsPeriod = { added: 0, finished: 0, pagesRead: 0, audiobookHours: 0 };
+
+const CHART_SERIES = [
+  { name: 'Added', className: 'bg-blue-400' },
+  { name: 'Finished', className: 'bg-green-500' }
+];
+
+const StatTile: React.FC<{ label: string; value: string | number; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-gray-900 mt-1">{value}</p>
+    {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+  </div>
+);
+
+const downloadYearlyCsv = (stats: LibraryStats) => {
+  const rows = [
+    ['Year', 'Added', 'Finished', 'Pages read', 'Audiobook hours'],
+    ...stats.byYear.map(entry => [entry.year, entry.added, entry.finished, entry.pagesRead, entry.audiobookHours])
+  ];
+  const blob = new Blob([rows.map(row => row.join(',')).join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'reading-stats-by-year.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reading statistics for the whole books database. Aggregation happens on the backend; the
+ * charts only reshape the per-month and per-year totals it returns.
+ */
+const LibraryStatsView: React.FC<LibraryStatsViewProps> = ({ databaseId, fieldMapping }) => {
+  const [stats, setStats] = useState<LibraryStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 'all' charts years; a year charts its months
+  const [year, setYear] = useState<string>('all');
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setStats(await NotionService.getLibraryStats(databaseId, fieldMapping));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load statistics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [databaseId, fieldMapping]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const years = useMemo(() => (stats?.byYear || []).map(entry => entry.year).reverse(), [stats]);
+
+  useEffect(() => {
+    if (year !== 'all' && stats && !years.includes(year)) setYear('all');
+  }, [stats, year, years]);
+
+  const bars: PeriodBar[] = useMemo(() => {
+    if (!stats) return [];
+    if (year === 'all') {
+      return stats.byYear.map(entry => ({
+        label: entry.year,
+        title: entry.year,
+        values: [entry.added, entry.finished]
+      }));
+    }
+    return MONTH_NAMES.map((name, index) => {
+      const month = `${year}-${String(index + 1).padStart(2, '0')}`;
+      const entry = stats.byMonth.find(item => item.month === month) || EMPTY_PERIOD;
+      return { label: name, title: `${name} ${year}`, values: [entry.added, entry.finished] };
+    });
+  }, [stats, year]);
+
+  if (isLoading && !stats) {
+    return (
+      <div className="flex justify-center items-center gap-2 py-12 text-gray-600">
+        <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+        Reading your library...
+      </div>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+        <p className="text-red-700 mb-3">{error || 'No statistics available'}</p>
+        <button
+          type="button"
+          onClick={loadStats}
+          className="px-4 py-2 text-sm bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-100"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  const period = year === 'all'
+    ? { ...stats.totals, added: stats.totals.books }
+    : stats.byYear.find(entry => entry.year === year) || EMPTY_PERIOD;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+          aria-label="Year"
+        >
+          <option value="all">All years</option>
+          {years.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          Updated {new Date(stats.generatedAt).toLocaleTimeString()}
+          <button
+            type="button"
+            onClick={loadStats}
+            disabled={isLoading}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md disabled:opacity-50"
+            aria-label="Refresh statistics"
+          >
+            <ArrowClockwiseIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {stats.truncated && (
+        <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+          Your library is larger than can be read at once, so these numbers cover only part of it.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <StatTile label={year === 'all' ? 'Books in library' : `Added in ${year}`} value={period.added} />
+        <StatTile
+          label={year === 'all' ? 'Finished' : `Finished in ${year}`}
+          value={period.finished}
+          detail={year === 'all' && stats.totals.finishedUndated > 0 ? `${stats.totals.finishedUndated} without a read date` : undefined}
+        />
+        <StatTile label="Pages read" value={period.pagesRead.toLocaleString()} detail="Finished books with a page count" />
+        <StatTile label="Audiobook hours" value={period.audiobookHours.toLocaleString()} detail="Length of finished books with audiobook data" />
+        <StatTile
+          label="Average rating"
+          value={stats.totals.averageRating ?? '–'}
+          detail={`${stats.totals.ratedBooks} rated book${stats.totals.ratedBooks === 1 ? '' : 's'} · Your rating, else the community's`}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {year === 'all' ? 'Books added and finished per year' : `Books added and finished in ${year}`}
+          </h3>
+          {stats.byYear.length > 0 && (
+            <button
+              type="button"
+              onClick={() => downloadYearlyCsv(stats)}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors"
+            >
+              <DownloadSimpleIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} />
+              Yearly CSV
+            </button>
+          )}
+        </div>
+        {bars.length > 0
+          ? <PeriodBarChart bars={bars} series={CHART_SERIES} />
+          : <p className="text-sm text-gray-500">No dated books yet.</p>}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Audiobook data</h3>
+        <SplitBar
+          parts={[
+            { name: 'Without audiobook data', value: stats.audiobookData.without, className: 'bg-blue-500' },
+            { name: 'With audiobook data', value: stats.audiobookData.with, className: 'bg-purple-500' }
+          ]}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <RankedList title="Top categories" items={stats.topCategories} emptyMessage="No categories mapped or set." />
+        <RankedList title="Top authors" items={stats.topAuthors} emptyMessage="No authors mapped or set." />
+        <RankedList title="Top publishers" items={stats.topPublishers} emptyMessage="No publishers mapped or set." />
+      </div>
+    </div>
+  );
+};
+
+export default LibraryStatsView;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { LibraryBook } from '../../types/library';
+import { formatDate } from '../BookDetailsModal/utils/dateUtils';
+import { LibraryCover, StatusBadge } from './LibraryGrid';
+
+interface LibraryTableProps {
+  books: LibraryBook[];
+  onSelect: (book: LibraryBook) => void;
+}
+
+const LibraryTable: React.FC<LibraryTableProps> = ({ books, onSelect }) => (
+  <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-x-auto">
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="bg-gray-50">
+        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+          <th className="px-4 py-3">Title</th>
+          <th className="px-4 py-3">Author</th>
+          <th className="px-4 py-3">Status</th>
+          <th className="px-4 py-3">Categories</th>
+          <th className="px-4 py-3">Rating</th>
+          <th className="px-4 py-3">Added</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {books.map(book => (
+          <tr
+            key={book.id}
+            onClick={() => onSelect(book)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') onSelect(book);
+            }}
+            tabIndex={0}
+            className="cursor-pointer hover:bg-blue-50 focus:outline-none focus:bg-blue-50"
+          >
+            <td className="px-4 py-2">
+              <div className="flex items-center gap-3">
+                <LibraryCover book={book} className="w-8 h-12 rounded flex-shrink-0" />
+                <span className="font-medium text-gray-900">
+                  {book.title}
+                  {book.series && (
+                    <span className="block text-xs font-normal text-gray-500">
+                      {book.series}{book.seriesNumber ? ` #${book.seriesNumber}` : ''}
+                    </span>
+                  )}
+                </span>
+              </div>
+            </td>
+            <td className="px-4 py-2 text-gray-700">{book.authors.join(', ')}</td>
+            <td className="px-4 py-2"><StatusBadge status={book.readingStatus} /></td>
+            <td className="px-4 py-2 text-gray-600">{(book.categories || []).join(', ')}</td>
+            <td className="px-4 py-2 text-gray-600">{book.averageRating ?? ''}</td>
+            <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatDate(book.dateAdded)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default LibraryTable;
@@ -0,0 +1,196 @@
+import React from 'react';
+import {
+  MagnifyingGlassIcon,
+  SortAscendingIcon,
+  SortDescendingIcon,
+  SquaresFourIcon,
+  ListBulletsIcon,
+  XIcon
+} from '@phosphor-icons/react';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import { LibraryFilterOptions, LibraryFilters, LibrarySort, LibrarySortField } from '../../types/library';
+
+export type LibraryView = 'grid' | 'table';
+
+interface LibraryToolbarProps {
+  search: string;
+  onSearchChange: (search: string) => void;
+  sort: LibrarySort;
+  onSortChange: (sort: LibrarySort) => void;
+  filters: LibraryFilters;
+  onFiltersChange: (filters: LibraryFilters) => void;
+  filterOptions: LibraryFilterOptions;
+  // Which filters the field mappings can answer; the others are hidden
+  available: { status: boolean; category: boolean; author: boolean };
+  view: LibraryView;
+  onViewChange: (view: LibraryView) => void;
+}
+
+const SORT_LABELS: Record<LibrarySortField, string> = {
+  dateAdded: 'Date added',
+  title: 'Title',
+  authors: 'Author',
+  releaseDate: 'Release date',
+  dateRead: 'Date read',
+  rating: 'Rating',
+  pageCount: 'Pages'
+};
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+// A select when the property has a fixed list of options, otherwise free text
+const FilterInput: React.FC<{
+  label: string;
+  value?: string;
+  options: string[];
+  onChange: (value: string) => void;
+}> = ({ label, value = '', options, onChange }) => {
+  if (options.length > 0) {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClassName} aria-label={label}>
+        <option value="">Any {label.toLowerCase()}</option>
+        {options.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={label}
+      className={`${inputClassName} w-40`}
+      aria-label={label}
+    />
+  );
+};
+
+const LibraryToolbar: React.FC<LibraryToolbarProps> = ({
+  search,
+  onSearchChange,
+  sort,
+  onSortChange,
+  filters,
+  onFiltersChange,
+  filterOptions,
+  available,
+  view,
+  onViewChange
+}) => {
+  const setFilter = (key: keyof LibraryFilters, value: string) => {
+    onFiltersChange({ ...filters, [key]: value || undefined });
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[16rem]">
+          <MagnifyingGlassIcon
+            size={ICON_CONTEXTS.UI.INPUT}
+            weight={ICON_WEIGHTS.BOLD}
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+          />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search by title, author, ISBN or series"
+            className={`${inputClassName} w-full pl-9`}
+            aria-label="Search library"
+          />
+        </div>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={sort.field}
+            onChange={(e) => onSortChange({ ...sort, field: e.target.value as LibrarySortField })}
+            className={inputClassName}
+            aria-label="Sort by"
+          >
+            {(Object.keys(SORT_LABELS) as LibrarySortField[]).map(field => (
+              <option key={field} value={field}>{SORT_LABELS[field]}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onSortChange({ ...sort, direction: sort.direction === 'ascending' ? 'descending' : 'ascending' })}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+            aria-label={sort.direction === 'ascending' ? 'Sorted ascending' : 'Sorted descending'}
+            title={sort.direction === 'ascending' ? 'Ascending' : 'Descending'}
+          >
+            {sort.direction === 'ascending'
+              ? <SortAscendingIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+              : <SortDescendingIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />}
+          </button>
+        </div>
+
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {([
+            { value: 'grid', label: 'Grid', Icon: SquaresFourIcon },
+            { value: 'table', label: 'Table', Icon: ListBulletsIcon }
+          ] as const).map(({ value, label, Icon }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => onViewChange(value)}
+              className={`p-2 ${view === value ? 'bg-blue-50 text-blue-700' : 'text-gray-500 hover:bg-gray-50'}`}
+              aria-label={`${label} view`}
+              aria-pressed={view === value}
+            >
+              <Icon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {available.status && (
+          <FilterInput label="Status" value={filters.status} options={filterOptions.statuses} onChange={(value) => setFilter('status', value)} />
+        )}
+        {available.category && (
+          <FilterInput label="Category" value={filters.category} options={filterOptions.categories} onChange={(value) => setFilter('category', value)} />
+        )}
+        {available.author && (
+          <FilterInput label="Author" value={filters.author} options={filterOptions.authors} onChange={(value) => setFilter('author', value)} />
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Added
+          <input
+            type="date"
+            value={filters.dateAddedFrom || ''}
+            max={filters.dateAddedTo}
+            onChange={(e) => setFilter('dateAddedFrom', e.target.value)}
+            className={inputClassName}
+            aria-label="Added on or after"
+          />
+          to
+          <input
+            type="date"
+            value={filters.dateAddedTo || ''}
+            min={filters.dateAddedFrom}
+            onChange={(e) => setFilter('dateAddedTo', e.target.value)}
+            className={inputClassName}
+            aria-label="Added on or before"
+          />
+        </label>
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={() => onFiltersChange({})}
+            className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <XIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryToolbar;
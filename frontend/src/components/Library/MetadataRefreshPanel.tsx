@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowSquareOutIcon,
+  CheckCircleIcon,
+  MagnifyingGlassIcon,
+  SpinnerGapIcon,
+  StopIcon,
+  WarningIcon
+} from '@phosphor-icons/react';
+import { NotionIntegrationSettings } from '../../types/notion';
+import { RefreshField, RefreshItem, RefreshItemStatus } from '../../types/refresh';
+import { MetadataRefreshService, REFRESH_FIELD_LABELS } from '../../services/metadataRefreshService';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../../constants/iconConfig';
+import ImportProgressBar from '../Import/ImportProgressBar';
+import { useMetadataRefresh } from './hooks/useMetadataRefresh';
+import { LibraryCover } from './LibraryGrid';
+
+interface MetadataRefreshPanelProps {
+  settings: NotionIntegrationSettings;
+}
+
+const STATUS_LABELS: Record<RefreshItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Not looked up', className: 'bg-gray-100 text-gray-600' },
+  'looking-up': { label: 'Looking up', className: 'bg-blue-100 text-blue-700' },
+  proposed: { label: 'Changes found', className: 'bg-yellow-100 text-yellow-800' },
+  'no-changes': { label: 'No changes', className: 'bg-gray-100 text-gray-500' },
+  applying: { label: 'Updating', className: 'bg-blue-100 text-blue-700' },
+  applied: { label: 'Updated', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Lookup failed', className: 'bg-red-100 text-red-700' }
+};
+
+const describeFields = (fields: RefreshField[]) =>
+  fields.map(field => REFRESH_FIELD_LABELS[field].toLowerCase()).join(', ');
+
+const checkboxClassName = 'rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50';
+
+const RefreshItemRow: React.FC<{
+  item: RefreshItem;
+  disabled: boolean;
+  onToggleChange: (field: RefreshField, approved: boolean) => void;
+  onTogglePage: (approved: boolean) => void;
+}> = ({ item, disabled, onToggleChange, onTogglePage }) => {
+  const status = STATUS_LABELS[item.status];
+  const canReview = item.status === 'proposed';
+  const approvedCount = item.changes.filter(change => change.approved).length;
+
+  return (
+    <li className="px-4 py-3">
+      <div className="flex items-start gap-3">
+        {canReview ? (
+          <input
+            type="checkbox"
+            checked={approvedCount > 0}
+            ref={input => {
+              if (input) input.indeterminate = approvedCount > 0 && approvedCount < item.changes.length;
+            }}
+            onChange={(e) => onTogglePage(e.target.checked)}
+            disabled={disabled}
+            className={`${checkboxClassName} mt-1`}
+            aria-label={`Apply changes to ${item.book.title}`}
+          />
+        ) : (
+          <span className="w-4" />
+        )}
+        <LibraryCover book={item.book} className="w-8 h-12 rounded flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <a
+              href={item.book.notionPageUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm font-medium text-gray-900 hover:text-blue-700 truncate"
+            >
+              {item.book.title}
+            </a>
+            <ArrowSquareOutIcon size={12} weight={ICON_WEIGHTS.BOLD} className="text-gray-400 flex-shrink-0" />
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${status.className}`}>
+              {status.label}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 truncate">
+            {[
+              item.book.authors.join(', '),
+              item.missing.length > 0 && `Missing: ${describeFields(item.missing)}`,
+              item.filled.length > 0 && `Checking: ${describeFields(item.filled)}`
+            ].filter(Boolean).join(' · ')}
+          </p>
+          {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+
+          {item.changes.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {item.changes.map(change => (
+                <li key={change.field} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={change.approved}
+                    onChange={(e) => onToggleChange(change.field, e.target.checked)}
+                    disabled={disabled || !canReview}
+                    className={`${checkboxClassName} mt-0.5`}
+                    aria-label={`Apply ${REFRESH_FIELD_LABELS[change.field]}`}
+                  />
+                  <span className="w-28 flex-shrink-0 text-gray-600">{REFRESH_FIELD_LABELS[change.field]}</span>
+                  {change.field === 'thumbnail' ? (
+                    <span className="flex items-center gap-2">
+                      {change.current && (
+                        <>
+                          <img src={change.current} alt="" className="w-10 h-14 object-cover rounded border border-gray-200 opacity-60" />
+                          <span className="text-gray-400">→</span>
+                        </>
+                      )}
+                      <img src={change.proposed} alt="" className="w-10 h-14 object-cover rounded border border-gray-200" />
+                    </span>
+                  ) : (
+                    <span className="break-words min-w-0">
+                      <span className="text-gray-900">{change.proposed}</span>
+                      {change.current && <span className="block text-xs text-gray-500">Currently: {change.current}</span>}
+                    </span>
+                  )}
+                  {change.reason === 'stale' && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap bg-amber-100 text-amber-800">
+                      Differs
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Fills in missing covers, page counts, categories and audiobook details on pages already in the
+ * books database. Nothing is written until the proposed changes are reviewed and applied.
+ */
+const MetadataRefreshPanel: React.FC<MetadataRefreshPanelProps> = ({ settings }) => {
+  const {
+    items,
+    isScanning,
+    isLookingUp,
+    isApplying,
+    progress,
+    scan,
+    lookUp,
+    apply,
+    cancel,
+    toggleChange,
+    togglePage,
+    reset
+  } = useMetadataRefresh();
+
+  const refreshableFields = useMemo(() => MetadataRefreshService.getRefreshableFields(settings), [settings]);
+  const refreshableKey = refreshableFields.join(',');
+  const [fields, setFields] = useState<RefreshField[]>(refreshableFields);
+  // Also look up pages whose fields are set, proposing (unapproved) values that differ
+  const [includeFilled, setIncludeFilled] = useState(false);
+  const [hasScanned, setHasScanned] = useState(false);
+
+  // Results belong to one database and mapping; start over when they change (e.g. a profile switch)
+  useEffect(() => {
+    reset();
+    setHasScanned(false);
+    setFields(refreshableKey ? refreshableKey.split(',') as RefreshField[] : []);
+  }, [settings.databaseId, refreshableKey, reset]);
+
+  const isBusy = isScanning || isLookingUp || isApplying;
+  const pendingCount = items.filter(item => item.status === 'pending' || item.status === 'failed').length;
+  const approvedCount = items.filter(item =>
+    item.status === 'proposed' && item.changes.some(change => change.approved)
+  ).length;
+
+  const toggleField = (field: RefreshField, checked: boolean) => {
+    setFields(prev => checked ? [...prev, field] : prev.filter(existing => existing !== field));
+  };
+
+  const handleScan = async () => {
+    // A failed scan keeps whatever it found, but does not claim the rest of the library is complete
+    if (await scan(settings, fields, includeFilled)) {
+      setHasScanned(true);
+    }
+  };
+
+  const handleApply = async () => {
+    const { updated, failed } = await apply(settings);
+    if (updated > 0) {
+      toast.success(`Updated ${updated} page${updated === 1 ? '' : 's'} in Notion`);
+    }
+    if (failed > 0) {
+      toast.error(`${failed} page${failed === 1 ? '' : 's'} failed to update`);
+    }
+  };
+
+  if (refreshableFields.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 text-sm text-gray-600">
+        Map a cover, page count, categories or audiobook property in Settings to refresh them here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Refresh metadata</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Find pages with empty fields, look the books up again by ISBN or title and author, and review what
+            would be filled in. Only the changes you approve are written, and only to those fields. Values that
+            differ from the lookup on filled fields are shown too when you check them, but not approved by default.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          {refreshableFields.map(field => (
+            <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={fields.includes(field)}
+                onChange={(e) => toggleField(field, e.target.checked)}
+                disabled={isBusy}
+                className={checkboxClassName}
+              />
+              {REFRESH_FIELD_LABELS[field]}
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-sm text-gray-700 sm:ml-auto">
+            <input
+              type="checkbox"
+              checked={includeFilled}
+              onChange={(e) => setIncludeFilled(e.target.checked)}
+              disabled={isBusy}
+              className={checkboxClassName}
+            />
+            Also check filled fields for outdated values
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleScan}
+            disabled={isBusy || fields.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <MagnifyingGlassIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} />
+            {hasScanned ? 'Scan again' : includeFilled ? 'Find pages to check' : 'Find pages with missing data'}
+          </button>
+          {pendingCount > 0 && (
+            <button
+              type="button"
+              onClick={lookUp}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm bg-white border border-blue-300 text-blue-700 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+              Look up {pendingCount} book{pendingCount === 1 ? '' : 's'}
+            </button>
+          )}
+          {approvedCount > 0 && (
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={isBusy}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              <CheckCircleIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.FILL} />
+              Apply approved changes to {approvedCount} page{approvedCount === 1 ? '' : 's'}
+            </button>
+          )}
+          {isBusy && (
+            <button
+              type="button"
+              onClick={cancel}
+              className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 hover:text-gray-900"
+            >
+              <StopIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.FILL} />
+              Stop
+            </button>
+          )}
+          {isScanning && progress && (
+            <span className="flex items-center gap-2 text-sm text-gray-600">
+              <SpinnerGapIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+              Scanned {progress.done} pages
+            </span>
+          )}
+          {(isLookingUp || isApplying) && progress && (
+            <ImportProgressBar label={isLookingUp ? 'Looked up' : 'Updated'} done={progress.done} total={progress.total} />
+          )}
+        </div>
+
+        {fields.includes('audiobook') && (
+          <p className="flex items-start gap-2 text-xs text-gray-500">
+            <WarningIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} className="text-yellow-500 flex-shrink-0" />
+            Audiobook lookups search Audible by title and author, so check that narrators and durations belong to the right book.
+          </p>
+        )}
+      </div>
+
+      {hasScanned && items.length === 0 && !isScanning && (
+        <p className="text-center py-8 text-gray-500">
+          {includeFilled ? 'No pages have the selected fields.' : 'No pages are missing the selected fields.'}
+        </p>
+      )}
+
+      {items.length > 0 && (
+        <ul className="bg-white rounded-lg shadow-md border border-gray-200 divide-y divide-gray-100">
+          {items.map(item => (
+            <RefreshItemRow
+              key={item.id}
+              item={item}
+              disabled={isBusy}
+              onToggleChange={(field, approved) => toggleChange(item.id, field, approved)}
+              onTogglePage={(approved) => togglePage(item.id, approved)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MetadataRefreshPanel;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { LibraryStatsCount } from '../../types/library';
+
+export interface PeriodBar {
+  label: string;
+  // Full period name for the tooltip, e.g. "March 2025"
+  title: string;
+  values: number[];
+}
+
+interface PeriodBarChartProps {
+  bars: PeriodBar[];
+  series: Array<{ name: string; className: string }>;
+  height?: number;
+}
+
+/**
+ * Grouped bars per period, one bar for each series, scaled to the largest value shown
+ */
+export const PeriodBarChart: React.FC<PeriodBarChartProps> = ({ bars, series, height = 160 }) => {
+  const max = Math.max(1, ...bars.flatMap(bar => bar.values));
+
+  return (
+    <div>
+      <div className="flex items-end gap-2 border-b border-gray-200" style={{ height }}>
+        {bars.map(bar => (
+          <div
+            key={bar.label}
+            className="flex-1 flex items-end justify-center gap-0.5 h-full min-w-0"
+            title={`${bar.title}: ${series.map((s, index) => `${bar.values[index]} ${s.name.toLowerCase()}`).join(', ')}`}
+          >
+            {bar.values.map((value, index) => (
+              <div
+                key={series[index].name}
+                className={`w-full max-w-[1.25rem] rounded-t ${series[index].className}`}
+                style={{ height: `${(value / max) * 100}%`, minHeight: value > 0 ? 2 : 0 }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-1">
+        {bars.map(bar => (
+          <div key={bar.label} className="flex-1 min-w-0 text-center text-xs text-gray-500 truncate">{bar.label}</div>
+        ))}
+      </div>
+      <div className="flex items-center gap-4 mt-3 text-xs text-gray-600">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${s.className}`} />
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Horizontal bars for a top-N list
+ */
+export const RankedList: React.FC<{ title: string; items: LibraryStatsCount[]; emptyMessage: string }> = ({
+  title,
+  items,
+  emptyMessage
+}) => {
+  const max = Math.max(1, ...items.map(item => item.count));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyMessage}</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={item.name} className="text-sm">
+              <div className="flex justify-between gap-2 text-gray-700">
+                <span className="truncate">{item.name}</span>
+                <span className="text-gray-500">{item.count}</span>
+              </div>
+              <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+                <div className="h-1.5 bg-blue-500 rounded-full" style={{ width: `${(item.count / max) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * One bar split into proportional segments
+ */
+export const SplitBar: React.FC<{ parts: Array<{ name: string; value: number; className: string }> }> = ({ parts }) => {
+  const total = parts.reduce((sum, part) => sum + part.value, 0);
+
+  return (
+    <div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+        {total > 0 && parts.map(part => (
+          <div key={part.name} className={part.className} style={{ width: `${(part.value / total) * 100}%` }} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-700">
+        {parts.map(part => (
+          <span key={part.name} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${part.className}`} />
+            {part.name}: {part.value}
+            {total > 0 && <span className="text-gray-500">({Math.round((part.value / total) * 100)}%)</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
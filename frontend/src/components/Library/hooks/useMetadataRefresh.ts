@@ -0,0 +1,229 @@
+import { useState, useRef, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { LibraryPage } from '../../../types/library';
+import { NotionIntegrationSettings } from '../../../types/notion';
+import { RefreshField, RefreshItem } from '../../../types/refresh';
+import { NotionService } from '../../../services/notionService';
+import { MetadataRefreshService } from '../../../services/metadataRefreshService';
+import { useNotionActivity } from '../../../contexts/NotionActivityContext';
+
+interface RefreshProgress {
+  done: number;
+  total: number;
+}
+
+interface UseMetadataRefreshReturn {
+  items: RefreshItem[];
+  isScanning: boolean;
+  isLookingUp: boolean;
+  isApplying: boolean;
+  progress: RefreshProgress | null;
+  scan: (settings: NotionIntegrationSettings, fields: RefreshField[], includeFilled?: boolean) => Promise<boolean>;
+  lookUp: () => Promise<void>;
+  apply: (settings: NotionIntegrationSettings) => Promise<{ updated: number; failed: number }>;
+  cancel: () => void;
+  toggleChange: (itemId: string, field: RefreshField, approved: boolean) => void;
+  togglePage: (itemId: string, approved: boolean) => void;
+  reset: () => void;
+}
+
+// Pages read per library request while scanning
+const SCAN_PAGE_SIZE = 100;
+
+/**
+ * Metadata refresh job: scan the books database for pages with missing fields (or, with
+ * `includeFilled`, every page with the fields), look each book up again, then write the changes
+ * approved per page and per field. Every step runs one page at a
+ * time and can be cancelled and resumed. Failures are reported here, so callers need not catch.
+ */
+export const useMetadataRefresh = (): UseMetadataRefreshReturn => {
+  const [items, setItems] = useState<RefreshItem[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [progress, setProgress] = useState<RefreshProgress | null>(null);
+  const itemsRef = useRef<RefreshItem[]>([]);
+  const cancelledRef = useRef(false);
+  const { recordActivity } = useNotionActivity();
+
+  const updateItems = useCallback((updater: (prev: RefreshItem[]) => RefreshItem[]) => {
+    const next = updater(itemsRef.current);
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const updateItem = useCallback((itemId: string, changes: Partial<RefreshItem>) => {
+    updateItems(prev => prev.map(item => item.id === itemId ? { ...item, ...changes } : item));
+  }, [updateItems]);
+
+  const scan = useCallback(async (settings: NotionIntegrationSettings, fields: RefreshField[], includeFilled = false) => {
+    cancelledRef.current = false;
+    updateItems(() => []);
+    setIsScanning(true);
+    setProgress(null);
+
+    try {
+      let cursor: string | null = null;
+      let scanned = 0;
+      do {
+        const page: LibraryPage = await NotionService.queryLibrary(settings.databaseId, settings.fieldMapping, {
+          cursor,
+          pageSize: SCAN_PAGE_SIZE
+        });
+        scanned += page.books.length;
+
+        const found: RefreshItem[] = page.books
+          .map((book): RefreshItem => {
+            const missing = MetadataRefreshService.findMissingFields(book, fields);
+            const filled = includeFilled ? fields.filter(field => !missing.includes(field)) : [];
+            return { id: book.notionPageId, book, missing, filled, status: 'pending', changes: [] };
+          })
+          .filter(item => item.missing.length > 0 || item.filled.length > 0);
+        updateItems(prev => [...prev, ...found]);
+        // The total is unknown until the last page; scanning only reports how far it got
+        setProgress({ done: scanned, total: scanned });
+
+        cursor = page.hasMore ? page.nextCursor : null;
+      } while (cursor && !cancelledRef.current);
+      return true;
+    } catch (error) {
+      // Pages found before the failure stay listed
+      console.error('Library scan failed:', error);
+      toast.error(`Failed to scan the library: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    } finally {
+      setIsScanning(false);
+    }
+  }, [updateItems]);
+
+  const lookUp = useCallback(async () => {
+    const queue = itemsRef.current.filter(item => item.status === 'pending' || item.status === 'failed');
+    if (queue.length === 0) return;
+
+    cancelledRef.current = false;
+    setIsLookingUp(true);
+    setProgress({ done: 0, total: queue.length });
+
+    try {
+      for (let i = 0; i < queue.length; i++) {
+        if (cancelledRef.current) break;
+
+        const item = queue[i];
+        updateItem(item.id, { status: 'looking-up', error: undefined });
+
+        try {
+          const found = await MetadataRefreshService.lookup(item.book, [...item.missing, ...item.filled]);
+          const changes = found ? MetadataRefreshService.proposeChanges(found, item.book, item.missing, item.filled) : [];
+          updateItem(item.id, {
+            status: changes.length > 0 ? 'proposed' : 'no-changes',
+            found: found || undefined,
+            changes
+          });
+        } catch (error) {
+          updateItem(item.id, { status: 'failed', error: error instanceof Error ? error.message : 'Lookup failed' });
+        }
+
+        setProgress({ done: i + 1, total: queue.length });
+      }
+    } catch (error) {
+      console.error('Metadata lookup failed:', error);
+      toast.error(`Failed to look up books: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      // Pages interrupted by cancel or a failure are looked up on the next run
+      updateItems(prev => prev.map(item => item.status === 'looking-up' ? { ...item, status: 'pending' } : item));
+      setIsLookingUp(false);
+    }
+  }, [updateItem, updateItems]);
+
+  const apply = useCallback(async (settings: NotionIntegrationSettings) => {
+    const queue = itemsRef.current.filter(item =>
+      item.status === 'proposed' && item.changes.some(change => change.approved)
+    );
+    let updated = 0;
+    let failed = 0;
+    if (queue.length === 0) return { updated, failed };
+
+    cancelledRef.current = false;
+    setIsApplying(true);
+    setProgress({ done: 0, total: queue.length });
+
+    try {
+      for (let i = 0; i < queue.length; i++) {
+        if (cancelledRef.current) break;
+
+        const item = queue[i];
+        updateItem(item.id, { status: 'applying', error: undefined });
+        try {
+          const request = item.found && MetadataRefreshService.buildUpdateRequest(item.book, item.found, item.changes, settings);
+          if (!request) {
+            updateItem(item.id, { status: 'proposed' });
+            continue;
+          }
+
+          const updatedPage = await NotionService.updateBookPage(item.book.notionPageId, request);
+          recordActivity({
+            action: 'updated',
+            pageId: item.book.notionPageId,
+            pageUrl: item.book.notionPageUrl,
+            bookTitle: item.book.title,
+            previous: updatedPage.previous
+          });
+          updateItem(item.id, { status: 'applied' });
+          updated++;
+        } catch (error) {
+          // Failed writes stay proposed so they can be applied again
+          updateItem(item.id, { status: 'proposed', error: error instanceof Error ? error.message : 'Failed to update page' });
+          failed++;
+        }
+
+        setProgress({ done: i + 1, total: queue.length });
+      }
+    } catch (error) {
+      console.error('Metadata refresh failed:', error);
+      toast.error(`Failed to update pages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      updateItems(prev => prev.map(item => item.status === 'applying' ? { ...item, status: 'proposed' } : item));
+      setIsApplying(false);
+    }
+    return { updated, failed };
+  }, [updateItem, updateItems, recordActivity]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const toggleChange = useCallback((itemId: string, field: RefreshField, approved: boolean) => {
+    updateItems(prev => prev.map(item => item.id !== itemId ? item : {
+      ...item,
+      changes: item.changes.map(change => change.field === field ? { ...change, approved } : change)
+    }));
+  }, [updateItems]);
+
+  const togglePage = useCallback((itemId: string, approved: boolean) => {
+    updateItems(prev => prev.map(item => item.id !== itemId ? item : {
+      ...item,
+      changes: item.changes.map(change => ({ ...change, approved }))
+    }));
+  }, [updateItems]);
+
+  const reset = useCallback(() => {
+    cancelledRef.current = true;
+    updateItems(() => []);
+    setProgress(null);
+  }, [updateItems]);
+
+  return {
+    items,
+    isScanning,
+    isLookingUp,
+    isApplying,
+    progress,
+    scan,
+    lookUp,
+    apply,
+    cancel,
+    toggleChange,
+    togglePage,
+    reset
+  };
+};
@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ArrowClockwiseIcon,
+  FloppyDiskIcon,
+  SpinnerGapIcon
+} from '@phosphor-icons/react';
+import { MetadataProviderInfo, ProviderPreference } from '../types/book';
+import { BookService } from '../services/bookService';
+import Tooltip from './ui/Tooltip';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+const CAPABILITY_LABELS: Array<{ key: keyof MetadataProviderInfo['capabilities']; label: string }> = [
+  { key: 'search', label: 'Search' },
+  { key: 'isbnSearch', label: 'ISBN' },
+  { key: 'getById', label: 'Lookup' },
+  { key: 'editions', label: 'Editions' }
+];
+
+/**
+ * Settings card for choosing which metadata providers are searched and in what order.
+ * Earlier providers win when merged results disagree.
+ */
+const MetadataProvidersPanel: React.FC = () => {
+  const [providers, setProviders] = useState<MetadataProviderInfo[]>([]);
+  const [preferences, setPreferences] = useState<ProviderPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const loadProviders = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const available = await BookService.getProviders();
+      setProviders(available);
+      setPreferences(BookService.mergeProviderPreferences(available, BookService.loadProviderPreferences()));
+      setHasChanges(false);
+    } catch (err) {
+      console.error('Failed to load metadata providers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load metadata providers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProviders();
+  }, [loadProviders]);
+
+  const toggleProvider = (id: string) => {
+    setPreferences(prev => prev.map(preference =>
+      preference.id === id ? { ...preference, enabled: !preference.enabled } : preference
+    ));
+    setHasChanges(true);
+  };
+
+  const moveProvider = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= preferences.length) return;
+    setPreferences(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setHasChanges(true);
+  };
+
+  const handleSave = () => {
+    if (!preferences.some(preference => preference.enabled)) {
+      toast.error('Enable at least one metadata provider');
+      return;
+    }
+    BookService.saveProviderPreferences(preferences);
+    setHasChanges(false);
+    toast.success('Metadata provider settings saved');
+  };
+
+  const handleReset = () => {
+    BookService.resetProviderPreferences();
+    setPreferences(BookService.mergeProviderPreferences(providers, null));
+    setHasChanges(false);
+    toast.success('Metadata providers reset to defaults');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-semibold text-gray-900">Metadata Providers</h2>
+          <Tooltip content="Searches run against every enabled provider. Results are merged in the order below, so earlier providers win when data conflicts.">
+            <div className="text-blue-600 cursor-help">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM8.94 6.94a.75.75 0 11-1.061-1.061 3 3 0 112.871 5.026v.345a.75.75 0 01-1.5 0v-.5c0-.72.57-1.172 1.081-1.287A1.5 1.5 0 108.94 6.94zM10 15a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+              </svg>
+            </div>
+          </Tooltip>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tooltip content="Reset to Defaults">
+            <button
+              onClick={handleReset}
+              disabled={loading}
+              className="group p-2 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <ArrowClockwiseIcon size={ICON_CONTEXTS.SETTINGS.DEFAULT} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+            </button>
+          </Tooltip>
+          <Tooltip content="Save Providers">
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges}
+              className="group p-2 rounded-md bg-green-100 text-green-700 hover:bg-green-200 transition-colors disabled:opacity-50"
+            >
+              <FloppyDiskIcon size={ICON_CONTEXTS.SETTINGS.DEFAULT} weight={ICON_WEIGHTS.FILL} className="group-hover:animate-wiggle" />
+            </button>
+          </Tooltip>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+          Loading providers...
+        </div>
+      ) : error ? (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+          <button onClick={loadProviders} className="ml-2 underline hover:text-red-900">Retry</button>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {preferences.map((preference, index) => {
+            const provider = providers.find(p => p.id === preference.id);
+            if (!provider) return null;
+
+            return (
+              <li
+                key={preference.id}
+                className={`flex items-start gap-3 p-3 border rounded-lg ${preference.enabled ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={preference.enabled}
+                  onChange={() => toggleProvider(preference.id)}
+                  className="mt-1 h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  aria-label={`Enable ${provider.name}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium text-gray-500">{index + 1}.</span>
+                    <span className={`font-medium ${preference.enabled ? 'text-gray-900' : 'text-gray-500'}`}>{provider.name}</span>
+                  </div>
+                  {provider.description && (
+                    <p className="text-xs text-gray-600 mt-0.5">{provider.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {CAPABILITY_LABELS.filter(({ key }) => provider.capabilities[key]).map(({ key, label }) => (
+                      <span key={key} className="px-1.5 py-0.5 text-[10px] font-medium bg-white border border-gray-200 text-gray-600 rounded">
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => moveProvider(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowUpIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+                  </button>
+                  <button
+                    onClick={() => moveProvider(index, 1)}
+                    disabled={index === preferences.length - 1}
+                    title="Move down"
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowDownIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MetadataProvidersPanel;
@@ -1,10 +1,16 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import ProfileSwitcher from './ProfileSwitcher';
+import ActivityMenu from './ActivityMenu';
 
 const Navbar: React.FC = () => {
   const location = useLocation();
+  const { isAuthenticated } = useAuth();
   const [indicatorStyle, setIndicatorStyle] = useState({ width: 0, left: 0, opacity: 0 });
   const booksRef = useRef<HTMLAnchorElement>(null);
+  const libraryRef = useRef<HTMLAnchorElement>(null);
+  const importRef = useRef<HTMLAnchorElement>(null);
   const settingsRef = useRef<HTMLAnchorElement>(null);
 
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -25,6 +31,10 @@ const Navbar: React.FC = () => {
     
     if (isActive('/notion')) {
       activeRef = booksRef;
+    } else if (location.pathname.startsWith('/library')) {
+      activeRef = libraryRef;
+    } else if (isActive('/import')) {
+      activeRef = importRef;
     } else if (isActive('/settings')) {
       activeRef = settingsRef;
     }
@@ -78,6 +88,28 @@ const Navbar: React.FC = () => {
               >
                 Books
               </Link>
+              <Link
+                ref={libraryRef}
+                to="/library"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  location.pathname.startsWith('/library')
+                    ? 'text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                Library
+              </Link>
+              <Link
+                ref={importRef}
+                to="/import"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  isActive('/import')
+                    ? 'text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                Import
+              </Link>
               <Link
                 ref={settingsRef}
                 to="/settings"
@@ -93,6 +125,12 @@ const Navbar: React.FC = () => {
           </div>
           
           {/* Removed user info and logout section */}
+          {isAuthenticated && (
+            <div className="flex items-center gap-3">
+              <ActivityMenu />
+              <ProfileSwitcher />
+            </div>
+          )}
         </div>
       </div>
     </nav>
@@ -0,0 +1,128 @@
+import React, { useRef } from 'react';
+import { PAGE_TEMPLATE_PLACEHOLDERS, EXAMPLE_PAGE_TEMPLATE } from '../utils/pageTemplate';
+import Tooltip from './ui/Tooltip';
+
+interface PageTemplateEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const SYNTAX_HELP: Array<[string, string]> = [
+  ['# / ## / ###', 'Headings'],
+  ['- item', 'Bulleted list'],
+  ['1. item', 'Numbered list'],
+  ['[ ] task', 'To-do'],
+  ['> text', 'Quote'],
+  ['---', 'Divider'],
+  ['**bold** *italic*', 'Formatting'],
+  ['[text](url)', 'Link'],
+  ['{{#if field}} … {{else}} … {{/if}}', 'Only when a field has a value']
+];
+
+const PageTemplateEditor: React.FC<PageTemplateEditorProps> = ({ value, onChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Insert at the cursor, replacing any selection, and keep the cursor after the insertion
+  const insertAtCursor = (text: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      onChange(value + text);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(value.substring(0, selectionStart) + text + value.substring(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + text.length, selectionStart + text.length);
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-semibold text-gray-900">Page Template</h2>
+          <Tooltip content="Written to the body of every new book page, above the Page Content sections. Placeholders are filled from the book being added; a placeholder alone on a line (like {{description}}) keeps its paragraphs and formatting. Lines left empty by missing values are skipped.">
+            <div className="text-blue-600 cursor-help">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM8.94 6.94a.75.75 0 11-1.061-1.061 3 3 0 112.871 5.026v.345a.75.75 0 01-1.5 0v-.5c0-.72.57-1.172 1.081-1.287A1.5 1.5 0 108.94 6.94zM10 15a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+              </svg>
+            </div>
+          </Tooltip>
+        </div>
+        <div className="flex items-center gap-3">
+          {!value && (
+            <button
+              type="button"
+              onClick={() => onChange(EXAMPLE_PAGE_TEMPLATE)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Use example
+            </button>
+          )}
+          {value && (
+            <button
+              type="button"
+              onClick={() => onChange('')}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2">
+          <label htmlFor="page-template" className="sr-only">Page template</label>
+          <textarea
+            id="page-template"
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            rows={12}
+            spellCheck={false}
+            placeholder={'## Summary\n{{description}}\n\n## Notes\n- Started: {{today}}'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Preview it on any book from the book details window. Leave empty to skip.
+          </p>
+        </div>
+
+        <div className="space-y-3 text-xs">
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">Syntax</h3>
+            <ul className="space-y-0.5 text-gray-600">
+              {SYNTAX_HELP.map(([syntax, meaning]) => (
+                <li key={syntax}>
+                  <code className="bg-gray-100 px-1 rounded">{syntax}</code> {meaning}
+                </li>
+              ))}
+            </ul>
+          </div>
+          {PAGE_TEMPLATE_PLACEHOLDERS.map(({ group, placeholders }) => (
+            <div key={group}>
+              <h3 className="font-medium text-gray-700 mb-1">{group}</h3>
+              <div className="flex flex-wrap gap-1">
+                {placeholders.map(placeholder => (
+                  <button
+                    key={placeholder.path}
+                    type="button"
+                    title={`{{${placeholder.path}}}`}
+                    onClick={() => insertAtCursor(`{{${placeholder.path}}}`)}
+                    className="px-2 py-0.5 rounded-full border border-gray-200 bg-gray-50 text-gray-700 hover:bg-blue-50 hover:border-blue-200 hover:text-blue-700"
+                  >
+                    {placeholder.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageTemplateEditor;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { StackIcon } from '@phosphor-icons/react';
+import { useNotionSettings } from '../contexts/NotionSettingsContext';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface ProfileSwitcherProps {
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Quick switch between Notion destination profiles. Hidden while there is only one profile;
+ * profiles are created and managed in Settings.
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ disabled = false, className = '' }) => {
+  const { profiles, activeProfileId, databases, notionSettings, switchProfile } = useNotionSettings();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (profiles.length < 2) return null;
+
+  const getDatabaseTitle = (profileId: string, databaseId?: string) => {
+    const id = profileId === activeProfileId ? notionSettings?.databaseId : databaseId;
+    if (!id) return 'not configured';
+    return databases.find(database => database.id === id)?.title || null;
+  };
+
+  const handleChange = async (profileId: string) => {
+    setIsSwitching(true);
+    try {
+      await switchProfile(profileId);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <label className={`flex items-center gap-2 text-sm text-gray-600 ${className}`} title="Notion destination profile">
+      <StackIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="text-gray-500 flex-shrink-0" />
+      <span className="sr-only">Profile</span>
+      <select
+        value={activeProfileId}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled || isSwitching}
+        className="max-w-[14rem] truncate text-sm border border-gray-300 rounded-md px-2 py-1 bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {profiles.map(profile => {
+          const databaseTitle = getDatabaseTitle(profile.id, profile.settings?.databaseId);
+          return (
+            <option key={profile.id} value={profile.id}>
+              {databaseTitle ? `${profile.name} — ${databaseTitle}` : profile.name}
+            </option>
+          );
+        })}
+      </select>
+    </label>
+  );
+};
+
+export default ProfileSwitcher;
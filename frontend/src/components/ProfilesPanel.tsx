@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { PencilSimpleIcon, TrashIcon, XIcon } from '@phosphor-icons/react';
+import { useNotionSettings } from '../contexts/NotionSettingsContext';
+import Tooltip from './ui/Tooltip';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface ProfilesPanelProps {
+  // Switching replaces the settings being edited, so unsaved edits need confirming first
+  hasUnsavedChanges: () => boolean;
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ hasUnsavedChanges }) => {
+  const {
+    profiles,
+    activeProfileId,
+    databases,
+    notionSettings,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    deleteProfile
+  } = useNotionSettings();
+  const [newName, setNewName] = useState('');
+  const [copyCurrent, setCopyCurrent] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const confirmDiscard = () =>
+    !hasUnsavedChanges() || window.confirm('You have unsaved changes in this profile. Discard them and continue?');
+
+  const getDatabaseLabel = (profileId: string, databaseId?: string) => {
+    const id = profileId === activeProfileId ? notionSettings?.databaseId : databaseId;
+    if (!id) return 'No database selected';
+    return databases.find(database => database.id === id)?.title || 'Database not shared with the integration';
+  };
+
+  const isNameTaken = (name: string, exceptId?: string) =>
+    profiles.some(profile => profile.id !== exceptId && profile.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || isNameTaken(newName) || !confirmDiscard()) return;
+    await createProfile(newName, copyCurrent);
+    setNewName('');
+  };
+
+  const handleSwitch = async (profileId: string) => {
+    if (!confirmDiscard()) return;
+    await switchProfile(profileId);
+  };
+
+  const handleRename = (profileId: string) => {
+    if (editingName.trim() && !isNameTaken(editingName, profileId)) {
+      renameProfile(profileId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (profileId: string, name: string) => {
+    if (window.confirm(`Delete the "${name}" profile? Its database selection, mappings and genre settings are removed; nothing in Notion changes.`)) {
+      deleteProfile(profileId);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Profiles</h2>
+        <Tooltip content="Each profile keeps its own database, field mappings, defaults, page settings and genre settings. Switch between them here, from the navigation bar, or right before adding a book.">
+          <div className="text-blue-600 cursor-help">
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM8.94 6.94a.75.75 0 11-1.061-1.061 3 3 0 112.871 5.026v.345a.75.75 0 01-1.5 0v-.5c0-.72.57-1.172 1.081-1.287A1.5 1.5 0 108.94 6.94zM10 15a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+            </svg>
+          </div>
+        </Tooltip>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {profiles.map(profile => {
+          const isActive = profile.id === activeProfileId;
+          return (
+            <li key={profile.id} className="flex items-center gap-3 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                {editingId === profile.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={() => handleRename(profile.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(profile.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className={`${inputClassName} w-full`}
+                    aria-label="Profile name"
+                    autoFocus
+                  />
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{profile.name}</span>
+                    {isActive && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-green-800 bg-green-100 rounded-full">Active</span>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 truncate mt-0.5">
+                  {getDatabaseLabel(profile.id, profile.settings?.databaseId)}
+                </p>
+              </div>
+
+              {!isActive && (
+                <button
+                  type="button"
+                  onClick={() => handleSwitch(profile.id)}
+                  className="px-3 py-1 text-sm text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors"
+                >
+                  Switch
+                </button>
+              )}
+              <Tooltip content="Rename">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(profile.id);
+                    setEditingName(profile.name);
+                  }}
+                  className="p-1 text-gray-400 hover:text-gray-700"
+                  aria-label={`Rename ${profile.name}`}
+                >
+                  <PencilSimpleIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+                </button>
+              </Tooltip>
+              {!isActive && (
+                <Tooltip content="Delete">
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(profile.id, profile.name)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${profile.name}`}
+                  >
+                    <TrashIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+                  </button>
+                </Tooltip>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleCreate} className="mt-4 space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New profile name, e.g. Wishlist"
+            className={`${inputClassName} flex-1`}
+            aria-label="New profile name"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || isNameTaken(newName)}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create
+          </button>
+        </div>
+        {newName.trim() && isNameTaken(newName) && (
+          <p className="flex items-center gap-1 text-xs text-red-600">
+            <XIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+            A profile with this name already exists
+          </p>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={copyCurrent}
+            onChange={(e) => setCopyCurrent(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+          />
+          Start from the saved settings of the current profile
+        </label>
+        <p className="text-xs text-gray-500">The new profile becomes active; choose its database below.</p>
+      </form>
+    </div>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { CaretDownIcon, FunnelIcon } from '@phosphor-icons/react';
+import { SearchFilters, SearchFormat } from '../types/book';
+import { LANGUAGE_OPTIONS, countActiveFilters } from '../utils/searchFilters';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface SearchFilterPanelProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: Array<{ value: SearchFormat | undefined; label: string }> = [
+  { value: undefined, label: 'Any' },
+  { value: 'print', label: 'Print' },
+  { value: 'ebook', label: 'Ebook' }
+];
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const SearchFilterPanel: React.FC<SearchFilterPanelProps> = ({ filters, onChange, disabled = false }) => {
+  const activeCount = countActiveFilters(filters);
+  const [isOpen, setIsOpen] = useState(activeCount > 0);
+
+  const update = (changes: Partial<SearchFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const parseNumber = (value: string): number | undefined => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="group w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <FunnelIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+          Filters
+          {activeCount > 0 && (
+            <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full">{activeCount}</span>
+          )}
+        </span>
+        <CaretDownIcon
+          size={ICON_CONTEXTS.UI.INPUT}
+          weight={ICON_WEIGHTS.BOLD}
+          className={`transition-transform ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            key="filters"
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2, ease: 'easeOut' }}
+            className="overflow-hidden"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-3 border-t border-gray-200">
+              {/* Publication Year */}
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Publication Year</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="From"
+                    value={filters.yearFrom ?? ''}
+                    onChange={(e) => update({ yearFrom: parseNumber(e.target.value) })}
+                    className={inputClassName}
+                    disabled={disabled}
+                    aria-label="Published from year"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="To"
+                    value={filters.yearTo ?? ''}
+                    onChange={(e) => update({ yearTo: parseNumber(e.target.value) })}
+                    className={inputClassName}
+                    disabled={disabled}
+                    aria-label="Published to year"
+                  />
+                </div>
+              </div>
+
+              {/* Page Count */}
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Page Count</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Min"
+                    value={filters.minPages ?? ''}
+                    onChange={(e) => update({ minPages: parseNumber(e.target.value) })}
+                    className={inputClassName}
+                    disabled={disabled}
+                    aria-label="Minimum pages"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Max"
+                    value={filters.maxPages ?? ''}
+                    onChange={(e) => update({ maxPages: parseNumber(e.target.value) })}
+                    className={inputClassName}
+                    disabled={disabled}
+                    aria-label="Maximum pages"
+                  />
+                </div>
+              </div>
+
+              {/* Language */}
+              <div>
+                <label htmlFor="filter-language" className="block text-xs font-medium text-gray-600 mb-1">Language</label>
+                <select
+                  id="filter-language"
+                  value={filters.language || ''}
+                  onChange={(e) => update({ language: e.target.value || undefined })}
+                  className={`${inputClassName} bg-white`}
+                  disabled={disabled}
+                >
+                  <option value="">Any language</option>
+                  {LANGUAGE_OPTIONS.map(option => (
+                    <option key={option.code} value={option.code}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Format */}
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Format</label>
+                <div className="flex items-center gap-1 p-1 bg-gray-100 rounded-lg w-fit">
+                  {FORMAT_OPTIONS.map(option => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={() => update({ format: option.value })}
+                      disabled={disabled}
+                      className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                        filters.format === option.value ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Audiobook */}
+              <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-2">
+                <input
+                  type="checkbox"
+                  checked={!!filters.hasAudiobook}
+                  onChange={(e) => update({ hasAudiobook: e.target.checked || undefined })}
+                  className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  disabled={disabled}
+                />
+                Only books with an audiobook
+                <span className="text-xs text-gray-500">(slower: checks every result on Audible)</span>
+              </label>
+
+              {activeCount > 0 && (
+                <div className="md:col-span-2">
+                  <button
+                    type="button"
+                    onClick={() => onChange({})}
+                    className="text-xs text-gray-500 hover:text-gray-700 underline"
+                    disabled={disabled}
+                  >
+                    Clear filters
+                  </button>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default SearchFilterPanel;
@@ -1,26 +1,57 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { SearchType, SearchParams } from '../types/book';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BarcodeIcon, KeyboardIcon } from '@phosphor-icons/react';
+import { SearchType, SearchParams, SearchFilters, SearchHistoryEntry } from '../types/book';
 import { SuggestionService, BookSuggestion } from '../services/suggestionService';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+import { queryToSearchParams, searchParamsToQuery } from '../utils/searchFilters';
+import BarcodeScanner from './BarcodeScanner';
+import SearchFilterPanel from './SearchFilterPanel';
+import SearchHistoryDropdown from './SearchHistoryDropdown';
+import { SearchHistoryService } from '../services/searchHistoryService';
 
 interface SearchFormProps {
   onSearch: (params: SearchParams) => void;
   isLoading?: boolean;
+  // Mirror searches in the page URL (and run the search in the URL on load) so they can be shared
+  syncWithUrl?: boolean;
 }
 
-const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false }) => {
-  const [query, setQuery] = useState('');
-  const [searchType, setSearchType] = useState<SearchType>('general');
-  const [limit, setLimit] = useState(10);
+const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false, syncWithUrl = false }) => {
+  const [urlParams, setUrlParams] = useSearchParams();
+  const [initialSearch] = useState(() => syncWithUrl ? queryToSearchParams(urlParams) : null);
+  const [query, setQuery] = useState(initialSearch?.query || '');
+  const [searchType, setSearchType] = useState<SearchType>(initialSearch?.type || 'general');
+  const [limit, setLimit] = useState(initialSearch?.limit || 10);
+  const [filters, setFilters] = useState<SearchFilters>(initialSearch?.filters || {});
   const [suggestions, setSuggestions] = useState<BookSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
   const [hasSearched, setHasSearched] = useState(false);
+  const [isScanMode, setIsScanMode] = useState(false);
   
   const inputRef = useRef<HTMLInputElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
   const debounceRef = useRef<NodeJS.Timeout>();
 
+  const runSearch = useCallback((params: SearchParams) => {
+    if (syncWithUrl) {
+      setUrlParams(searchParamsToQuery(params));
+    }
+    onSearch(params);
+  }, [onSearch, syncWithUrl, setUrlParams]);
+
+  // Run the search described by the URL once, when the page is opened from a shared link
+  const initialSearchRunRef = useRef(false);
+  useEffect(() => {
+    if (initialSearch && !initialSearchRunRef.current) {
+      initialSearchRunRef.current = true;
+      setHasSearched(true);
+      onSearch(initialSearch);
+    }
+  }, [initialSearch, onSearch]);
+
   // Fetch suggestions with debouncing
   useEffect(() => {
     if (debounceRef.current) {
@@ -78,26 +109,54 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false })
     e.preventDefault();
     if (query.trim()) {
       setHasSearched(true);
-      onSearch({
+      runSearch({
         query: query.trim(),
         type: searchType,
-        limit
+        limit,
+        filters
       });
     }
   };
 
+  // Scanned barcodes always run as an ISBN search
+  const handleIsbnSearch = useCallback((isbn: string) => {
+    setSearchType('isbn');
+    setQuery(isbn);
+    setHasSearched(true);
+    runSearch({
+      query: isbn,
+      type: 'isbn',
+      limit,
+      filters
+    });
+  }, [runSearch, limit, filters]);
+
   const handleSuggestionClick = (suggestion: BookSuggestion) => {
     setQuery(suggestion.searchQuery);
     setShowSuggestions(false);
     setSelectedSuggestionIndex(-1);
     // Automatically search with the suggestion
-    onSearch({
+    runSearch({
       query: suggestion.searchQuery,
       type: searchType,
-      limit
+      limit,
+      filters
     });
   };
 
+  // Re-run a past or saved search, restoring its form values
+  const handleHistorySelect = (entry: SearchHistoryEntry) => {
+    const params = SearchHistoryService.toSearchParams(entry);
+    setIsScanMode(false);
+    setQuery(params.query);
+    setSearchType(params.type);
+    if (params.limit) setLimit(params.limit);
+    setFilters(params.filters || {});
+    setShowSuggestions(false);
+    setHasSearched(true);
+    runSearch({ ...params, limit: params.limit || limit });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (!showSuggestions || suggestions.length === 0) return;
 
@@ -147,6 +206,7 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false })
     { value: 'title' as SearchType, label: 'Title', description: 'Search by book title' },
     { value: 'author' as SearchType, label: 'Author', description: 'Search by author name' },
     { value: 'isbn' as SearchType, label: 'ISBN', description: 'Search by ISBN-10 or ISBN-13' },
+    { value: 'subject' as SearchType, label: 'Subject', description: 'Search by genre or topic' },
   ];
 
   const getPlaceholder = () => {
@@ -157,6 +217,8 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false })
         return 'Enter author name (e.g., "J.K. Rowling")';
       case 'isbn':
         return 'Enter ISBN (e.g., "9780439708180")';
+      case 'subject':
+        return 'Enter a subject (e.g., "science fiction")';
       default:
         return 'Enter search terms...';
     }
@@ -164,120 +226,171 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false })
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-        {/* Search Type Selection */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Search Type
-          </label>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {searchTypeOptions.map((option) => (
-              <label
-                key={option.value}
-                className={`relative flex cursor-pointer rounded-lg border p-3 focus:outline-none ${
-                  searchType === option.value
-                    ? 'border-blue-600 bg-blue-50 text-blue-900'
-                    : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50'
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="searchType"
-                  value={option.value}
-                  checked={searchType === option.value}
-                  onChange={(e) => setSearchType(e.target.value as SearchType)}
-                  className="sr-only"
-                />
-                <div className="flex flex-col">
-                  <span className="block text-sm font-medium">{option.label}</span>
-                  <span className="block text-xs text-gray-500">{option.description}</span>
-                </div>
-              </label>
-            ))}
+        <div className="flex items-center justify-between gap-2">
+          {/* Input Mode Toggle */}
+          <div className="flex items-center gap-1 p-1 bg-gray-100 rounded-lg w-fit">
+            <button
+              type="button"
+              onClick={() => setIsScanMode(false)}
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                !isScanMode ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <KeyboardIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} />
+              Type
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsScanMode(true)}
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                isScanMode ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <BarcodeIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} />
+              Scan
+            </button>
           </div>
+
+          {/* Search History */}
+          <SearchHistoryDropdown onSelect={handleHistorySelect} disabled={isLoading} />
         </div>
 
-        {/* Search Query Input */}
-        <div className="relative">
-          <label htmlFor="query" className="block text-sm font-medium text-gray-700 mb-2">
-            Search Query
-            {searchType === 'general' && (
+        {isScanMode ? (
+          /* Barcode Scanner */
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Scan ISBN Barcode
               <span className="text-xs text-gray-500 ml-2">
-                (Try "harry potter 2" for suggestions)
+                (Decoded locally from your camera or a photo)
               </span>
-            )}
-          </label>
-          <div className="relative">
-            <input
-              ref={inputRef}
-              type="text"
-              id="query"
-              value={query}
-              onChange={handleInputChange}
-              onFocus={handleInputFocus}
-              onKeyDown={handleKeyDown}
-              placeholder={getPlaceholder()}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-              disabled={isLoading}
-              required
+            </label>
+            <BarcodeScanner
+              onIsbnScanned={handleIsbnSearch}
+              onSearchIsbn={handleIsbnSearch}
+              isLoading={isLoading}
             />
-            {isLoadingSuggestions && (
-              <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                <svg className="animate-spin h-4 w-4 text-gray-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-              </div>
-            )}
           </div>
+        ) : (
+          <>
+            {/* Search Type Selection */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search Type
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {searchTypeOptions.map((option) => (
+                  <label
+                    key={option.value}
+                    className={`relative flex cursor-pointer rounded-lg border p-3 focus:outline-none ${
+                      searchType === option.value
+                        ? 'border-blue-600 bg-blue-50 text-blue-900'
+                        : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="searchType"
+                      value={option.value}
+                      checked={searchType === option.value}
+                      onChange={(e) => setSearchType(e.target.value as SearchType)}
+                      className="sr-only"
+                    />
+                    <div className="flex flex-col">
+                      <span className="block text-sm font-medium">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
 
-          {/* Suggestions Dropdown */}
-          {showSuggestions && suggestions.length > 0 && !hasSearched && (
-            <div
-              ref={suggestionsRef}
-              className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-auto"
-            >
-              {suggestions.map((suggestion, index) => (
+            {/* Search Query Input */}
+            <div className="relative">
+              <label htmlFor="query" className="block text-sm font-medium text-gray-700 mb-2">
+                Search Query
+                {searchType === 'general' && (
+                  <span className="text-xs text-gray-500 ml-2">
+                    (Try "harry potter 2" for suggestions)
+                  </span>
+                )}
+              </label>
+              <div className="relative">
+                <input
+                  ref={inputRef}
+                  type="text"
+                  id="query"
+                  value={query}
+                  onChange={handleInputChange}
+                  onFocus={handleInputFocus}
+                  onKeyDown={handleKeyDown}
+                  placeholder={getPlaceholder()}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  disabled={isLoading}
+                  required
+                />
+                {isLoadingSuggestions && (
+                  <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                    <svg className="animate-spin h-4 w-4 text-gray-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  </div>
+                )}
+              </div>
+
+              {/* Suggestions Dropdown */}
+              {showSuggestions && suggestions.length > 0 && !hasSearched && (
                 <div
-                  key={`${suggestion.suggestion}-${index}`}
-                  onClick={() => handleSuggestionClick(suggestion)}
-                  className={`px-4 py-3 cursor-pointer border-b border-gray-100 last:border-b-0 ${
-                    index === selectedSuggestionIndex
-                      ? 'bg-blue-50 text-blue-900'
-                      : 'hover:bg-gray-50'
-                  }`}
+                  ref={suggestionsRef}
+                  className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-auto"
                 >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="text-sm font-medium text-gray-900">
-                        {suggestion.displayText}
+                  {suggestions.map((suggestion, index) => (
+                    <div
+                      key={`${suggestion.suggestion}-${index}`}
+                      onClick={() => handleSuggestionClick(suggestion)}
+                      className={`px-4 py-3 cursor-pointer border-b border-gray-100 last:border-b-0 ${
+                        index === selectedSuggestionIndex
+                          ? 'bg-blue-50 text-blue-900'
+                          : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="text-sm font-medium text-gray-900">
+                            {suggestion.displayText}
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            by {suggestion.author}
+                            {suggestion.metadata.series && (
+                              <span className="ml-2">
+                                • {suggestion.metadata.series.split(' ').map(word => 
+                                  word.charAt(0).toUpperCase() + word.slice(1)
+                                ).join(' ')} #{suggestion.metadata.bookNumber}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="ml-2 flex items-center">
+                          <span className={`inline-block w-2 h-2 rounded-full ${
+                            suggestion.metadata.confidence > 0.8 ? 'bg-green-400' :
+                            suggestion.metadata.confidence > 0.6 ? 'bg-yellow-400' :
+                            'bg-gray-400'
+                          }`}></span>
+                        </div>
                       </div>
-                      <div className="text-xs text-gray-500 mt-1">
-                        by {suggestion.author}
-                        {suggestion.metadata.series && (
-                          <span className="ml-2">
-                            • {suggestion.metadata.series.split(' ').map(word => 
-                              word.charAt(0).toUpperCase() + word.slice(1)
-                            ).join(' ')} #{suggestion.metadata.bookNumber}
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                    <div className="ml-2 flex items-center">
-                      <span className={`inline-block w-2 h-2 rounded-full ${
-                        suggestion.metadata.confidence > 0.8 ? 'bg-green-400' :
-                        suggestion.metadata.confidence > 0.6 ? 'bg-yellow-400' :
-                        'bg-gray-400'
-                      }`}></span>
                     </div>
+                  ))}
+                  <div className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-t">
+                    Use ↑↓ to navigate, Enter to select, Esc to close
                   </div>
                 </div>
-              ))}
-              <div className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-t">
-                Use ↑↓ to navigate, Enter to select, Esc to close
-              </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
+
+        {/* Filters */}
+        <SearchFilterPanel filters={filters} onChange={setFilters} disabled={isLoading} />
 
         {/* Results Limit */}
         <div>
@@ -304,17 +417,19 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, isLoading = false })
         </div>
 
         {/* Submit Button */}
-        <button
-          type="submit"
-          disabled={isLoading || !query.trim()}
-          className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-            isLoading || !query.trim()
-              ? 'bg-gray-400 cursor-not-allowed'
-              : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
-          }`}
-        >
-          Search Books
-        </button>
+        {!isScanMode && (
+          <button
+            type="submit"
+            disabled={isLoading || !query.trim()}
+            className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+              isLoading || !query.trim()
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+            }`}
+          >
+            Search Books
+          </button>
+        )}
       </form>
   );
 };
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ClockCounterClockwiseIcon, PushPinIcon, XIcon } from '@phosphor-icons/react';
+import { SearchHistoryEntry } from '../types/book';
+import { useSearch } from '../contexts/SearchContext';
+import { describeSearchFilters } from '../utils/searchFilters';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+interface SearchHistoryDropdownProps {
+  onSelect: (entry: SearchHistoryEntry) => void;
+  disabled?: boolean;
+}
+
+const formatRelativeTime = (timestamp: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const SearchHistoryDropdown: React.FC<SearchHistoryDropdownProps> = ({ onSelect, disabled = false }) => {
+  const { searchHistory, togglePinnedSearch, removeHistoryEntry, clearSearchHistory } = useSearch();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const pinned = searchHistory.filter(entry => entry.pinned);
+  const recent = searchHistory.filter(entry => !entry.pinned);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (entry: SearchHistoryEntry) => {
+    setIsOpen(false);
+    onSelect(entry);
+  };
+
+  const renderEntry = (entry: SearchHistoryEntry) => {
+    const filterSummary = describeSearchFilters(entry.filters);
+
+    return (
+      <li key={entry.id} className="group flex items-start gap-2 px-3 py-2 hover:bg-gray-50">
+        <button
+          type="button"
+          onClick={() => handleSelect(entry)}
+          className="flex-1 min-w-0 text-left"
+          title="Run this search again"
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-900 truncate">{entry.query}</span>
+            <span className="px-1.5 py-0.5 text-[10px] font-medium uppercase bg-gray-100 text-gray-600 rounded flex-shrink-0">
+              {entry.type}
+            </span>
+          </div>
+          <div className="text-xs text-gray-500 truncate">
+            {entry.resultCount} result{entry.resultCount === 1 ? '' : 's'} · {formatRelativeTime(entry.timestamp)}
+            {filterSummary && <span> · {filterSummary}</span>}
+          </div>
+        </button>
+        <button
+          type="button"
+          onClick={() => togglePinnedSearch(entry.id)}
+          title={entry.pinned ? 'Unpin search' : 'Pin as saved search'}
+          className={`p-1 rounded flex-shrink-0 ${entry.pinned ? 'text-blue-600' : 'text-gray-400 opacity-0 group-hover:opacity-100 hover:text-blue-600'}`}
+        >
+          <PushPinIcon size={14} weight={entry.pinned ? ICON_WEIGHTS.FILL : ICON_WEIGHTS.REGULAR} />
+        </button>
+        <button
+          type="button"
+          onClick={() => removeHistoryEntry(entry.id)}
+          title="Remove from history"
+          className="p-1 rounded text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600 flex-shrink-0"
+        >
+          <XIcon size={14} weight={ICON_WEIGHTS.BOLD} />
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled || searchHistory.length === 0}
+        className="group flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-600 rounded-md hover:text-gray-900 hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
+        aria-expanded={isOpen}
+      >
+        <ClockCounterClockwiseIcon size={ICON_CONTEXTS.UI.INPUT} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+        History
+        {pinned.length > 0 && (
+          <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full">{pinned.length} saved</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-96 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg max-h-96 overflow-y-auto">
+          {pinned.length > 0 && (
+            <>
+              <div className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">Saved Searches</div>
+              <ul>{pinned.map(renderEntry)}</ul>
+            </>
+          )}
+          {recent.length > 0 && (
+            <>
+              <div className="flex items-center justify-between px-3 pt-2 pb-1 border-t border-gray-100 first:border-t-0">
+                <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">Recent</span>
+                <button
+                  type="button"
+                  onClick={clearSearchHistory}
+                  className="text-xs text-gray-500 hover:text-gray-700 underline"
+                >
+                  Clear recent
+                </button>
+              </div>
+              <ul>{recent.map(renderEntry)}</ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchHistoryDropdown;
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowClockwiseIcon,
+  CheckIcon,
+  MagnifyingGlassIcon,
+  PlusIcon,
+  SpinnerGapIcon,
+  TrashIcon,
+  XIcon
+} from '@phosphor-icons/react';
+import { SeriesCatalogEntry, SeriesCatalogInput, SeriesSource } from '../types/book';
+import { SeriesService } from '../services/seriesService';
+import Tooltip from './ui/Tooltip';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+const SOURCE_LABELS: Record<SeriesSource, string> = {
+  seed: 'Built-in',
+  user: 'Edited',
+  audnexus: 'Audible',
+  open_library: 'Open Library',
+  title_pattern: 'Titles'
+};
+
+interface DraftBook {
+  number: string;
+  title: string;
+}
+
+interface Draft {
+  id: string | null;
+  name: string;
+  author: string;
+  aliases: string;
+  books: DraftBook[];
+}
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const toDraft = (series?: SeriesCatalogEntry): Draft => ({
+  id: series?.id || null,
+  name: series?.name || '',
+  author: series?.author || '',
+  aliases: series?.aliases.join(', ') || '',
+  books: series?.books.map(book => ({ number: String(book.number), title: book.title })) || [{ number: '1', title: '' }]
+});
+
+const fromDraft = (draft: Draft, original?: SeriesCatalogEntry): SeriesCatalogInput => ({
+  name: draft.name.trim(),
+  author: draft.author.trim() || null,
+  aliases: draft.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+  books: draft.books
+    .filter(book => book.title.trim())
+    .map(book => {
+      const title = book.title.trim();
+      // Keep the aliases of books whose title wasn't changed, so search shortcuts keep working
+      const existing = original?.books.find(candidate => candidate.title === title);
+      return { number: parseFloat(book.number), title, aliases: existing?.aliases || [] };
+    })
+});
+
+/**
+ * Settings card for the series catalog behind "Book N of ..." and "next in series" suggestions.
+ * Series are learned from search results; edits here take priority over learned data.
+ */
+const SeriesCatalogPanel: React.FC = () => {
+  const [series, setSeries] = useState<SeriesCatalogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSeries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSeries(await SeriesService.getSeries());
+    } catch (err) {
+      console.error('Failed to load series catalog:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load series catalog');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const visibleSeries = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return series;
+    return series.filter(entry =>
+      [entry.name, entry.author || '', ...entry.aliases].some(value => value.toLowerCase().includes(needle))
+    );
+  }, [series, filter]);
+
+  const updateDraftBook = (index: number, changes: Partial<DraftBook>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      books: prev.books.map((book, i) => (i === index ? { ...book, ...changes } : book))
+    });
+  };
+
+  const addDraftBook = () => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const highest = prev.books.reduce((max, book) => Math.max(max, Math.floor(parseFloat(book.number)) || 0), 0);
+      return { ...prev, books: [...prev.books, { number: String(highest + 1), title: '' }] };
+    });
+  };
+
+  const removeDraftBook = (index: number) => {
+    setDraft(prev => prev && { ...prev, books: prev.books.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error('Series name is required');
+      return;
+    }
+
+    const original = series.find(entry => entry.id === draft.id);
+    setSaving(true);
+    try {
+      const input = fromDraft(draft, original);
+      const saved = draft.id
+        ? await SeriesService.updateSeries(draft.id, input)
+        : await SeriesService.createSeries(input);
+      setSeries(prev => {
+        const others = prev.filter(entry => entry.id !== saved.id);
+        return [...others, saved].sort((a, b) => a.name.localeCompare(b.name));
+      });
+      setDraft(null);
+      toast.success(`Saved "${saved.name}"`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save series');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: SeriesCatalogEntry) => {
+    if (!window.confirm(`Remove "${entry.name}" from the series catalog? It won't be re-learned from search results.`)) {
+      return;
+    }
+
+    try {
+      await SeriesService.deleteSeries(entry.id);
+      setSeries(prev => prev.filter(candidate => candidate.id !== entry.id));
+      if (draft?.id === entry.id) setDraft(null);
+      toast.success(`Removed "${entry.name}"`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove series');
+    }
+  };
+
+  const renderEditor = (current: Draft) => (
+    <div className="p-3 border border-blue-200 bg-blue-50 rounded-lg space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Series name</label>
+          <input
+            value={current.name}
+            onChange={(e) => setDraft({ ...current, name: e.target.value })}
+            className={inputClassName}
+            placeholder="The Expanse"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Author</label>
+          <input
+            value={current.author}
+            onChange={(e) => setDraft({ ...current, author: e.target.value })}
+            className={inputClassName}
+            placeholder="James S. A. Corey"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Other names (comma separated)</label>
+        <input
+          value={current.aliases}
+          onChange={(e) => setDraft({ ...current, aliases: e.target.value })}
+          className={inputClassName}
+          placeholder="Expanse series"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Books in reading order</label>
+        <div className="space-y-1">
+          {current.books.map((book, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={book.number}
+                onChange={(e) => updateDraftBook(index, { number: e.target.value })}
+                className={`${inputClassName} w-20 flex-none`}
+                aria-label="Book number"
+              />
+              <input
+                value={book.title}
+                onChange={(e) => updateDraftBook(index, { title: e.target.value })}
+                className={inputClassName}
+                placeholder="Title"
+                aria-label="Book title"
+              />
+              <button
+                type="button"
+                onClick={() => removeDraftBook(index)}
+                title="Remove book"
+                className="p-1 text-gray-400 hover:text-red-600"
+              >
+                <XIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={addDraftBook}
+          className="mt-2 flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-900"
+        >
+          <PlusIcon size={12} weight={ICON_WEIGHTS.BOLD} />
+          Add book
+        </button>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setDraft(null)}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="group flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? (
+            <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+          ) : (
+            <CheckIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+          )}
+          Save series
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-semibold text-gray-900">Series Catalog</h2>
+          <Tooltip content={'Series and their reading order power suggestions like "harry potter 3" and "next in series". New series are learned from Audible, Open Library and book titles as you search; your edits always win.'}>
+            <div className="text-blue-600 cursor-help">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM8.94 6.94a.75.75 0 11-1.061-1.061 3 3 0 112.871 5.026v.345a.75.75 0 01-1.5 0v-.5c0-.72.57-1.172 1.081-1.287A1.5 1.5 0 108.94 6.94zM10 15a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+              </svg>
+            </div>
+          </Tooltip>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tooltip content="Reload Catalog">
+            <button
+              onClick={loadSeries}
+              disabled={loading}
+              className="group p-2 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <ArrowClockwiseIcon size={ICON_CONTEXTS.SETTINGS.DEFAULT} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+            </button>
+          </Tooltip>
+          <Tooltip content="Add Series">
+            <button
+              onClick={() => setDraft(toDraft())}
+              disabled={loading || (draft !== null && draft.id === null)}
+              className="group p-2 rounded-md bg-green-100 text-green-700 hover:bg-green-200 transition-colors disabled:opacity-50"
+            >
+              <PlusIcon size={ICON_CONTEXTS.SETTINGS.DEFAULT} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+            </button>
+          </Tooltip>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+          Loading series...
+        </div>
+      ) : error ? (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+          <button onClick={loadSeries} className="ml-2 underline hover:text-red-900">Retry</button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {draft && draft.id === null && renderEditor(draft)}
+
+          <div className="relative">
+            <MagnifyingGlassIcon
+              size={ICON_CONTEXTS.UI.INPUT}
+              weight={ICON_WEIGHTS.BOLD}
+              className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400"
+            />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className={`${inputClassName} pl-8`}
+              placeholder={`Filter ${series.length} series by name or author`}
+            />
+          </div>
+
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {visibleSeries.map(entry => (
+              <li key={entry.id}>
+                {draft?.id === entry.id ? renderEditor(draft) : (
+                  <div className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg hover:bg-gray-50">
+                    <button
+                      type="button"
+                      onClick={() => setDraft(toDraft(entry))}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="font-medium text-gray-900">{entry.name}</div>
+                      <div className="text-xs text-gray-600">
+                        {entry.author ? `${entry.author} · ` : ''}{entry.books.length} book{entry.books.length === 1 ? '' : 's'}
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {(entry.userEdited ? ['user' as SeriesSource] : entry.sources).map(source => (
+                          <span key={source} className="px-1.5 py-0.5 text-[10px] font-medium bg-white border border-gray-200 text-gray-600 rounded">
+                            {SOURCE_LABELS[source] || source}
+                          </span>
+                        ))}
+                      </div>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(entry)}
+                      title="Remove series"
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <TrashIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+            {visibleSeries.length === 0 && (
+              <li className="text-sm text-gray-500 text-center py-4">
+                {filter ? 'No series match this filter' : 'No series yet. Search for a few books and they will appear here.'}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeriesCatalogPanel;
@@ -0,0 +1,127 @@
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { toast } from 'react-hot-toast';
+import { NotionActivity } from '../types/notion';
+import { NotionService } from '../services/notionService';
+
+// Kept in session storage: undo stays available across reloads until the tab is closed
+const STORAGE_KEY = 'notion-books-activity';
+// Older entries beyond this are dropped
+const MAX_ACTIVITIES = 200;
+
+// Bulk adds record several entries within a millisecond, so ids also carry a counter
+let activityCounter = 0;
+
+interface NotionActivityContextType {
+  activities: NotionActivity[];
+  undoingId: string | null;
+  recordActivity: (activity: Omit<NotionActivity, 'id' | 'timestamp' | 'undone'>) => string;
+  canUndo: (id: string) => boolean;
+  undoActivity: (id: string) => Promise<boolean>;
+  clearActivities: () => void;
+}
+
+const NotionActivityContext = createContext<NotionActivityContextType | undefined>(undefined);
+
+export const useNotionActivity = () => {
+  const context = useContext(NotionActivityContext);
+  if (!context) {
+    throw new Error('useNotionActivity must be used within a NotionActivityProvider');
+  }
+  return context;
+};
+
+const loadActivities = (): NotionActivity[] => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load Notion activity:', error);
+    return [];
+  }
+};
+
+const saveActivities = (activities: NotionActivity[]) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(activities));
+  } catch (error) {
+    console.error('Failed to save Notion activity:', error);
+  }
+};
+
+interface NotionActivityProviderProps {
+  children: ReactNode;
+}
+
+export const NotionActivityProvider: React.FC<NotionActivityProviderProps> = ({ children }) => {
+  const [activities, setActivities] = useState<NotionActivity[]>(loadActivities);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const updateActivities = useCallback((updater: (activities: NotionActivity[]) => NotionActivity[]) => {
+    setActivities(prev => {
+      const next = updater(prev);
+      saveActivities(next);
+      return next;
+    });
+  }, []);
+
+  // Stable, so bulk runs can record from inside their callbacks
+  const recordActivity = useCallback((activity: Omit<NotionActivity, 'id' | 'timestamp' | 'undone'>) => {
+    const id = `activity-${Date.now()}-${++activityCounter}`;
+    updateActivities(prev => [
+      { ...activity, id, timestamp: new Date().toISOString(), undone: false },
+      ...prev
+    ].slice(0, MAX_ACTIVITIES));
+    return id;
+  }, [updateActivities]);
+
+  // Changes to a page are undone newest first, so an undo never overwrites a later change
+  const canUndo = (id: string) => {
+    const index = activities.findIndex(activity => activity.id === id);
+    const activity = activities[index];
+    if (!activity || activity.undone) return false;
+    if (activity.action === 'updated' && !activity.previous) return false;
+    return !activities.slice(0, index).some(later => later.pageId === activity.pageId && !later.undone);
+  };
+
+  const undoActivity = async (id: string) => {
+    const activity = activities.find(candidate => candidate.id === id);
+    if (!activity || !canUndo(id) || undoingId) return false;
+
+    setUndoingId(id);
+    try {
+      if (activity.action === 'created') {
+        await NotionService.archivePage(activity.pageId);
+        toast.success(`"${activity.bookTitle}" moved to the Notion trash`);
+      } else {
+        await NotionService.updatePage(activity.pageId, activity.previous);
+        toast.success(`Restored the previous values of "${activity.bookTitle}"`);
+      }
+      updateActivities(prev => prev.map(candidate => candidate.id === id ? { ...candidate, undone: true } : candidate));
+      return true;
+    } catch (error) {
+      console.error('Undo failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to undo: ${errorMessage}`);
+      return false;
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const clearActivities = () => {
+    updateActivities(() => []);
+  };
+
+  return (
+    <NotionActivityContext.Provider value={{
+      activities,
+      undoingId,
+      recordActivity,
+      canUndo,
+      undoActivity,
+      clearActivities
+    }}>
+      {children}
+    </NotionActivityContext.Provider>
+  );
+};
@@ -2,7 +2,8 @@ import React, { createContext, useContext, useState, useEffect, useRef, ReactNod
 import { toast } from 'react-hot-toast';
 import { useAuth } from './AuthContext';
 import { NotionService } from '../services/notionService';
-import { NotionDatabase, NotionIntegrationSettings, BookToNotionMapping } from '../types/notion';
+import { NotionProfile, ProfileService, ProfileStore } from '../services/profileService';
+import { NotionDatabase, NotionIntegrationSettings, BookToNotionMapping, AuthorsDatabaseSettings, CoverImageSettings, PageContentSettings, DefaultPropertyValue } from '../types/notion';
 
 type DatabaseWithSources = NotionDatabase & {
   data_sources?: Array<{ id: string; name?: string; properties?: any; database_id?: string }>;
@@ -17,6 +18,13 @@ interface NotionSettingsContextType {
   fieldMappings: Omit<BookToNotionMapping, 'pageIcon'>;
   usePageIcon: boolean;
   useEnglishOnlySources: boolean;
+  authorsDatabase: AuthorsDatabaseSettings | null;
+  coverImages: CoverImageSettings;
+  pageContent: PageContentSettings;
+  pageTemplate: string;
+  defaultValues: Record<string, DefaultPropertyValue>;
+  profiles: NotionProfile[];
+  activeProfileId: string;
   isLoadingDatabases: boolean;
   isLoadingProperties: boolean;
   isSavingSettings: boolean;
@@ -28,9 +36,21 @@ interface NotionSettingsContextType {
   setFieldMappings: React.Dispatch<React.SetStateAction<Omit<BookToNotionMapping, 'pageIcon'>>>;
   setUsePageIcon: React.Dispatch<React.SetStateAction<boolean>>;
   setUseEnglishOnlySources: React.Dispatch<React.SetStateAction<boolean>>;
+  setAuthorsDatabase: React.Dispatch<React.SetStateAction<AuthorsDatabaseSettings | null>>;
+  setCoverImages: React.Dispatch<React.SetStateAction<CoverImageSettings>>;
+  setPageContent: React.Dispatch<React.SetStateAction<PageContentSettings>>;
+  setPageTemplate: React.Dispatch<React.SetStateAction<string>>;
+  setDefaultValues: React.Dispatch<React.SetStateAction<Record<string, DefaultPropertyValue>>>;
+  switchProfile: (profileId: string) => Promise<void>;
+  createProfile: (name: string, copyCurrent: boolean) => Promise<void>;
+  renameProfile: (profileId: string, name: string) => void;
+  deleteProfile: (profileId: string) => void;
   resetState: () => void;
 }
 
+export const DEFAULT_COVER_IMAGES: CoverImageSettings = { upload: false, format: 'jpeg', usePageCover: false };
+export const DEFAULT_PAGE_CONTENT: PageContentSettings = { description: false, chapters: false, edition: false, links: false };
+
 const NotionSettingsContext = createContext<NotionSettingsContextType | undefined>(undefined);
 
 export const useNotionSettings = () => {
@@ -68,6 +88,10 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
     thumbnail: '',
     status: '',
     notes: '',
+    dateRead: '',
+    dateAdded: '',
+    series: '',
+    seriesNumber: '',
     // Audiobook-specific fields
     audiobookPublisher: '',
     audiobookChapters: '',
@@ -81,6 +105,14 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
   // Settings
   const [usePageIcon, setUsePageIcon] = useState<boolean>(false);
   const [useEnglishOnlySources, setUseEnglishOnlySources] = useState<boolean>(true);
+  const [authorsDatabase, setAuthorsDatabase] = useState<AuthorsDatabaseSettings | null>(null);
+  const [coverImages, setCoverImages] = useState<CoverImageSettings>(DEFAULT_COVER_IMAGES);
+  const [pageContent, setPageContent] = useState<PageContentSettings>(DEFAULT_PAGE_CONTENT);
+  const [pageTemplate, setPageTemplate] = useState<string>('');
+  const [defaultValues, setDefaultValues] = useState<Record<string, DefaultPropertyValue>>({});
+
+  // Destination profiles
+  const [profileStore, setProfileStore] = useState<ProfileStore>(() => ProfileService.load());
 
   // Loading states
   const [isLoadingDatabases, setIsLoadingDatabases] = useState(false);
@@ -94,13 +126,12 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
   const hasInitializedRef = useRef(false);
   const savedDatabaseIdRef = useRef<string | null>(null);
 
-  const resetState = () => {
-    setDatabases([]);
+  // Clear everything that comes from the saved settings
+  const resetSettingsState = useCallback(() => {
     setSelectedDatabase('');
     setDatabaseProperties(null);
     setNotionSettings(null);
     savedDatabaseIdRef.current = null;
-    setHasLoadedDatabases(false);
     setFieldMappings({
       title: '',
       authors: '',
@@ -114,6 +145,10 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
       thumbnail: '',
       status: '',
       notes: '',
+      dateRead: '',
+      dateAdded: '',
+      series: '',
+      seriesNumber: '',
       audiobookPublisher: '',
       audiobookChapters: '',
       audiobookASIN: '',
@@ -124,7 +159,19 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
     });
     setUsePageIcon(false);
     setUseEnglishOnlySources(true);
-  };
+    setAuthorsDatabase(null);
+    setCoverImages(DEFAULT_COVER_IMAGES);
+    setPageContent(DEFAULT_PAGE_CONTENT);
+    setPageTemplate('');
+    setDefaultValues({});
+  }, []);
+
+  const resetState = useCallback(() => {
+    setDatabases([]);
+    setHasLoadedDatabases(false);
+    resetSettingsState();
+  }, [resetSettingsState]);
+
   const loadDatabases = useCallback(async () => {
     if (loadingDatabasesRef.current) {
       console.log('🔧 NotionSettingsContext: Database loading already in progress, skipping...');
@@ -298,6 +345,10 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
           thumbnail: '',
           status: '',
           notes: '',
+          dateRead: '',
+          dateAdded: '',
+          series: '',
+          seriesNumber: '',
           audiobookPublisher: '',
           audiobookChapters: '',
           audiobookASIN: '',
@@ -314,6 +365,14 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
         });
         setUsePageIcon(pageIcon || false);
         setUseEnglishOnlySources(settings.useEnglishOnlySources ?? true); // Default to true
+        setAuthorsDatabase(settings.authorsDatabase || null);
+        setCoverImages({ ...DEFAULT_COVER_IMAGES, ...settings.coverImages });
+        setPageContent({ ...DEFAULT_PAGE_CONTENT, ...settings.pageContent });
+        setPageTemplate(settings.pageTemplate || '');
+        setDefaultValues(settings.defaultValues || {});
+      } else {
+        // Nothing saved, e.g. a profile that has not been configured yet
+        resetSettingsState();
       }
     } catch (error) {
       console.error('🔧 NotionSettingsContext: ❌ Failed to load settings:', error);
@@ -321,7 +380,7 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
     } finally {
       loadingSettingsRef.current = false;
     }
-  }, []);
+  }, [resetSettingsState]);
 
   // Initialize data when authenticated
   useEffect(() => {
@@ -335,7 +394,46 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
       resetState();
       hasInitializedRef.current = false;
     }
-  }, [isAuthenticated, loadSettings, loadDatabases]);
+  }, [isAuthenticated, loadSettings, loadDatabases, resetState]);
+
+  const switchProfile = async (profileId: string) => {
+    if (profileId === profileStore.activeProfileId) return;
+
+    try {
+      const store = await ProfileService.switchTo(profileId);
+      setProfileStore(store);
+      await loadSettings();
+      const profile = store.profiles.find(candidate => candidate.id === profileId);
+      toast.success(`Switched to ${profile?.name || 'profile'}`);
+    } catch (error) {
+      console.error('🔧 NotionSettingsContext: Failed to switch profile:', error);
+      toast.error('Failed to switch profile');
+    }
+  };
+
+  const createProfile = async (name: string, copyCurrent: boolean) => {
+    try {
+      const store = await ProfileService.create(name, copyCurrent);
+      setProfileStore(store);
+      await loadSettings();
+      toast.success(`Created ${name.trim()}`);
+    } catch (error) {
+      console.error('🔧 NotionSettingsContext: Failed to create profile:', error);
+      toast.error('Failed to create profile');
+    }
+  };
+
+  const renameProfile = (profileId: string, name: string) => {
+    setProfileStore(ProfileService.rename(profileId, name));
+  };
+
+  const deleteProfile = (profileId: string) => {
+    try {
+      setProfileStore(ProfileService.delete(profileId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete profile');
+    }
+  };
 
   const saveSettings = async (settings: NotionIntegrationSettings) => {
     if (!settings.databaseId) {
@@ -382,6 +480,10 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
           thumbnail: '',
           status: '',
           notes: '',
+          dateRead: '',
+          dateAdded: '',
+          series: '',
+          seriesNumber: '',
           audiobookPublisher: '',
           audiobookChapters: '',
           audiobookASIN: '',
@@ -398,11 +500,16 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
         });
         setUsePageIcon(pageIcon || false);
         setUseEnglishOnlySources(settings.useEnglishOnlySources ?? true);
+        setAuthorsDatabase(settings.authorsDatabase || null);
+        setCoverImages({ ...DEFAULT_COVER_IMAGES, ...settings.coverImages });
+        setPageContent({ ...DEFAULT_PAGE_CONTENT, ...settings.pageContent });
+        setPageTemplate(settings.pageTemplate || '');
+        setDefaultValues(settings.defaultValues || {});
       } catch (syncError) {
         console.warn('🔧 NotionSettingsContext: Non-fatal: failed to sync derived state after save:', syncError);
       }
       
-      const mappingCount = Object.values(settings.fieldMapping || {}).filter(Boolean).length;
+      const mappingCount = Object.values(settings.fieldMapping || {}).filter(value => typeof value === 'string' && value).length;
       toast.success(`Settings saved! ${mappingCount} field mappings configured.`);
       console.log('🔧 NotionSettingsContext: ✅ Settings saved successfully');
     } catch (error) {
@@ -422,6 +529,13 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
       fieldMappings,
       usePageIcon,
       useEnglishOnlySources,
+      authorsDatabase,
+      coverImages,
+      pageContent,
+      pageTemplate,
+      defaultValues,
+      profiles: profileStore.profiles,
+      activeProfileId: profileStore.activeProfileId,
       isLoadingDatabases,
       isLoadingProperties,
       isSavingSettings,
@@ -433,6 +547,15 @@ export const NotionSettingsProvider: React.FC<NotionSettingsProviderProps> = ({
       setFieldMappings,
       setUsePageIcon,
       setUseEnglishOnlySources,
+      setAuthorsDatabase,
+      setCoverImages,
+      setPageContent,
+      setPageTemplate,
+      setDefaultValues,
+      switchProfile,
+      createProfile,
+      renameProfile,
+      deleteProfile,
       resetState
     }}>
       {children}
@@ -1,13 +1,24 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { BookSearchResult, SearchParams } from '../types/book';
+import React, { createContext, useContext, useState, useRef, ReactNode } from 'react';
+import { BookSearchResult, SearchHistoryEntry, SearchParams } from '../types/book';
 import { BookService } from '../services/bookService';
+import { SearchHistoryService } from '../services/searchHistoryService';
+import { appendSearchPage } from '../utils/searchResults';
 import { toast } from 'react-hot-toast';
 
+// Pages fetched in a row when a page turns out to contain only books already shown
+const MAX_EMPTY_PAGES = 3;
+
 interface SearchContextType {
   isSearching: boolean;
+  isLoadingMore: boolean;
   searchResults: any;
   selectedBook: BookSearchResult | null;
   handleSearch: (params: SearchParams) => Promise<void>;
+  loadMore: () => Promise<void>;
+  searchHistory: SearchHistoryEntry[];
+  togglePinnedSearch: (id: string) => void;
+  removeHistoryEntry: (id: string) => void;
+  clearSearchHistory: () => void;
   handleBookSelect: (book: BookSearchResult) => void;
   clearSearch: () => void;
   clearSelectedBook: () => void;
@@ -29,18 +40,33 @@ interface SearchProviderProps {
 
 export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [searchResults, setSearchResults] = useState<any>(null);
   const [selectedBook, setSelectedBook] = useState<BookSearchResult | null>(null);
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>(() => SearchHistoryService.load());
+  // Params of the current search, used to request further pages
+  const lastParamsRef = useRef<SearchParams | null>(null);
+  const loadingMoreRef = useRef(false);
+
+  const updateHistory = (updater: (history: SearchHistoryEntry[]) => SearchHistoryEntry[]) => {
+    setSearchHistory(prev => {
+      const next = updater(prev);
+      SearchHistoryService.save(next);
+      return next;
+    });
+  };
 
   const handleSearch = async (params: SearchParams) => {
     try {
       setIsSearching(true);
       setSearchResults(null);
       setSelectedBook(null);
+      lastParamsRef.current = params;
       
       // Update params to include audiobook data for top result
       const searchParams: SearchParams = { 
         ...params, 
+        cursor: undefined,
         includeAudiobooks: 'top' as const // Explicitly type as 'top'
       };
       
@@ -48,6 +74,7 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
       const results = await BookService.searchBooks(searchParams);
       
       setSearchResults(results);
+      updateHistory(history => SearchHistoryService.record(history, params, results.books.length, results.totalItems));
     } catch (error) {
       console.error('Search failed:', error);
       toast.error('Failed to search books');
@@ -56,12 +83,63 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
     }
   };
 
+  const loadMore = async () => {
+    const params = lastParamsRef.current;
+    if (!params || !searchResults?.hasMore || searchResults.nextCursor == null || loadingMoreRef.current) {
+      return;
+    }
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      let books: BookSearchResult[] = searchResults.books || [];
+      let nextCursor: string | null = searchResults.nextCursor;
+      let hasMore = true;
+      let totalItems = searchResults.totalItems;
+
+      // Keep paging while a page only repeats books that are already listed
+      for (let attempt = 0; attempt < MAX_EMPTY_PAGES && hasMore && nextCursor != null; attempt++) {
+        const page = await BookService.searchBooks({ ...params, cursor: nextCursor, includeAudiobooks: false });
+        const merged = appendSearchPage(books, page.books);
+        const added = merged.length - books.length;
+
+        books = merged;
+        nextCursor = page.nextCursor ?? null;
+        hasMore = !!page.hasMore;
+        totalItems = page.totalItems || totalItems;
+
+        if (added > 0) break;
+      }
+
+      // Ignore the page if a new search started meanwhile
+      if (lastParamsRef.current !== params) return;
+
+      setSearchResults((prev: any) => prev && {
+        ...prev,
+        // Index of the first appended book, so only the new page animates in
+        pageStart: prev.books?.length || 0,
+        books,
+        totalItems,
+        nextCursor,
+        hasMore
+      });
+    } catch (error) {
+      console.error('Loading more results failed:', error);
+      toast.error('Failed to load more results');
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
   const handleBookSelect = (book: BookSearchResult) => {
     setSelectedBook(book);
     toast.success(`Selected: ${book.title}`);
   };
 
   const clearSearch = () => {
+    lastParamsRef.current = null;
     setSearchResults(null);
     setSelectedBook(null);
   };
@@ -70,15 +148,33 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
     setSelectedBook(null);
   };
 
+  const togglePinnedSearch = (id: string) => {
+    updateHistory(history => SearchHistoryService.togglePin(history, id));
+  };
+
+  const removeHistoryEntry = (id: string) => {
+    updateHistory(history => SearchHistoryService.remove(history, id));
+  };
+
+  const clearSearchHistory = () => {
+    updateHistory(history => SearchHistoryService.clearRecent(history));
+  };
+
   return (
     <SearchContext.Provider value={{
       isSearching,
+      isLoadingMore,
       searchResults,
       selectedBook,
       handleSearch,
+      loadMore,
       handleBookSelect,
       clearSearch,
-      clearSelectedBook
+      clearSelectedBook,
+      searchHistory,
+      togglePinnedSearch,
+      removeHistoryEntry,
+      clearSearchHistory
     }}>
       {children}
     </SearchContext.Provider>
@@ -1,12 +1,296 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { ArrowClockwiseIcon, SpinnerGapIcon } from '@phosphor-icons/react';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotionSettings } from '../contexts/NotionSettingsContext';
+import { NotionService } from '../services/notionService';
+import NotionAuth from '../components/NotionAuth';
+import BookDetailsModal from '../components/BookDetailsModal';
+import InfiniteScrollTrigger from '../components/InfiniteScrollTrigger';
+import LibraryToolbar, { LibraryView } from '../components/Library/LibraryToolbar';
+import LibraryGrid from '../components/Library/LibraryGrid';
+import LibraryTable from '../components/Library/LibraryTable';
+import LibraryStatsView from '../components/Library/LibraryStatsView';
+import MetadataRefreshPanel from '../components/Library/MetadataRefreshPanel';
+import { LibraryBook, LibraryFilterOptions, LibraryFilters, LibrarySort } from '../types/library';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
 
+const PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 400;
+const VIEW_STORAGE_KEY = 'notion-books-library-view';
+
+const EMPTY_FILTER_OPTIONS: LibraryFilterOptions = { statuses: [], categories: [], authors: [] };
+
+const LIBRARY_TABS = [
+  { id: 'books', path: '/library', label: 'Books', description: 'Browse the books in your Notion database and open one to review or update its page.' },
+  { id: 'stats', path: '/library/stats', label: 'Stats', description: 'Reading statistics computed from every book in your Notion database.' },
+  { id: 'refresh', path: '/library/refresh', label: 'Refresh metadata', description: 'Fill in data missing from pages already in your Notion database.' }
+] as const;
+
+/**
+ * Library view of the books already in the selected Notion database. Search, filters and sorting
+ * run as data source queries on the backend, so paging stays correct however the list is narrowed.
+ * /library/stats shows reading statistics for the same database and /library/refresh fills in
+ * missing metadata on its pages.
+ */
 const Dashboard: React.FC = () => {
+  const location = useLocation();
+  const tab = LIBRARY_TABS.find(entry => entry.path === location.pathname)?.id || 'books';
+  const { isAuthenticated } = useAuth();
+  const { notionSettings, loadSettings } = useNotionSettings();
+  const databaseId = notionSettings?.databaseId;
+  const fieldMapping = notionSettings?.fieldMapping;
+
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sort, setSort] = useState<LibrarySort>({ field: 'dateAdded', direction: 'descending' });
+  const [filters, setFilters] = useState<LibraryFilters>({});
+  const [view, setView] = useState<LibraryView>(() =>
+    localStorage.getItem(VIEW_STORAGE_KEY) === 'table' ? 'table' : 'grid'
+  );
+
+  const [books, setBooks] = useState<LibraryBook[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [filterOptions, setFilterOptions] = useState<LibraryFilterOptions>(EMPTY_FILTER_OPTIONS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedBook, setSelectedBook] = useState<LibraryBook | null>(null);
+
+  // Responses to superseded queries are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    localStorage.setItem(VIEW_STORAGE_KEY, view);
+  }, [view]);
+
+  const loadBooks = useCallback(async (cursor: string | null = null) => {
+    if (!isAuthenticated || !databaseId || tab !== 'books') return;
+
+    const requestId = ++requestIdRef.current;
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+      setError(null);
+    }
+
+    try {
+      const page = await NotionService.queryLibrary(databaseId, fieldMapping, {
+        search: debouncedSearch,
+        filters,
+        sort,
+        cursor,
+        pageSize: PAGE_SIZE
+      });
+      if (requestId !== requestIdRef.current) return;
+
+      setBooks(prev => (cursor ? [...prev, ...page.books] : page.books));
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+      setFilterOptions(page.filterOptions || EMPTY_FILTER_OPTIONS);
+    } catch (loadError) {
+      if (requestId !== requestIdRef.current) return;
+      const message = loadError instanceof Error ? loadError.message : 'Failed to load library';
+      if (cursor) {
+        toast.error(`Failed to load more books: ${message}`);
+      } else {
+        setBooks([]);
+        setHasMore(false);
+        setError(message);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    }
+  }, [isAuthenticated, databaseId, fieldMapping, debouncedSearch, filters, sort, tab]);
+
+  // Start over whenever the query or the database (e.g. after a profile switch) changes
+  useEffect(() => {
+    loadBooks();
+  }, [loadBooks]);
+
+  const handleLoadMore = () => {
+    if (nextCursor && !isLoading && !isLoadingMore) {
+      loadBooks(nextCursor);
+    }
+  };
+
+  const handleModalClose = () => {
+    // Let the modal animate out, then pick up any changes saved to the page
+    setTimeout(() => {
+      setSelectedBook(null);
+      loadBooks();
+    }, 300);
+  };
+
+  const existingPage = useMemo(
+    () => (selectedBook ? { id: selectedBook.notionPageId, url: selectedBook.notionPageUrl } : null),
+    [selectedBook]
+  );
+
+  const available = {
+    status: !!fieldMapping?.status,
+    category: !!fieldMapping?.categories,
+    author: !!fieldMapping?.authors
+  };
+  const isNarrowed = !!debouncedSearch.trim() || Object.values(filters).some(Boolean);
+
+  const renderContent = () => {
+    if (!isAuthenticated) {
+      return (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 text-center text-gray-600">
+          Connect to Notion to browse your library.
+        </div>
+      );
+    }
+
+    if (!databaseId) {
+      return (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 text-center text-gray-600">
+          Choose your books database in <Link to="/settings" className="text-blue-600 hover:underline">Settings</Link> to browse it here.
+        </div>
+      );
+    }
+
+    if (tab === 'stats') {
+      return <LibraryStatsView databaseId={databaseId} fieldMapping={fieldMapping} />;
+    }
+
+    if (tab === 'refresh' && notionSettings) {
+      return <MetadataRefreshPanel settings={notionSettings} />;
+    }
+
+    if (isLoading && books.length === 0) {
+      return (
+        <div className="flex justify-center items-center gap-2 py-12 text-gray-600">
+          <SpinnerGapIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="animate-spin" />
+          Loading your library...
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <p className="text-red-700 mb-3">{error}</p>
+          <button
+            type="button"
+            onClick={() => loadBooks()}
+            className="px-4 py-2 text-sm bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-100"
+          >
+            Try again
+          </button>
+        </div>
+      );
+    }
+
+    if (books.length === 0) {
+      return (
+        <div className="text-center py-12 text-gray-500">
+          {isNarrowed
+            ? 'No books match your search and filters.'
+            : <>Your library is empty. <Link to="/notion" className="text-blue-600 hover:underline">Search for books</Link> to add some.</>}
+        </div>
+      );
+    }
+
+    return (
+      <div className={isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+        {view === 'grid'
+          ? <LibraryGrid books={books} onSelect={setSelectedBook} />
+          : <LibraryTable books={books} onSelect={setSelectedBook} />}
+        <InfiniteScrollTrigger
+          hasMore={hasMore}
+          isLoading={isLoadingMore}
+          onLoadMore={handleLoadMore}
+          itemCount={books.length}
+          endMessage={`${books.length} book${books.length === 1 ? '' : 's'}`}
+        />
+      </div>
+    );
+  };
+
   return (
-    <div>
-      <h1 className="text-3xl font-bold text-gray-900 mb-6">Dashboard</h1>
-      <p className="text-gray-600">Welcome to your dashboard!</p>
+    <div className="max-w-6xl mx-auto">
+      <div className="mb-4 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Library</h1>
+          <p className="text-gray-600">
+            {LIBRARY_TABS.find(entry => entry.id === tab)?.description}
+          </p>
+        </div>
+        <div className="flex-shrink-0 ml-6 flex items-center gap-3">
+          {isAuthenticated && databaseId && tab === 'books' && (
+            <button
+              type="button"
+              onClick={() => loadBooks()}
+              disabled={isLoading}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md disabled:opacity-50"
+              aria-label="Refresh library"
+              title="Refresh"
+            >
+              <ArrowClockwiseIcon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className={isLoading ? 'animate-spin' : ''} />
+            </button>
+          )}
+          <NotionAuth />
+        </div>
+      </div>
+
+      <div className="flex gap-1 mb-4 border-b border-gray-200">
+        {LIBRARY_TABS.map(entry => (
+          <Link
+            key={entry.id}
+            to={entry.path}
+            className={`px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+              entry.id === tab ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {entry.label}
+          </Link>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {isAuthenticated && databaseId && tab === 'books' && (
+          <LibraryToolbar
+            search={search}
+            onSearchChange={setSearch}
+            sort={sort}
+            onSortChange={setSort}
+            filters={filters}
+            onFiltersChange={setFilters}
+            filterOptions={filterOptions}
+            available={available}
+            view={view}
+            onViewChange={setView}
+          />
+        )}
+        {renderContent()}
+      </div>
+
+      {selectedBook && (
+        <BookDetailsModal
+          isOpen={!!selectedBook}
+          onClose={handleModalClose}
+          book={selectedBook}
+          isNotionConnected={isAuthenticated}
+          notionSettings={notionSettings}
+          onSettingsUpdated={() => loadSettings()}
+          existingPage={existingPage}
+        />
+      )}
     </div>
   );
 };
 
-export default Dashboard; 
\ No newline at end of file
+export default Dashboard;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Link } from 'react-router-dom';
+import { WarningIcon, BooksIcon, FileCsvIcon } from '@phosphor-icons/react';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotionSettings } from '../contexts/NotionSettingsContext';
+import NotionAuth from '../components/NotionAuth';
+import GoodreadsImport from '../components/Import/GoodreadsImport';
+import CsvImport from '../components/Import/CsvImport';
+import { ICON_CONTEXTS, ICON_WEIGHTS } from '../constants/iconConfig';
+
+type ImportSource = 'goodreads' | 'spreadsheet';
+
+const IMPORT_SOURCES: Array<{ id: ImportSource; label: string; icon: React.ElementType }> = [
+  { id: 'goodreads', label: 'Goodreads', icon: BooksIcon },
+  { id: 'spreadsheet', label: 'CSV & Spreadsheets', icon: FileCsvIcon }
+];
+
+const Import: React.FC = () => {
+  const [activeSource, setActiveSource] = useState<ImportSource>('goodreads');
+  const { isAuthenticated } = useAuth();
+  const { notionSettings } = useNotionSettings();
+
+  const isConfigured = isAuthenticated && !!notionSettings?.databaseId;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <motion.div
+        className="mb-4 flex items-start justify-between"
+        initial={{ opacity: 0, y: -30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: "easeOut" }}
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Import</h1>
+          <p className="text-gray-600">
+            Bring an existing library into your Notion database in one pass.
+          </p>
+        </div>
+        <div className="flex-shrink-0 ml-6">
+          <NotionAuth />
+        </div>
+      </motion.div>
+
+      {!isConfigured && (
+        <div className="mb-4 flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded text-sm">
+          <WarningIcon size={ICON_CONTEXTS.UI.TABLE} weight={ICON_WEIGHTS.FILL} className="text-yellow-600 mt-0.5 flex-shrink-0" />
+          <span className="text-yellow-800">
+            Connect to Notion and choose a database in <Link to="/settings" className="underline">Settings</Link> before importing.
+            You can still load and match a file in the meantime.
+          </span>
+        </div>
+      )}
+
+      <div className="mb-4 flex gap-2">
+        {IMPORT_SOURCES.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setActiveSource(id)}
+            className={`group flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-colors ${
+              activeSource === id
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <Icon size={ICON_CONTEXTS.UI.BUTTON} weight={ICON_WEIGHTS.BOLD} className="group-hover:animate-wiggle" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <motion.div
+        key={activeSource}
+        className="bg-white rounded-lg shadow-md p-6 border border-gray-200"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4, ease: "easeOut" }}
+      >
+        {activeSource === 'goodreads' ? (
+          <>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Goodreads Library</h2>
+            <GoodreadsImport />
+          </>
+        ) : (
+          <>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">CSV & Spreadsheets</h2>
+            <CsvImport />
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default Import;
@@ -7,18 +7,24 @@ import SearchForm from '../components/SearchForm';
 import BookCardWithNotion from '../components/BookCardWithNotion';
 import BookDetailsModal from '../components/BookDetailsModal';
 import NotionAuth from '../components/NotionAuth';
+import BatchAddPanel from '../components/BatchAdd/BatchAddPanel';
+import InfiniteScrollTrigger from '../components/InfiniteScrollTrigger';
+import { BookSearchResult } from '../types/book';
 
 const Notion: React.FC = () => {
   // Use auth context instead of local state
   const { isAuthenticated } = useAuth();
   // Use search context instead of local state
-  const { isSearching, searchResults, selectedBook, handleSearch, handleBookSelect, clearSelectedBook } = useSearch();
+  const { isSearching, isLoadingMore, searchResults, selectedBook, handleSearch, loadMore, handleBookSelect, clearSelectedBook } = useSearch();
   // Use notion settings context
   const { notionSettings, loadSettings } = useNotionSettings();
   
   // Track modal state to disable hover effects when modal is open
   const [isAnyModalOpen, setIsAnyModalOpen] = useState(false);
 
+  // Books checked for batch adding, keyed by book ID (kept across searches)
+  const [selectedBooks, setSelectedBooks] = useState<Record<string, BookSearchResult>>({});
+
   // Track modal state based on selectedBook
   useEffect(() => {
     setIsAnyModalOpen(!!selectedBook);
@@ -40,6 +46,19 @@ const Notion: React.FC = () => {
     }, 300); // Match the modal's exit animation duration
   };
 
+  // Keyed by the search result ID; the stored book reflects any edition picked on the card
+  const handleToggleSelect = (resultId: string, book: BookSearchResult) => {
+    setSelectedBooks(prev => {
+      const next = { ...prev };
+      if (next[resultId]) {
+        delete next[resultId];
+      } else {
+        next[resultId] = book;
+      }
+      return next;
+    });
+  };
+
   const handleSettingsUpdated = async (_updatedSettings: any) => {
     // Reload settings from localStorage into context so the whole app state updates
     await loadSettings();
@@ -136,7 +155,7 @@ const Notion: React.FC = () => {
           transition={{ duration: 0.4, ease: "easeOut" }}
         >
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Search Books</h2>
-          <SearchForm onSearch={handleSearch} isLoading={isSearching} />
+          <SearchForm onSearch={handleSearch} isLoading={isSearching} syncWithUrl />
         </motion.div>
 
         <AnimatePresence mode="wait">
@@ -205,7 +224,9 @@ const Notion: React.FC = () => {
                     return (
                       <div className="space-y-1">
                         <div>
-                          Found {filteredCount} books for "{searchResults.query}"
+                          {searchResults.hasMore
+                            ? `Showing ${filteredCount} of about ${searchResults.totalItems} books for "${searchResults.query}"`
+                            : `Found ${filteredCount} books for "${searchResults.query}"`}
                         </div>
                         {filteredOutCount > 0 && (
                           <div className="text-xs text-gray-500">
@@ -235,7 +256,7 @@ const Notion: React.FC = () => {
                         animate={{ opacity: 1, y: 0, scale: 1 }}
                         transition={{ 
                           duration: 0.4,
-                          delay: 0.1 + (index * 0.08),
+                          delay: 0.1 + (Math.max(0, index - (searchResults.pageStart || 0)) * 0.08),
                           ease: "easeOut"
                         }}
                         {...(!isAnyModalOpen && {
@@ -252,9 +273,19 @@ const Notion: React.FC = () => {
                           notionSettings={notionSettings}
                           onModalOpen={handleModalOpen}
                           onModalClose={handleModalClose}
+                          isSelected={!!selectedBooks[book.id]}
+                          onToggleSelect={isAuthenticated && notionSettings?.databaseId
+                            ? (selected) => handleToggleSelect(book.id, selected)
+                            : undefined}
                         />
                       </motion.div>
                     ))}
+                    <InfiniteScrollTrigger
+                      hasMore={!!searchResults.hasMore}
+                      isLoading={isLoadingMore}
+                      onLoadMore={loadMore}
+                      itemCount={searchResults.books?.length || 0}
+                    />
                   </motion.div>
                 ) : (
                   <motion.div 
@@ -397,6 +428,13 @@ const Notion: React.FC = () => {
         {renderSearchSection()}
       </div>
 
+      <BatchAddPanel
+        selectedBooks={Object.values(selectedBooks)}
+        onClearSelection={() => setSelectedBooks({})}
+        notionSettings={notionSettings}
+        isNotionConnected={isAuthenticated}
+      />
+
       {/* Book Details Modal */}
       {selectedBook && (
         <BookDetailsModal
@@ -1,13 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
-import { useNotionSettings } from '../contexts/NotionSettingsContext';
-import { NotionIntegrationSettings } from '../types/notion';
+import { useNotionSettings, DEFAULT_COVER_IMAGES, DEFAULT_PAGE_CONTENT } from '../contexts/NotionSettingsContext';
+import { FieldTransform, NotionIntegrationSettings, PageContentSettings } from '../types/notion';
 import NotionFieldMappings from '../components/BookDetailsModal/NotionFieldMappings';
 import { NotionService } from '../services/notionService';
 import { BookService } from '../services/bookService';
 import { CategoryService, CategorySettings } from '../services/categoryService';
 import Tooltip from '../components/ui/Tooltip';
+import MetadataProvidersPanel from '../components/MetadataProvidersPanel';
+import SeriesCatalogPanel from '../components/SeriesCatalogPanel';
+import AuthorsDatabasePanel from '../components/AuthorsDatabasePanel';
+import PageTemplateEditor from '../components/PageTemplateEditor';
+import DefaultValuesPanel from '../components/DefaultValuesPanel';
+import ProfilesPanel from '../components/ProfilesPanel';
 import { 
   SpinnerGapIcon, 
   CheckIcon, 
@@ -35,6 +41,12 @@ const Settings: React.FC = () => {
     fieldMappings,
     usePageIcon,
     useEnglishOnlySources,
+    authorsDatabase,
+    coverImages,
+    pageContent,
+    pageTemplate,
+    defaultValues,
+    activeProfileId,
     isLoadingDatabases,
     isLoadingProperties,
     isSavingSettings,
@@ -43,7 +55,12 @@ const Settings: React.FC = () => {
     setSelectedDatabase,
     setFieldMappings,
     setUsePageIcon,
-    setUseEnglishOnlySources
+    setUseEnglishOnlySources,
+    setAuthorsDatabase,
+    setCoverImages,
+    setPageContent,
+    setPageTemplate,
+    setDefaultValues
   } = useNotionSettings();
 
   // Local state for connecting
@@ -128,6 +145,26 @@ const Settings: React.FC = () => {
     
     // Check English-only sources setting change
     if (useEnglishOnlySources !== (notionSettings.useEnglishOnlySources ?? true)) return true;
+
+    // Check Authors database change
+    if (JSON.stringify(authorsDatabase || null) !== JSON.stringify(notionSettings.authorsDatabase || null)) return true;
+
+    // Check cover image settings change
+    const savedCoverImages = { ...DEFAULT_COVER_IMAGES, ...notionSettings.coverImages };
+    if (coverImages.upload !== savedCoverImages.upload ||
+        coverImages.format !== savedCoverImages.format ||
+        coverImages.usePageCover !== savedCoverImages.usePageCover) return true;
+
+    // Check page content sections change
+    const savedPageContent = { ...DEFAULT_PAGE_CONTENT, ...notionSettings.pageContent };
+    if ((Object.keys(DEFAULT_PAGE_CONTENT) as Array<keyof PageContentSettings>)
+        .some(section => pageContent[section] !== savedPageContent[section])) return true;
+
+    // Check page template change
+    if (pageTemplate !== (notionSettings.pageTemplate || '')) return true;
+
+    // Check default values change
+    if (JSON.stringify(defaultValues) !== JSON.stringify(notionSettings.defaultValues || {})) return true;
     
     // Check for changes in category settings
     if (initialCategorySettings && (
@@ -197,13 +234,13 @@ const Settings: React.FC = () => {
     testConnectionsOnFirstVisit();
   }, []);
 
-  // Load category settings
+  // Load category settings; each profile has its own
   useEffect(() => {
     const settings = CategoryService.loadSettings();
     setCategorySettings(settings);
     setInitialCategorySettings(settings);
     console.log('Loaded category settings:', settings);
-  }, []);
+  }, [activeProfileId]);
 
   /**
    * Exports all application settings to a JSON file
@@ -227,7 +264,12 @@ const Settings: React.FC = () => {
           databaseName: databases.find(db => db.id === selectedDatabase)?.title || "",
           fieldMappings,
           usePageIcon,
-          useEnglishOnlySources
+          useEnglishOnlySources,
+          authorsDatabase,
+          coverImages,
+          pageContent,
+          pageTemplate,
+          defaultValues
         },
         categorySettings: CategoryService.loadSettings()
       };
@@ -262,9 +304,14 @@ const Settings: React.FC = () => {
    *   "notionSettings": {
    *     "databaseId": "string",
    *     "databaseName": "string",
-   *     "fieldMappings": { [key: string]: string },
+   *     "fieldMappings": { [key: string]: string, "transforms"?: { [bookField: string]: Array<{ "type": "string", ... }> } },
    *     "usePageIcon": boolean,
-   *     "useEnglishOnlySources": boolean
+   *     "useEnglishOnlySources": boolean,
+   *     "authorsDatabase": { "databaseId": "string", "photoProperty"?: "string", "bioProperty"?: "string" } | null,
+   *     "coverImages": { "upload": boolean, "format": "jpeg" | "webp", "usePageCover": boolean },
+   *     "pageContent": { "description": boolean, "chapters": boolean, "edition": boolean, "links": boolean },
+   *     "pageTemplate": "string",
+   *     "defaultValues": { [propertyName: string]: string | number | boolean | string[] | Array<{ "id": "string", "title": "string" }> }
    *   },
    *   "categorySettings": {
    *     "ignoredCategories": string[],
@@ -339,6 +386,15 @@ const Settings: React.FC = () => {
         // Set boolean preferences (default English-only to true when missing)
         setUsePageIcon(importData.notionSettings.usePageIcon || false);
         setUseEnglishOnlySources(importData.notionSettings.useEnglishOnlySources ?? true);
+        setAuthorsDatabase(importData.notionSettings.authorsDatabase || null);
+        const importedCoverImages = { ...DEFAULT_COVER_IMAGES, ...importData.notionSettings.coverImages };
+        setCoverImages(importedCoverImages);
+        const importedPageContent = { ...DEFAULT_PAGE_CONTENT, ...importData.notionSettings.pageContent };
+        setPageContent(importedPageContent);
+        const importedPageTemplate = typeof importData.notionSettings.pageTemplate === 'string' ? importData.notionSettings.pageTemplate : '';
+        setPageTemplate(importedPageTemplate);
+        const importedDefaultValues = importData.notionSettings.defaultValues || {};
+        setDefaultValues(importedDefaultValues);
         
         // Save to Notion settings context
         await saveSettings({
@@ -347,10 +403,14 @@ const Settings: React.FC = () => {
             ...mergedFieldMappings,
             pageIcon: importData.notionSettings.usePageIcon 
           },
-          defaultValues: {},
+          defaultValues: importedDefaultValues,
           autoAddBooks: false,
           // Persist English-only preference with same default semantics (true when undefined)
           useEnglishOnlySources: importData.notionSettings.useEnglishOnlySources ?? true,
+          authorsDatabase: importData.notionSettings.authorsDatabase || undefined,
+          coverImages: importedCoverImages,
+          pageContent: importedPageContent,
+          pageTemplate: importedPageTemplate || undefined,
         });
       } else if (!isAuthenticated && importData.notionSettings) {
         toast.error("Notion settings imported but not applied - please connect to Notion first");
@@ -461,6 +521,16 @@ const Settings: React.FC = () => {
     }));
   };
 
+  const handleFieldTransformsChange = (bookField: string, transforms: FieldTransform[]) => {
+    setFieldMappings(prev => {
+      const { transforms: currentTransforms, ...mappings } = prev;
+      const { [bookField]: _previous, ...otherTransforms } = currentTransforms || {};
+      const nextTransforms = transforms.length > 0 ? { ...otherTransforms, [bookField]: transforms } : otherTransforms;
+      // Drop the key once no field has transforms so it compares equal to older saved settings
+      return Object.keys(nextTransforms).length > 0 ? { ...mappings, transforms: nextTransforms } : mappings;
+    });
+  };
+
   const applySuggestedMappings = () => {
     if (!databaseProperties?.suggestedMappings) return;
 
@@ -485,9 +555,13 @@ const Settings: React.FC = () => {
     const settings: NotionIntegrationSettings = {
       databaseId: selectedDatabase,
       fieldMapping: { ...fieldMappings, pageIcon: usePageIcon },
-      defaultValues: {},
+      defaultValues,
       autoAddBooks: false,
       useEnglishOnlySources: useEnglishOnlySources,
+      authorsDatabase: authorsDatabase || undefined,
+      coverImages,
+      pageContent,
+      pageTemplate: pageTemplate || undefined,
     };
 
     // Save Notion settings
@@ -905,6 +979,9 @@ const Settings: React.FC = () => {
           {/* Database Selection and Field Mappings - Only show when connected */}
           {isAuthenticated ? (
             <>
+              {/* Profiles */}
+              <ProfilesPanel hasUnsavedChanges={hasUnsavedChanges} />
+
               {/* Database Selection */}
               <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
                 <div className="flex justify-between items-center mb-4">
@@ -1060,6 +1137,7 @@ const Settings: React.FC = () => {
                         formatAuthors={(authors: string[]) => authors.join(', ')}
                         onSetCollapsed={(collapsed) => setIsFieldMappingsCollapsed(collapsed)}
                         onTempFieldMappingChange={handleFieldMappingChange}
+                        onTransformsChange={handleFieldTransformsChange}
                         onResetTempFieldMappings={() => {
                           // Reset to saved settings
                           if (notionSettings?.fieldMapping) {
@@ -1082,6 +1160,19 @@ const Settings: React.FC = () => {
                 </div>
               )}
 
+              {/* Authors Database Section */}
+              {selectedDatabase && databaseProperties && (
+                <div className="mt-6">
+                  <AuthorsDatabasePanel
+                    databases={databases}
+                    booksDatabaseId={selectedDatabase}
+                    authorsProperty={databaseProperties.properties?.find((property: any) => property.name === fieldMappings.authors) || null}
+                    value={authorsDatabase}
+                    onChange={setAuthorsDatabase}
+                  />
+                </div>
+              )}
+
               {/* Display Preferences Section */}
               {selectedDatabase && databaseProperties && (
                 <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 mt-6">
@@ -1113,6 +1204,84 @@ const Settings: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Cover Image Settings */}
+                  <div className="mb-6 pt-4 border-t border-gray-200">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Cover Images
+                        </label>
+                        <p className="text-xs text-gray-500 mt-1">Upload covers to Notion so they keep showing after the source link breaks or expires</p>
+                      </div>
+                      
+                      <div className="space-y-2">
+                        <label className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={coverImages.upload}
+                            onChange={(e) => setCoverImages(prev => ({ ...prev, upload: e.target.checked }))}
+                            className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                          />
+                          <span className="ml-2 text-sm text-gray-700">Upload covers to Notion</span>
+                        </label>
+                        {coverImages.upload && (
+                          <div className="flex items-center gap-2 ml-6">
+                            <label htmlFor="cover-format" className="text-xs text-gray-600">Format</label>
+                            <select
+                              id="cover-format"
+                              value={coverImages.format}
+                              onChange={(e) => setCoverImages(prev => ({ ...prev, format: e.target.value as 'jpeg' | 'webp' }))}
+                              className="text-xs border border-gray-300 rounded px-2 py-1 text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500 bg-white"
+                            >
+                              <option value="jpeg">JPEG</option>
+                              <option value="webp">WebP</option>
+                            </select>
+                          </div>
+                        )}
+                        <label className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={coverImages.usePageCover}
+                            onChange={(e) => setCoverImages(prev => ({ ...prev, usePageCover: e.target.checked }))}
+                            className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                          />
+                          <span className="ml-2 text-sm text-gray-700">Use book cover as page cover</span>
+                        </label>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Page Content Setting */}
+                  <div className="mb-6 pt-4 border-t border-gray-200">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Page Content
+                        </label>
+                        <p className="text-xs text-gray-500 mt-1">Write these sections into the body of new book pages</p>
+                      </div>
+                      
+                      <div className="grid grid-cols-2 gap-2">
+                        {([
+                          ['description', 'Full description'],
+                          ['chapters', 'Audiobook chapters'],
+                          ['edition', 'Edition details'],
+                          ['links', 'Source links']
+                        ] as Array<[keyof PageContentSettings, string]>).map(([section, label]) => (
+                          <label key={section} className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={pageContent[section]}
+                              onChange={(e) => setPageContent(prev => ({ ...prev, [section]: e.target.checked }))}
+                              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                            />
+                            <span className="ml-2 text-sm text-gray-700">{label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
                   {/* English-only Sources Setting */}
                   <div className="pt-4 border-t border-gray-200">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
@@ -1138,6 +1307,25 @@ const Settings: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {/* Default Values */}
+              {selectedDatabase && databaseProperties && (
+                <div className="mt-6">
+                  <DefaultValuesPanel
+                    properties={databaseProperties.properties || []}
+                    fieldMappings={fieldMappings}
+                    value={defaultValues}
+                    onChange={setDefaultValues}
+                  />
+                </div>
+              )}
+
+              {/* Page Template */}
+              {selectedDatabase && databaseProperties && (
+                <div className="mt-6">
+                  <PageTemplateEditor value={pageTemplate} onChange={setPageTemplate} />
+                </div>
+              )}
             </>
           ) : (
             <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
@@ -1610,6 +1798,12 @@ const Settings: React.FC = () => {
             </div>
             {renderAudnexusStatus()}
           </div>
+
+          {/* Metadata Providers */}
+          <MetadataProvidersPanel />
+
+          {/* Series Catalog */}
+          <SeriesCatalogPanel />
         </div>
       </div>
     </div>
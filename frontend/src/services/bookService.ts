@@ -1,9 +1,18 @@
-import { BookSearchResponse, SearchParams, BookSearchResult } from '../types/book';
+import {
+  BookSearchResponse,
+  SearchParams,
+  BookSearchResult,
+  MetadataProviderInfo,
+  ProviderPreference
+} from '../types/book';
 import { API_BASE_URL } from '../utils/api';
+import { appendSearchFilters } from '../utils/searchFilters';
 
 export class BookService {
+  private static readonly PROVIDER_STORAGE_KEY = 'notion-books-provider-settings';
+
   static async searchBooks(params: SearchParams): Promise<BookSearchResponse> {
-    const { query, type, limit = 10, includeAudiobooks = false } = params;
+    const { query, type, limit = 10, cursor, includeAudiobooks = false, filters } = params;
     
     const searchParams = new URLSearchParams({
       q: query,
@@ -13,6 +22,17 @@ export class BookService {
                         includeAudiobooks === 'top' ? 'top' : 'false'
     });
 
+    if (cursor) {
+      searchParams.append('cursor', cursor);
+    }
+
+    appendSearchFilters(searchParams, filters);
+
+    const providers = this.getEnabledProviderIds();
+    if (providers) {
+      searchParams.append('providers', providers.join(','));
+    }
+
     const response = await fetch(`${API_BASE_URL}/api/books/search?${searchParams}`, {
       method: 'GET',
       headers: {
@@ -34,27 +54,26 @@ export class BookService {
         books: result.data.books || [],
         totalItems: result.data.totalItems || 0,
         query: result.data.query || query,
-        searchType: result.data.searchType || type
+        searchType: result.data.searchType || type,
+        nextCursor: result.data.nextCursor ?? null,
+        hasMore: !!result.data.hasMore
       };
     } else {
       throw new Error(result.message || 'Invalid response format');
     }
   }
 
+  /**
+   * Load audiobook data for a single book (served from the backend cache when available)
+   */
   static async getAudiobookData(book: BookSearchResult): Promise<BookSearchResult> {
-    const searchParams = new URLSearchParams({
-      q: book.title,
-      type: 'title',
-      limit: '1',
-      includeAudiobooks: 'top' // Use the new 'top' option for more efficient loading
-    });
-
-    const response = await fetch(`${API_BASE_URL}/api/books/search?${searchParams}`, {
-      method: 'GET',
+    const response = await fetch(`${API_BASE_URL}/api/books/audiobook/enrich`, {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       credentials: 'include',
+      body: JSON.stringify({ book }),
     });
 
     if (!response.ok) {
@@ -62,31 +81,86 @@ export class BookService {
     }
 
     const result = await response.json();
-    
-    if (result.success && result.data && result.data.books.length > 0) {
-      // Find the best matching book from the results
-      const matchingBook = result.data.books.find((b: BookSearchResult) => 
-        b.title.toLowerCase() === book.title.toLowerCase() && 
-        b.authors.some(author => book.authors.includes(author))
-      ) || result.data.books[0];
-
-      // Return the original book with audiobook data added
-      return {
-        ...book,
-        audiobookData: matchingBook.audiobookData
-      };
-    }
 
-    // If no audiobook data found, return original book with empty audiobook data
     return {
       ...book,
-      audiobookData: {
-        hasAudiobook: false,
-        source: 'none'
-      }
+      audiobookData: result.success && result.data?.audiobookData
+        ? result.data.audiobookData
+        : { hasAudiobook: false, source: 'none' }
     };
   }
 
+  /**
+   * List the metadata providers registered on the backend
+   */
+  static async getProviders(): Promise<MetadataProviderInfo[]> {
+    const response = await fetch(`${API_BASE_URL}/api/books/providers`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.data?.providers || [];
+  }
+
+  /**
+   * Load the user's provider order and enabled state from localStorage (null when never saved)
+   */
+  static loadProviderPreferences(): ProviderPreference[] | null {
+    try {
+      const stored = localStorage.getItem(this.PROVIDER_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to load provider settings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the user's provider order and enabled state to localStorage
+   */
+  static saveProviderPreferences(preferences: ProviderPreference[]): void {
+    localStorage.setItem(this.PROVIDER_STORAGE_KEY, JSON.stringify(preferences));
+  }
+
+  /**
+   * Remove saved provider preferences so the backend defaults apply again
+   */
+  static resetProviderPreferences(): void {
+    localStorage.removeItem(this.PROVIDER_STORAGE_KEY);
+  }
+
+  /**
+   * Enabled provider IDs in priority order, or undefined to use the backend defaults
+   */
+  static getEnabledProviderIds(): string[] | undefined {
+    const preferences = this.loadProviderPreferences();
+    if (!preferences) return undefined;
+    const enabled = preferences.filter(preference => preference.enabled).map(preference => preference.id);
+    return enabled.length > 0 ? enabled : undefined;
+  }
+
+  /**
+   * Combine the backend provider list with saved preferences; new providers are appended with their defaults
+   */
+  static mergeProviderPreferences(providers: MetadataProviderInfo[], preferences: ProviderPreference[] | null): ProviderPreference[] {
+    const known = new Set(providers.map(provider => provider.id));
+    const saved = (preferences || []).filter(preference => known.has(preference.id));
+    const savedIds = new Set(saved.map(preference => preference.id));
+    const added = providers
+      .filter(provider => !savedIds.has(provider.id))
+      .map(provider => ({ id: provider.id, enabled: provider.enabledByDefault }));
+    return [...saved, ...added];
+  }
+
   static async testConnection(): Promise<{ success: boolean; message: string }> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/books/test/connection`, {
@@ -101,6 +101,13 @@ export class CategoryService {
       console.error('Failed to load category settings:', error);
     }
     
+    return this.getDefaultSettings();
+  }
+
+  /**
+   * Category settings before any customisation
+   */
+  static getDefaultSettings(): CategorySettings {
     return {
       ignoredCategories: [],
       categoryMappings: { ...this.DEFAULT_MAPPINGS },
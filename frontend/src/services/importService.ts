@@ -0,0 +1,592 @@
+import { BookSearchResult } from '../types/book';
+import {
+  ColumnMapping,
+  ColumnMappingPreset,
+  GoodreadsRow,
+  ImportMatchResult,
+  ImportTargetField,
+  PersonalReadingData,
+  ResolvedImportRow,
+  ShelfStatusMap
+} from '../types/import';
+import { BookToNotionMapping, NotionPage } from '../types/notion';
+import { parseCsvWithHeaders } from '../utils/csvParser';
+import { BookService } from './bookService';
+import { CategoryService } from './categoryService';
+import { NotionService } from './notionService';
+
+// Identifiers and names used to look up a book
+export interface BookLookup {
+  isbn13?: string;
+  isbn10?: string;
+  title?: string;
+  author?: string;
+}
+
+// Minimum title similarity for a title+author candidate to count as a match
+const TITLE_MATCH_THRESHOLD = 0.8;
+
+// Header keywords used to guess a column mapping for unknown spreadsheets
+const HEADER_KEYWORDS: Array<{ field: ImportTargetField; keywords: string[] }> = [
+  { field: 'isbn', keywords: ['isbn'] },
+  { field: 'dateRead', keywords: ['date read', 'last date read', 'finished'] },
+  { field: 'dateAdded', keywords: ['date added', 'entry date', 'added', 'acquired'] },
+  { field: 'publishedDate', keywords: ['publication date', 'published', 'year', 'date'] },
+  { field: 'title', keywords: ['title', 'book'] },
+  { field: 'authors', keywords: ['author', 'writer'] },
+  { field: 'publisher', keywords: ['publisher', 'publication'] },
+  { field: 'pageCount', keywords: ['pages', 'page count'] },
+  { field: 'categories', keywords: ['genre', 'category', 'categories', 'subject', 'tags'] },
+  { field: 'description', keywords: ['description', 'summary', 'synopsis'] },
+  { field: 'readingStatus', keywords: ['status', 'shelf'] },
+  { field: 'userRating', keywords: ['rating', 'stars'] }
+];
+
+export class ImportService {
+  private static readonly SHELF_MAP_STORAGE_KEY = 'notion-books-goodreads-shelf-map';
+
+  private static readonly PRESETS_STORAGE_KEY = 'notion-books-import-presets';
+
+  private static readonly BUILT_IN_PRESETS: ColumnMappingPreset[] = [
+    {
+      id: 'librarything',
+      name: 'LibraryThing (TSV)',
+      delimiter: '\t',
+      builtIn: true,
+      mapping: {
+        'Title': { field: 'title' },
+        'Primary Author': { field: 'authors', separator: ';', lastFirst: true },
+        'ISBNs': { field: 'isbn' },
+        'Publication': { field: 'publisher' },
+        'Date': { field: 'publishedDate' },
+        'Page Count': { field: 'pageCount' },
+        'Tags': { field: 'categories', separator: ',' },
+        'Summary': { field: 'description' },
+        'Rating': { field: 'userRating' },
+        'Date Read': { field: 'dateRead' },
+        'Entry Date': { field: 'dateAdded' }
+      }
+    },
+    {
+      id: 'storygraph',
+      name: 'StoryGraph (CSV)',
+      delimiter: ',',
+      builtIn: true,
+      mapping: {
+        'Title': { field: 'title' },
+        'Authors': { field: 'authors', separator: ',' },
+        'ISBN/UID': { field: 'isbn' },
+        'Read Status': { field: 'readingStatus' },
+        'Star Rating': { field: 'userRating' },
+        'Last Date Read': { field: 'dateRead' },
+        'Date Added': { field: 'dateAdded' },
+        'Tags': { field: 'categories', separator: ',' }
+      }
+    }
+  ];
+
+  private static readonly DEFAULT_SHELF_STATUS: ShelfStatusMap = {
+    'read': 'Read',
+    'currently-reading': 'Reading',
+    'to-read': 'To Read'
+  };
+
+  /**
+   * Strip the ="..." wrapper Goodreads puts around ISBNs and keep only ISBN characters
+   */
+  static cleanIsbn(value: string): string {
+    return (value || '').replace(/^="?|"$/g, '').replace(/[^0-9Xx]/g, '').toUpperCase();
+  }
+
+  /**
+   * Convert Goodreads dates (YYYY/MM/DD) to YYYY-MM-DD
+   */
+  static normalizeDate(value: string): string {
+    const trimmed = (value || '').trim();
+    const match = trimmed.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+    if (match) {
+      return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+    }
+    return /^\d{4}$/.test(trimmed) ? trimmed : '';
+  }
+
+  /**
+   * Remove Goodreads series suffixes such as "(Harry Potter, #1)"
+   */
+  static cleanTitle(title: string): string {
+    return (title || '').replace(/\s*\([^)]*#\s*[\d.]+\)\s*$/, '').trim();
+  }
+
+  /**
+   * Parse a Goodreads library export CSV
+   */
+  static parseGoodreadsExport(text: string): GoodreadsRow[] {
+    const { headers, rows } = parseCsvWithHeaders(text, ',');
+
+    if (!headers.includes('Title') || !headers.includes('Author')) {
+      throw new Error('This does not look like a Goodreads library export (missing Title/Author columns)');
+    }
+
+    return rows
+      .filter(row => row['Title'])
+      .map(row => {
+        const pages = parseInt(row['Number of Pages'], 10);
+        const rating = parseInt(row['My Rating'], 10);
+
+        return {
+          bookId: row['Book Id'] || '',
+          title: row['Title'],
+          author: row['Author'] || '',
+          additionalAuthors: (row['Additional Authors'] || '')
+            .split(',')
+            .map(author => author.trim())
+            .filter(Boolean),
+          isbn10: this.cleanIsbn(row['ISBN']),
+          isbn13: this.cleanIsbn(row['ISBN13']),
+          myRating: isNaN(rating) ? 0 : rating,
+          publisher: row['Publisher'] || '',
+          pageCount: isNaN(pages) ? null : pages,
+          yearPublished: row['Year Published'] || '',
+          originalPublicationYear: row['Original Publication Year'] || '',
+          dateRead: this.normalizeDate(row['Date Read']),
+          dateAdded: this.normalizeDate(row['Date Added']),
+          bookshelves: (row['Bookshelves'] || '')
+            .split(',')
+            .map(shelf => shelf.trim())
+            .filter(Boolean),
+          exclusiveShelf: row['Exclusive Shelf'] || ''
+        };
+      });
+  }
+
+  /**
+   * Lowercase, strip punctuation and collapse whitespace for comparisons
+   */
+  static normalizeText(value: string): string {
+    return (value || '')
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Token overlap (Dice coefficient) between two titles, ignoring subtitles
+   */
+  static titleSimilarity(a: string, b: string): number {
+    const tokens = (value: string) => new Set(this.normalizeText(value.split(':')[0]).split(' ').filter(Boolean));
+    const aTokens = tokens(a);
+    const bTokens = tokens(b);
+    if (aTokens.size === 0 || bTokens.size === 0) return 0;
+
+    let shared = 0;
+    aTokens.forEach(token => {
+      if (bTokens.has(token)) shared++;
+    });
+
+    return (2 * shared) / (aTokens.size + bTokens.size);
+  }
+
+  /**
+   * Whether any author surname from the lookup appears in the candidate's authors
+   */
+  static authorsOverlap(author: string, candidateAuthors: string[]): boolean {
+    if (!author) return true;
+    const surname = this.normalizeText(author).split(' ').pop() || '';
+    return candidateAuthors.some(candidate => this.normalizeText(candidate).split(' ').includes(surname));
+  }
+
+  /**
+   * Find a book by ISBN-13, then ISBN-10, then title + author via /api/books/search
+   */
+  static async matchBook(lookup: BookLookup): Promise<ImportMatchResult> {
+    const isbnAttempts: Array<{ method: 'isbn13' | 'isbn10'; isbn?: string }> = [
+      { method: 'isbn13', isbn: lookup.isbn13 },
+      { method: 'isbn10', isbn: lookup.isbn10 }
+    ];
+
+    for (const { method, isbn } of isbnAttempts) {
+      if (!isbn) continue;
+
+      const response = await BookService.searchBooks({ query: isbn, type: 'isbn', limit: 5 });
+      const exact = response.books.find(book =>
+        this.cleanIsbn(book.isbn13 || '') === isbn || this.cleanIsbn(book.isbn10 || '') === isbn
+      );
+
+      if (exact) {
+        return { status: 'matched', method, match: exact, candidates: response.books };
+      }
+    }
+
+    if (!lookup.title) {
+      return { status: 'unmatched', candidates: [] };
+    }
+
+    const title = this.cleanTitle(lookup.title);
+    const query = lookup.author ? `${title} ${lookup.author}` : title;
+    const response = await BookService.searchBooks({ query, type: 'general', limit: 10 });
+
+    const scored = response.books
+      .map(book => ({
+        book,
+        score: this.titleSimilarity(title, book.title),
+        authorMatch: this.authorsOverlap(lookup.author || '', book.authors || [])
+      }))
+      .filter(entry => entry.authorMatch)
+      .sort((a, b) => b.score - a.score);
+
+    const strong = scored.filter(entry => entry.score >= TITLE_MATCH_THRESHOLD);
+    const exactTitles = strong.filter(entry =>
+      this.normalizeText(entry.book.title) === this.normalizeText(title)
+    );
+
+    if (strong.length === 1 || exactTitles.length === 1) {
+      const best = exactTitles.length === 1 ? exactTitles[0] : strong[0];
+      return {
+        status: 'matched',
+        method: 'title_author',
+        match: best.book,
+        candidates: scored.map(entry => entry.book)
+      };
+    }
+
+    if (scored.length > 0) {
+      return {
+        status: 'ambiguous',
+        method: 'title_author',
+        candidates: scored.slice(0, 5).map(entry => entry.book)
+      };
+    }
+
+    return { status: 'unmatched', candidates: response.books.slice(0, 5) };
+  }
+
+  /**
+   * Match a Goodreads row to a search result
+   */
+  static async matchGoodreadsRow(row: GoodreadsRow): Promise<ImportMatchResult> {
+    return this.matchBook({
+      isbn13: row.isbn13,
+      isbn10: row.isbn10,
+      title: row.title,
+      author: row.author
+    });
+  }
+
+  /**
+   * Load the shelf → status mapping, falling back to defaults for known shelves
+   */
+  static loadShelfStatusMap(): ShelfStatusMap {
+    try {
+      const stored = localStorage.getItem(this.SHELF_MAP_STORAGE_KEY);
+      if (stored) {
+        return { ...this.DEFAULT_SHELF_STATUS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Failed to load shelf status map:', error);
+    }
+    return { ...this.DEFAULT_SHELF_STATUS };
+  }
+
+  /**
+   * Save the shelf → status mapping to localStorage
+   */
+  static saveShelfStatusMap(map: ShelfStatusMap): void {
+    try {
+      localStorage.setItem(this.SHELF_MAP_STORAGE_KEY, JSON.stringify(map));
+    } catch (error) {
+      console.error('Failed to save shelf status map:', error);
+    }
+  }
+
+  /**
+   * Default status label for a shelf that has no explicit mapping
+   */
+  static defaultStatusForShelf(shelf: string): string {
+    return this.DEFAULT_SHELF_STATUS[shelf] ||
+      shelf.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  }
+
+  /**
+   * Build the personal reading data for a Goodreads row
+   */
+  static getGoodreadsReadingData(row: GoodreadsRow, shelfStatusMap: ShelfStatusMap): PersonalReadingData {
+    const shelf = row.exclusiveShelf;
+    return {
+      readingStatus: shelf ? (shelfStatusMap[shelf] ?? this.defaultStatusForShelf(shelf)) : undefined,
+      userRating: row.myRating > 0 ? row.myRating : undefined,
+      dateRead: row.dateRead || undefined,
+      dateAdded: row.dateAdded || undefined
+    };
+  }
+
+  /**
+   * Extract an ISBN-13 and/or ISBN-10 from free text such as "[0439708184]" or "0439708184, 9780439708180"
+   */
+  static extractIsbns(value: string): { isbn13: string; isbn10: string } {
+    const compact = (value || '').toUpperCase().replace(/(\d)[\s-](?=[\dX])/g, '$1');
+    const isbn13 = compact.match(/97[89]\d{10}/)?.[0] || '';
+    const isbn10 = compact.match(/(?<!\d)\d{9}[\dX](?![\dX])/)?.[0] || '';
+    return { isbn13, isbn10 };
+  }
+
+  /**
+   * Turn "Rowling, J.K." into "J.K. Rowling"
+   */
+  static flipLastFirst(name: string): string {
+    const match = name.match(/^([^,]+),\s*(.+)$/);
+    return match ? `${match[2].trim()} ${match[1].trim()}` : name.trim();
+  }
+
+  /**
+   * Split a list cell using the configured separator
+   */
+  static splitList(value: string, separator: string = ','): string[] {
+    return (value || '')
+      .split(separator || ',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Guess a mapping for each column header from common header names
+   */
+  static guessColumnMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const usedFields = new Set<ImportTargetField>();
+
+    headers.forEach(header => {
+      const normalized = this.normalizeText(header);
+      const guess = HEADER_KEYWORDS.find(({ field, keywords }) =>
+        !usedFields.has(field) && keywords.some(keyword => normalized.includes(keyword))
+      );
+
+      if (guess) {
+        usedFields.add(guess.field);
+        mapping[header] = { field: guess.field, separator: guess.field === 'authors' || guess.field === 'categories' ? ',' : undefined };
+      } else {
+        mapping[header] = { field: 'ignore' };
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Apply a column mapping to a spreadsheet row
+   */
+  static resolveRow(
+    row: Record<string, string>,
+    mapping: ColumnMapping,
+    rowNumber: number,
+    shelfStatusMap: ShelfStatusMap
+  ): ResolvedImportRow {
+    const resolved: ResolvedImportRow = {
+      rowNumber,
+      title: '',
+      authors: [],
+      isbn13: '',
+      isbn10: '',
+      publisher: '',
+      publishedDate: '',
+      pageCount: null,
+      categories: [],
+      description: '',
+      readingData: {},
+      customValues: {}
+    };
+
+    Object.entries(mapping).forEach(([header, entry]) => {
+      const value = (row[header] || '').trim();
+      if (!value || entry.field === 'ignore') return;
+
+      switch (entry.field) {
+        case 'title':
+          resolved.title = value;
+          break;
+        case 'authors': {
+          const names = this.splitList(value, entry.separator);
+          resolved.authors.push(...(entry.lastFirst ? names.map(name => this.flipLastFirst(name)) : names));
+          break;
+        }
+        case 'isbn': {
+          const { isbn13, isbn10 } = this.extractIsbns(value);
+          resolved.isbn13 = resolved.isbn13 || isbn13;
+          resolved.isbn10 = resolved.isbn10 || isbn10;
+          break;
+        }
+        case 'publisher':
+          resolved.publisher = value;
+          break;
+        case 'publishedDate':
+          resolved.publishedDate = this.normalizeDate(value) || value;
+          break;
+        case 'pageCount': {
+          const pages = parseInt(value.replace(/[^\d]/g, ''), 10);
+          resolved.pageCount = isNaN(pages) ? null : pages;
+          break;
+        }
+        case 'categories':
+          resolved.categories.push(...this.splitList(value, entry.separator));
+          break;
+        case 'description':
+          resolved.description = value;
+          break;
+        case 'readingStatus':
+          resolved.readingData.readingStatus = shelfStatusMap[value] ?? shelfStatusMap[value.toLowerCase()] ?? value;
+          break;
+        case 'userRating': {
+          const rating = parseFloat(value);
+          if (!isNaN(rating) && rating > 0) resolved.readingData.userRating = rating;
+          break;
+        }
+        case 'dateRead':
+          resolved.readingData.dateRead = this.normalizeDate(value) || value;
+          break;
+        case 'dateAdded':
+          resolved.readingData.dateAdded = this.normalizeDate(value) || value;
+          break;
+        case 'notionProperty':
+          if (entry.notionProperty) resolved.customValues[entry.notionProperty] = value;
+          break;
+      }
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Build a search-result shaped book from spreadsheet values, used when no lookup match exists
+   */
+  static toFallbackBook(row: ResolvedImportRow): BookSearchResult {
+    return {
+      id: `import-row-${row.rowNumber}`,
+      title: row.title,
+      authors: row.authors,
+      publisher: row.publisher || null,
+      publishedDate: row.publishedDate || null,
+      description: row.description || null,
+      isbn13: row.isbn13 || null,
+      isbn10: row.isbn10 || null,
+      pageCount: row.pageCount,
+      categories: row.categories,
+      source: 'import'
+    };
+  }
+
+  /**
+   * Fill blanks in a looked-up book with values from the spreadsheet
+   */
+  static mergeWithResolvedRow(book: BookSearchResult, row: ResolvedImportRow): BookSearchResult {
+    return {
+      ...book,
+      publisher: book.publisher || row.publisher || null,
+      publishedDate: book.publishedDate || row.publishedDate || null,
+      description: book.description || row.description || null,
+      pageCount: book.pageCount || row.pageCount,
+      categories: book.categories?.length ? book.categories : row.categories
+    };
+  }
+
+  /**
+   * Look up a resolved spreadsheet row, always offering the spreadsheet data as a fallback candidate
+   */
+  static async matchResolvedRow(row: ResolvedImportRow): Promise<ImportMatchResult> {
+    const fallback = this.toFallbackBook(row);
+    const result = await this.matchBook({
+      isbn13: row.isbn13,
+      isbn10: row.isbn10,
+      title: row.title,
+      author: row.authors[0]
+    });
+
+    return {
+      ...result,
+      candidates: [...result.candidates, fallback]
+    };
+  }
+
+  /**
+   * Load built-in and saved column mapping presets
+   */
+  static loadPresets(): ColumnMappingPreset[] {
+    let saved: ColumnMappingPreset[] = [];
+    try {
+      const stored = localStorage.getItem(this.PRESETS_STORAGE_KEY);
+      if (stored) saved = JSON.parse(stored);
+    } catch (error) {
+      console.error('Failed to load import presets:', error);
+    }
+    return [...this.BUILT_IN_PRESETS, ...saved];
+  }
+
+  /**
+   * Save (or overwrite by name) a user column mapping preset
+   */
+  static savePreset(name: string, delimiter: string, mapping: ColumnMapping): ColumnMappingPreset {
+    const saved = this.loadPresets().filter(preset => !preset.builtIn && preset.name !== name);
+    const preset: ColumnMappingPreset = {
+      id: `preset-${Date.now()}`,
+      name,
+      delimiter,
+      mapping
+    };
+    localStorage.setItem(this.PRESETS_STORAGE_KEY, JSON.stringify([...saved, preset]));
+    return preset;
+  }
+
+  /**
+   * Delete a user column mapping preset
+   */
+  static deletePreset(id: string): void {
+    const saved = this.loadPresets().filter(preset => !preset.builtIn && preset.id !== id);
+    localStorage.setItem(this.PRESETS_STORAGE_KEY, JSON.stringify(saved));
+  }
+
+  /**
+   * Find the preset whose mapped columns best cover the file's headers
+   */
+  static detectPreset(headers: string[], presets: ColumnMappingPreset[]): ColumnMappingPreset | null {
+    let bestPreset: ColumnMappingPreset | null = null;
+    let bestScore = 0.6;
+
+    presets.forEach(preset => {
+      const columns = Object.keys(preset.mapping);
+      if (columns.length === 0) return;
+      const score = columns.filter(column => headers.includes(column)).length / columns.length;
+      if (score >= bestScore) {
+        bestPreset = preset;
+        bestScore = score;
+      }
+    });
+
+    return bestPreset;
+  }
+
+  /**
+   * Create a Notion page for a matched book, applying category settings
+   */
+  static async createImportedPage(
+    databaseId: string,
+    book: BookSearchResult,
+    readingData: PersonalReadingData,
+    fieldMapping: BookToNotionMapping,
+    customValues?: Record<string, string>
+  ): Promise<NotionPage> {
+    const categorySettings = CategoryService.loadSettings();
+    const { processed } = CategoryService.processCategories(book.categories || [], categorySettings, book.audiobookData);
+
+    return NotionService.createPage({
+      databaseId,
+      bookData: {
+        ...book,
+        categories: processed,
+        ...readingData
+      },
+      fieldMapping,
+      customValues
+    });
+  }
+}
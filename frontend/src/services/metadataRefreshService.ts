@@ -0,0 +1,263 @@
+import { BookSearchResult } from '../types/book';
+import { LibraryBook } from '../types/library';
+import { BookToNotionMapping, CreateNotionPageRequest, NotionIntegrationSettings } from '../types/notion';
+import { RefreshField, RefreshFieldChange } from '../types/refresh';
+import { BookService } from './bookService';
+import { CategoryService } from './categoryService';
+import { ImportService } from './importService';
+
+export const REFRESH_FIELD_LABELS: Record<RefreshField, string> = {
+  thumbnail: 'Cover',
+  pageCount: 'Page count',
+  categories: 'Categories',
+  audiobook: 'Audiobook info'
+};
+
+// Field mappings written when a refreshed field is applied
+const AUDIOBOOK_MAPPING_KEYS: Array<keyof BookToNotionMapping> = [
+  'audiobookPublisher',
+  'audiobookChapters',
+  'audiobookASIN',
+  'audiobookNarrators',
+  'audiobookDuration',
+  'audiobookURL',
+  'audiobookRating'
+];
+
+const FIELD_MAPPING_KEYS: Record<RefreshField, Array<keyof BookToNotionMapping>> = {
+  thumbnail: ['thumbnail', 'pageIcon'],
+  pageCount: ['pageCount'],
+  categories: ['categories'],
+  audiobook: AUDIOBOOK_MAPPING_KEYS
+};
+
+// Covers uploaded to Notion have signed URLs that never match the source's, so they are not compared
+const NOTION_FILE_HOSTS = /(^|\.)(notion\.so|notion-static\.com|amazonaws\.com)$/;
+
+const isNotionFile = (url: string) => {
+  try {
+    return NOTION_FILE_HOSTS.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Cover URLs from the same source differ in protocol and presentation parameters only
+const normalizeCoverUrl = (url: string) =>
+  url.replace(/^https?:\/\//, '').replace(/&edge=curl/g, '');
+
+const isSameList = (a: string[], b: string[]) => {
+  const normalize = (list: string[]) => list.map(item => item.trim().toLowerCase()).sort().join('|');
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Fills in missing data on pages already in the books database, and optionally flags filled fields
+ * whose values differ from a fresh lookup: finds the pages, looks the books up again and builds
+ * page updates limited to the approved fields.
+ */
+export class MetadataRefreshService {
+  /**
+   * Fields the saved settings can write, and so can be refreshed
+   */
+  static getRefreshableFields(settings: NotionIntegrationSettings): RefreshField[] {
+    const mapping = settings.fieldMapping || ({} as BookToNotionMapping);
+    return (Object.keys(FIELD_MAPPING_KEYS) as RefreshField[]).filter(field =>
+      field === 'thumbnail'
+        ? !!mapping.thumbnail || !!mapping.pageIcon || !!settings.coverImages?.usePageCover
+        : FIELD_MAPPING_KEYS[field].some(key => !!mapping[key])
+    );
+  }
+
+  /**
+   * Which of the given fields are empty on a page
+   */
+  static findMissingFields(book: LibraryBook, fields: RefreshField[]): RefreshField[] {
+    return fields.filter(field => {
+      switch (field) {
+        case 'thumbnail':
+          return !book.thumbnail;
+        case 'pageCount':
+          return !book.pageCount;
+        case 'categories':
+          return !book.categories?.length;
+        case 'audiobook':
+          return !book.audiobookData?.asin && !book.audiobookData?.duration;
+        default:
+          return false;
+      }
+    });
+  }
+
+  /**
+   * Look the book up again: by ISBN, then title + author, then its audiobook when that is wanted.
+   * Returns null when nothing was found.
+   */
+  static async lookup(book: LibraryBook, fields: RefreshField[]): Promise<BookSearchResult | null> {
+    let found: BookSearchResult | null = null;
+
+    if (fields.some(field => field !== 'audiobook')) {
+      const result = await ImportService.matchBook({
+        isbn13: book.isbn13 || undefined,
+        isbn10: book.isbn10 || undefined,
+        title: book.title,
+        author: book.authors[0]
+      });
+      // Ambiguous title matches are left alone rather than guessed
+      found = result.status === 'matched' ? result.match || null : null;
+    }
+
+    if (fields.includes('audiobook')) {
+      const withAudiobook = await BookService.getAudiobookData(found || book);
+      if (withAudiobook.audiobookData?.hasAudiobook || found) {
+        found = withAudiobook;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Proposed changes: missing fields the lookup has values for, approved to start with, and filled
+   * fields whose values differ from the lookup's, left for review since the page may be right
+   */
+  static proposeChanges(
+    found: BookSearchResult,
+    book: LibraryBook,
+    missing: RefreshField[],
+    filled: RefreshField[] = []
+  ): RefreshFieldChange[] {
+    const proposals = [...missing, ...filled].map((field): RefreshFieldChange | null => {
+      const proposed = this.describeFoundValue(found, field);
+      if (!proposed) return null;
+      if (missing.includes(field)) {
+        return { field, proposed, reason: 'missing', approved: true };
+      }
+      return this.isStale(book, found, field)
+        ? { field, proposed, reason: 'stale', current: this.describePageValue(book, field), approved: false }
+        : null;
+    });
+
+    return proposals.filter((change): change is RefreshFieldChange => change !== null);
+  }
+
+  private static describeFoundValue(found: BookSearchResult, field: RefreshField): string | null {
+    switch (field) {
+      case 'thumbnail':
+        return this.getCover(found);
+      case 'pageCount':
+        return found.pageCount ? `${found.pageCount} pages` : null;
+      case 'categories': {
+        const categories = this.getCategories(found);
+        return categories.length > 0 ? categories.join(', ') : null;
+      }
+      case 'audiobook': {
+        const audiobook = found.audiobookData;
+        if (!audiobook?.hasAudiobook) return null;
+        const parts = [
+          audiobook.narrators?.length ? `Narrated by ${audiobook.narrators.join(', ')}` : null,
+          audiobook.duration || (audiobook.totalDurationHours ? `${audiobook.totalDurationHours} hrs` : null),
+          audiobook.publisher,
+          audiobook.asin ? `ASIN ${audiobook.asin}` : null
+        ].filter(Boolean);
+        return parts.join(' · ') || 'Audiobook found';
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static describePageValue(book: LibraryBook, field: RefreshField): string | undefined {
+    switch (field) {
+      case 'thumbnail':
+        return book.thumbnail || undefined;
+      case 'pageCount':
+        return book.pageCount ? `${book.pageCount} pages` : undefined;
+      case 'categories':
+        return book.categories?.join(', ');
+      case 'audiobook':
+        return book.audiobookData?.asin ? `ASIN ${book.audiobookData.asin}` : book.audiobookData?.duration;
+      default:
+        return undefined;
+    }
+  }
+
+  // Whether a filled field disagrees with the lookup
+  private static isStale(book: LibraryBook, found: BookSearchResult, field: RefreshField): boolean {
+    switch (field) {
+      case 'thumbnail': {
+        const cover = this.getCover(found);
+        if (!book.thumbnail || !cover || isNotionFile(book.thumbnail)) return false;
+        return normalizeCoverUrl(book.thumbnail) !== normalizeCoverUrl(cover);
+      }
+      case 'pageCount':
+        return !!found.pageCount && found.pageCount !== book.pageCount;
+      case 'categories': {
+        const categories = this.getCategories(found);
+        return categories.length > 0 && !isSameList(categories, book.categories || []);
+      }
+      case 'audiobook': {
+        // Audiobooks are compared by ASIN; pages without one are not judged
+        const asin = found.audiobookData?.asin;
+        return !!asin && !!book.audiobookData?.asin && asin !== book.audiobookData.asin;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Page update writing only the approved fields; other properties on the page are left as they are.
+   * Returns null when nothing is approved.
+   */
+  static buildUpdateRequest(
+    book: LibraryBook,
+    found: BookSearchResult,
+    changes: RefreshFieldChange[],
+    settings: NotionIntegrationSettings
+  ): CreateNotionPageRequest | null {
+    const approved = changes.filter(change => change.approved).map(change => change.field);
+    if (approved.length === 0) return null;
+
+    const fieldMapping = { title: '', authors: '' } as BookToNotionMapping;
+    approved.flatMap(field => FIELD_MAPPING_KEYS[field]).forEach(key => {
+      if (settings.fieldMapping[key]) {
+        (fieldMapping as any)[key] = settings.fieldMapping[key];
+      }
+    });
+    if (settings.fieldMapping.transforms) {
+      fieldMapping.transforms = settings.fieldMapping.transforms;
+    }
+
+    const bookData: any = { id: book.id, title: book.title, authors: book.authors, source: found.source };
+    if (approved.includes('thumbnail')) bookData.thumbnail = this.getCover(found);
+    if (approved.includes('pageCount')) bookData.pageCount = found.pageCount;
+    if (approved.includes('categories')) bookData.categories = this.getCategories(found);
+    if (approved.includes('audiobook')) {
+      bookData.audiobookData = found.audiobookData;
+      bookData.audiobookPublishedDate = found.audiobookData?.publishedDate;
+    }
+
+    return {
+      databaseId: settings.databaseId,
+      bookData,
+      fieldMapping,
+      authorsDatabase: settings.authorsDatabase,
+      coverImages: settings.coverImages
+    };
+  }
+
+  private static getCover(found: BookSearchResult): string | null {
+    return found.thumbnail || found.audiobookData?.image || null;
+  }
+
+  // Categories go through the saved genre settings, as when adding a book
+  private static getCategories(found: BookSearchResult): string[] {
+    const { processed } = CategoryService.processCategories(
+      found.categories || [],
+      CategoryService.loadSettings(),
+      found.audiobookData
+    );
+    return processed;
+  }
+}
@@ -1,10 +1,16 @@
 import { 
   NotionDatabase, 
   NotionPage, 
+  NotionPageWithValues,
+  NotionBookPageUpdate,
   CreateNotionPageRequest,
   NotionIntegrationSettings,
-  NotionBookSearchResult
+  NotionBookSearchResult,
+  NotionBlock,
+  RelatedPageRef
 } from '../types/notion';
+import { BookSearchResult } from '../types/book';
+import { LibraryPage, LibraryQuery, LibraryStats } from '../types/library';
 import { API_BASE_URL } from '../utils/api';
 
 export class NotionService {
@@ -133,6 +139,8 @@ export class NotionService {
    */
   static async createPage(request: CreateNotionPageRequest): Promise<NotionPage> {
     try {
+      // Saved settings fill in whatever the request leaves out
+      const settings = await this.getSettings();
       const response = await fetch(`${API_BASE_URL}/api/notion/pages/book`, {
         method: 'POST',
         headers: {
@@ -142,7 +150,13 @@ export class NotionService {
         body: JSON.stringify({
           databaseId: request.databaseId,
           bookData: request.bookData,
-          fieldMappings: request.fieldMapping
+          fieldMappings: request.fieldMapping,
+          customValues: request.customValues,
+          defaultValues: request.defaultValues ?? settings?.defaultValues,
+          authorsDatabase: request.authorsDatabase ?? settings?.authorsDatabase,
+          coverImages: request.coverImages ?? settings?.coverImages,
+          pageContent: request.pageContent ?? settings?.pageContent,
+          pageTemplate: request.pageTemplate ?? settings?.pageTemplate
         }),
       });
 
@@ -165,6 +179,27 @@ export class NotionService {
     }
   }
 
+  /**
+   * Get a page with the plain value of each property, for comparing it with a book
+   */
+  static async getPage(pageId: string): Promise<NotionPageWithValues> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/notion/pages/${pageId}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get page error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update an existing Notion page
    */
@@ -181,7 +216,7 @@ export class NotionService {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
       }
 
       const result = await response.json();
@@ -193,10 +228,31 @@ export class NotionService {
   }
 
   /**
-   * Update an existing book page in Notion database
+   * Move a page to the Notion trash
    */
-  static async updateBookPage(pageId: string, request: CreateNotionPageRequest): Promise<NotionPage> {
+  static async archivePage(pageId: string): Promise<void> {
     try {
+      const response = await fetch(`${API_BASE_URL}/api/notion/pages/${pageId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Archive page error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing book page in Notion database; the response holds the values it replaced
+   */
+  static async updateBookPage(pageId: string, request: CreateNotionPageRequest): Promise<NotionBookPageUpdate> {
+    try {
+      const settings = await this.getSettings();
       const response = await fetch(`${API_BASE_URL}/api/notion/pages/${pageId}/book`, {
         method: 'PATCH',
         headers: {
@@ -206,7 +262,9 @@ export class NotionService {
         body: JSON.stringify({
           databaseId: request.databaseId,
           bookData: request.bookData,
-          fieldMappings: request.fieldMapping
+          fieldMappings: request.fieldMapping,
+          authorsDatabase: request.authorsDatabase ?? settings?.authorsDatabase,
+          coverImages: request.coverImages ?? settings?.coverImages
         }),
       });
 
@@ -262,6 +320,13 @@ export class NotionService {
     }
   }
 
+  /**
+   * Remove the saved Notion integration settings, e.g. when switching to an unconfigured profile
+   */
+  static async clearSettings(): Promise<void> {
+    localStorage.removeItem('notion-settings');
+  }
+
   /**
    * Test Notion API connection
    */
@@ -294,14 +359,75 @@ export class NotionService {
   }
 
   /**
-   * Search for existing books in Notion database to avoid duplicates
+   * List pages of a database whose title contains the query, for relation pickers
    */
-  static async searchExistingBooks(databaseId: string, isbn?: string, title?: string, fieldMappings?: any): Promise<NotionBookSearchResult[]> {
+  static async searchDatabasePages(databaseId: string, query = ''): Promise<RelatedPageRef[]> {
     try {
-      const requestBody: any = {};
-      if (isbn) requestBody.isbn = isbn;
-      if (title) requestBody.title = title;
-      if (fieldMappings) requestBody.fieldMappings = fieldMappings;
+      const params = new URLSearchParams(query ? { query } : {});
+      const response = await fetch(`${API_BASE_URL}/api/notion/database/${databaseId}/pages?${params}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.pages || [];
+    } catch (error) {
+      console.error('Search database pages error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render a page template against a book, returning the blocks a new page would start with
+   */
+  static async previewPageTemplate(template: string, bookData: any): Promise<NotionBlock[]> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/notion/templates/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ template, bookData }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.blocks || [];
+    } catch (error) {
+      console.error('Preview page template error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search a Notion database for pages that may already hold this book: the same ISBN, another
+   * edition of the same work, or a similar title and author. Results are sorted by score.
+   */
+  static async searchExistingBooks(
+    databaseId: string,
+    book: Pick<BookSearchResult, 'title' | 'authors' | 'isbn13' | 'isbn10' | 'openLibraryKey'>,
+    fieldMappings?: any
+  ): Promise<NotionBookSearchResult[]> {
+    try {
+      const requestBody = {
+        isbn: book.isbn13 || book.isbn10 || undefined,
+        isbn13: book.isbn13 || undefined,
+        isbn10: book.isbn10 || undefined,
+        title: book.title,
+        authors: book.authors || [],
+        openLibraryKey: book.openLibraryKey || undefined,
+        fieldMappings
+      };
 
       const response = await fetch(
         `${API_BASE_URL}/api/notion/database/${databaseId}/search`,
@@ -327,4 +453,59 @@ export class NotionService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Browse the books already in a Notion database, read back through the field mappings
+   */
+  static async queryLibrary(databaseId: string, fieldMappings: any, query: LibraryQuery = {}): Promise<LibraryPage> {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/notion/database/${databaseId}/library`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({ fieldMappings, ...query }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Query library error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reading statistics aggregated over every book in a Notion database
+   */
+  static async getLibraryStats(databaseId: string, fieldMappings: any): Promise<LibraryStats> {
+    try {
+      const params = new URLSearchParams({
+        databaseId,
+        fieldMappings: JSON.stringify(fieldMappings || {})
+      });
+
+      const response = await fetch(`${API_BASE_URL}/api/user/stats?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get library stats error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { NotionIntegrationSettings } from '../types/notion';
+import { CategoryService, CategorySettings } from './categoryService';
+import { NotionService } from './notionService';
+
+/**
+ * A named Notion destination. The active profile's settings live in the regular settings
+ * storage, so everything that reads them keeps working; the copy kept here is refreshed
+ * whenever another profile is switched to.
+ */
+export interface NotionProfile {
+  id: string;
+  name: string;
+  settings: NotionIntegrationSettings | null; // null until a database is configured
+  categorySettings: CategorySettings | null;
+}
+
+export interface ProfileStore {
+  activeProfileId: string;
+  profiles: NotionProfile[];
+}
+
+export class ProfileService {
+  private static readonly STORAGE_KEY = 'notion-books-profiles';
+  private static readonly DEFAULT_PROFILE_NAME = 'My Library';
+
+  /**
+   * Load the profiles; the first load turns the existing settings into a default profile
+   */
+  static load(): ProfileStore {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        const parsed: ProfileStore = JSON.parse(stored);
+        if (Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+          const hasActive = parsed.profiles.some(profile => profile.id === parsed.activeProfileId);
+          return hasActive ? parsed : { ...parsed, activeProfileId: parsed.profiles[0].id };
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+    }
+
+    const profile: NotionProfile = {
+      id: this.createId(),
+      name: this.DEFAULT_PROFILE_NAME,
+      settings: null,
+      categorySettings: null
+    };
+    const store = { activeProfileId: profile.id, profiles: [profile] };
+    this.save(store);
+    return store;
+  }
+
+  static save(store: ProfileStore): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(store));
+    } catch (error) {
+      console.error('Failed to save profiles:', error);
+    }
+  }
+
+  /**
+   * Switch to another profile: the current settings are stored on the active profile and the
+   * target profile's settings become the current ones
+   */
+  static async switchTo(profileId: string): Promise<ProfileStore> {
+    const store = await this.captureActive(this.load());
+    const target = store.profiles.find(profile => profile.id === profileId);
+    if (!target) {
+      throw new Error('Profile not found');
+    }
+
+    if (target.settings) {
+      await NotionService.saveSettings(target.settings);
+    } else {
+      await NotionService.clearSettings();
+    }
+    CategoryService.saveSettings(target.categorySettings || CategoryService.getDefaultSettings());
+
+    const next = { ...store, activeProfileId: profileId };
+    this.save(next);
+    return next;
+  }
+
+  /**
+   * Create a profile, either as a copy of the current settings or unconfigured, and switch to it
+   */
+  static async create(name: string, copyCurrent: boolean): Promise<ProfileStore> {
+    const store = await this.captureActive(this.load());
+    const active = store.profiles.find(profile => profile.id === store.activeProfileId);
+    const profile: NotionProfile = {
+      id: this.createId(),
+      name: name.trim(),
+      settings: copyCurrent ? active?.settings || null : null,
+      categorySettings: copyCurrent ? active?.categorySettings || null : null
+    };
+
+    this.save({ ...store, profiles: [...store.profiles, profile] });
+    return this.switchTo(profile.id);
+  }
+
+  static rename(profileId: string, name: string): ProfileStore {
+    const store = this.load();
+    const next = {
+      ...store,
+      profiles: store.profiles.map(profile => profile.id === profileId ? { ...profile, name: name.trim() } : profile)
+    };
+    this.save(next);
+    return next;
+  }
+
+  /**
+   * Delete an inactive profile; the active one has to be switched away from first
+   */
+  static delete(profileId: string): ProfileStore {
+    const store = this.load();
+    if (profileId === store.activeProfileId) {
+      throw new Error('The active profile cannot be deleted');
+    }
+
+    const next = { ...store, profiles: store.profiles.filter(profile => profile.id !== profileId) };
+    this.save(next);
+    return next;
+  }
+
+  // Copy the current settings onto the active profile
+  private static async captureActive(store: ProfileStore): Promise<ProfileStore> {
+    const settings = await NotionService.getSettings();
+    const categorySettings = CategoryService.loadSettings();
+    return {
+      ...store,
+      profiles: store.profiles.map(profile =>
+        profile.id === store.activeProfileId ? { ...profile, settings, categorySettings } : profile
+      )
+    };
+  }
+
+  private static createId(): string {
+    return `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
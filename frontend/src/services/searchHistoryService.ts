@@ -0,0 +1,91 @@
+import { SearchHistoryEntry, SearchParams } from '../types/book';
+import { countActiveFilters } from '../utils/searchFilters';
+
+export class SearchHistoryService {
+  private static readonly STORAGE_KEY = 'notion-books-search-history';
+  // Unpinned entries beyond this are dropped, oldest first
+  private static readonly MAX_RECENT = 30;
+
+  static load(): SearchHistoryEntry[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load search history:', error);
+      return [];
+    }
+  }
+
+  static save(entries: SearchHistoryEntry[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to save search history:', error);
+    }
+  }
+
+  /**
+   * Identity of a search: the same query, type and filters count as one history entry
+   */
+  static getSearchKey(params: Pick<SearchParams, 'query' | 'type' | 'filters'>): string {
+    const filters = params.filters || {};
+    const sortedFilters = Object.keys(filters)
+      .sort()
+      .map(key => `${key}=${filters[key as keyof typeof filters]}`)
+      .join('&');
+    return `${params.type}|${params.query.trim().toLowerCase()}|${sortedFilters}`;
+  }
+
+  /**
+   * Record a completed search, moving repeats to the top and keeping their pinned state
+   */
+  static record(entries: SearchHistoryEntry[], params: SearchParams, resultCount: number, totalItems?: number): SearchHistoryEntry[] {
+    const key = this.getSearchKey(params);
+    const existing = entries.find(entry => this.getSearchKey(entry) === key);
+    const filters = params.filters && countActiveFilters(params.filters) > 0 ? params.filters : undefined;
+
+    const entry: SearchHistoryEntry = {
+      id: existing?.id || `search-${Date.now()}`,
+      query: params.query.trim(),
+      type: params.type,
+      limit: params.limit,
+      filters,
+      timestamp: new Date().toISOString(),
+      resultCount,
+      totalItems,
+      pinned: existing?.pinned || false
+    };
+
+    // Newest first; only unpinned entries count towards the limit
+    let recentCount = 0;
+    return [entry, ...entries.filter(candidate => candidate !== existing)]
+      .filter(candidate => candidate.pinned || ++recentCount <= this.MAX_RECENT);
+  }
+
+  static togglePin(entries: SearchHistoryEntry[], id: string): SearchHistoryEntry[] {
+    return entries.map(entry => entry.id === id ? { ...entry, pinned: !entry.pinned } : entry);
+  }
+
+  static remove(entries: SearchHistoryEntry[], id: string): SearchHistoryEntry[] {
+    return entries.filter(entry => entry.id !== id);
+  }
+
+  /**
+   * Clear recent searches, keeping pinned ones
+   */
+  static clearRecent(entries: SearchHistoryEntry[]): SearchHistoryEntry[] {
+    return entries.filter(entry => entry.pinned);
+  }
+
+  /**
+   * Search params to re-run a history entry
+   */
+  static toSearchParams(entry: SearchHistoryEntry): SearchParams {
+    return {
+      query: entry.query,
+      type: entry.type,
+      limit: entry.limit,
+      filters: entry.filters || {}
+    };
+  }
+}
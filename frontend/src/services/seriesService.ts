@@ -0,0 +1,52 @@
+import { SeriesCatalogEntry, SeriesCatalogInput } from '../types/book';
+import { API_BASE_URL } from '../utils/api';
+
+export class SeriesService {
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}/api/series${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  /**
+   * List the series catalog, optionally filtered by name, alias or author
+   */
+  static async getSeries(query?: string): Promise<SeriesCatalogEntry[]> {
+    const params = query ? `?${new URLSearchParams({ q: query })}` : '';
+    const data = await this.request<{ series: SeriesCatalogEntry[] }>(params);
+    return data?.series || [];
+  }
+
+  static async createSeries(series: SeriesCatalogInput): Promise<SeriesCatalogEntry> {
+    return this.request<SeriesCatalogEntry>('', {
+      method: 'POST',
+      body: JSON.stringify(series)
+    });
+  }
+
+  /**
+   * Save the user's version of a series; its books are no longer changed by provider data
+   */
+  static async updateSeries(id: string, series: SeriesCatalogInput): Promise<SeriesCatalogEntry> {
+    return this.request<SeriesCatalogEntry>(`/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(series)
+    });
+  }
+
+  static async deleteSeries(id: string): Promise<void> {
+    await this.request(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+}
@@ -0,0 +1,30 @@
+import { BookSearchResult } from './book';
+import { NotionBookSearchResult } from './notion';
+
+// What to do when a queued book already exists in the Notion database
+export type BatchDuplicateMode = 'skip' | 'replace' | 'keep-both';
+
+export type BatchItemStatus =
+  | 'queued'
+  | 'checking'
+  | 'adding'
+  | 'added'
+  | 'updated'
+  | 'skipped'
+  | 'failed';
+
+export interface BatchQueueItem {
+  id: string;
+  book: BookSearchResult;
+  status: BatchItemStatus;
+  duplicates: NotionBookSearchResult[];
+  pageUrl?: string;
+  error?: string;
+}
+
+export interface BatchRunSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
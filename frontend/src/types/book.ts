@@ -7,6 +7,7 @@ export interface AudiobookData {
   duration?: string;
   chapters?: number;
   chapterCount?: number; // Alternative name for chapters
+  chapterList?: Array<{ title: string; lengthMs?: number; startOffsetMs?: number }>;
   totalDurationHours?: number; // Duration in hours
   totalDurationMinutes?: number; // Duration in minutes
   totalDurationMs?: number; // Duration in milliseconds
@@ -115,6 +116,7 @@ export interface BookSearchResult {
   publisher?: string | null;
   publishedDate?: string | null;
   description?: string | null;
+  descriptionHtml?: string | null; // Formatted audiobook description, used for the Notion page body
   isbn13?: string | null;
   isbn10?: string | null;
   pageCount?: number | null;
@@ -129,10 +131,13 @@ export interface BookSearchResult {
   source: string;
   audiobookData?: AudiobookData;
   notionPageId?: string;
+  notionPageUrl?: string;
   copyright?: string | null;
   originalPublishedDate?: string | null;
   firstPublishedDate?: string | null;
   openLibraryKey?: string | null;
+  series?: string | null;
+  seriesNumber?: number | null;
   openLibraryData?: {
     editionCount?: number;
     firstPublishYear?: number;
@@ -152,17 +157,93 @@ export interface BookSearchResponse {
   totalItems: number;
   query: string;
   searchType: string;
+  // Cursor to request the next page with; null when there are no more results
+  nextCursor?: string | null;
+  hasMore?: boolean;
 }
 
-export type SearchType = 'general' | 'title' | 'author' | 'isbn';
+export type SearchType = 'general' | 'title' | 'author' | 'isbn' | 'subject';
+
+export type SearchFormat = 'print' | 'ebook';
+
+// Structured filters applied by the providers and again after results are merged
+export interface SearchFilters {
+  yearFrom?: number;
+  yearTo?: number;
+  language?: string; // ISO 639-1, e.g. "en"
+  minPages?: number;
+  maxPages?: number;
+  format?: SearchFormat;
+  hasAudiobook?: boolean;
+}
 
 export interface SearchParams {
   query: string;
   type: SearchType;
   limit?: number;
+  cursor?: string; // nextCursor of the previous page
   includeAudiobooks?: boolean | 'top';
+  filters?: SearchFilters;
+}
+
+// A past search kept in localStorage; pinned entries are saved searches and never expire
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  type: SearchType;
+  limit?: number;
+  filters?: SearchFilters;
+  timestamp: string;
+  resultCount: number;
+  totalItems?: number;
+  pinned: boolean;
+}
+
+// A metadata source registered on the backend (Google Books, Open Library, in-house catalogs...)
+export interface MetadataProviderInfo {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: {
+    search: boolean;
+    getById: boolean;
+    editions: boolean;
+    isbnSearch: boolean;
+  };
+  enabledByDefault: boolean;
+}
+
+// User's provider choice; array order is the merge priority
+export interface ProviderPreference {
+  id: string;
+  enabled: boolean;
+}
+
+// Where a series catalog entry came from; user edits take priority over everything learned
+export type SeriesSource = 'seed' | 'user' | 'audnexus' | 'open_library' | 'title_pattern';
+
+export interface SeriesBook {
+  number: number;
+  title: string;
+  aliases: string[];
+  source?: SeriesSource;
+}
+
+// A series in the backend catalog, with its books in reading order
+export interface SeriesCatalogEntry {
+  id: string;
+  name: string;
+  author: string | null;
+  aliases: string[];
+  books: SeriesBook[];
+  sources: SeriesSource[];
+  userEdited: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
+export type SeriesCatalogInput = Pick<SeriesCatalogEntry, 'name' | 'author' | 'aliases' | 'books'>;
+
 export interface BookEdition {
   id: string;
   title: string;
@@ -183,6 +264,8 @@ export interface BookEdition {
   infoLink?: string | null;
   source: string;
   openLibraryKey?: string;
+  series?: string | null;
+  seriesNumber?: number | null;
   rawData?: any;
 }
 
@@ -0,0 +1,110 @@
+import { BookSearchResult } from './book';
+
+// A single row from a Goodreads "library export" CSV
+export interface GoodreadsRow {
+  bookId: string;
+  title: string;
+  author: string;
+  additionalAuthors: string[];
+  isbn10: string;
+  isbn13: string;
+  myRating: number; // 0 means unrated
+  publisher: string;
+  pageCount: number | null;
+  yearPublished: string;
+  originalPublicationYear: string;
+  dateRead: string; // YYYY-MM-DD or empty
+  dateAdded: string; // YYYY-MM-DD or empty
+  bookshelves: string[];
+  exclusiveShelf: string;
+}
+
+// Personal reading data sent alongside book data when creating a page.
+// The backend maps these onto the status, rating, dateRead and dateAdded mappings.
+export interface PersonalReadingData {
+  readingStatus?: string;
+  userRating?: number;
+  dateRead?: string;
+  dateAdded?: string;
+}
+
+export type ImportMatchStatus = 'pending' | 'matching' | 'matched' | 'ambiguous' | 'unmatched' | 'error';
+
+export type ImportMatchMethod = 'isbn13' | 'isbn10' | 'title_author' | 'manual';
+
+export type ImportPageStatus = 'pending' | 'importing' | 'imported' | 'failed';
+
+export interface ImportRow<T> {
+  id: string;
+  source: T;
+  status: ImportMatchStatus;
+  method?: ImportMatchMethod;
+  match?: BookSearchResult;
+  candidates: BookSearchResult[];
+  included: boolean;
+  error?: string;
+  pageStatus?: ImportPageStatus;
+  pageUrl?: string;
+  pageError?: string;
+}
+
+export interface ImportMatchResult {
+  status: 'matched' | 'ambiguous' | 'unmatched';
+  method?: ImportMatchMethod;
+  match?: BookSearchResult;
+  candidates: BookSearchResult[];
+}
+
+// Maps a Goodreads shelf name (e.g. "to-read") to a Notion status option
+export type ShelfStatusMap = Record<string, string>;
+
+// Book fields a spreadsheet column can be mapped to
+export type ImportTargetField =
+  | 'ignore'
+  | 'title'
+  | 'authors'
+  | 'isbn'
+  | 'publisher'
+  | 'publishedDate'
+  | 'pageCount'
+  | 'categories'
+  | 'description'
+  | 'readingStatus'
+  | 'userRating'
+  | 'dateRead'
+  | 'dateAdded'
+  | 'notionProperty';
+
+export interface ColumnMappingEntry {
+  field: ImportTargetField;
+  notionProperty?: string; // Target property when field is 'notionProperty'
+  separator?: string; // Splits list fields (authors, categories)
+  lastFirst?: boolean; // Authors are written "Last, First"
+}
+
+// Keyed by column header
+export type ColumnMapping = Record<string, ColumnMappingEntry>;
+
+export interface ColumnMappingPreset {
+  id: string;
+  name: string;
+  delimiter: string;
+  mapping: ColumnMapping;
+  builtIn?: boolean;
+}
+
+// A spreadsheet row after applying the column mapping
+export interface ResolvedImportRow {
+  rowNumber: number;
+  title: string;
+  authors: string[];
+  isbn13: string;
+  isbn10: string;
+  publisher: string;
+  publishedDate: string;
+  pageCount: number | null;
+  categories: string[];
+  description: string;
+  readingData: PersonalReadingData;
+  customValues: Record<string, string>;
+}
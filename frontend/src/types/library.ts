@@ -0,0 +1,87 @@
+import { BookSearchResult } from './book';
+
+// A page of the books database read back through the field mappings
+export interface LibraryBook extends BookSearchResult {
+  notionPageId: string;
+  notionPageUrl: string;
+  readingStatus?: string | null;
+  dateRead?: string | null;
+  dateAdded?: string | null;
+  createdTime: string;
+  lastEditedTime: string;
+}
+
+export type LibrarySortField = 'dateAdded' | 'title' | 'authors' | 'releaseDate' | 'dateRead' | 'rating' | 'pageCount';
+
+export interface LibrarySort {
+  field: LibrarySortField;
+  direction: 'ascending' | 'descending';
+}
+
+export interface LibraryFilters {
+  status?: string;
+  category?: string;
+  author?: string;
+  // YYYY-MM-DD, inclusive
+  dateAddedFrom?: string;
+  dateAddedTo?: string;
+}
+
+export interface LibraryQuery {
+  search?: string;
+  filters?: LibraryFilters;
+  sort?: LibrarySort;
+  cursor?: string | null;
+  pageSize?: number;
+}
+
+export interface LibraryFilterOptions {
+  statuses: string[];
+  categories: string[];
+  authors: string[];
+}
+
+export interface LibraryPage {
+  books: LibraryBook[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  filterOptions: LibraryFilterOptions;
+}
+
+export interface LibraryStatsPeriod {
+  added: number;
+  finished: number;
+  pagesRead: number;
+  audiobookHours: number;
+}
+
+export interface LibraryStatsCount {
+  name: string;
+  count: number;
+}
+
+// Aggregates over the whole books database, from /api/user/stats
+export interface LibraryStats {
+  totals: {
+    books: number;
+    finished: number;
+    // Finished books without a read date, missing from byMonth and byYear
+    finishedUndated: number;
+    pagesRead: number;
+    audiobookHours: number;
+    // Of the mapped rating property, which holds your rating or else the community average
+    averageRating: number | null;
+    ratedBooks: number;
+  };
+  byMonth: Array<LibraryStatsPeriod & { month: string }>;
+  byYear: Array<LibraryStatsPeriod & { year: string }>;
+  topCategories: LibraryStatsCount[];
+  topAuthors: LibraryStatsCount[];
+  topPublishers: LibraryStatsCount[];
+  statuses: LibraryStatsCount[];
+  // Books with and without Audible data; pages do not record the format a book was read in
+  audiobookData: { with: number; without: number };
+  // The library was larger than the backend reads in one request
+  truncated: boolean;
+  generatedAt: string;
+}
@@ -60,6 +60,7 @@ export type NotionPropertyType =
   | 'url'
   | 'email'
   | 'phone_number'
+  | 'status'
   | 'formula'
   | 'relation'
   | 'rollup'
@@ -94,9 +95,54 @@ export interface NotionPage {
   url: string;
 }
 
+// Plain value of a page property: text, number, flag or list (linked pages by title)
+export type NotionPlainValue = string | number | boolean | string[] | null;
+
+// A page as read back for comparison with a book
+export interface NotionPageWithValues extends Pick<NotionPage, 'id' | 'url' | 'created_time' | 'last_edited_time' | 'properties'> {
+  icon: NotionPage['icon'] | null;
+  cover: NotionPage['cover'] | null;
+  values: Record<string, NotionPlainValue>; // By property name
+}
+
+// What an update overwrote on a page, written back to undo it; icon and cover only when they were replaced
+export interface NotionPageSnapshot {
+  properties: Record<string, any>;
+  icon?: NotionPage['icon'] | null;
+  cover?: NotionPage['cover'] | null;
+}
+
+// A page updated from a book, with the values it had before
+export interface NotionBookPageUpdate extends Pick<NotionPage, 'id' | 'url' | 'last_edited_time' | 'properties'> {
+  previous: NotionPageSnapshot;
+}
+
+// A page added or updated during this session; creations are undone by archiving the page
+export interface NotionActivity {
+  id: string;
+  action: 'created' | 'updated';
+  pageId: string;
+  pageUrl: string;
+  bookTitle: string;
+  timestamp: string;
+  previous?: NotionPageSnapshot; // Updates only
+  undone: boolean;
+}
+
+// One step of a mapping's transform pipeline, applied in order before the value is written
+export type FieldTransform =
+  | { type: 'nameFormat'; format: 'lastFirst' | 'initialsLast' | 'lastOnly' }
+  | { type: 'case'; mode: 'title' | 'upper' | 'lower' }
+  | { type: 'stripSubtitle' }
+  | { type: 'duration'; unit: 'minutes' | 'hours' } // Produces a number
+  | { type: 'year' }
+  | { type: 'join'; separator: string } // Turns a list into one text value
+  | { type: 'affix'; prefix?: string; suffix?: string }
+  | { type: 'replace'; pattern: string; replacement?: string; ignoreCase?: boolean };
+
 export interface BookToNotionMapping {
   title: string; // Notion property name for book title
-  authors: string; // Notion property name for authors
+  authors: string; // Notion property name for authors (a relation links pages in the Authors database)
   description?: string; // Notion property name for description
   isbn?: string; // Notion property name for ISBN
   releaseDate?: string; // Notion property name for consolidated release/published date
@@ -108,6 +154,10 @@ export interface BookToNotionMapping {
   pageIcon?: boolean; // Whether to set the cover image as the page icon
   status?: string; // Notion property name for reading status
   notes?: string; // Notion property name for personal notes
+  dateRead?: string; // Notion property name for the date the book was finished
+  dateAdded?: string; // Notion property name for the date the book was added to the library
+  series?: string; // Notion property name for series (select, text or a relation to a series database)
+  seriesNumber?: string; // Notion property name for the book's position in its series
   // Audiobook-specific fields
   audiobookPublisher?: string; // Notion property name for audiobook publisher
   audiobookChapters?: string; // Notion property name for audiobook chapter count
@@ -116,14 +166,51 @@ export interface BookToNotionMapping {
   audiobookDuration?: string; // Notion property name for audiobook duration
   audiobookURL?: string; // Notion property name for audiobook URL (Audible link)
   audiobookRating?: string; // Notion property name for audiobook rating
+  transforms?: Partial<Record<string, FieldTransform[]>>; // Transform pipeline per book field
+}
+
+// A second database holding one page per author, linked from books through a relation property
+export interface AuthorsDatabaseSettings {
+  databaseId: string;
+  photoProperty?: string; // Files or URL property for the author photo (guessed by name when empty)
+  bioProperty?: string; // Text property for the author bio (guessed by name when empty)
+}
+
+// How the book cover reaches Notion
+export interface CoverImageSettings {
+  upload: boolean; // Download, resize and upload the cover to Notion instead of linking the source URL
+  format: 'jpeg' | 'webp';
+  usePageCover: boolean; // Also set the cover as the page cover
 }
 
+// Sections written to the body of new book pages
+export interface PageContentSettings {
+  description: boolean; // Full description with paragraphs and formatting
+  chapters: boolean; // Audiobook chapter list
+  edition: boolean; // Publisher, dates, ISBNs, narrators...
+  links: boolean; // Google Books, Open Library and Audible links
+}
+
+// A page picked for a relation default
+export interface RelatedPageRef {
+  id: string;
+  title: string;
+}
+
+// Default property value, typed by the property it fills: option names for select and status,
+// 'today' or YYYY-MM-DD for dates, picked pages for relations
+export type DefaultPropertyValue = string | number | boolean | string[] | RelatedPageRef[];
+
 export interface NotionIntegrationSettings {
   databaseId: string;
   fieldMapping: BookToNotionMapping;
-  defaultValues: Record<string, any>;
+  defaultValues: Record<string, DefaultPropertyValue>; // By property name; fills properties new pages would leave empty
   autoAddBooks: boolean;
   useEnglishOnlySources?: boolean; // Filter out non-English sources
+  authorsDatabase?: AuthorsDatabaseSettings;
+  coverImages?: CoverImageSettings;
+  pageContent?: PageContentSettings;
+  pageTemplate?: string; // Markdown-like template with {{field}} placeholders, written above the page content sections
 }
 
 export interface NotionAuthResponse {
@@ -142,12 +229,50 @@ export interface CreateNotionPageRequest {
   bookData: any; // Book data from Google Books API
   fieldMapping: BookToNotionMapping;
   customValues?: Record<string, any>;
+  defaultValues?: Record<string, DefaultPropertyValue>; // Defaults to the saved settings; only used when creating pages
+  authorsDatabase?: AuthorsDatabaseSettings; // Defaults to the saved settings
+  coverImages?: CoverImageSettings; // Defaults to the saved settings
+  pageContent?: PageContentSettings; // Defaults to the saved settings; only used when creating pages
+  pageTemplate?: string; // Defaults to the saved settings; only used when creating pages
+}
+
+// Rich text and blocks as rendered by the backend, used for page template previews
+export interface NotionRichTextItem {
+  type: 'text';
+  text: { content: string; link?: { url: string } | null };
+  annotations?: {
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    strikethrough: boolean;
+    code: boolean;
+  };
+}
+
+export interface NotionBlock {
+  object: 'block';
+  type: string;
+  [blockType: string]: any;
 }
 
+// How a page found by the duplicate search relates to the book being added
+export type DuplicateMatchType = 'same-edition' | 'other-edition' | 'similar';
+
 export interface NotionBookSearchResult {
   id: string;
   url: string;
   title: string;
   isbn: string;
+  authors: string[];
   created_time: string;
-} 
\ No newline at end of file
+  score: number; // 0-100
+  matchType: DuplicateMatchType;
+  reasons: string[]; // E.g. "Same ISBN", "Similar title (82%)"
+}
+
+// 'duplicate' when a page is the same book (or another edition of it), 'possible-duplicate' when
+// the only matches are similar titles
+export type DuplicateStatus = 'unknown' | 'checking' | 'duplicate' | 'possible-duplicate' | 'unique';
+
+// Pages scoring at least this are treated as the same book
+export const LIKELY_DUPLICATE_SCORE = 85; 
\ No newline at end of file
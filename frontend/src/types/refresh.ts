@@ -0,0 +1,37 @@
+import { BookSearchResult } from './book';
+import { LibraryBook } from './library';
+
+// Book data a metadata refresh can fill in on existing pages
+export type RefreshField = 'thumbnail' | 'pageCount' | 'categories' | 'audiobook';
+
+export type RefreshItemStatus =
+  | 'pending'
+  | 'looking-up'
+  | 'proposed'
+  | 'no-changes'
+  | 'applying'
+  | 'applied'
+  | 'failed';
+
+export interface RefreshFieldChange {
+  field: RefreshField;
+  // Short description of the new value, for the review table
+  proposed: string;
+  // Empty on the page, or filled with a value the lookup disagrees with
+  reason: 'missing' | 'stale';
+  current?: string; // The page's value, for stale fields
+  approved: boolean;
+}
+
+export interface RefreshItem {
+  id: string;
+  book: LibraryBook;
+  missing: RefreshField[];
+  // Fields set on the page, compared with the lookup for outdated values
+  filled: RefreshField[];
+  status: RefreshItemStatus;
+  // The search result or audiobook data the proposed values come from
+  found?: BookSearchResult;
+  changes: RefreshFieldChange[];
+  error?: string;
+}
@@ -0,0 +1,132 @@
+import { decodeImageData, decodeScanline, isBooklandEan, isValidEan13 } from './barcodeDecoder';
+
+// Same tables as the decoder, written out so the tests do not share its mistakes
+const L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG',
+  'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL',
+];
+
+const WHITE = 255;
+const BLACK = 0;
+
+// Render an EAN-13 as a scanline: quiet zones, guards and digits, `moduleWidth` pixels per module
+const renderEan13 = (code: string, moduleWidth = 3): number[] => {
+  const modules: number[] = [];
+  // Alternating runs, the first one dark when `startDark`
+  const addRuns = (widths: number[], startDark: boolean) => {
+    widths.forEach((width, index) => {
+      const dark = index % 2 === 0 ? startDark : !startDark;
+      for (let i = 0; i < width; i++) modules.push(dark ? BLACK : WHITE);
+    });
+  };
+
+  const digits = code.split('').map(Number);
+  const parity = FIRST_DIGIT_PARITY[digits[0]];
+
+  addRuns([10], false);
+  addRuns([1, 1, 1], true);
+  digits.slice(1, 7).forEach((digit, index) => {
+    const widths = parity[index] === 'L' ? L_PATTERNS[digit] : [...L_PATTERNS[digit]].reverse();
+    addRuns(widths, false);
+  });
+  addRuns([1, 1, 1, 1, 1], false);
+  digits.slice(7).forEach(digit => addRuns(L_PATTERNS[digit], true));
+  addRuns([1, 1, 1], true);
+  addRuns([10], false);
+
+  return modules.flatMap(value => Array(moduleWidth).fill(value));
+};
+
+// RGBA image data repeating the scanline on every row
+const toImageData = (line: number[], height = 20): ImageData => {
+  const data = new Uint8ClampedArray(line.length * height * 4);
+  for (let y = 0; y < height; y++) {
+    line.forEach((value, x) => {
+      const p = (y * line.length + x) * 4;
+      data[p] = data[p + 1] = data[p + 2] = value;
+      data[p + 3] = 255;
+    });
+  }
+  return { data, width: line.length, height } as ImageData;
+};
+
+describe('isValidEan13', () => {
+  it('accepts codes with a correct check digit', () => {
+    expect(isValidEan13('9780306406157')).toBe(true);
+    expect(isValidEan13('4006381333931')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidEan13('9780306406158')).toBe(false);
+  });
+
+  it('rejects codes that are not 13 digits', () => {
+    expect(isValidEan13('978030640615')).toBe(false);
+    expect(isValidEan13('978030640615X')).toBe(false);
+    expect(isValidEan13('')).toBe(false);
+  });
+});
+
+describe('isBooklandEan', () => {
+  it('accepts 978 and 979 prefixes', () => {
+    expect(isBooklandEan('9780306406157')).toBe(true);
+    expect(isBooklandEan('9791034304004')).toBe(true);
+  });
+
+  it('rejects other products and invalid codes', () => {
+    expect(isBooklandEan('4006381333931')).toBe(false);
+    expect(isBooklandEan('9780306406158')).toBe(false);
+  });
+});
+
+describe('decodeScanline', () => {
+  it('decodes a rendered EAN-13', () => {
+    expect(decodeScanline(renderEan13('9780306406157'))).toBe('9780306406157');
+  });
+
+  it('decodes every first digit from the left-hand parity', () => {
+    expect(decodeScanline(renderEan13('4006381333931'))).toBe('4006381333931');
+    expect(decodeScanline(renderEan13('0012345678905'))).toBe('0012345678905');
+  });
+
+  it('decodes a barcode read upside down', () => {
+    expect(decodeScanline(renderEan13('9780306406157').reverse())).toBe('9780306406157');
+  });
+
+  it('decodes at one pixel per module', () => {
+    expect(decodeScanline(renderEan13('9780306406157', 1))).toBe('9780306406157');
+  });
+
+  it('rejects a barcode whose check digit does not match', () => {
+    expect(decodeScanline(renderEan13('9780306406158'))).toBeNull();
+  });
+
+  it('returns null for lines without a barcode', () => {
+    expect(decodeScanline(Array(300).fill(WHITE))).toBeNull();
+    expect(decodeScanline(Array.from({ length: 300 }, (_, i) => (i % 2 ? WHITE : BLACK)))).toBeNull();
+  });
+});
+
+describe('decodeImageData', () => {
+  it('returns the code and ISBN of a Bookland barcode', () => {
+    expect(decodeImageData(toImageData(renderEan13('9780306406157')))).toEqual({
+      code: '9780306406157',
+      isbn: '9780306406157'
+    });
+  });
+
+  it('returns no ISBN for other products', () => {
+    expect(decodeImageData(toImageData(renderEan13('4006381333931')))).toEqual({
+      code: '4006381333931',
+      isbn: null
+    });
+  });
+
+  it('returns null for a blank image', () => {
+    expect(decodeImageData(toImageData(Array(300).fill(WHITE)))).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+// Local EAN-13 / ISBN barcode decoder
+// Runs entirely in the browser (or Electron renderer) on canvas pixel data,
+// so scanning works offline and against fixture images without any service.
+
+export interface BarcodeResult {
+  code: string;      // Raw 13-digit EAN
+  isbn: string | null; // Same value when it is a Bookland (978/979) EAN, otherwise null
+}
+
+// Module widths for each digit, read in the direction of the barcode.
+// L-codes start with a space, R-codes with a bar, but share the same widths.
+const L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+
+// G-codes are the mirrored R-codes
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// Parity of the six left-hand digits (L/G) encodes the implicit first digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG',
+  'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL',
+];
+
+// guard (3) + 6 digits (24) + middle guard (5) + 6 digits (24) + guard (3)
+const EAN13_RUN_COUNT = 59;
+
+// Maximum summed module error accepted when matching a digit pattern
+const MAX_DIGIT_ERROR = 1.6;
+
+// Number of scanlines sampled in each direction
+const SCANLINES = 40;
+
+/**
+ * Validate the EAN-13 check digit
+ */
+export const isValidEan13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false;
+
+  const digits = code.split('').map(Number);
+  const sum = digits
+    .slice(0, 12)
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+/**
+ * Check whether an EAN-13 belongs to the Bookland prefixes used by ISBN-13
+ */
+export const isBooklandEan = (code: string): boolean => {
+  return isValidEan13(code) && (code.startsWith('978') || code.startsWith('979'));
+};
+
+// Convert a line of luminance values into alternating space/bar run lengths
+const toRuns = (line: Uint8ClampedArray | number[]): number[] => {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] < min) min = line[i];
+    if (line[i] > max) max = line[i];
+  }
+
+  // Not enough contrast to contain a barcode
+  if (max - min < 40) return [];
+
+  const threshold = (min + max) / 2;
+  // runs[0] is always a space (the leading quiet zone, possibly empty) so that
+  // bars land on odd indexes
+  const runs: number[] = line[0] < threshold ? [0] : [];
+  let isBar = line[0] < threshold;
+  let length = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const dark = line[i] < threshold;
+    if (dark === isBar) {
+      length++;
+    } else {
+      runs.push(length);
+      isBar = dark;
+      length = 1;
+    }
+  }
+  runs.push(length);
+
+  return runs;
+};
+
+// Find the digit whose pattern best matches four run widths
+const matchDigit = (widths: number[], patterns: number[][]): { digit: number; error: number } => {
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  let best = { digit: -1, error: Infinity };
+
+  patterns.forEach((pattern, digit) => {
+    const error = widths.reduce((sum, width, index) => sum + Math.abs((width * 7) / total - pattern[index]), 0);
+    if (error < best.error) {
+      best = { digit, error };
+    }
+  });
+
+  return best;
+};
+
+// Check that a group of runs are each close to a single module wide
+const isGuard = (widths: number[], moduleWidth: number): boolean => {
+  return widths.every(width => width >= moduleWidth * 0.5 && width <= moduleWidth * 1.8);
+};
+
+// Attempt to decode an EAN-13 that starts at a given bar run
+const decodeAt = (runs: number[], start: number): string | null => {
+  if (start + EAN13_RUN_COUNT > runs.length) return null;
+
+  const startGuard = runs.slice(start, start + 3);
+  const moduleWidth = startGuard.reduce((sum, width) => sum + width, 0) / 3;
+  if (!isGuard(startGuard, moduleWidth)) return null;
+
+  // Require a quiet zone before the start guard
+  if (runs[start - 1] < moduleWidth * 3) return null;
+
+  let parity = '';
+  let digits = '';
+  let offset = start + 3;
+
+  for (let i = 0; i < 6; i++) {
+    const widths = runs.slice(offset, offset + 4);
+    const l = matchDigit(widths, L_PATTERNS);
+    const g = matchDigit(widths, G_PATTERNS);
+    const best = l.error <= g.error ? l : g;
+    if (best.error > MAX_DIGIT_ERROR) return null;
+    parity += l.error <= g.error ? 'L' : 'G';
+    digits += best.digit;
+    offset += 4;
+  }
+
+  if (!isGuard(runs.slice(offset, offset + 5), moduleWidth)) return null;
+  offset += 5;
+
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(runs.slice(offset, offset + 4), L_PATTERNS);
+    if (match.error > MAX_DIGIT_ERROR) return null;
+    digits += match.digit;
+    offset += 4;
+  }
+
+  if (!isGuard(runs.slice(offset, offset + 3), moduleWidth)) return null;
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (firstDigit === -1) return null;
+
+  const code = `${firstDigit}${digits}`;
+  return isValidEan13(code) ? code : null;
+};
+
+/**
+ * Decode an EAN-13 from a single scanline of luminance values.
+ * The line is tried in both directions so upside-down barcodes still read.
+ */
+export const decodeScanline = (line: Uint8ClampedArray | number[]): string | null => {
+  const forward = Array.from(line);
+  const candidates = [forward, [...forward].reverse()];
+
+  for (const candidate of candidates) {
+    const runs = toRuns(candidate);
+    // Bars sit at odd indexes (index 0 is the leading quiet zone)
+    for (let start = 1; start + EAN13_RUN_COUNT <= runs.length; start += 2) {
+      const code = decodeAt(runs, start);
+      if (code) return code;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Decode an EAN-13 barcode from canvas image data by sampling horizontal
+ * and vertical scanlines. Returns the most frequently read code.
+ */
+export const decodeImageData = (imageData: ImageData): BarcodeResult | null => {
+  const { data, width, height } = imageData;
+
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    luminance[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+  }
+
+  const votes = new Map<string, number>();
+  const vote = (code: string | null) => {
+    if (code) votes.set(code, (votes.get(code) || 0) + 1);
+  };
+
+  // Horizontal scanlines
+  for (let i = 1; i <= SCANLINES; i++) {
+    const y = Math.floor((height * i) / (SCANLINES + 1));
+    vote(decodeScanline(luminance.subarray(y * width, (y + 1) * width)));
+  }
+
+  // Vertical scanlines catch barcodes photographed sideways
+  if (votes.size === 0) {
+    const column = new Uint8ClampedArray(height);
+    for (let i = 1; i <= SCANLINES; i++) {
+      const x = Math.floor((width * i) / (SCANLINES + 1));
+      for (let y = 0; y < height; y++) {
+        column[y] = luminance[y * width + x];
+      }
+      vote(decodeScanline(column));
+    }
+  }
+
+  if (votes.size === 0) return null;
+
+  const [code] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0];
+  return {
+    code,
+    isbn: isBooklandEan(code) ? code : null,
+  };
+};
+
+/**
+ * Draw an image source onto an offscreen canvas (downscaled if very large)
+ * and decode any EAN-13 barcode it contains.
+ */
+export const decodeFromImageSource = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  maxDimension = 1280
+): BarcodeResult | null => {
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+
+  const context = canvas.getContext('2d', { willReadFrequently: true } as CanvasRenderingContext2DSettings);
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeImageData(context.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+/**
+ * Decode an EAN-13 barcode from an uploaded image file
+ */
+export const decodeFromFile = (file: File): Promise<BarcodeResult | null> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      try {
+        resolve(decodeFromImageSource(image, image.naturalWidth, image.naturalHeight));
+      } catch (error) {
+        reject(error);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image file'));
+    };
+
+    image.src = url;
+  });
+};
@@ -0,0 +1,72 @@
+import { detectDelimiter, parseCsv, parseCsvWithHeaders } from './csvParser';
+
+describe('parseCsv', () => {
+  it('splits plain fields and lines', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCsv('"Herbert, Frank",Dune')).toEqual([['Herbert, Frank', 'Dune']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsv('"The ""Best"" Book",x')).toEqual([['The "Best" Book', 'x']]);
+  });
+
+  it('keeps newlines inside quoted fields', () => {
+    expect(parseCsv('"Line one\nLine two",b\nc,d')).toEqual([['Line one\nLine two', 'b'], ['c', 'd']]);
+  });
+
+  it('reads empty quoted fields and empty trailing fields', () => {
+    expect(parseCsv('"",a,')).toEqual([['', 'a', '']]);
+  });
+
+  it('treats quotes inside an unquoted field as text', () => {
+    expect(parseCsv('5" tall,b')).toEqual([['5" tall', 'b']]);
+  });
+
+  it('handles CRLF line endings, a trailing newline and blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFTitle,Author')).toEqual([['Title', 'Author']]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a\t"b\tc"\n1\t2', '\t')).toEqual([['a', 'b\tc'], ['1', '2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits the header line most', () => {
+    expect(detectDelimiter('Title,Author,ISBN\n')).toBe(',');
+    expect(detectDelimiter('Title\tAuthor\tISBN\n')).toBe('\t');
+    expect(detectDelimiter('Title;Author;ISBN\n')).toBe(';');
+  });
+
+  it('falls back to commas', () => {
+    expect(detectDelimiter('Title')).toBe(',');
+  });
+});
+
+describe('parseCsvWithHeaders', () => {
+  it('keys rows by the trimmed headers and trims values', () => {
+    expect(parseCsvWithHeaders(' Title , Author \n Dune ,"Herbert, Frank"')).toEqual({
+      headers: ['Title', 'Author'],
+      rows: [{ Title: 'Dune', Author: 'Herbert, Frank' }]
+    });
+  });
+
+  it('fills missing cells with empty strings', () => {
+    expect(parseCsvWithHeaders('Title,Author,ISBN\nDune').rows).toEqual([{ Title: 'Dune', Author: '', ISBN: '' }]);
+  });
+
+  it('detects the delimiter when none is given', () => {
+    expect(parseCsvWithHeaders('Title;Author\nDune;Frank Herbert').rows).toEqual([{ Title: 'Dune', Author: 'Frank Herbert' }]);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseCsvWithHeaders('')).toEqual({ headers: [], rows: [] });
+  });
+});
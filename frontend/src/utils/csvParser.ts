@@ -0,0 +1,95 @@
+// Minimal RFC 4180 style CSV/TSV parser used by the library importers.
+// Handles quoted fields, escaped quotes ("") and newlines inside quotes.
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Guess the delimiter from the header line (comma, tab or semicolon)
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', '\t', ';'];
+
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+/**
+ * Parse delimited text into an array of records (arrays of cell values)
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark if present
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the final record unless the file ended with a newline
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Parse delimited text with a header row into keyed records
+ */
+export const parseCsvWithHeaders = (text: string, delimiter?: string): ParsedCsv => {
+  const records = parseCsv(text, delimiter || detectDelimiter(text));
+  if (records.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers = records[0].map(header => header.trim());
+  const rows = records.slice(1).map(record => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (record[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { headers, rows };
+};
@@ -0,0 +1,81 @@
+// Placeholders offered by the page template editor. The backend resolves any field of the book
+// data (dotted paths reach nested values), so these are the useful ones rather than a whitelist.
+export interface PageTemplatePlaceholder {
+  path: string;
+  label: string;
+}
+
+export const PAGE_TEMPLATE_PLACEHOLDERS: Array<{ group: string; placeholders: PageTemplatePlaceholder[] }> = [
+  {
+    group: 'Book',
+    placeholders: [
+      { path: 'title', label: 'Title' },
+      { path: 'subtitle', label: 'Subtitle' },
+      { path: 'authors', label: 'Authors' },
+      { path: 'description', label: 'Description' },
+      { path: 'publisher', label: 'Publisher' },
+      { path: 'publishedDate', label: 'Published date' },
+      { path: 'originalPublishedDate', label: 'First published' },
+      { path: 'year', label: 'Year published' },
+      { path: 'isbn', label: 'ISBN (13, else 10)' },
+      { path: 'isbn13', label: 'ISBN-13' },
+      { path: 'isbn10', label: 'ISBN-10' },
+      { path: 'pageCount', label: 'Pages' },
+      { path: 'categories', label: 'Genres' },
+      { path: 'language', label: 'Language' },
+      { path: 'averageRating', label: 'Rating' },
+      { path: 'ratingsCount', label: 'Rating count' },
+      { path: 'series', label: 'Series' },
+      { path: 'seriesNumber', label: 'Series number' },
+      { path: 'copyright', label: 'Copyright' },
+      { path: 'thumbnail', label: 'Cover URL' },
+      { path: 'infoLink', label: 'Google Books link' },
+      { path: 'previewLink', label: 'Preview link' },
+      { path: 'buyLink', label: 'Buy link' },
+      { path: 'openLibraryKey', label: 'Open Library key' },
+      { path: 'source', label: 'Source' }
+    ]
+  },
+  {
+    group: 'Audiobook',
+    placeholders: [
+      { path: 'audiobook.title', label: 'Title' },
+      { path: 'audiobook.narrators', label: 'Narrators' },
+      { path: 'audiobook.duration', label: 'Duration' },
+      { path: 'audiobook.totalDurationHours', label: 'Hours' },
+      { path: 'audiobook.chapters', label: 'Chapter count' },
+      { path: 'audiobook.chapterList', label: 'Chapter titles' },
+      { path: 'audiobook.publisher', label: 'Publisher' },
+      { path: 'audiobook.publishedDate', label: 'Release date' },
+      { path: 'audiobook.summary', label: 'Summary' },
+      { path: 'audiobook.description', label: 'Description' },
+      { path: 'audiobook.rating', label: 'Rating' },
+      { path: 'audiobook.genres', label: 'Genres' },
+      { path: 'audiobook.series', label: 'Series' },
+      { path: 'audiobook.seriesPosition', label: 'Series position' },
+      { path: 'audiobook.asin', label: 'ASIN' },
+      { path: 'audiobook.audibleUrl', label: 'Audible link' }
+    ]
+  },
+  {
+    group: 'Other',
+    placeholders: [
+      { path: 'today', label: "Today's date" }
+    ]
+  }
+];
+
+export const EXAMPLE_PAGE_TEMPLATE = `## Summary
+{{description}}
+
+{{#if audiobook}}
+## Audiobook
+- Narrated by {{audiobook.narrators}}
+- Length: {{audiobook.duration}}
+{{/if}}
+
+## Notes
+- Started: {{today}}
+- [ ] Finished
+---
+> Added from [{{source}}]({{infoLink}})`;
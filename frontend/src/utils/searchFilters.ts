@@ -0,0 +1,122 @@
+import { SearchFilters, SearchFormat, SearchParams, SearchType } from '../types/book';
+
+export const LANGUAGE_OPTIONS: Array<{ code: string; label: string }> = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'sv', label: 'Swedish' },
+  { code: 'da', label: 'Danish' },
+  { code: 'no', label: 'Norwegian' },
+  { code: 'fi', label: 'Finnish' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ko', label: 'Korean' }
+];
+
+const SEARCH_TYPES: SearchType[] = ['general', 'title', 'author', 'isbn', 'subject'];
+const FORMATS: SearchFormat[] = ['print', 'ebook'];
+const NUMERIC_FILTERS = ['yearFrom', 'yearTo', 'minPages', 'maxPages'] as const;
+
+/**
+ * Number of filters that are set, for the collapsed panel badge
+ */
+export const countActiveFilters = (filters: SearchFilters): number =>
+  Object.values(filters).filter(value => value !== undefined && value !== '' && value !== false).length;
+
+/**
+ * Write filters to query parameters (shared by the API request and the page URL)
+ */
+export const appendSearchFilters = (params: URLSearchParams, filters: SearchFilters = {}): void => {
+  NUMERIC_FILTERS.forEach(key => {
+    const value = filters[key];
+    if (value !== undefined && Number.isFinite(value)) {
+      params.set(key, String(value));
+    }
+  });
+  if (filters.language) params.set('language', filters.language);
+  if (filters.format) params.set('format', filters.format);
+  if (filters.hasAudiobook) params.set('hasAudiobook', 'true');
+};
+
+/**
+ * Read filters back from query parameters, ignoring invalid values
+ */
+export const parseSearchFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+
+  NUMERIC_FILTERS.forEach(key => {
+    const value = parseInt(params.get(key) || '', 10);
+    if (Number.isFinite(value) && value > 0) {
+      filters[key] = value;
+    }
+  });
+
+  const language = params.get('language');
+  if (language) filters.language = language.toLowerCase();
+
+  const format = params.get('format') as SearchFormat | null;
+  if (format && FORMATS.includes(format)) filters.format = format;
+
+  if (params.get('hasAudiobook') === 'true') filters.hasAudiobook = true;
+
+  return filters;
+};
+
+/**
+ * Shareable URL query for a search
+ */
+export const searchParamsToQuery = (search: SearchParams): URLSearchParams => {
+  const params = new URLSearchParams({ q: search.query, type: search.type });
+  if (search.limit) params.set('limit', String(search.limit));
+  appendSearchFilters(params, search.filters);
+  return params;
+};
+
+/**
+ * Search described by a page URL, or null when it has no query
+ */
+export const queryToSearchParams = (params: URLSearchParams): SearchParams | null => {
+  const query = params.get('q')?.trim();
+  if (!query) return null;
+
+  const type = params.get('type') as SearchType | null;
+  const limit = parseInt(params.get('limit') || '', 10);
+
+  return {
+    query,
+    type: type && SEARCH_TYPES.includes(type) ? type : 'general',
+    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    filters: parseSearchFilters(params)
+  };
+};
+
+/**
+ * Short human-readable summary of active filters, e.g. "1990–2000 · English · Ebook"
+ */
+export const describeSearchFilters = (filters: SearchFilters = {}): string => {
+  const parts: string[] = [];
+
+  if (filters.yearFrom || filters.yearTo) {
+    parts.push(filters.yearFrom && filters.yearTo
+      ? `${filters.yearFrom}–${filters.yearTo}`
+      : filters.yearFrom ? `${filters.yearFrom} or later` : `${filters.yearTo} or earlier`);
+  }
+  if (filters.language) {
+    parts.push(LANGUAGE_OPTIONS.find(option => option.code === filters.language)?.label || filters.language);
+  }
+  if (filters.minPages || filters.maxPages) {
+    parts.push(filters.minPages && filters.maxPages
+      ? `${filters.minPages}–${filters.maxPages} pages`
+      : filters.minPages ? `${filters.minPages}+ pages` : `up to ${filters.maxPages} pages`);
+  }
+  if (filters.format) parts.push(filters.format === 'ebook' ? 'Ebook' : 'Print');
+  if (filters.hasAudiobook) parts.push('Has audiobook');
+
+  return parts.join(' · ');
+};
@@ -0,0 +1,43 @@
+import { BookSearchResult } from '../types/book';
+
+// Mirrors the backend's title normalization closely enough to spot the same book on another page
+const normalizeTitle = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/^(the|a|an)\s+/, '')
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const getBookKeys = (book: BookSearchResult): string[] => {
+  const keys = [`id:${book.id}`];
+  if (book.isbn13) keys.push(`isbn:${book.isbn13}`);
+  if (book.isbn10) keys.push(`isbn:${book.isbn10}`);
+  if (book.openLibraryKey) keys.push(`ol:${book.openLibraryKey}`);
+  if (book.title) {
+    keys.push(`title:${normalizeTitle(book.title)}|${(book.authors?.[0] || '').toLowerCase().trim()}`);
+  }
+  return keys;
+};
+
+/**
+ * Append a new page of search results, dropping books already shown on earlier pages.
+ * Providers page independently, so the same book can resurface once merged results shift.
+ */
+export const appendSearchPage = (
+  existing: BookSearchResult[],
+  incoming: BookSearchResult[]
+): BookSearchResult[] => {
+  const seen = new Set(existing.flatMap(getBookKeys));
+  const additions: BookSearchResult[] = [];
+
+  incoming.forEach(book => {
+    const keys = getBookKeys(book);
+    if (keys.some(key => seen.has(key))) return;
+    keys.forEach(key => seen.add(key));
+    additions.push(book);
+  });
+
+  return [...existing, ...additions];
+};